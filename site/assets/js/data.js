@@ -454,6 +454,7 @@ const GATES = [
   },
 ];
 
+/* manual:site-data */
 const ENV_VARS = [
   // ── Feature Toggles ───────────────────────────────────────────────────
   {
@@ -1347,3 +1348,4 @@ const ICONS = {
     <path d="M14 17h12M14 23h8" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" opacity="0.5"/>
   </svg>`,
 };
+/* /manual:site-data */
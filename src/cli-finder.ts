@@ -31,7 +31,7 @@ function isValidCli(filePath: string): boolean {
  * For native binaries, the version is encoded in the filename
  * (e.g. ~/.local/share/claude/versions/2.1.34).
  */
-function getCliVersion(cliPath: string): string | undefined {
+export function getCliVersion(cliPath: string): string | undefined {
   // Check package.json (npm installs)
   try {
     const packageJsonPath = path.join(path.dirname(cliPath), 'package.json');
@@ -179,9 +179,12 @@ function getPossibleLocations(): string[] {
 }
 
 /**
- * Find the Claude Code CLI
+ * Find the Claude Code CLI.
+ *
+ * Checking for the tool-injection marker reads the whole file; pass
+ * `checkPatched: false` to skip it (`isPatched` is then false).
  */
-export function findCli(): CliLocation | null {
+export function findCli(options?: { checkPatched?: boolean }): CliLocation | null {
   const locations = getPossibleLocations();
   
   for (const loc of locations) {
@@ -189,7 +192,7 @@ export function findCli(): CliLocation | null {
       return {
         path: loc,
         version: getCliVersion(loc),
-        isPatched: isPatched(loc)
+        isPatched: options?.checkPatched === false ? false : isPatched(loc)
       };
     }
   }
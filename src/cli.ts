@@ -8,18 +8,64 @@
  *   claude-patcher gates              # List all detected gates
  *   claude-patcher gates enable swarm  # Enable a gate
  *   claude-patcher gates scan          # Scan for all tengu_* flags
+ *   claude-patcher gates lint          # Check gate definitions
+ *   claude-patcher env scan            # List every process.env variable read
+ *   claude-patcher diff <old> <new>    # Compare two Claude Code versions
+ *   claude-patcher docs generate       # Render the gate docs from the registry
+ *   claude-patcher verify              # Check the bundle against its pristine version
  */
 
+import * as fs from 'fs';
 import {
   detectAllGates,
-  detectPatchableGates,
   scanAllFlags,
   enableGate,
   disableGate,
+  forceOffGate,
+  setGateValue,
   enableAllGates,
   resetGates,
   getAllGates,
+  findGate,
+  addGatePackFile,
+  getGatePackErrors,
+  installOverridesHook,
+  uninstallOverridesHook,
+  getOverridesHookStatus,
+  readOverrides,
+  setOverride,
+  removeOverride,
+  discoverGates,
+  dependencyWarnings,
+  validateRegistry,
+  getBuiltinGates,
+  isPatchable,
+  showGateContext,
+  findFlagUsages,
+  locateBundle,
+  scanEnvVars,
+  diffEnvVars,
+  getEnvVarRegistry,
+  ENV_REGISTRY_VERSION,
+  diffBundles,
+  generateDocs,
+  verifyBundle,
+  recordFingerprint,
+  getFingerprintPath,
+  planPatch,
 } from './gates/index.js';
+import { findCli, getCliVersion } from './cli-finder.js';
+import type {
+  BundleDiff,
+  CodeContext,
+  EnvVarScan,
+  FlagAnalysis,
+  FlagRole,
+  GateChangeKind,
+  GateStatus,
+  IntegrityReport,
+  PatchPlanConfig,
+} from './types.js';
 
 const VERSION = '2.0.0';
 
@@ -37,12 +83,38 @@ function printHelp(): void {
   console.log('  gates              List all detected feature gates');
   console.log('  gates enable <n>   Enable a feature gate (e.g., swarm, team, oboe)');
   console.log('  gates enable --all Enable all patchable feature gates');
-  console.log('  gates disable <n>  Disable a feature gate');
+  console.log('  gates enable <n> --no-deps Refuse instead of enabling required gates');
+  console.log('  gates enable <n> --occurrence <i> Patch match i of a gate whose pattern matches several places');
+  console.log('  gates enable <n|--all> --dry-run Print the patch as a unified diff without writing it (also force-off)');
+  console.log('  gates disable <n>  Disable a feature gate (undo enable or force-off)');
+  console.log('  gates force-off <n> Force a gate off, even if it defaults to on');
+  console.log('  gates set <n> <json> Pin a data gate to a JSON value at every accessor call (--occurrence <i> for one)');
   console.log('  gates reset        Restore all gates to defaults from backup');
-  console.log('  gates scan         Scan binary for all tengu_* flags');
+  console.log('  gates show <n|flag> Show the code around a gate or flag, re-indented, with matches marked');
+  console.log('  gates scan         Scan binary for all tengu_* flags and classify unknown ones');
+  console.log('  gates scan --pack <f> Also write candidate gates for unknown flags to a JSON gate pack');
+  console.log('  gates flags [flag...] Every occurrence of each flag: role, offset, function, accessor, default');
+  console.log('  gates flags --role <r> Only flags with role gate, config, event or unknown');
+  console.log('  gates flags --json  The same as JSON');
+  console.log('  gates lint         Check built-in gates and gate packs for definition errors');
+  console.log('  gates hook [install|remove] Show, install or remove the runtime override hook');
+  console.log('  gates override     List runtime flag overrides');
+  console.log('  gates override <flag> <json|--unset> Override any tengu_* flag at runtime');
+  console.log('  env scan           Every process.env variable read, with type, gate and purpose');
+  console.log('  env scan <VAR...>  Each reference to the given variables, with the code around it');
+  console.log('  env scan --against <path> Report variables added or removed since another Claude Code install');
+  console.log('  env scan --json    The same as JSON');
+  console.log('  diff <old> <new>   Markdown report of flags, tiers, env vars and gate detection changed between two installs');
+  console.log('  diff <old> <new> --json The same as JSON');
+  console.log('  docs generate      Render docs/ and the site\'s gate explorer from the registry and a bundle scan');
+  console.log('  docs generate --check Exit 1 if the rendered files differ from the ones on disk');
+  console.log('  verify             Compare the bundle with its pristine version and list changed byte ranges');
+  console.log('  verify --record    Record the installed (unpatched) bundle as pristine for its version');
   console.log('');
   console.log('OPTIONS:');
   console.log('  --cli <path>       Path to Claude Code CLI (auto-detected)');
+  console.log('  --gates-file <f>   Load extra gate definitions from a JSON/YAML gate pack');
+  console.log('  --accessor <name>  Function to hook with "gates hook install" (auto-detected)');
   console.log('  --help, -h         Show this help');
   console.log('  --version, -v      Show version');
   console.log('');
@@ -50,84 +122,466 @@ function printHelp(): void {
   console.log('  claude-patcher gates');
   console.log('  claude-patcher gates enable swarm');
   console.log('  claude-patcher gates enable --all');
+  console.log('  claude-patcher gates enable swarm --dry-run');
+  console.log('  claude-patcher gates force-off amber-flint');
+  console.log('  claude-patcher gates set crystal-beam \'{"budget":32000}\'');
+  console.log('  claude-patcher gates show amber-flint');
   console.log('  claude-patcher gates scan');
+  console.log('  claude-patcher gates scan --pack ./discovered.json');
+  console.log('  claude-patcher gates flags --role gate');
+  console.log('  claude-patcher gates hook install');
+  console.log('  claude-patcher gates override tengu_amber_quartz true');
+  console.log('  claude-patcher env scan CLAUDE_CODE_DISABLE_AUTO_MEMORY');
+  console.log('  claude-patcher env scan --against ~/.local/share/claude/versions/2.1.63');
+  console.log('  claude-patcher diff ~/.local/share/claude/versions/2.1.63 ~/.local/share/claude/versions/2.1.70 > report.md');
+  console.log('  claude-patcher docs generate --out ./claude-code-patcher');
+  console.log('  claude-patcher verify --json');
+  console.log('  claude-patcher gates --gates-file ./fixes.yaml');
+  console.log('  claude-patcher gates lint --gates-file ./fixes.yaml');
   console.log('');
+  console.log('Gate packs in ~/.config/claude-patcher/gates.d/ are loaded automatically.');
+  console.log('');
+}
+
+function truncate(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, width - 1)}…` : text;
 }
 
-function printGateTable(): void {
-  const gates = detectAllGates();
+function printGateTable(cliPath?: string): void {
+  const gates = detectAllGates(cliPath);
 
   if (gates.length === 0) {
     console.log('No gates detected. Is Claude Code installed?');
     return;
   }
 
-  console.log('Feature Gates:');
+  const version = cliPath ? getCliVersion(cliPath) : findCli({ checkPatched: false })?.version;
+  console.log(version ? `Feature Gates (Claude Code ${version}):` : 'Feature Gates:');
   console.log('');
-  console.log('  Status   | Codename              | Flag Name                          | Env Override');
-  console.log('  ---------+-----------------------+------------------------------------+-----------------------------------');
+  console.log(
+    '  Effective | Codename                   | Flag Name                              | Default | Server  | Patched | Env Override'
+  );
+  console.log(
+    '  ----------+----------------------------+----------------------------------------+---------+---------+---------+-------------------------------------'
+  );
 
   for (const gate of gates) {
-    const status = !gate.detected
-      ? '  -- n/a  '
-      : gate.enabled
-        ? '  ** on   '
-        : '     off  ';
-    const codename = gate.codename.padEnd(21);
-    const name = gate.name.padEnd(34);
-    const env = gate.envOverride || '';
-    console.log(`${status} | ${codename} | ${name} | ${env}`);
+    const effective = (gate.detected ? (gate.effective ?? 'unknown') : 'n/a').padEnd(9);
+    const codename = gate.codename.padEnd(26);
+    const name = gate.name.padEnd(38);
+    const defaultValue = truncate(gate.defaultValue ?? '', 7).padEnd(7);
+    const serverValue = truncate(gate.serverValue ?? '', 7).padEnd(7);
+    const patched = (
+      gate.forcedOff ? 'off' : gate.enabled ? 'on' : gate.value !== undefined ? 'set' : ''
+    ).padEnd(7);
+    const env = gate.envOverride ? `${gate.envOverride}${gate.envSet ? '=set' : ''}` : '';
+    const ambiguous = !gate.patched && (gate.matchOffsets?.length ?? 0) > (gate.copies ?? 1);
+    const note = gate.unavailableReason
+      ? gate.unavailableReason
+      : [
+          gate.effectiveReason,
+          gate.value ? `= ${gate.value}` : undefined,
+          ambiguous ? `ambiguous: matches at offsets ${gate.matchOffsets?.join(', ')}` : undefined,
+        ]
+          .filter(Boolean)
+          .join('; ');
+    const row = `  ${effective} | ${codename} | ${name} | ${defaultValue} | ${serverValue} | ${patched} | ${env.padEnd(35)}`;
+    console.log(note ? `${row}  (${note})` : row.trimEnd());
   }
 
   console.log('');
+  console.log('  Effective = what Claude Code sees: our patch, then the env override, then the');
+  console.log('  server value Claude Code last cached from Statsig, then the compiled default');
+  if (!gates.some((g) => g.serverValue !== undefined)) {
+    console.log('  (no cached Statsig values found; run Claude Code once while signed in)');
+  }
+  console.log('');
+  if (gates.some((g) => g.forcedOff)) {
+    console.log('  Patched off = forced off by claude-patcher (undo with "gates disable")');
+    console.log('');
+  }
+  if (gates.some((g) => g.value !== undefined)) {
+    console.log('  Patched set = value pinned with "gates set" (undo with "gates disable")');
+    console.log('');
+  }
 
-  const patchable = detectPatchableGates().filter((g) => g.detected);
+  const warnings = dependencyWarnings(gates);
+  if (warnings.length > 0) {
+    console.log('Warnings:');
+    for (const warning of warnings) {
+      console.log(`  ! ${warning}`);
+    }
+    console.log('');
+  }
+
+  const patchable = gates.filter((g) => g.detected && isPatchable(g.codename));
   console.log(`Patchable gates: ${patchable.length}`);
   console.log(`Total registered: ${getAllGates().length}`);
 }
 
-function printGateScan(): void {
-  const flags = scanAllFlags();
+function describeFlag(analysis: FlagAnalysis): string {
+  const parts: string[] = [analysis.tier ? `${analysis.kind}, Tier ${analysis.tier}` : analysis.kind];
+  if (analysis.defaultValue !== undefined) parts.push(`default ${analysis.defaultValue}`);
+  if (analysis.kind === 'inline') {
+    parts.push(`${analysis.occurrences} call site${analysis.occurrences === 1 ? '' : 's'}`);
+  }
+  if (analysis.envVars) parts.push(`env ${analysis.envVars.join(', ')}`);
+  return parts.join('; ');
+}
+
+const FLAG_ROLES: FlagRole[] = ['gate', 'config', 'event', 'unknown'];
+
+function printFlagUsages(cliPath: string | undefined, args: string[]): void {
+  const roleIndex = args.indexOf('--role');
+  const role = roleIndex === -1 ? undefined : args[roleIndex + 1];
+  if (role !== undefined && !FLAG_ROLES.includes(role as FlagRole)) {
+    console.log(`--role expects one of: ${FLAG_ROLES.join(', ')}`);
+    process.exit(1);
+  }
+  const names = args.filter((a, i) => a.startsWith('tengu_') && args[i - 1] !== '--role');
+
+  const usages = findFlagUsages(cliPath).filter(
+    (u) => (!role || u.role === role) && (names.length === 0 || names.includes(u.flag))
+  );
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify(usages, null, 2));
+    return;
+  }
+  if (usages.length === 0) {
+    console.log('No matching tengu_* flags found. Is Claude Code installed?');
+    return;
+  }
+
+  console.log('  Flag                                     | Role    | Offset     | Function         | Accessor | Default');
+  console.log('  -----------------------------------------+---------+------------+------------------+----------+--------');
+  for (const usage of usages) {
+    const rows = usage.occurrences.length > 0 ? usage.occurrences : [undefined];
+    for (const occurrence of rows) {
+      const cells = [
+        usage.flag.padEnd(40),
+        (occurrence?.role ?? usage.role).padEnd(7),
+        String(occurrence?.offset ?? '(unquoted)').padEnd(10),
+        truncate(occurrence?.functionName ?? '', 16).padEnd(16),
+        truncate(occurrence?.callee ?? '', 8).padEnd(8),
+        truncate(occurrence?.defaultValue ?? '', 24),
+      ];
+      console.log(`  ${cells.join(' | ')}`.trimEnd());
+    }
+  }
+
+  console.log('');
+  console.log(`Flags: ${usages.length}`);
+  const counts = FLAG_ROLES.map((r) => `${r}: ${usages.filter((u) => u.role === r).length}`);
+  console.log(`  ${counts.join('  ')}`);
+}
+
+function printGateScan(cliPath?: string, packFile?: string): void {
+  const flags = scanAllFlags(cliPath);
 
   if (flags.length === 0) {
     console.log('No tengu_* flags found. Is Claude Code installed?');
     return;
   }
 
-  const registeredNames = new Set(getAllGates().map((g) => g.name));
+  const discovered = new Map(discoverGates(cliPath).map((a) => [a.flag, a]));
 
   console.log(`Found ${flags.length} tengu_* flags in binary:`);
   console.log('');
 
-  let unknownCount = 0;
   for (const flag of flags) {
-    const isKnown = registeredNames.has(flag);
-    const marker = isKnown ? '  +' : '  ?';
-    console.log(`${marker} ${flag}`);
-    if (!isKnown) unknownCount++;
+    const analysis = discovered.get(flag);
+    if (!analysis) {
+      console.log(`  + ${flag}`);
+    } else {
+      console.log(`  ? ${flag.padEnd(44)} ${describeFlag(analysis)}`);
+    }
   }
 
+  const byKind = new Map<string, number>();
+  for (const analysis of discovered.values()) {
+    byKind.set(analysis.kind, (byKind.get(analysis.kind) ?? 0) + 1);
+  }
   console.log('');
-  console.log(`Known: ${flags.length - unknownCount}  Unknown: ${unknownCount}`);
+  console.log(`Known: ${flags.length - discovered.size}  Unknown: ${discovered.size}`);
+  if (byKind.size > 0) {
+    console.log(`  ${[...byKind.entries()].map(([kind, n]) => `${kind}: ${n}`).join('  ')}`);
+  }
+
+  if (packFile) {
+    const candidates = [...discovered.values()].flatMap((a) => (a.candidate ? [a.candidate] : []));
+    try {
+      fs.writeFileSync(
+        packFile,
+        JSON.stringify({ name: 'discovered', gates: candidates }, null, 2) + '\n'
+      );
+    } catch (err) {
+      console.log(`Could not write ${packFile}: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+    console.log('');
+    console.log(`Wrote ${candidates.length} candidate gates to ${packFile}`);
+    console.log(`Review them, then load with: claude-patcher gates --gates-file ${packFile}`);
+  }
 }
 
-function runGates(args: string[]): void {
-  const subCommand = args[0];
+function printOverridesHookStatus(cliPath?: string): void {
+  const status = getOverridesHookStatus(cliPath);
+  if (!status) {
+    console.log('Could not find Claude Code CLI. Is Claude Code installed?');
+    return;
+  }
+
+  if (status.installed) {
+    console.log(`Override hook: installed${status.accessor ? ` (accessor ${status.accessor})` : ''}`);
+  } else {
+    console.log('Override hook: not installed');
+    if (status.accessor) console.log(`  Accessor found: ${status.accessor}`);
+  }
+  console.log(`Overrides file: ${status.overridesPath}`);
+  console.log(`Overrides: ${Object.keys(readOverrides(status.overridesPath)).length}`);
+}
+
+function printOverrides(cliPath?: string): void {
+  const overrides = readOverrides();
+  const flags = Object.keys(overrides).sort();
+  if (flags.length === 0) {
+    console.log('No runtime overrides set.');
+  } else {
+    console.log('Runtime overrides:');
+    for (const flag of flags) {
+      console.log(`  ${flag.padEnd(40)} = ${JSON.stringify(overrides[flag])}`);
+    }
+  }
+  if (!getOverridesHookStatus(cliPath)?.installed) {
+    console.log('');
+    console.log('The override hook is not installed; run "gates hook install" to apply overrides.');
+  }
+}
+
+function callSiteNote(gate: { callSites?: number; copies?: number }): string {
+  const parts = [
+    gate.callSites !== undefined ? `${gate.callSites} call site${gate.callSites === 1 ? '' : 's'}` : undefined,
+    gate.copies !== undefined ? `${gate.copies} embedded copies` : undefined,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+/**
+ * List the gates a bulk enable left alone: ambiguous ones, ones forced
+ * off or set to a value, and (in binaries) ones whose match overlaps
+ * another gate's patch. Returns whether any ambiguous gates were listed.
+ */
+function printSkippedGates(gates: GateStatus[], heading: string): boolean {
+  const skipped = gates.filter((g) => !g.enabled);
+  const ambiguous = skipped.filter((g) => g.matchOffsets && !g.overlapsWith);
+  const overlapping = skipped.filter((g) => g.overlapsWith);
+  const patched = skipped.filter((g) => g.forcedOff || g.value !== undefined);
+  if (patched.length > 0) {
+    console.log(`${heading} (forced off or set to a value; "gates disable" them first):`);
+    for (const g of patched) {
+      console.log(`  ${g.codename} (${g.name}) — ${g.forcedOff ? 'forced off' : `set to ${g.value}`}`);
+    }
+  }
+  if (ambiguous.length > 0) {
+    console.log(`${heading} (pattern matches more than one place):`);
+    for (const g of ambiguous) {
+      console.log(`  ${g.codename} (${g.name}) at offsets ${g.matchOffsets?.join(', ')}`);
+    }
+  }
+  if (overlapping.length > 0) {
+    console.log(`${heading} (overlaps another gate's patch):`);
+    for (const g of overlapping) {
+      console.log(`  ${g.codename} (${g.name}) at offsets ${g.matchOffsets?.join(', ')}, patched by ${g.overlapsWith}`);
+    }
+  }
+  return ambiguous.length > 0;
+}
+
+function runGateLint(): void {
+  const issues = validateRegistry();
+  const errors = issues.filter((i) => i.severity === 'error').length;
+
+  const bySource = new Map<string, typeof issues>();
+  for (const issue of issues) {
+    bySource.set(issue.source, [...(bySource.get(issue.source) ?? []), issue]);
+  }
+  for (const [source, sourceIssues] of bySource) {
+    console.log(source);
+    for (const issue of sourceIssues) {
+      const where = issue.codename ? `${issue.codename}: ` : '';
+      console.log(`  ${issue.severity}: ${where}${issue.message}`);
+    }
+    console.log('');
+  }
+
+  const warnings = issues.length - errors;
+  console.log(
+    `Checked ${getBuiltinGates().length} built-in gates and the loaded gate packs: ` +
+      `${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}`
+  );
+  if (errors > 0) process.exit(1);
+}
+
+function parseOccurrence(args: string[]): number | undefined {
+  const index = args.indexOf('--occurrence');
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value || !/^\d+$/.test(value)) {
+    console.log('--occurrence expects a match index (0, 1, ...). Run "gates" to see the matches.');
+    process.exit(1);
+  }
+  return Number(value);
+}
+
+/**
+ * `--dry-run`: print the diff a patch would make instead of making it.
+ */
+function printPatchPlan(target: string | undefined, config: PatchPlanConfig, json: boolean): void {
+  const plan = planPatch(target, config);
+  if (json) {
+    console.log(JSON.stringify(plan, null, 2));
+    if (!plan.success || plan.lengthsMatch === false) process.exit(1);
+    return;
+  }
+  if (!plan.success) {
+    console.log('Dry run failed:', plan.error);
+    process.exit(1);
+  }
+
+  const kind = plan.isBinary ? 'native binary' : 'JS bundle';
+  console.log(`Dry run for ${plan.path} (${plan.version ? `v${plan.version} ` : ''}${kind}) — nothing written`);
+  console.log('');
+  if (plan.changes.length === 0) {
+    console.log('Nothing to change: the gates are already in the requested state.');
+  } else {
+    process.stdout.write(plan.diff);
+    console.log('');
+    const gates = new Set(plan.changes.map((c) => c.codename)).size;
+    console.log(
+      `${plan.changes.length} replacement${plan.changes.length === 1 ? '' : 's'} in ` +
+        `${gates} gate${gates === 1 ? '' : 's'}`
+    );
+  }
+
+  printSkippedGates(plan.gatesChanged, 'Would skip');
+
+  if (plan.lengthsMatch === false) {
+    console.log('Byte length check failed — these replacements would shift the binary:');
+    for (const c of plan.changes.filter((c) => c.originalBytes !== c.replacementBytes)) {
+      console.log(`  ${c.codename} at ${c.offset}: ${c.originalBytes} → ${c.replacementBytes} bytes`);
+    }
+    process.exit(1);
+  }
+  if (plan.lengthsMatch) {
+    console.log('Byte length check passed: every replacement keeps the original length.');
+  }
+}
+
+/**
+ * Mark highlighted ranges: reverse video on a terminal, «» otherwise.
+ */
+function highlightCode(code: string, highlights: CodeContext['highlights']): string {
+  const [open, close] = process.stdout.isTTY ? ['\x1b[7m', '\x1b[27m'] : ['«', '»'];
+  let out = '';
+  let at = 0;
+  for (const { start, end } of [...highlights].sort((a, b) => a.start - b.start)) {
+    if (start < at) continue;
+    out += code.slice(at, start) + open + code.slice(start, end) + close;
+    at = end;
+  }
+  return out + code.slice(at);
+}
+
+function printGateContext(target: string, cliPath?: string): void {
+  const result = showGateContext(target, cliPath);
+  if (result.error) {
+    console.log(result.error);
+    process.exit(1);
+  }
+
+  const label = result.codename ? `${result.flag} (${result.codename})` : result.flag;
+  if (result.contexts.length === 0) {
+    console.log(`${label} does not occur in the installed bundle.`);
+    return;
+  }
+
+  const occurrences = result.contexts.reduce((n, c) => n + c.highlights.length, 0);
+  console.log(
+    `${label}: ${occurrences} occurrence${occurrences === 1 ? '' : 's'} ` +
+      `in ${result.contexts.length} place${result.contexts.length === 1 ? '' : 's'}`
+  );
+  for (const context of result.contexts) {
+    const where = context.partial
+      ? 'no enclosing function found'
+      : context.functionName
+        ? `function ${context.functionName}`
+        : 'anonymous function';
+    console.log('');
+    console.log(`── offset ${context.offset} (${where}, ${context.end - context.start} bytes) ──`);
+    console.log(highlightCode(context.code, context.highlights));
+  }
+}
+
+function printGatePackErrors(log: (message: string) => void = console.log): void {
+  const errors = getGatePackErrors();
+  if (errors.length === 0) return;
+
+  log('Gate pack errors (invalid entries were skipped):');
+  for (const pack of errors) {
+    log(`  ${pack.source}`);
+    for (const message of pack.messages) {
+      log(`    - ${message}`);
+    }
+  }
+  log('');
+}
+
+function runGates(rawArgs: string[]): void {
   let cliPath: string | undefined;
+  const args: string[] = [];
 
-  for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--cli' && args[i + 1]) {
-      cliPath = args[++i];
+  for (let i = 0; i < rawArgs.length; i++) {
+    if (rawArgs[i] === '--cli' && rawArgs[i + 1]) {
+      cliPath = rawArgs[++i];
+    } else if (rawArgs[i] === '--gates-file' && rawArgs[i + 1]) {
+      addGatePackFile(rawArgs[++i]);
+    } else {
+      args.push(rawArgs[i]);
     }
   }
 
+  const subCommand = args[0];
+  if (subCommand === 'lint') {
+    runGateLint();
+    return;
+  }
+
+  // Keep stdout parseable for --json
+  const json = args.includes('--json');
+  printGatePackErrors(json ? console.error : console.log);
+
+  // enable and force-off print the patch they would make with --dry-run
+  const dryRun = args.includes('--dry-run');
+  const patchArgs = args.filter((arg) => arg !== '--dry-run' && arg !== '--json');
+
   if (!subCommand || subCommand === 'list') {
-    printGateTable();
+    printGateTable(cliPath);
     return;
   }
 
   if (subCommand === 'scan') {
-    printGateScan();
+    const packIndex = args.indexOf('--pack');
+    if (packIndex !== -1 && !args[packIndex + 1]) {
+      console.log('Usage: claude-patcher gates scan --pack <file.json>');
+      process.exit(1);
+    }
+    printGateScan(cliPath, packIndex === -1 ? undefined : args[packIndex + 1]);
+    return;
+  }
+
+  if (subCommand === 'flags') {
+    printFlagUsages(cliPath, args.slice(1));
     return;
   }
 
@@ -143,9 +597,13 @@ function runGates(args: string[]): void {
   }
 
   if (subCommand === 'enable') {
-    const target = args[1];
+    const target = patchArgs[1];
 
     if (target === '--all') {
+      if (dryRun) {
+        printPatchPlan(undefined, { cliPath }, json);
+        return;
+      }
       console.log('Enabling all patchable gates...');
       const result = enableAllGates({ cliPath });
       if (!result.success) {
@@ -153,8 +611,11 @@ function runGates(args: string[]): void {
         process.exit(1);
       }
       console.log('Gates enabled:');
-      for (const g of result.gatesChanged) {
-        console.log(`  ${g.codename} (${g.name})`);
+      for (const g of result.gatesChanged.filter((g) => g.enabled)) {
+        console.log(`  ${g.codename} (${g.name})${callSiteNote(g)}`);
+      }
+      if (printSkippedGates(result.gatesChanged, 'Skipped')) {
+        console.log('Enable these one at a time with: claude-patcher gates enable <n> --occurrence <i>');
       }
       if (result.backupPath) {
         console.log('Backup:', result.backupPath);
@@ -168,14 +629,25 @@ function runGates(args: string[]): void {
       process.exit(1);
     }
 
+    const options = {
+      cliPath,
+      resolveDependencies: !args.includes('--no-deps'),
+      occurrence: parseOccurrence(args),
+    };
+    if (dryRun) {
+      printPatchPlan(target, options, json);
+      return;
+    }
+
     console.log(`Enabling gate: ${target}...`);
-    const result = enableGate(target, { cliPath });
+    const result = enableGate(target, options);
     if (!result.success) {
       console.log('Enable failed:', result.error);
       process.exit(1);
     }
     for (const g of result.gatesChanged) {
-      console.log(`${g.codename} (${g.name}) — enabled`);
+      const requiredBy = g.requiredBy ? ` (required by ${g.requiredBy})` : '';
+      console.log(`${g.codename} (${g.name}) — enabled${callSiteNote(g)}${requiredBy}`);
     }
     if (result.backupPath) {
       console.log('Backup:', result.backupPath);
@@ -183,6 +655,16 @@ function runGates(args: string[]): void {
     return;
   }
 
+  if (subCommand === 'show') {
+    const target = args[1];
+    if (!target || target.startsWith('-')) {
+      console.log('Usage: claude-patcher gates show <gate-name|tengu_flag>');
+      process.exit(1);
+    }
+    printGateContext(target, cliPath);
+    return;
+  }
+
   if (subCommand === 'disable') {
     const target = args[1];
     if (!target || target.startsWith('-')) {
@@ -202,12 +684,516 @@ function runGates(args: string[]): void {
     return;
   }
 
+  if (subCommand === 'force-off') {
+    const target = patchArgs[1];
+    if (!target || target.startsWith('-')) {
+      console.log('Usage: claude-patcher gates force-off <gate-name>');
+      process.exit(1);
+    }
+
+    const options = { cliPath, occurrence: parseOccurrence(args) };
+    if (dryRun) {
+      printPatchPlan(target, { ...options, mode: 'force-off' }, json);
+      return;
+    }
+
+    console.log(`Forcing gate off: ${target}...`);
+    const result = forceOffGate(target, options);
+    if (!result.success) {
+      console.log('Force-off failed:', result.error);
+      process.exit(1);
+    }
+    for (const g of result.gatesChanged) {
+      console.log(`${g.codename} (${g.name}) — forced off${callSiteNote(g)}`);
+    }
+    if (result.backupPath) {
+      console.log('Backup:', result.backupPath);
+    }
+    return;
+  }
+
+  if (subCommand === 'set') {
+    const target = args[1];
+    const rawValue = args[2];
+    if (!target || target.startsWith('-') || rawValue === undefined) {
+      console.log('Usage: claude-patcher gates set <gate-name> <json-value>');
+      process.exit(1);
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(rawValue);
+    } catch (err) {
+      console.log(`Invalid JSON value: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+
+    console.log(`Setting gate value: ${target}...`);
+    const result = setGateValue(target, value, { cliPath, occurrence: parseOccurrence(args) });
+    if (!result.success) {
+      console.log('Set failed:', result.error);
+      process.exit(1);
+    }
+    for (const g of result.gatesChanged) {
+      console.log(`${g.codename} (${g.name}) — set to ${g.value}${callSiteNote(g)}`);
+    }
+    if (result.backupPath) {
+      console.log('Backup:', result.backupPath);
+    }
+    return;
+  }
+
+  if (subCommand === 'hook') {
+    const action = args[1];
+    if (!action) {
+      printOverridesHookStatus(cliPath);
+      return;
+    }
+
+    if (action === 'install') {
+      const accessorIndex = args.indexOf('--accessor');
+      const accessor = accessorIndex === -1 ? undefined : args[accessorIndex + 1];
+      console.log('Installing runtime override hook...');
+      const result = installOverridesHook({ cliPath, accessor });
+      if (!result.success) {
+        console.log('Install failed:', result.error);
+        process.exit(1);
+      }
+      printOverridesHookStatus(cliPath);
+      if (result.backupPath) {
+        console.log('Backup:', result.backupPath);
+      }
+      return;
+    }
+
+    if (action === 'remove') {
+      console.log('Removing runtime override hook...');
+      const result = uninstallOverridesHook({ cliPath });
+      if (!result.success) {
+        console.log('Remove failed:', result.error);
+        process.exit(1);
+      }
+      console.log('Override hook removed (the overrides file was kept).');
+      return;
+    }
+
+    console.log('Usage: claude-patcher gates hook [install [--accessor <name>]|remove]');
+    process.exit(1);
+  }
+
+  if (subCommand === 'override') {
+    const target = args[1];
+    const rawValue = args[2];
+    if (!target) {
+      printOverrides(cliPath);
+      return;
+    }
+    if (target.startsWith('-') || rawValue === undefined) {
+      console.log('Usage: claude-patcher gates override <flag> <json-value>');
+      console.log('       claude-patcher gates override <flag> --unset');
+      process.exit(1);
+    }
+
+    // Accept codenames of registered gates as well as raw flag names
+    const flag = target.startsWith('tengu_') ? target : findGate(target)?.name;
+    if (!flag) {
+      console.log(`Unknown flag: "${target}". Use a tengu_* flag name or a gate codename.`);
+      process.exit(1);
+    }
+
+    if (rawValue === '--unset') {
+      const result = removeOverride(flag);
+      if (!result.success) {
+        console.log('Override failed:', result.error);
+        process.exit(1);
+      }
+      console.log(`${flag} — override removed`);
+      return;
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(rawValue);
+    } catch (err) {
+      console.log(`Invalid JSON value: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+
+    const flags = scanAllFlags(cliPath);
+    if (flags.length > 0 && !flags.includes(flag)) {
+      console.log(`Warning: ${flag} does not appear in this version of Claude Code.`);
+    }
+
+    const result = setOverride(flag, value);
+    if (!result.success) {
+      console.log('Override failed:', result.error);
+      process.exit(1);
+    }
+    console.log(`${flag} — overridden to ${JSON.stringify(value)}`);
+    if (!getOverridesHookStatus(cliPath)?.installed) {
+      console.log('The override hook is not installed; run "gates hook install" to apply it.');
+    }
+    return;
+  }
+
   console.log(`Unknown subcommand: ${subCommand}`);
   console.log('');
-  console.log('Available: gates, gates enable, gates disable, gates reset, gates scan');
+  console.log(
+    'Available: gates, gates enable, gates disable, gates force-off, gates set, gates reset, gates scan, ' +
+      'gates show, gates flags, gates hook, gates override, gates lint'
+  );
+  process.exit(1);
+}
+
+/**
+ * Print a name list wrapped to the terminal, indented by two spaces.
+ */
+function printNames(names: string[]): void {
+  const width = Math.max(40, (process.stdout.columns ?? 100) - 4);
+  let line = '';
+  for (const name of names) {
+    if (line && line.length + name.length + 2 > width) {
+      console.log(`  ${line},`);
+      line = '';
+    }
+    line = line ? `${line}, ${name}` : name;
+  }
+  if (line) console.log(`  ${line}`);
+}
+
+function printEnvReferences(vars: EnvVarScan[]): void {
+  for (const scan of vars) {
+    const described = scan.info ? ` — ${scan.info.purpose}` : ' (not in registry)';
+    console.log(`${scan.name} (${scan.info?.type ?? scan.type})${described}`);
+    if (scan.info?.gate) console.log(`  Overrides gate: ${scan.info.gate}`);
+    for (const ref of scan.references) {
+      const where = [ref.usage, ref.functionName && `in ${ref.functionName}`, ref.callee && `via ${ref.callee}`]
+        .filter(Boolean)
+        .join(', ');
+      console.log(`  @${ref.offset}  ${where}`);
+      console.log(`    ${ref.snippet}`);
+    }
+    console.log('');
+  }
+}
+
+function printEnvScan(cliPath: string | undefined, args: string[]): void {
+  const againstIndex = args.indexOf('--against');
+  const againstPath = againstIndex === -1 ? undefined : args[againstIndex + 1];
+  if (againstIndex !== -1 && !againstPath) {
+    console.log('Usage: claude-patcher env scan --against <old-cli-path>');
+    process.exit(1);
+  }
+  const names = args.slice(1).filter((a, i) => !a.startsWith('--') && args[i] !== '--against');
+
+  const vars = scanEnvVars(cliPath);
+  if (vars.length === 0) {
+    console.log('No process.env references found. Is Claude Code installed?');
+    process.exit(1);
+  }
+  const version = locateBundle(cliPath)?.version;
+
+  let baseline: string[];
+  let baselineLabel: string;
+  if (againstPath) {
+    const previous = scanEnvVars(againstPath);
+    if (previous.length === 0) {
+      console.log(`No process.env references found in ${againstPath}`);
+      process.exit(1);
+    }
+    baseline = previous.map((v) => v.name);
+    const previousVersion = locateBundle(againstPath)?.version;
+    baselineLabel = previousVersion ? `v${previousVersion}` : againstPath;
+  } else {
+    baseline = getEnvVarRegistry().map((v) => v.name);
+    baselineLabel = `the v${ENV_REGISTRY_VERSION} registry`;
+  }
+  const diff = diffEnvVars(baseline, vars.map((v) => v.name));
+  const selected = names.length > 0 ? vars.filter((v) => names.includes(v.name)) : vars;
+
+  if (args.includes('--json')) {
+    console.log(JSON.stringify({ version, against: baselineLabel, ...diff, variables: selected }, null, 2));
+    return;
+  }
+  if (names.length > 0) {
+    if (selected.length === 0) console.log(`Not read by this bundle: ${names.join(', ')}`);
+    printEnvReferences(selected);
+    return;
+  }
+
+  const added = new Set(diff.added);
+  console.log('  Variable                                         | Type    | Refs | Gate              | Purpose');
+  console.log('  -------------------------------------------------+---------+------+-------------------+--------');
+  for (const scan of vars) {
+    const cells = [
+      `${added.has(scan.name) ? '+' : ' '}${truncate(scan.name, 47).padEnd(47)}`,
+      (scan.info?.type ?? scan.type).padEnd(7),
+      String(scan.references.length).padStart(4),
+      truncate(scan.info?.gate ?? '', 17).padEnd(17),
+      scan.info?.purpose ?? '',
+    ];
+    console.log(`  ${cells.join(' | ')}`.trimEnd());
+  }
+
+  console.log('');
+  console.log(`Variables: ${vars.length} in Claude Code${version ? ` v${version}` : ''}`);
+  const references = vars.reduce((n, v) => n + v.references.length, 0);
+  console.log(`  ${references} references; ${vars.filter((v) => v.info).length} registered`);
+  if (diff.added.length > 0) {
+    console.log('');
+    console.log(`New since ${baselineLabel} (${diff.added.length}, marked +):`);
+    printNames(diff.added);
+  }
+  if (diff.removed.length > 0) {
+    console.log('');
+    console.log(`No longer read since ${baselineLabel} (${diff.removed.length}):`);
+    printNames(diff.removed);
+  }
+  console.log('');
+  console.log('Types without a registry entry are inferred from how the value is read.');
+}
+
+function runEnv(rawArgs: string[]): void {
+  let cliPath: string | undefined;
+  const args: string[] = [];
+
+  for (let i = 0; i < rawArgs.length; i++) {
+    if (rawArgs[i] === '--cli' && rawArgs[i + 1]) {
+      cliPath = rawArgs[++i];
+    } else {
+      args.push(rawArgs[i]);
+    }
+  }
+
+  if (args[0] === 'scan') {
+    printEnvScan(cliPath, args);
+    return;
+  }
+
+  console.log(args[0] ? `Unknown subcommand: ${args[0]}` : 'Usage: claude-patcher env scan [VAR...]');
+  console.log('');
+  console.log('Available: env scan');
   process.exit(1);
 }
 
+const GATE_CHANGES: Record<GateChangeKind, string> = {
+  'stopped-matching': 'pattern no longer matches',
+  'started-matching': 'pattern now matches',
+  'match-count': 'number of matches changed',
+  default: 'compiled default changed',
+  added: 'expected in new version only',
+  removed: 'expected in old version only',
+};
+
+function markdownNames(names: string[]): string {
+  return names.length > 0 ? names.map((name) => `\`${name}\``).join(', ') : 'none';
+}
+
+/**
+ * Print a bundle diff as a markdown report.
+ */
+function printBundleDiff(diff: BundleDiff): void {
+  const label = (side: BundleDiff['old']): string => (side.version ? `v${side.version}` : side.path);
+  console.log(`# Claude Code ${label(diff.old)} → ${label(diff.new)}`);
+  console.log('');
+  console.log(`- Old: \`${diff.old.path}\``);
+  console.log(`- New: \`${diff.new.path}\``);
+
+  console.log('');
+  console.log('## tengu_* flags');
+  console.log('');
+  console.log(`- Added (${diff.flags.added.length}): ${markdownNames(diff.flags.added)}`);
+  console.log(`- Removed (${diff.flags.removed.length}): ${markdownNames(diff.flags.removed)}`);
+
+  console.log('');
+  console.log('## Flag tier changes');
+  console.log('');
+  if (diff.tierChanges.length === 0) {
+    console.log('None.');
+  } else {
+    const kind = (name: string, tier?: number): string => (tier ? `${name} (Tier ${tier})` : name);
+    console.log('| Flag | Old | New |');
+    console.log('| --- | --- | --- |');
+    for (const change of diff.tierChanges) {
+      console.log(`| \`${change.flag}\` | ${kind(change.from, change.fromTier)} | ${kind(change.to, change.toTier)} |`);
+    }
+  }
+
+  console.log('');
+  console.log('## Environment variables');
+  console.log('');
+  console.log(`- Added (${diff.envVars.added.length}): ${markdownNames(diff.envVars.added)}`);
+  console.log(`- Removed (${diff.envVars.removed.length}): ${markdownNames(diff.envVars.removed)}`);
+
+  console.log('');
+  console.log('## Gate detection');
+  console.log('');
+  if (diff.gates.length === 0) {
+    console.log('No changes: every registered gate is detected the same way in both versions.');
+    return;
+  }
+  console.log('| Gate | Flag | Change | Old | New |');
+  console.log('| --- | --- | --- | --- | --- |');
+  for (const change of diff.gates) {
+    const cells = [change.codename, `\`${change.name}\``, GATE_CHANGES[change.kind], change.before ?? '', change.after ?? ''];
+    console.log(`| ${cells.join(' | ')} |`);
+  }
+}
+
+function runDiff(rawArgs: string[]): void {
+  const paths: string[] = [];
+  for (let i = 0; i < rawArgs.length; i++) {
+    if (rawArgs[i] === '--gates-file' && rawArgs[i + 1]) {
+      addGatePackFile(rawArgs[++i]);
+    } else if (!rawArgs[i].startsWith('--')) {
+      paths.push(rawArgs[i]);
+    }
+  }
+  if (paths.length !== 2) {
+    console.log('Usage: claude-patcher diff <old-cli-path> <new-cli-path> [--json]');
+    process.exit(1);
+  }
+
+  // stdout is the report, markdown or JSON
+  printGatePackErrors(console.error);
+
+  const diff = diffBundles(paths[0], paths[1]);
+  if (diff.error) {
+    console.error(diff.error);
+    process.exit(1);
+  }
+  if (rawArgs.includes('--json')) {
+    console.log(JSON.stringify(diff, null, 2));
+  } else {
+    printBundleDiff(diff);
+  }
+}
+
+function runDocs(rawArgs: string[]): void {
+  let cliPath: string | undefined;
+  let outDir = process.cwd();
+  const args: string[] = [];
+
+  for (let i = 0; i < rawArgs.length; i++) {
+    if (rawArgs[i] === '--cli' && rawArgs[i + 1]) {
+      cliPath = rawArgs[++i];
+    } else if (rawArgs[i] === '--out' && rawArgs[i + 1]) {
+      outDir = rawArgs[++i];
+    } else if (rawArgs[i] === '--gates-file' && rawArgs[i + 1]) {
+      addGatePackFile(rawArgs[++i]);
+    } else {
+      args.push(rawArgs[i]);
+    }
+  }
+
+  if (args[0] !== 'generate') {
+    console.log(args[0] ? `Unknown subcommand: ${args[0]}` : 'Usage: claude-patcher docs generate [--check]');
+    console.log('');
+    console.log('Available: docs generate');
+    process.exit(1);
+  }
+
+  printGatePackErrors();
+  const check = args.includes('--check');
+  const result = generateDocs(outDir, { cliPath, check });
+  if (result.error) {
+    console.log(result.error);
+    process.exit(1);
+  }
+
+  const changed = result.files.filter((file) => file.changed);
+  for (const file of result.files) {
+    const state = file.changed ? (check ? 'out of date' : 'written') : 'up to date';
+    console.log(`  ${file.path.padEnd(24)} ${state}`);
+  }
+  console.log('');
+  if (check && changed.length > 0) {
+    console.log(`  ${changed.length} file(s) out of date. Run "claude-patcher docs generate" to update them.`);
+    process.exit(1);
+  }
+  const source = result.version ? ` from Claude Code v${result.version}` : '';
+  console.log(check ? '  Docs are up to date.' : `  Rendered ${changed.length} file(s)${source}.`);
+}
+
+const REFERENCE_LABELS: Record<NonNullable<IntegrityReport['reference']>['kind'], string> = {
+  fingerprint: 'pristine fingerprint',
+  reconstructed: 'bundle with our patches undone (matches a pristine fingerprint)',
+  backup: 'backup',
+};
+
+/**
+ * Print an integrity report with one row per changed range.
+ */
+function printIntegrityReport(report: IntegrityReport): void {
+  const kind = report.isBinary ? 'native binary' : 'JS bundle';
+  console.log(`Bundle:   ${report.path} (${kind}${report.version ? `, v${report.version}` : ''})`);
+  console.log(`SHA-256:  ${report.sha256}`);
+  if (report.reference) {
+    const { reference } = report;
+    const backup = reference.path ? ` ${reference.path}${reference.verified ? '' : ' (unverified)'}` : '';
+    console.log(`Compared: ${REFERENCE_LABELS[reference.kind]}${backup}`);
+  }
+  console.log(`State:    ${report.state}`);
+  console.log(`          ${report.reason}`);
+
+  if (report.ranges.length > 0) {
+    console.log('');
+    console.log('  Offset     | Bytes  | Was    | Origin  | Gate                     | Flag');
+    console.log('  -----------+--------+--------+---------+--------------------------+-----');
+    for (const range of report.ranges) {
+      const cells = [
+        String(range.offset).padEnd(10),
+        String(range.length).padStart(6),
+        String(range.originalLength).padStart(6),
+        range.origin.padEnd(7),
+        truncate(range.codename ?? '', 24).padEnd(24),
+        range.flag ?? '',
+      ];
+      console.log(`  ${cells.join(' | ')}`.trimEnd());
+      console.log(`      - ${range.before}`);
+      console.log(`      + ${range.after}`);
+    }
+  }
+
+  if (report.ledgerMismatches.length > 0) {
+    console.log('');
+    console.log('Ledger entries that no longer match the binary:');
+    for (const mismatch of report.ledgerMismatches) {
+      const found = mismatch.found === 'original' ? 'original bytes are back' : 'overwritten by something else';
+      console.log(`  ${mismatch.codename} at offset ${mismatch.offset}: ${found}`);
+    }
+  }
+}
+
+function runVerify(rawArgs: string[]): void {
+  let cliPath: string | undefined;
+  for (let i = 0; i < rawArgs.length; i++) {
+    if (rawArgs[i] === '--cli' && rawArgs[i + 1]) cliPath = rawArgs[++i];
+  }
+
+  if (rawArgs.includes('--record')) {
+    const result = recordFingerprint(cliPath);
+    if (!result.success || !result.fingerprint) {
+      console.log('Record failed:', result.error);
+      process.exit(1);
+    }
+    console.log(`Recorded v${result.fingerprint.version} (${result.fingerprint.sha256}) in ${getFingerprintPath()}`);
+    return;
+  }
+
+  const report = verifyBundle(cliPath);
+  if (report.error) {
+    console.log(report.error);
+    process.exit(1);
+  }
+  if (rawArgs.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printIntegrityReport(report);
+  }
+  if (report.state === 'modified') process.exit(1);
+}
+
 function main(): void {
   const args = process.argv.slice(2);
   const command = args[0];
@@ -223,10 +1209,19 @@ function main(): void {
     return;
   }
 
-  printBanner();
+  // diff prints a markdown report that is meant to be redirected
+  if (!args.includes('--json') && command !== 'diff') printBanner();
 
   if (command === 'gates') {
     runGates(args.slice(1));
+  } else if (command === 'env') {
+    runEnv(args.slice(1));
+  } else if (command === 'diff') {
+    runDiff(args.slice(1));
+  } else if (command === 'docs') {
+    runDocs(args.slice(1));
+  } else if (command === 'verify') {
+    runVerify(args.slice(1));
   } else {
     console.log(`Unknown command: ${command}`);
     console.log('');
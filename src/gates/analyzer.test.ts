@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { analyzeFlags, collectFlagUsages } from "./analyzer.js";
+import { compileGatePack } from "./packs.js";
+
+const WRAPPER = 'function Qx(){return W9("tengu_new_wrapper",!1)}';
+const GUARDED =
+  'function Gd(){if(TR(process.env.CLAUDE_CODE_DISABLE_THING))return!1;return W9("tengu_new_guarded",!1)}';
+const DATA = 'let cfg=W9("tengu_new_config",{limit:5});';
+const INLINE = 'if(W9("tengu_new_inline",!1))go();x=Qz.get("tengu_new_inline",!1);';
+const TELEMETRY = 'Lg("tengu_new_event",{ok:!0});Lg("tengu_new_event");';
+const OTHER = 'var names=["tengu_new_listed"];';
+
+const BUNDLE = [WRAPPER, GUARDED, DATA, INLINE, TELEMETRY, OTHER].join("\n");
+
+function analyze(flag: string) {
+  return analyzeFlags(BUNDLE, [flag])[0];
+}
+
+/** Compile a candidate and return the gate, failing on pack errors */
+function compileCandidate(flag: string) {
+  const { gates, errors } = compileGatePack({ gates: [analyze(flag).candidate] }, "discovered.json");
+  expect(errors).toEqual([]);
+  return gates[0];
+}
+
+describe("analyzeFlags", () => {
+  it("should classify Tier 1 wrappers", () => {
+    expect(analyze("tengu_new_wrapper")).toMatchObject({
+      kind: "wrapper",
+      tier: 1,
+      defaultValue: "!1",
+      callee: "W9",
+      functionName: "Qx",
+    });
+    const gate = compileCandidate("tengu_new_wrapper");
+    const match = BUNDLE.match(gate.detectRegex)!;
+    expect(gate.semanticReplacement!(match)).toBe("function Qx(){return!0}");
+  });
+
+  it("should classify env-guarded wrappers and generalize the guard", () => {
+    expect(analyze("tengu_new_guarded")).toMatchObject({
+      kind: "env-guarded",
+      tier: 2,
+      functionName: "Gd",
+      envVars: ["CLAUDE_CODE_DISABLE_THING"],
+    });
+    const gate = compileCandidate("tengu_new_guarded");
+    expect(gate.envOverride).toBe("CLAUDE_CODE_DISABLE_THING");
+    // Minified names may change between releases
+    expect(gate.detectRegex.test(GUARDED.replace(/TR/, "Ab").replace(/W9/, "g9"))).toBe(true);
+  });
+
+  it("should classify data gates by their non-boolean default", () => {
+    expect(analyze("tengu_new_config")).toMatchObject({
+      kind: "data",
+      tier: 4,
+      defaultValue: "{limit:5}",
+    });
+    const gate = compileCandidate("tengu_new_config");
+    expect(gate.valueRegex?.test(DATA)).toBe(true);
+  });
+
+  it("should classify inline checks and count every occurrence", () => {
+    const analysis = analyze("tengu_new_inline");
+    expect(analysis).toMatchObject({ kind: "inline", tier: 5, occurrences: 2 });
+    const gate = compileCandidate("tengu_new_inline");
+    expect(INLINE.match(gate.callSiteRegex!)).toHaveLength(2);
+    expect('Lg("tengu_new_inline",{ms:3})').not.toMatch(gate.callSiteRegex!);
+  });
+
+  it("should classify telemetry events without a candidate", () => {
+    const analysis = analyze("tengu_new_event");
+    expect(analysis).toMatchObject({ kind: "telemetry", callee: "Lg", occurrences: 2 });
+    expect(analysis.candidate).toBeUndefined();
+  });
+
+  it("should report flags that are not call arguments as unknown", () => {
+    expect(analyze("tengu_new_listed")).toMatchObject({ kind: "unknown", occurrences: 1 });
+    expect(analyze("tengu_missing")).toMatchObject({ kind: "unknown", occurrences: 0 });
+  });
+
+  it("should analyze every quoted flag when no list is given", () => {
+    expect(analyzeFlags(BUNDLE).map((a) => a.flag)).toEqual([
+      "tengu_new_config",
+      "tengu_new_event",
+      "tengu_new_guarded",
+      "tengu_new_inline",
+      "tengu_new_listed",
+      "tengu_new_wrapper",
+    ]);
+  });
+});
+
+describe("collectFlagUsages", () => {
+  it("should list every occurrence with its role, function, accessor and default", () => {
+    const usages = collectFlagUsages(BUNDLE, ["tengu_new_wrapper", "tengu_new_inline", "tengu_missing"]);
+    expect(usages.map((u) => [u.flag, u.role, u.occurrences.length])).toEqual([
+      ["tengu_missing", "unknown", 0],
+      ["tengu_new_inline", "gate", 2],
+      ["tengu_new_wrapper", "gate", 1],
+    ]);
+    expect(usages[2].occurrences[0]).toEqual({
+      offset: BUNDLE.indexOf("tengu_new_wrapper"),
+      role: "gate",
+      functionName: "Qx",
+      callee: "W9",
+      defaultValue: "!1",
+    });
+    expect(usages[1].occurrences[1].callee).toBe("Qz.get");
+  });
+
+  it("should tell gates from configs and event names", () => {
+    const roles = Object.fromEntries(collectFlagUsages(BUNDLE).map((u) => [u.flag, u.role]));
+    expect(roles).toEqual({
+      tengu_new_config: "config",
+      tengu_new_event: "event",
+      tengu_new_guarded: "gate",
+      tengu_new_inline: "gate",
+      tengu_new_listed: "unknown",
+      tengu_new_wrapper: "gate",
+    });
+  });
+
+  it("should report byte offsets in native binaries", () => {
+    const buffer = Buffer.from(`\x00\xff${WRAPPER}`, "latin1");
+    const [usage] = collectFlagUsages(buffer, ["tengu_new_wrapper"]);
+    expect(usage.occurrences[0].offset).toBe(buffer.indexOf("tengu_new_wrapper"));
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * Gate Analyzer
+ *
+ * Classifies tengu_* flags by looking at the code around each quoted
+ * occurrence, and builds a candidate gate pack entry for the ones that
+ * look like gates (see FlagKind). Used by `gates scan` to triage flags
+ * missing from the registry after a new release, and by `gates scan
+ * --pack` to write them out as a gate pack that can be reviewed and
+ * loaded with --gates-file.
+ *
+ * Statsig accessors are recognised as the functions called with a boolean
+ * default (`W9("tengu_x",!1)`); calls to any other function with no
+ * default or an object literal are treated as telemetry events.
+ */
+
+import type {
+  FlagAnalysis,
+  FlagKind,
+  FlagOccurrence,
+  FlagRole,
+  FlagUsage,
+  GatePackGate,
+} from '../types.js';
+import { cachedScan, locateBundle } from './detector.js';
+import { bundleChunks } from './scanner.js';
+import type { BundleChunk } from './scanner.js';
+import { enclosingFunctionName } from './context.js';
+import { findGate } from './registry.js';
+import { accessorCallRegex, escapeRegExp } from './patch-kinds.js';
+import { findAccessorNames } from './overrides.js';
+
+/** Quoted flag occurrences; group 1 is the flag */
+const FLAG_STRING = /"(tengu_[a-z0-9_]+)"/g;
+
+/** How far back from an occurrence to look for a wrapper function header */
+const LOOKBEHIND = 600;
+
+/** Identifiers kept verbatim when generalizing an env guard into a regex */
+const GUARD_KEYWORDS = new Set(['if', 'return', 'process', 'env', 'typeof', 'void', 'null']);
+
+const TIERS: Partial<Record<FlagKind, number>> = {
+  wrapper: 1,
+  'env-guarded': 2,
+  data: 4,
+  inline: 5,
+};
+
+/** Role of an occurrence, by how the call site was classified */
+const ROLES: Record<FlagKind, FlagRole> = {
+  wrapper: 'gate',
+  'env-guarded': 'gate',
+  inline: 'gate',
+  data: 'config',
+  telemetry: 'event',
+  unknown: 'unknown',
+};
+
+/** A flag checked as a gate anywhere is a gate, even if it is also logged */
+const ROLE_PRIORITY: FlagRole[] = ['gate', 'config', 'event', 'unknown'];
+
+/** Most specific classification wins when a flag occurs several times */
+const KIND_PRIORITY: FlagKind[] = ['wrapper', 'env-guarded', 'data', 'inline', 'telemetry', 'unknown'];
+
+interface FlagSite {
+  kind: FlagKind;
+  defaultValue?: string;
+  callee?: string;
+  functionName?: string;
+  guard?: string;
+}
+
+/**
+ * Classify a single quoted occurrence of `flag` starting at `index`.
+ */
+function classifySite(
+  content: string,
+  index: number,
+  flag: string,
+  accessors: Set<string>
+): FlagSite {
+  const before = content.slice(Math.max(0, index - LOOKBEHIND), index);
+  const callee = before.match(/(?<![\w$.])([\w$]+(?:\.[\w$]+)*)\($/);
+  if (!callee) return { kind: 'unknown' };
+
+  const name = callee[1];
+  const afterStart = index + flag.length + 2;
+  const after = content.slice(afterStart, afterStart + 300);
+  if (!accessors.has(name) && (after.startsWith(')') || after.startsWith(',{'))) {
+    return { kind: 'telemetry', callee: name };
+  }
+
+  const args = after.match(/^(?:,([^()]*))?\)/);
+  if (!args) return { kind: 'unknown', callee: name };
+
+  const defaultValue = args[1];
+  if (defaultValue !== undefined && defaultValue !== '!0' && defaultValue !== '!1') {
+    return { kind: 'data', callee: name, defaultValue };
+  }
+
+  // A boolean accessor call: a wrapper if it is the whole function body
+  if (after.slice(args[0].length).startsWith('}')) {
+    const prefix = before.slice(0, before.length - callee[0].length);
+    const wrapper = prefix.match(/function\s+([\w$]+)\(\)\{return\s*$/);
+    if (wrapper) {
+      return { kind: 'wrapper', callee: name, defaultValue, functionName: wrapper[1] };
+    }
+    const guarded = prefix.match(
+      /function\s+([\w$]+)\(\)\{((?:if\([^{}]*?\)return[^;{}]*;)+)return\s*$/
+    );
+    if (guarded && guarded[2].includes('process.env.')) {
+      return {
+        kind: 'env-guarded',
+        callee: name,
+        defaultValue,
+        functionName: guarded[1],
+        guard: guarded[2],
+      };
+    }
+  }
+  return { kind: 'inline', callee: name, defaultValue };
+}
+
+/**
+ * Turn a minified guard into a regex source: identifiers become `[\w$]+`
+ * (so the pattern survives renaming), while keywords, property names and
+ * everything else are matched literally.
+ */
+function generalizeGuard(guard: string): string {
+  let source = '';
+  for (const m of guard.matchAll(/[A-Za-z_$][\w$]*|[\s\S]/g)) {
+    const token = m[0];
+    const isIdentifier = /^[A-Za-z_$]/.test(token);
+    const isProperty = m.index !== undefined && guard[m.index - 1] === '.';
+    source +=
+      isIdentifier && !isProperty && !GUARD_KEYWORDS.has(token) ? '[\\w$]+' : escapeRegExp(token);
+  }
+  return source;
+}
+
+/**
+ * Build a candidate gate pack entry for a classified flag.
+ */
+function buildCandidate(flag: string, site: FlagSite, envVars: string[]): GatePackGate | undefined {
+  const codename = flag.replace(/^tengu_/, '').replace(/_/g, '-').replace(/^-+/, '');
+  const base = { name: flag, codename: codename || flag.replace(/_/g, '-') };
+  const call = `[\\w$]+\\("${escapeRegExp(flag)}",${escapeRegExp(site.defaultValue ?? '')}\\)`;
+
+  switch (site.kind) {
+    case 'wrapper':
+      return {
+        ...base,
+        description: `Auto-discovered Tier 1 wrapper (default ${site.defaultValue})`,
+        category: 'feature',
+        patch: 'return-true',
+        detect: { source: `function\\s+([a-zA-Z_$][\\w$]*)\\(\\)\\{return\\s*${call}\\}` },
+      };
+    case 'env-guarded':
+      return {
+        ...base,
+        description: `Auto-discovered Tier 2 env-guarded wrapper (default ${site.defaultValue})`,
+        category: 'feature',
+        patch: 'return-true',
+        detect: {
+          source:
+            `function\\s+([a-zA-Z_$][\\w$]*)\\(\\)\\{${generalizeGuard(site.guard ?? '')}` +
+            `return\\s*${call}\\}`,
+        },
+        envOverride: envVars[0],
+      };
+    case 'data':
+      return {
+        ...base,
+        description: `Auto-discovered Tier 4 data gate (default ${site.defaultValue})`,
+        category: 'feature',
+        patch: 'value',
+        detect: { source: accessorCallRegex(flag).source },
+      };
+    case 'inline':
+      return {
+        ...base,
+        description: `Auto-discovered Tier 5 inline check (default ${site.defaultValue ?? 'none'})`,
+        category: 'feature',
+        patch: 'call-site',
+        // Only calls with the observed default, so telemetry calls with
+        // the same flag are not rewritten
+        detect: {
+          source:
+            `(?<![\\w$.])[\\w$]+(?:\\.[\\w$]+)*\\("${escapeRegExp(flag)}"` +
+            `${site.defaultValue === undefined ? '' : `,${escapeRegExp(site.defaultValue)}`}\\)`,
+        },
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Classify tengu_* flags in bundle content. With `flags`, one result is
+ * returned per requested flag (kind 'unknown' when it never appears
+ * quoted); otherwise every quoted flag is analyzed. Results are sorted by
+ * flag name. A native binary is passed as its Buffer and read in chunks.
+ */
+export function analyzeFlags(content: string | Buffer, flags?: string[]): FlagAnalysis[] {
+  const sites = new Map<string, FlagSite[]>(flags?.map((f) => [f, []]));
+
+  for (const { flag, site } of quotedFlags(content, flags)) {
+    const list = sites.get(flag) ?? [];
+    list.push(site);
+    sites.set(flag, list);
+  }
+
+  return [...sites.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([flag, list]) => summarizeFlag(flag, list));
+}
+
+/**
+ * Classify every quoted occurrence of a tengu_* flag (only of `flags`,
+ * when given), in bundle order.
+ */
+function* quotedFlags(
+  content: string | Buffer,
+  flags?: string[]
+): Generator<{ flag: string; site: FlagSite; chunk: BundleChunk; index: number }> {
+  const wanted = flags && new Set(flags);
+  const accessors = new Set<string>();
+  for (const chunk of bundleChunks(content)) {
+    for (const name of findAccessorNames(chunk.text)) accessors.add(name);
+  }
+
+  for (const chunk of bundleChunks(content)) {
+    for (const m of chunk.text.matchAll(FLAG_STRING)) {
+      const index = m.index ?? 0;
+      if (index < chunk.from || index >= chunk.to) continue;
+      const flag = m[1];
+      if (wanted && !wanted.has(flag)) continue;
+      yield { flag, site: classifySite(chunk.text, index, flag, accessors), chunk, index: index + 1 };
+    }
+  }
+}
+
+function summarizeFlag(flag: string, list: FlagSite[]): FlagAnalysis {
+  const site: FlagSite =
+    KIND_PRIORITY.map((kind) => list.find((s) => s.kind === kind)).find(Boolean) ??
+    { kind: 'unknown' };
+  const envVars = [
+    ...new Set([...(site.guard ?? '').matchAll(/process\.env\.([\w$]+)/g)].map((m) => m[1])),
+  ];
+
+  const analysis: FlagAnalysis = { flag, kind: site.kind, occurrences: list.length };
+  const tier = TIERS[site.kind];
+  if (tier !== undefined) analysis.tier = tier;
+  if (site.defaultValue !== undefined) analysis.defaultValue = site.defaultValue;
+  if (site.callee) analysis.callee = site.callee;
+  if (site.functionName) analysis.functionName = site.functionName;
+  if (envVars.length > 0) analysis.envVars = envVars;
+  const candidate = buildCandidate(flag, site, envVars);
+  if (candidate) analysis.candidate = candidate;
+  return analysis;
+}
+
+/**
+ * List every quoted occurrence of each tengu_* flag with its role, the
+ * function it is in, the function it is passed to and its default. With
+ * `flags`, one result is returned per requested flag (with no occurrences
+ * when it never appears quoted). Results are sorted by flag name.
+ */
+export function collectFlagUsages(content: string | Buffer, flags?: string[]): FlagUsage[] {
+  const usages = new Map<string, FlagUsage>(
+    flags?.map((flag) => [flag, { flag, role: 'unknown', occurrences: [] }])
+  );
+
+  for (const { flag, site, chunk, index } of quotedFlags(content, flags)) {
+    const occurrence: FlagOccurrence = { offset: chunk.origin + index, role: ROLES[site.kind] };
+    const functionName = enclosingFunctionName(chunk.text, index, flag.length);
+    if (functionName) occurrence.functionName = functionName;
+    if (site.callee) occurrence.callee = site.callee;
+    if (site.defaultValue !== undefined) occurrence.defaultValue = site.defaultValue;
+
+    const usage = usages.get(flag) ?? { flag, role: 'unknown', occurrences: [] };
+    usage.occurrences.push(occurrence);
+    if (ROLE_PRIORITY.indexOf(occurrence.role) < ROLE_PRIORITY.indexOf(usage.role)) {
+      usage.role = occurrence.role;
+    }
+    usages.set(flag, usage);
+  }
+
+  return [...usages.values()].sort((a, b) => (a.flag < b.flag ? -1 : a.flag > b.flag ? 1 : 0));
+}
+
+/**
+ * Usages of every tengu_* flag in the installed bundle, including unquoted
+ * ones (with no occurrences listed).
+ */
+export function findFlagUsages(cliPath?: string): FlagUsage[] {
+  const location = locateBundle(cliPath);
+  if (!location) return [];
+
+  const entry = cachedScan(
+    location,
+    (cached) => cached.usages !== undefined,
+    (cached, source) => {
+      cached.usages = collectFlagUsages(source, cached.flags);
+    }
+  );
+  return entry?.usages ?? [];
+}
+
+/**
+ * Analyze every tengu_* flag in the installed bundle, registered or not.
+ */
+export function analyzeAllFlags(cliPath?: string): FlagAnalysis[] {
+  const location = locateBundle(cliPath);
+  if (!location) return [];
+
+  const entry = cachedScan(
+    location,
+    (cached) => cached.analysis !== undefined,
+    (cached, source) => {
+      cached.analysis = analyzeFlags(source, cached.flags);
+    }
+  );
+  return entry?.analysis ?? [];
+}
+
+/**
+ * Analyze every tengu_* flag in the installed bundle that is not in the
+ * registry (built-in, legacy or gate pack).
+ */
+export function discoverGates(cliPath?: string): FlagAnalysis[] {
+  // Every flag is analyzed and cached, so registering a gate needs no rescan
+  return analyzeAllFlags(cliPath).filter((analysis) => !findGate(analysis.flag));
+}
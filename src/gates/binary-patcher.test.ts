@@ -6,7 +6,12 @@ import {
   isBinaryPatched,
   enableBinaryGate,
   enableAllBinaryGates,
+  forceOffBinaryGate,
+  disableBinaryGate,
+  setBinaryGateValue,
+  unpatchBinaryGate,
   BINARY_PATCH_MARKER,
+  BINARY_FORCE_OFF_MARKER,
 } from "./binary-patcher.js";
 import { GATE_PATCH_MARKER } from "./registry.js";
 import type { FeatureGate } from "../types.js";
@@ -18,6 +23,7 @@ vi.mock("../cli-finder.js", () => ({
     version: "2.1.63",
     isPatched: false,
   })),
+  getCliVersion: vi.fn(() => "2.1.63"),
 }));
 
 // Mock fs
@@ -30,6 +36,7 @@ vi.mock("fs", async () => {
     existsSync: vi.fn(),
     copyFileSync: vi.fn(),
     readdirSync: vi.fn(() => []),
+    rmSync: vi.fn(),
   };
 });
 
@@ -58,8 +65,8 @@ function mockNativeBinaryExists(): void {
 
 /**
  * Mock readFileSync to be encoding-aware:
- * - With encoding (string param): return content as string (used by resolveBundle)
- * - Without encoding: return content as Buffer (used by enableBinaryGate)
+ * - With encoding (string param): return content as string
+ * - Without encoding: return content as Buffer (used by resolveBundle for binaries)
  */
 function mockBinaryReadFileSync(content: string): void {
   vi.mocked(fs.readFileSync).mockImplementation(
@@ -202,6 +209,35 @@ describe("patchBinaryGate", () => {
     expect(patched.length).toBe(buf.length);
   });
 
+  it("should return a ledger entry that restores the original bytes", () => {
+    const content = "prefix;function qR(){return!1}suffix;";
+    const buf = Buffer.from(content, "latin1");
+
+    const { entries } = patchBinaryGate(buf, content, makeGate());
+
+    expect(entries).toHaveLength(1);
+    const entry = entries[0];
+    expect(entry).toMatchObject({
+      codename: "test-gate",
+      mode: "enable",
+      offset: 7,
+      original: "function qR(){return!1}",
+    });
+    expect(unpatchBinaryGate(buf, entry)).toBe(true);
+    expect(buf.toString("latin1")).toBe(content);
+  });
+
+  it("should refuse to unpatch when the bytes no longer match the entry", () => {
+    const content = "prefix;function qR(){return!1}suffix;";
+    const buf = Buffer.from(content, "latin1");
+    const { entries } = patchBinaryGate(buf, content, makeGate());
+    buf.write("X", 7, "latin1");
+    const before = buf.toString("latin1");
+
+    expect(unpatchBinaryGate(buf, entries[0])).toBe(false);
+    expect(buf.toString("latin1")).toBe(before);
+  });
+
   it("should return changed=false when gate has no semanticReplacement", () => {
     const content = "function qR(){return!1}";
     const buf = Buffer.from(content, "latin1");
@@ -222,6 +258,40 @@ describe("patchBinaryGate", () => {
     expect(changed).toBe(false);
   });
 
+  it("should write the force-off replacement and marker in force-off mode", () => {
+    const content =
+      'prefix;function qR(){return foo("tengu_test_default_on",!0)}suffix;';
+    const buf = Buffer.from(content, "latin1");
+    const gate = makeGate({
+      detectRegex:
+        /function\s+(\w+)\(\)\{return foo\("tengu_test_default_on",!0\)\}/,
+      forceOffReplacement: (match: RegExpMatchArray) =>
+        `function ${match[1]}(){return!1}`,
+    });
+
+    const { buf: patched, changed } = patchBinaryGate(
+      buf,
+      content,
+      gate,
+      "force-off",
+    );
+
+    expect(changed).toBe(true);
+    const patchedContent = patched.toString("latin1");
+    expect(patchedContent).toContain("function qR(){return!1}");
+    expect(patchedContent).toContain(`${BINARY_FORCE_OFF_MARKER}:test-gate`);
+    expect(patched.length).toBe(content.length);
+  });
+
+  it("should return changed=false in force-off mode without forceOffReplacement", () => {
+    const content = "function qR(){return!1}";
+    const buf = Buffer.from(content, "latin1");
+
+    const { changed } = patchBinaryGate(buf, content, makeGate(), "force-off");
+
+    expect(changed).toBe(false);
+  });
+
   it("should mutate the buffer in place", () => {
     const content = "function qR(){return!1}";
     const buf = Buffer.from(content, "latin1");
@@ -249,6 +319,21 @@ describe("patchBinaryGate", () => {
     // Buffer length must not change
     expect(patched.length).toBe(Buffer.byteLength(content, "latin1"));
   });
+
+  it("should refuse an ambiguous gate unless an occurrence is chosen", () => {
+    const content = "function qR(){return!1};function qS(){return!1};";
+    const buf = Buffer.from(content, "latin1");
+
+    const ambiguous = patchBinaryGate(buf, content, makeGate());
+    expect(ambiguous.changed).toBe(false);
+    expect(ambiguous.error).toContain("matches 2 places (offsets 0, 24)");
+    expect(buf.toString("latin1")).toBe(content);
+
+    const { entries } = patchBinaryGate(buf, content, makeGate(), "enable", 1);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].offset).toBe(24);
+    expect(buf.toString("latin1").startsWith("function qR(){return!1};function qS(){return!0}")).toBe(true);
+  });
 });
 
 describe("isBinaryPatched", () => {
@@ -359,6 +444,22 @@ describe("enableBinaryGate", () => {
 
     expect(result.success).toBe(false);
     expect(result.error).toContain("not found");
+    expect(fs.copyFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should not leave a backup behind when an ambiguous gate is refused", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(`${MOCK_BINARY_CONTENT};${MOCK_KEYBINDING_GATE}\x00`);
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+
+    const result = forceOffBinaryGate("keybinding-customization", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("ambiguous");
+    expect(fs.copyFileSync).not.toHaveBeenCalled();
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
   });
 
   it("should write Buffer (not string) when patching binary", () => {
@@ -378,6 +479,22 @@ describe("enableBinaryGate", () => {
     expect(Buffer.isBuffer(writtenData)).toBe(true);
   });
 
+  it("should read the binary once, as a Buffer", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(MOCK_BINARY_CONTENT);
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+    vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+    enableBinaryGate("keybinding-customization", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    const reads = vi
+      .mocked(fs.readFileSync)
+      .mock.calls.filter(([p]) => p === "/mock/claude/claude");
+    expect(reads).toEqual([["/mock/claude/claude"]]);
+  });
+
   it("should preserve binary length after patching", () => {
     mockNativeBinaryExists();
     const originalBuf = Buffer.from(MOCK_BINARY_CONTENT, "latin1");
@@ -398,6 +515,252 @@ describe("enableBinaryGate", () => {
   });
 });
 
+describe("disableBinaryGate", () => {
+  const MOCK_KEYBINDING_GATE =
+    'function SZ(){return g9("tengu_keybinding_customization_release",!1)}';
+  const MOCK_BINARY_CONTENT = `\x00\x00BINARY_HEADER${MOCK_KEYBINDING_GATE}MORE_BINARY_DATA\x00`;
+
+  it("should record a ledger entry when enabling and restore it exactly", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(MOCK_BINARY_CONTENT);
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+    const files = new Map<string, string | Buffer>();
+    vi.mocked(fs.writeFileSync).mockImplementation((p, data) => {
+      files.set(String(p), data as string | Buffer);
+    });
+
+    enableBinaryGate("keybinding-customization", {
+      cliPath: "/mock/claude/claude",
+      backup: false,
+    });
+    const ledger = files.get("/mock/claude/claude.ccp-ledger.json") as string;
+    const patched = (files.get("/mock/claude/claude") as Buffer).toString("latin1");
+    expect(JSON.parse(ledger).entries[0].original).toBe(MOCK_KEYBINDING_GATE);
+
+    // Disable with no backups on disk: only the ledger can restore it
+    vi.mocked(fs.readFileSync).mockImplementation((p: unknown, options?: unknown) => {
+      if (String(p).endsWith(".ccp-ledger.json")) return ledger;
+      return options ? patched : Buffer.from(patched, "latin1");
+    });
+    files.clear();
+
+    const result = disableBinaryGate("keybinding-customization", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    expect(result.success).toBe(true);
+    expect((files.get("/mock/claude/claude") as Buffer).toString("latin1")).toBe(
+      MOCK_BINARY_CONTENT,
+    );
+    expect(fs.rmSync).toHaveBeenCalledWith("/mock/claude/claude.ccp-ledger.json", {
+      force: true,
+    });
+  });
+
+  it("should fail when the gate has no ledger entry", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(`\x00${BINARY_PATCH_MARKER}:keybinding-customization \x00`);
+
+    const result = disableBinaryGate("keybinding-customization", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("No ledger entry");
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe("call-site gates in binaries", () => {
+  const MOCK_BINARY_CONTENT =
+    '\x00;if(W9("tengu_thinkback",!1))a();b=Zq("tengu_thinkback",!1);\x00';
+
+  it("should pad each call site and record one ledger entry per site", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(MOCK_BINARY_CONTENT);
+    const files = new Map<string, string | Buffer>();
+    vi.mocked(fs.writeFileSync).mockImplementation((p, data) => {
+      files.set(String(p), data as string | Buffer);
+    });
+
+    const result = enableBinaryGate("thinkback", {
+      cliPath: "/mock/claude/claude",
+      backup: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].callSites).toBe(2);
+    const out = (files.get("/mock/claude/claude") as Buffer).toString("latin1");
+    expect(out.length).toBe(MOCK_BINARY_CONTENT.length);
+    expect(out).toBe(
+      '\x00;if((!0)/*CCP:thinkback   */)a();b=(!0)/*CCP:thinkback   */;\x00',
+    );
+    const ledger = JSON.parse(files.get("/mock/claude/claude.ccp-ledger.json") as string);
+    expect(ledger.entries).toHaveLength(2);
+  });
+});
+
+describe("setBinaryGateValue", () => {
+  const MOCK_CRYSTAL_BEAM = 'W9("tengu_crystal_beam",{budget:4096,mode:"adaptive"})';
+  const MOCK_BINARY_CONTENT = `\x00\x00HEADER;t=${MOCK_CRYSTAL_BEAM}.budget\x00`;
+
+  it("should write a length-preserving literal and record it in the ledger", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(MOCK_BINARY_CONTENT);
+    const files = new Map<string, string | Buffer>();
+    vi.mocked(fs.writeFileSync).mockImplementation((p, data) => {
+      files.set(String(p), data as string | Buffer);
+    });
+
+    const result = setBinaryGateValue(
+      "crystal-beam",
+      { budget: 32000 },
+      { cliPath: "/mock/claude/claude", backup: false },
+    );
+
+    expect(result.success).toBe(true);
+    const out = (files.get("/mock/claude/claude") as Buffer).toString("latin1");
+    expect(out.length).toBe(MOCK_BINARY_CONTENT.length);
+    expect(out).toContain('({"budget":32000})/*CCP-VAL');
+    const ledger = JSON.parse(files.get("/mock/claude/claude.ccp-ledger.json") as string);
+    expect(ledger.entries[0]).toMatchObject({
+      codename: "crystal-beam",
+      mode: "value",
+      value: '{"budget":32000}',
+    });
+  });
+
+  it("should pin every accessor call", () => {
+    const content = `\x00\x00HEADER;t=${MOCK_CRYSTAL_BEAM}.budget;u=${MOCK_CRYSTAL_BEAM}.mode\x00`;
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(content);
+    const files = new Map<string, string | Buffer>();
+    vi.mocked(fs.writeFileSync).mockImplementation((p, data) => {
+      files.set(String(p), data as string | Buffer);
+    });
+
+    const result = setBinaryGateValue(
+      "crystal-beam",
+      { budget: 32000 },
+      { cliPath: "/mock/claude/claude", backup: false },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].callSites).toBe(2);
+    const out = (files.get("/mock/claude/claude") as Buffer).toString("latin1");
+    expect(out.length).toBe(content.length);
+    expect(out).not.toContain("tengu_crystal_beam");
+    expect(out.match(/\(\{"budget":32000\}\)\/\*CCP-VAL/g)).toHaveLength(2);
+    const ledger = JSON.parse(files.get("/mock/claude/claude.ccp-ledger.json") as string);
+    expect(ledger.entries).toHaveLength(2);
+  });
+
+  it("should fail clearly when the literal does not fit", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(MOCK_BINARY_CONTENT);
+
+    const result = setBinaryGateValue(
+      "crystal-beam",
+      { budget: 32000, mode: "adaptive", note: "far too long to fit" },
+      { cliPath: "/mock/claude/claude" },
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Value for "crystal-beam" does not fit');
+    expect(result.error).toContain(`is only ${MOCK_CRYSTAL_BEAM.length} bytes`);
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(fs.copyFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe("forceOffBinaryGate", () => {
+  const MOCK_AMBER_FLINT =
+    "function q_(){if(!TR(process.env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS)&&!JR7())return!1;if(!W9(\"tengu_amber_flint\",!0))return!1;return!0}";
+  const MOCK_BINARY_CONTENT = `\x00\x00BINARY_HEADER${MOCK_AMBER_FLINT}MORE_BINARY_DATA\x00`;
+
+  it("should force a default-on gate off with a length-preserving patch", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(MOCK_BINARY_CONTENT);
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+    let written: Buffer | undefined;
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, data) => {
+      written = data as Buffer;
+    });
+
+    const result = forceOffBinaryGate("amber-flint", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].enabled).toBe(false);
+    expect(result.gatesChanged[0].forcedOff).toBe(true);
+    const out = written!.toString("latin1");
+    expect(out).toContain("function q_(){return!1}");
+    expect(out).toContain(`${BINARY_FORCE_OFF_MARKER}:amber-flint`);
+    expect(written!.length).toBe(MOCK_BINARY_CONTENT.length);
+  });
+
+  it("should refuse to force off a gate that is currently enabled", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(`\x00${BINARY_PATCH_MARKER}:amber-flint \x00`);
+
+    const result = forceOffBinaryGate("amber-flint", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already enabled");
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to enable a gate that is forced off", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(`\x00${BINARY_FORCE_OFF_MARKER}:amber-flint \x00`);
+
+    const result = enableBinaryGate("amber-flint", {
+      cliPath: "/mock/claude/claude",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already forced off");
+  });
+  it("should force a data gate's accessor calls to null and restore them from the ledger", () => {
+    const beam = 'W9("tengu_crystal_beam",{budget:4096})';
+    const content = `\x00\x00HEADER;t=${beam}.budget;u=${beam}.mode\x00`;
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(content);
+    const files = new Map<string, string | Buffer>();
+    vi.mocked(fs.writeFileSync).mockImplementation((p, data) => {
+      files.set(String(p), data as string | Buffer);
+    });
+
+    const result = forceOffBinaryGate("crystal-beam", {
+      cliPath: "/mock/claude/claude",
+      backup: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0]).toMatchObject({ forcedOff: true, callSites: 2 });
+    const ledger = files.get("/mock/claude/claude.ccp-ledger.json") as string;
+    const patched = (files.get("/mock/claude/claude") as Buffer).toString("latin1");
+    expect(patched.length).toBe(content.length);
+    expect(patched.match(/\(null\)\/\*CCP-OFF:crystal-beam\s*\*\//g)).toHaveLength(2);
+    expect(JSON.parse(ledger).entries.map((e: { mode: string }) => e.mode)).toEqual([
+      "force-off",
+      "force-off",
+    ]);
+
+    vi.mocked(fs.readFileSync).mockImplementation((p: unknown, options?: unknown) => {
+      if (String(p).endsWith(".ccp-ledger.json")) return ledger;
+      return options ? patched : Buffer.from(patched, "latin1");
+    });
+    files.clear();
+
+    expect(disableBinaryGate("crystal-beam", { cliPath: "/mock/claude/claude" }).success).toBe(true);
+    expect((files.get("/mock/claude/claude") as Buffer).toString("latin1")).toBe(content);
+  });
+});
+
 describe("enableAllBinaryGates", () => {
   const MOCK_KEYBINDING_GATE =
     'function SZ(){return g9("tengu_keybinding_customization_release",!1)}';
@@ -426,6 +789,19 @@ describe("enableAllBinaryGates", () => {
     expect(fs.copyFileSync).toHaveBeenCalledOnce();
   });
 
+  it("should leave gates that are forced off alone and report them", () => {
+    mockNativeBinaryExists();
+    mockBinaryReadFileSync(`${MOCK_BINARY_CONTENT}/*${BINARY_FORCE_OFF_MARKER}:keybinding-customization*/`);
+
+    const result = enableAllBinaryGates({ cliPath: "/mock/claude/claude", dryRun: true });
+
+    expect(result.gatesChanged.find((g) => g.codename === "keybinding-customization")).toMatchObject({
+      enabled: false,
+      forcedOff: true,
+    });
+    expect(result.planned).toEqual([]);
+  });
+
   it("should preserve total binary size after patching all gates", () => {
     mockNativeBinaryExists();
     const originalLen = Buffer.byteLength(MOCK_BINARY_CONTENT, "latin1");
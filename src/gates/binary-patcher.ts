@@ -7,17 +7,64 @@
  * replacement MUST be exactly the same byte length as the original match.
  * We pad replacements with JS block comments to preserve length.
  *
- * Encoding: we read binaries as latin1 (ISO-8859-1) which maps each byte
- * to exactly one character. This keeps byte offsets consistent between the
- * string representation and the underlying Buffer, and ASCII-range JS code
- * is preserved identically.
+ * Encoding: binaries are held as a Buffer and scanned as latin1
+ * (ISO-8859-1), one chunk at a time, which maps each byte to exactly one
+ * character. This keeps byte offsets consistent between the decoded text
+ * and the underlying Buffer, and ASCII-range JS code is preserved
+ * identically. The resolved bundle's Buffer is patched in place and
+ * written back, so a binary is only read once per command.
+ *
+ * Every patch is recorded in a sidecar ledger (see ledger.ts) so it can be
+ * reversed byte-for-byte without a backup.
  */
 
 import * as fs from 'fs';
 import { execSync } from 'child_process';
-import type { FeatureGate, GateResult, GateStatus, GatePatchConfig } from '../types.js';
-import { findPatchableGate, getPatchableGates, GATE_PATCH_MARKER, BINARY_PATCH_MARKER } from './registry.js';
+import type {
+  FeatureGate,
+  GateResult,
+  GateStatus,
+  GatePatchConfig,
+  GatePatchMode,
+  PatchLedgerEntry,
+  PlannedChange,
+} from '../types.js';
+import {
+  findForceOffGate,
+  findPatchableGate,
+  findValueGate,
+  getPatchableGates,
+  GATE_PATCH_MARKER,
+  BINARY_PATCH_MARKER,
+} from './registry.js';
+import {
+  BINARY_FORCE_OFF_MARKER,
+  BINARY_VALUE_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  findGateMatches,
+  pickGateMatch,
+  pickValueMatches,
+  toJsLiteral,
+  valueReplacement,
+} from './patch-kinds.js';
 import { resolveBundle } from './detector.js';
+import { hasScannedMarker, matchBundle, scanBundle } from './scanner.js';
+import {
+  embeddedJsRanges,
+  embeddedModuleRanges,
+  inEmbeddedJs,
+  parseBinaryContainer,
+  rangeIndex,
+} from './container.js';
+import { findConflicts } from './dependencies.js';
+import { explainGateAbsence, gateForVersion } from './versions.js';
+import {
+  findLedgerEntries,
+  findLedgerEntry,
+  recordLedgerEntries,
+  removeLedgerEntry,
+} from './ledger.js';
 
 /**
  * Re-sign a Mach-O binary with an ad-hoc signature.
@@ -49,7 +96,7 @@ function resignBinary(binaryPath: string): { success: boolean; error?: string }
   }
 }
 
-export { BINARY_PATCH_MARKER };
+export { BINARY_PATCH_MARKER, BINARY_FORCE_OFF_MARKER, BINARY_VALUE_MARKER };
 
 /**
  * Create a replacement string padded to exactly the same byte length as
@@ -61,11 +108,15 @@ export { BINARY_PATCH_MARKER };
  *   3. Spaces only                                (last resort)
  *
  * (SLASH = forward slash — written this way to avoid closing this comment)
+ *
+ * Force-off and value patches pass BINARY_FORCE_OFF_MARKER or
+ * BINARY_VALUE_MARKER as `marker`.
  */
 export function createPaddedReplacement(
   originalMatch: string,
   semanticReplacement: string,
-  codename: string
+  codename: string,
+  marker: string = BINARY_PATCH_MARKER
 ): string {
   const targetLen = Buffer.byteLength(originalMatch, 'latin1');
   const baseLen = Buffer.byteLength(semanticReplacement, 'latin1');
@@ -82,7 +133,7 @@ export function createPaddedReplacement(
   }
 
   // Try full marker: /*CCP:codename*/
-  const fullPrefix = `/*${BINARY_PATCH_MARKER}:${codename}`;
+  const fullPrefix = `/*${marker}:${codename}`;
   const suffix = '*/';
   const fullOverhead = Buffer.byteLength(fullPrefix + suffix, 'latin1');
 
@@ -92,7 +143,7 @@ export function createPaddedReplacement(
   }
 
   // Try short marker: /*CCP*/
-  const shortPrefix = `/*${BINARY_PATCH_MARKER}`;
+  const shortPrefix = `/*${marker}`;
   const shortOverhead = Buffer.byteLength(shortPrefix + suffix, 'latin1');
 
   if (gap >= shortOverhead) {
@@ -107,26 +158,270 @@ export function createPaddedReplacement(
 /**
  * Patch a single gate inside a binary buffer.
  *
- * Returns the modified buffer and whether a change was made.
- * The buffer is modified in-place for efficiency.
+ * Returns the modified buffer, whether a change was made and the ledger
+ * entries needed to undo it (one per patched site).
+ * The buffer is modified in-place for efficiency. With mode 'force-off'
+ * the gate's forceOffReplacement is written with the force-off marker.
+ * Gates with a callSiteRegex have every call site padded and patched.
+ * Other gates must match exactly once unless `occurrence` picks a match;
+ * an ambiguous gate is left unpatched and `error` explains why. Matches
+ * outside the binary's embedded JS modules are ignored.
  */
 export function patchBinaryGate(
   buf: Buffer,
   content: string,
-  gate: FeatureGate
-): { buf: Buffer; changed: boolean } {
-  if (!gate.semanticReplacement) {
-    return { buf, changed: false };
+  gate: FeatureGate,
+  mode: Exclude<GatePatchMode, 'value'> = 'enable',
+  occurrence?: number
+): { buf: Buffer; changed: boolean; entries: PatchLedgerEntry[]; error?: string } {
+  const ranges = embeddedJsRanges(buf);
+  const found = findGateMatches(content, gate).filter((m) => inMatchRanges(ranges, m));
+  const { entries, error } = patchGateMatches(buf, gate, found, mode, occurrence);
+  return error ? { buf, changed: false, entries, error } : { buf, changed: entries.length > 0, entries };
+}
+
+/**
+ * Whether a match of the decoded binary lies inside its embedded JS.
+ */
+function inMatchRanges(ranges: Array<[number, number]>, match: RegExpMatchArray): boolean {
+  const start = match.index ?? 0;
+  return inEmbeddedJs(ranges, start, start + Buffer.byteLength(match[0], 'latin1'));
+}
+
+/**
+ * A gate's matches lined up across the embedded copies of the JS (see
+ * container.ts): each site holds the same match in every copy the pattern
+ * is found in. With a single copy every match is its own site. Copies
+ * that disagree, with a different number of matches or different text,
+ * are an error naming each copy and where it matched.
+ */
+function matchSites(
+  buf: Buffer,
+  gate: FeatureGate,
+  found: RegExpMatchArray[]
+): { sites: RegExpMatchArray[][]; error?: string } {
+  const { modules } = parseBinaryContainer(buf);
+  const ranges = embeddedModuleRanges(buf);
+  const copies = new Map<number, RegExpMatchArray[]>();
+  for (const match of found) {
+    const index = rangeIndex(ranges, match.index ?? 0);
+    copies.set(index, [...(copies.get(index) ?? []), match]);
+  }
+
+  const groups = [...copies.values()];
+  if (groups.length <= 1) return { sites: found.map((match) => [match]) };
+
+  const [first] = groups;
+  const agree = groups.every(
+    (group) => group.length === first.length && group.every((match, i) => match[0] === first[i][0])
+  );
+  if (!agree) {
+    const described = [...copies].map(([index, matches]) => {
+      const module = modules[index];
+      const where = module ? `${module.name} at ${module.offset}` : 'outside the embedded modules';
+      return `${where}: ${matches.length} match${matches.length === 1 ? '' : 'es'} ` +
+        `(offsets ${matches.map((m) => m.index).join(', ')})`;
+    });
+    return {
+      sites: [],
+      error:
+        `Gate "${gate.codename}" differs between the ${groups.length} embedded copies of the JS: ` +
+        `${described.join('; ')}. Patch a single copy with --occurrence <0-${found.length - 1}>.`,
+    };
+  }
+  return { sites: first.map((_, i) => groups.map((group) => group[i])) };
+}
+
+/**
+ * The matches to patch for a gate: every call site, or the site
+ * `occurrence` picks in every embedded copy of the JS. When the copies
+ * disagree, an explicit `occurrence` patches that one match only.
+ */
+function selectMatches(
+  buf: Buffer,
+  gate: FeatureGate,
+  found: RegExpMatchArray[],
+  occurrence?: number
+): { matches: RegExpMatchArray[]; error?: string } {
+  if (gate.callSiteRegex) return { matches: found };
+
+  const { sites, error } = matchSites(buf, gate, found);
+  if (error && occurrence === undefined) return { matches: [], error };
+  const candidates = error ? found.map((match) => [match]) : sites;
+  const picked = pickGateMatch(gate, candidates.map((site) => site[0]), occurrence);
+  if (picked.error) return { matches: [], error: picked.error };
+  return { matches: candidates.find((site) => site[0] === picked.match) ?? [] };
+}
+
+/**
+ * Matches of an already patched gate in embedded copies of the JS that
+ * the patch missed, e.g. because it was made before copies were patched
+ * together: matches in a copy with no ledger entry for the gate whose
+ * text is what an entry replaced.
+ */
+function missedCopies(
+  buf: Buffer,
+  gate: FeatureGate,
+  mode: Exclude<GatePatchMode, 'value'>,
+  previous: PatchLedgerEntry[],
+  found: RegExpMatchArray[]
+): RegExpMatchArray[] {
+  const ranges = embeddedModuleRanges(buf);
+  const entries = previous.filter((e) => e.mode === mode);
+  const patched = new Set(entries.map((e) => rangeIndex(ranges, e.offset)));
+  const originals = new Set(entries.map((e) => e.original));
+  return found.filter((m) => !patched.has(rangeIndex(ranges, m.index ?? 0)) && originals.has(m[0]));
+}
+
+/**
+ * Number of embedded copies of the JS that ledger entries patch.
+ */
+function countCopies(buf: Buffer, entries: PatchLedgerEntry[]): number {
+  const ranges = embeddedModuleRanges(buf);
+  return new Set(entries.map((e) => rangeIndex(ranges, e.offset))).size;
+}
+
+/**
+ * patchBinaryGate() for a gate whose matches are already known: every
+ * call site, or the one site `occurrence` picks, in every embedded copy.
+ */
+function patchGateMatches(
+  buf: Buffer,
+  gate: FeatureGate,
+  found: RegExpMatchArray[],
+  mode: Exclude<GatePatchMode, 'value'>,
+  occurrence?: number
+): { entries: PatchLedgerEntry[]; error?: string } {
+  const { matches, error } = selectMatches(buf, gate, found, occurrence);
+  if (error) return { entries: [], error };
+  return { entries: writeGateMatches(buf, gate, matches, mode) };
+}
+
+/**
+ * Write a gate's enable or force-off replacement over each match. Writes
+ * nothing when there are no matches or one lacks an offset.
+ */
+function writeGateMatches(
+  buf: Buffer,
+  gate: FeatureGate,
+  matches: RegExpMatchArray[],
+  mode: Exclude<GatePatchMode, 'value'>
+): PatchLedgerEntry[] {
+  const replacement = mode === 'force-off' ? gate.forceOffReplacement : gate.semanticReplacement;
+  if (!replacement || matches.length === 0 || matches.some((m) => m.index === undefined)) {
+    return [];
+  }
+
+  // All or nothing: a copy left unpatched keeps the gate off at runtime
+  const marker = mode === 'force-off' ? BINARY_FORCE_OFF_MARKER : BINARY_PATCH_MARKER;
+  const entries: PatchLedgerEntry[] = [];
+  try {
+    for (const match of matches) {
+      entries.push(writePadded(buf, match, replacement(match), gate.codename, mode, marker));
+    }
+  } catch (err) {
+    revertPatches(buf, entries);
+    throw err;
+  }
+  return entries;
+}
+
+/**
+ * Pin a data gate to a literal inside a binary buffer by replacing its
+ * accessor calls (gate.valueRegex) with `(literal)` padded to the same
+ * length. Throws when the literal does not fit in an accessor call.
+ * Every accessor call is patched, or with `occurrence` that call in
+ * every embedded copy of the JS; `error` explains a refused occurrence.
+ */
+export function patchBinaryValue(
+  buf: Buffer,
+  content: string,
+  gate: FeatureGate,
+  literal: string,
+  occurrence?: number
+): { buf: Buffer; changed: boolean; entries: PatchLedgerEntry[]; error?: string } {
+  const ranges = embeddedJsRanges(buf);
+  const found = findGateMatches(content, gate, 'value').filter((m) => inMatchRanges(ranges, m));
+  const { matches, error } = selectValueMatches(buf, gate, found, occurrence);
+  if (error) return { buf, changed: false, entries: [], error };
+  const entries = writeValues(buf, gate, matches, literal);
+  return { buf, changed: entries.length > 0, entries };
+}
+
+/**
+ * The accessor calls a value patch rewrites: every one, or the call
+ * `occurrence` picks in every embedded copy (see selectMatches()).
+ */
+function selectValueMatches(
+  buf: Buffer,
+  gate: FeatureGate,
+  found: RegExpMatchArray[],
+  occurrence?: number
+): { matches: RegExpMatchArray[]; error?: string } {
+  if (occurrence === undefined) return pickValueMatches(gate, found);
+  return selectMatches(buf, gate, found, occurrence);
+}
+
+/**
+ * writeValue() over every match, all or nothing. Throws when the literal
+ * does not fit in one of them.
+ */
+function writeValues(
+  buf: Buffer,
+  gate: FeatureGate,
+  matches: RegExpMatchArray[],
+  literal: string
+): PatchLedgerEntry[] {
+  const entries: PatchLedgerEntry[] = [];
+  try {
+    for (const match of matches) entries.push(...writeValue(buf, gate, match, literal));
+  } catch (err) {
+    revertPatches(buf, entries);
+    throw err;
   }
+  return entries;
+}
+
+/**
+ * Write a value patch over an accessor call match. Throws when the
+ * literal does not fit.
+ */
+function writeValue(
+  buf: Buffer,
+  gate: FeatureGate,
+  match: RegExpMatchArray,
+  literal: string
+): PatchLedgerEntry[] {
+  if (match.index === undefined) return [];
 
-  const match = content.match(gate.detectRegex);
-  if (!match || match.index === undefined) {
-    return { buf, changed: false };
+  const semantic = valueReplacement(literal);
+  const available = Buffer.byteLength(match[0], 'latin1');
+  const needed = Buffer.byteLength(semantic, 'latin1');
+  if (needed > available) {
+    throw new Error(
+      `Value for "${gate.codename}" does not fit in the binary: ${semantic} is ${needed} bytes ` +
+        `but the accessor call ${match[0]} is only ${available} bytes.`
+    );
   }
 
+  const entry = writePadded(buf, match, semantic, gate.codename, 'value', BINARY_VALUE_MARKER);
+  return [{ ...entry, value: literal }];
+}
+
+/**
+ * Write `semantic`, padded to the match's byte length, over the match and
+ * return the ledger entry that undoes it.
+ */
+function writePadded(
+  buf: Buffer,
+  match: RegExpMatchArray,
+  semantic: string,
+  codename: string,
+  mode: GatePatchMode,
+  marker: string
+): PatchLedgerEntry {
   const original = match[0];
-  const semantic = gate.semanticReplacement(match);
-  const padded = createPaddedReplacement(original, semantic, gate.codename);
+  const padded = createPaddedReplacement(original, semantic, codename, marker);
 
   // Sanity check: byte lengths must be identical
   const originalBytes = Buffer.byteLength(original, 'latin1');
@@ -138,10 +433,50 @@ export function patchBinaryGate(
   }
 
   // Write the replacement at the exact byte offset
-  const offset = match.index;
+  const offset = match.index ?? 0;
   buf.write(padded, offset, paddedBytes, 'latin1');
 
-  return { buf, changed: true };
+  return { codename, mode, offset, original, replacement: padded };
+}
+
+/**
+ * Undo a recorded binary patch in place.
+ *
+ * Returns false (leaving the buffer untouched) when the bytes at the
+ * recorded offset are not the ones we wrote — e.g. the binary was
+ * updated or modified since the patch.
+ */
+export function unpatchBinaryGate(buf: Buffer, entry: PatchLedgerEntry): boolean {
+  const length = Buffer.byteLength(entry.replacement, 'latin1');
+  if (
+    Buffer.byteLength(entry.original, 'latin1') !== length ||
+    entry.offset < 0 ||
+    entry.offset + length > buf.length ||
+    buf.toString('latin1', entry.offset, entry.offset + length) !== entry.replacement
+  ) {
+    return false;
+  }
+  buf.write(entry.original, entry.offset, length, 'latin1');
+  return true;
+}
+
+/**
+ * Undo patches made to the buffer but not written to the file, so a
+ * shared buffer (GatePatchConfig.binary) keeps matching the file.
+ */
+function revertPatches(buf: Buffer, entries: PatchLedgerEntry[]): void {
+  for (const entry of [...entries].reverse()) {
+    unpatchBinaryGate(buf, entry);
+  }
+}
+
+/**
+ * Redo patches undone in the buffer but not in the file (see revertPatches()).
+ */
+function reapplyPatches(buf: Buffer, entries: PatchLedgerEntry[]): void {
+  for (const entry of entries) {
+    buf.write(entry.replacement, entry.offset, 'latin1');
+  }
 }
 
 /**
@@ -162,7 +497,29 @@ export function enableBinaryGate(
   nameOrCodename: string,
   config?: GatePatchConfig
 ): GateResult {
-  const gate = findPatchableGate(nameOrCodename);
+  return patchBinaryFile(nameOrCodename, 'enable', config);
+}
+
+/**
+ * Force a gate off in a native binary, even when its compiled default is on.
+ */
+export function forceOffBinaryGate(
+  nameOrCodename: string,
+  config?: GatePatchConfig
+): GateResult {
+  return patchBinaryFile(nameOrCodename, 'force-off', config);
+}
+
+/**
+ * Undo an enable or force-off patch in a native binary by writing back the
+ * original bytes recorded in the ledger. Fails when the gate was patched
+ * without a ledger entry or the bytes no longer match what we wrote.
+ */
+export function disableBinaryGate(
+  nameOrCodename: string,
+  config?: GatePatchConfig
+): GateResult {
+  const gate = findPatchableGate(nameOrCodename) ?? findValueGate(nameOrCodename);
   if (!gate) {
     return {
       success: false,
@@ -171,67 +528,361 @@ export function enableBinaryGate(
     };
   }
 
-  if (!gate.semanticReplacement) {
+  const bundle = config?.binary ?? resolveBundle(config?.cliPath);
+  if (!bundle || !bundle.isBinary) {
     return {
       success: false,
-      error: `Gate "${gate.codename}" does not support binary patching (no semanticReplacement).`,
+      error: 'Could not find a native Claude Code binary.',
       gatesChanged: [],
     };
   }
 
-  const bundle = resolveBundle(config?.cliPath);
-  if (!bundle || !bundle.isBinary) {
+  const status: GateStatus = {
+    name: gate.name,
+    codename: gate.codename,
+    detected: true,
+    enabled: false,
+    envOverride: gate.envOverride,
+  };
+
+  const entries = findLedgerEntries(bundle.path, gate.codename);
+  if (entries.length === 0) {
     return {
       success: false,
-      error: 'Could not find a native Claude Code binary.',
+      error: `No ledger entry for "${gate.codename}"; the original bytes were not recorded.`,
       gatesChanged: [],
     };
   }
 
-  // Already patched?
-  if (isBinaryPatched(bundle.content, gate.codename)) {
+  const buf = bundle.buffer;
+
+  const undone: PatchLedgerEntry[] = [];
+  for (const entry of entries) {
+    if (!unpatchBinaryGate(buf, entry)) {
+      reapplyPatches(buf, undone);
+      return {
+        success: false,
+        error: `Ledger entry for "${gate.codename}" does not match the binary (was it updated or modified?).`,
+        gatesChanged: [],
+      };
+    }
+    undone.push(entry);
+  }
+
+  try {
+    fs.writeFileSync(bundle.path, buf);
+  } catch {
+    reapplyPatches(buf, undone);
+    return { success: false, error: 'Could not write unpatched binary.', gatesChanged: [] };
+  }
+
+  const signResult = resignBinary(bundle.path);
+  if (!signResult.success) {
+    return { success: false, error: signResult.error ?? 'Code signing failed.', gatesChanged: [] };
+  }
+
+  removeLedgerEntry(bundle.path, gate.codename);
+  return { success: true, gatesChanged: [status] };
+}
+
+/**
+ * Pin a data gate to a JSON value in a native binary. The literal must fit
+ * in the bytes of each accessor call it replaces; a previously set value
+ * is undone first using the ledger. Every accessor call is pinned, or the
+ * one `occurrence` picks, in every embedded copy of the JS.
+ */
+export function setBinaryGateValue(
+  nameOrCodename: string,
+  value: unknown,
+  config?: GatePatchConfig
+): GateResult {
+  const gate = findValueGate(nameOrCodename);
+  if (!gate) {
     return {
-      success: true,
-      gatesChanged: [
-        { name: gate.name, codename: gate.codename, detected: true, enabled: true, envOverride: gate.envOverride },
-      ],
+      success: false,
+      error: `Gate "${nameOrCodename}" is not a data gate that accepts a value.`,
+      gatesChanged: [],
     };
   }
 
-  // Read as Buffer for byte-level replacement
-  let buf: Buffer;
+  let literal: string;
   try {
-    buf = fs.readFileSync(bundle.path);
-  } catch {
-    return { success: false, error: 'Could not read binary file.', gatesChanged: [] };
+    literal = toJsLiteral(value);
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+      gatesChanged: [],
+    };
+  }
+
+  const bundle = config?.binary ?? resolveBundle(config?.cliPath);
+  if (!bundle || !bundle.isBinary) {
+    return {
+      success: false,
+      error: 'Could not find a native Claude Code binary.',
+      gatesChanged: [],
+    };
+  }
+
+  const buf = bundle.buffer;
+
+  // Undo a previous value or force-off so the accessor calls are matched again
+  const previous = findLedgerEntries(bundle.path, gate.codename);
+  const previousValues = previous.filter((e) => e.mode !== 'enable');
+  const undone: PatchLedgerEntry[] = [];
+  for (const entry of previousValues) {
+    if (!unpatchBinaryGate(buf, entry)) {
+      reapplyPatches(buf, undone);
+      return {
+        success: false,
+        error: `Ledger entry for "${gate.codename}" does not match the binary (was it updated or modified?).`,
+        gatesChanged: [],
+      };
+    }
+    undone.push(entry);
+  }
+
+  // Put the buffer back the way it is on disk when the value is not written
+  const undo = (written: PatchLedgerEntry[]): void => {
+    revertPatches(buf, written);
+    reapplyPatches(buf, previousValues);
+  };
+  const restoreLedger = () =>
+    previous.length > 0
+      ? recordLedgerEntries(bundle.path, previous)
+      : removeLedgerEntry(bundle.path, gate.codename);
+
+  const found = gate.valueRegex ? matchBundle(buf, gate.valueRegex, gate.name) : [];
+  const { matches, error } = selectValueMatches(buf, gate, found, config?.occurrence);
+  if (error) {
+    undo([]);
+    return { success: false, error, gatesChanged: [] };
+  }
+  let entries: PatchLedgerEntry[];
+  try {
+    entries = writeValues(buf, gate, matches, literal);
+  } catch (err) {
+    undo([]);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : String(err),
+      gatesChanged: [],
+    };
+  }
+  if (entries.length === 0) {
+    undo([]);
+    const reason = explainGateAbsence(gate, bundle.version);
+    return {
+      success: false,
+      error: reason
+        ? `Gate "${gate.codename}" is ${reason}.`
+        : `Accessor call for "${gate.codename}" not found in this binary.`,
+      gatesChanged: [],
+    };
   }
 
-  // Backup
   let backupPath: string | undefined;
   if (config?.backup !== false) {
     backupPath = `${bundle.path}.backup.${Date.now()}`;
     try {
       fs.copyFileSync(bundle.path, backupPath);
     } catch {
+      undo(entries);
       return { success: false, error: 'Could not create backup.', gatesChanged: [] };
     }
   }
 
-  const { buf: patched, changed } = patchBinaryGate(buf, bundle.content, gate);
-  if (!changed) {
+  if (!recordLedgerEntries(bundle.path, entries)) {
+    undo(entries);
+    return { success: false, error: 'Could not record patch in ledger.', gatesChanged: [] };
+  }
+
+  try {
+    fs.writeFileSync(bundle.path, buf);
+  } catch {
+    if (backupPath) {
+      try { fs.copyFileSync(backupPath, bundle.path); } catch { /* best effort */ }
+    }
+    undo(entries);
+    restoreLedger();
+    return { success: false, error: 'Could not write patched binary.', gatesChanged: [] };
+  }
+
+  const signResult = resignBinary(bundle.path);
+  if (!signResult.success) {
+    if (backupPath) {
+      try { fs.copyFileSync(backupPath, bundle.path); } catch { /* best effort */ }
+    }
+    undo(entries);
+    restoreLedger();
+    return { success: false, error: signResult.error ?? 'Code signing failed.', gatesChanged: [] };
+  }
+
+  const status: GateStatus = {
+    name: gate.name,
+    codename: gate.codename,
+    detected: true,
+    enabled: false,
+    envOverride: gate.envOverride,
+    value: literal,
+    callSites: entries.length,
+  };
+  const copies = countCopies(buf, entries);
+  if (copies > 1) status.copies = copies;
+  return { success: true, backupPath, gatesChanged: [status] };
+}
+
+/**
+ * Ledger entries as the changes a dry run reports.
+ */
+function plannedChanges(entries: PatchLedgerEntry[]): PlannedChange[] {
+  return entries.map((e) => ({
+    codename: e.codename,
+    mode: e.mode === 'force-off' ? 'force-off' : 'enable',
+    offset: e.offset,
+    original: e.original,
+    replacement: e.replacement,
+    originalBytes: Buffer.byteLength(e.original, 'latin1'),
+    replacementBytes: Buffer.byteLength(e.replacement, 'latin1'),
+  }));
+}
+
+/**
+ * Apply an enable or force-off patch for one gate to a native binary,
+ * with backup, restore-on-failure and macOS re-signing.
+ */
+function patchBinaryFile(
+  nameOrCodename: string,
+  mode: Exclude<GatePatchMode, 'value'>,
+  config?: GatePatchConfig
+): GateResult {
+  const registered =
+    mode === 'force-off' ? findForceOffGate(nameOrCodename) : findPatchableGate(nameOrCodename);
+  if (!registered) {
     return {
       success: false,
-      error: `Gate pattern for "${gate.codename}" not found in this binary.`,
+      error: `Unknown or unpatchable gate: "${nameOrCodename}".`,
       gatesChanged: [],
     };
   }
 
+  if (mode === 'enable' && !registered.semanticReplacement) {
+    return {
+      success: false,
+      error: `Gate "${registered.codename}" does not support binary patching (no semanticReplacement).`,
+      gatesChanged: [],
+    };
+  }
+
+  if (mode === 'force-off' && !registered.forceOffReplacement) {
+    return {
+      success: false,
+      error: `Gate "${registered.codename}" cannot be forced off (no forceOffReplacement).`,
+      gatesChanged: [],
+    };
+  }
+
+  const bundle = config?.binary ?? resolveBundle(config?.cliPath);
+  if (!bundle || !bundle.isBinary) {
+    return {
+      success: false,
+      error: 'Could not find a native Claude Code binary.',
+      gatesChanged: [],
+    };
+  }
+
+  const gate = gateForVersion(registered, bundle.version);
+  const status: GateStatus = {
+    name: gate.name,
+    codename: gate.codename,
+    detected: true,
+    enabled: mode === 'enable',
+    envOverride: gate.envOverride,
+  };
+  if (mode === 'force-off') status.forcedOff = true;
+
+  // Already in the requested state?
+  const buf = bundle.buffer;
+  const scan = scanBundle(buf, [gate]);
+  const isEnabled = hasScannedMarker(scan.markers, gate.codename, GATE_PATCH_MARKER, BINARY_PATCH_MARKER);
+  const isForcedOff = hasScannedMarker(
+    scan.markers, gate.codename, GATE_FORCE_OFF_MARKER, BINARY_FORCE_OFF_MARKER
+  );
+  const inState = (mode === 'enable' && isEnabled) || (mode === 'force-off' && isForcedOff);
+  const previous = inState ? findLedgerEntries(bundle.path, gate.codename) : [];
+  const missed = inState ? missedCopies(buf, gate, mode, previous, scan.matches.get(gate.codename) ?? []) : [];
+  if (inState && missed.length === 0) {
+    return { success: true, gatesChanged: [status] };
+  }
+  const isPinned = hasScannedMarker(scan.markers, gate.codename, GATE_VALUE_MARKER, BINARY_VALUE_MARKER);
+  if (!inState && (isEnabled || isForcedOff || isPinned)) {
+    const state = isEnabled ? 'enabled' : isForcedOff ? 'forced off' : 'set to a value';
+    return {
+      success: false,
+      error: `Gate "${gate.codename}" is already ${state}. Disable it first.`,
+      gatesChanged: [],
+    };
+  }
+
+  // A patch that missed some embedded copies is completed rather than redone
+  const { entries, error } = inState
+    ? { entries: writeGateMatches(buf, gate, missed, mode) }
+    : patchGateMatches(buf, gate, scan.matches.get(gate.codename) ?? [], mode, config?.occurrence);
+  if (error) {
+    return { success: false, error, gatesChanged: [] };
+  }
+  if (entries.length === 0) {
+    const reason = explainGateAbsence(gate, bundle.version);
+    return {
+      success: false,
+      error: reason
+        ? `Gate "${gate.codename}" is ${reason}.`
+        : `Gate pattern for "${gate.codename}" not found in this binary.`,
+      gatesChanged: [],
+    };
+  }
+
+  // Record the original bytes first so the patch is always reversible
+  const recorded = [...previous, ...entries];
+  if (gate.callSiteRegex) status.callSites = recorded.length;
+  const copies = countCopies(buf, recorded);
+  if (copies > 1) status.copies = copies;
+  if (config?.dryRun) {
+    revertPatches(buf, entries);
+    return { success: true, gatesChanged: [status], planned: plannedChanges(entries) };
+  }
+
+  // Backup (of the file on disk) only once there is something to write
+  let backupPath: string | undefined;
+  if (config?.backup !== false) {
+    backupPath = `${bundle.path}.backup.${Date.now()}`;
+    try {
+      fs.copyFileSync(bundle.path, backupPath);
+    } catch {
+      revertPatches(buf, entries);
+      return { success: false, error: 'Could not create backup.', gatesChanged: [] };
+    }
+  }
+
+  const restoreLedger = () =>
+    previous.length > 0
+      ? recordLedgerEntries(bundle.path, previous)
+      : removeLedgerEntry(bundle.path, gate.codename);
+
+  if (!recordLedgerEntries(bundle.path, recorded)) {
+    revertPatches(buf, entries);
+    return { success: false, error: 'Could not record patch in ledger.', gatesChanged: [] };
+  }
+
   try {
-    fs.writeFileSync(bundle.path, patched);
+    fs.writeFileSync(bundle.path, buf);
   } catch {
     if (backupPath) {
       try { fs.copyFileSync(backupPath, bundle.path); } catch { /* best effort */ }
     }
+    revertPatches(buf, entries);
+    restoreLedger();
     return { success: false, error: 'Could not write patched binary.', gatesChanged: [] };
   }
 
@@ -242,37 +893,35 @@ export function enableBinaryGate(
     if (backupPath) {
       try { fs.copyFileSync(backupPath, bundle.path); } catch { /* best effort */ }
     }
+    revertPatches(buf, entries);
+    restoreLedger();
     return { success: false, error: signResult.error ?? 'Code signing failed.', gatesChanged: [] };
   }
 
   return {
     success: true,
     backupPath,
-    gatesChanged: [
-      { name: gate.name, codename: gate.codename, detected: true, enabled: true, envOverride: gate.envOverride },
-    ],
+    gatesChanged: [status],
   };
 }
 
 /**
- * Enable all patchable gates in a native binary.
+ * Enable all patchable gates in a native binary. Ambiguous, forced-off
+ * and pinned gates are skipped and reported as in enableAllGates(), and
+ * so are gates whose match overlaps another gate's patch (with
+ * `overlapsWith`).
  */
 export function enableAllBinaryGates(config?: GatePatchConfig): GateResult {
-  const bundle = resolveBundle(config?.cliPath);
+  const bundle = config?.binary ?? resolveBundle(config?.cliPath);
   if (!bundle || !bundle.isBinary) {
     return { success: false, error: 'Could not find a native Claude Code binary.', gatesChanged: [] };
   }
 
-  let buf: Buffer;
-  try {
-    buf = fs.readFileSync(bundle.path);
-  } catch {
-    return { success: false, error: 'Could not read binary file.', gatesChanged: [] };
-  }
+  const buf = bundle.buffer;
 
   // Single backup
   let backupPath: string | undefined;
-  if (config?.backup !== false) {
+  if (config?.backup !== false && !config?.dryRun) {
     backupPath = `${bundle.path}.backup.${Date.now()}`;
     try {
       fs.copyFileSync(bundle.path, backupPath);
@@ -282,23 +931,75 @@ export function enableAllBinaryGates(config?: GatePatchConfig): GateResult {
   }
 
   const changed: GateStatus[] = [];
-  // We need to re-read content as latin1 from the buffer as we patch it
-  let content = buf.toString('latin1');
+  const entries: PatchLedgerEntry[] = [];
 
-  for (const gate of getPatchableGates()) {
-    if (!gate.semanticReplacement) continue;
+  // One scan finds every gate. Binary patches keep their length, so its
+  // offsets stay valid while we patch; a gate whose match overlaps an
+  // earlier patch is reported and skipped rather than written over it.
+  const gates = getPatchableGates()
+    .map((registered) => gateForVersion(registered, bundle.version))
+    .filter((gate) => gate.semanticReplacement);
+  const scan = scanBundle(buf, gates);
+  const overlappedPatch = (matches: RegExpMatchArray[]): PatchLedgerEntry | undefined =>
+    entries.find((e) =>
+      matches.some(
+        (m) => (m.index ?? 0) < e.offset + e.original.length && e.offset < (m.index ?? 0) + m[0].length
+      )
+    );
 
-    if (isBinaryPatched(content, gate.codename)) {
+  for (const gate of gates) {
+    if (hasScannedMarker(scan.markers, gate.codename, BINARY_PATCH_MARKER, GATE_PATCH_MARKER)) {
       changed.push({ name: gate.name, codename: gate.codename, detected: true, enabled: true, envOverride: gate.envOverride });
       continue;
     }
+    if (hasScannedMarker(scan.markers, gate.codename, BINARY_FORCE_OFF_MARKER, GATE_FORCE_OFF_MARKER)) {
+      changed.push({ name: gate.name, codename: gate.codename, detected: true, enabled: false, envOverride: gate.envOverride, forcedOff: true });
+      continue;
+    }
+    if (hasScannedMarker(scan.markers, gate.codename, BINARY_VALUE_MARKER, GATE_VALUE_MARKER)) {
+      const value = findLedgerEntry(bundle.path, gate.codename)?.value ?? '';
+      changed.push({ name: gate.name, codename: gate.codename, detected: true, enabled: false, envOverride: gate.envOverride, value });
+      continue;
+    }
 
-    const result = patchBinaryGate(buf, content, gate);
-    if (result.changed) {
-      // Re-read content from the mutated buffer for subsequent gate detections
-      content = buf.toString('latin1');
-      changed.push({ name: gate.name, codename: gate.codename, detected: true, enabled: true, envOverride: gate.envOverride });
+    // Of two conflicting gates, the first one in the registry wins
+    const enabled = changed.filter((g) => g.enabled).map((g) => g.codename);
+    if (findConflicts(gate, enabled).length > 0) continue;
+
+    const found = scan.matches.get(gate.codename) ?? [];
+    const { matches, error } = selectMatches(buf, gate, found);
+    if (error) {
+      // Ambiguous, or its copies differ: report where it matched but leave it alone
+      const matchOffsets = found.map((m) => m.index ?? 0);
+      changed.push({ name: gate.name, codename: gate.codename, detected: true, enabled: false, envOverride: gate.envOverride, matchOffsets });
+      continue;
     }
+
+    const overlapped = overlappedPatch(matches);
+    if (overlapped) {
+      const matchOffsets = matches.map((m) => m.index ?? 0);
+      changed.push({ name: gate.name, codename: gate.codename, detected: true, enabled: false, envOverride: gate.envOverride, matchOffsets, overlapsWith: overlapped.codename });
+      continue;
+    }
+    const written = writeGateMatches(buf, gate, matches, 'enable');
+    if (written.length > 0) {
+      entries.push(...written);
+      const status: GateStatus = { name: gate.name, codename: gate.codename, detected: true, enabled: true, envOverride: gate.envOverride };
+      if (gate.callSiteRegex) status.callSites = written.length;
+      const copies = countCopies(buf, written);
+      if (copies > 1) status.copies = copies;
+      changed.push(status);
+    }
+  }
+
+  if (config?.dryRun) {
+    revertPatches(buf, entries);
+    return { success: true, gatesChanged: changed, planned: plannedChanges(entries) };
+  }
+
+  if (entries.length > 0 && !recordLedgerEntries(bundle.path, entries)) {
+    revertPatches(buf, entries);
+    return { success: false, error: 'Could not record patches in ledger.', gatesChanged: [] };
   }
 
   try {
@@ -307,6 +1008,8 @@ export function enableAllBinaryGates(config?: GatePatchConfig): GateResult {
     if (backupPath) {
       try { fs.copyFileSync(backupPath, bundle.path); } catch { /* best effort */ }
     }
+    revertPatches(buf, entries);
+    for (const entry of entries) removeLedgerEntry(bundle.path, entry.codename);
     return { success: false, error: 'Could not write patched binary.', gatesChanged: [] };
   }
 
@@ -316,6 +1019,8 @@ export function enableAllBinaryGates(config?: GatePatchConfig): GateResult {
     if (backupPath) {
       try { fs.copyFileSync(backupPath, bundle.path); } catch { /* best effort */ }
     }
+    revertPatches(buf, entries);
+    for (const entry of entries) removeLedgerEntry(bundle.path, entry.codename);
     return { success: false, error: signResult.error ?? 'Code signing failed.', gatesChanged: [] };
   }
 
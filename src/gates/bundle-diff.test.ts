@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { diffBundles } from "./bundle-diff.js";
+
+const OLD = [
+  'function SZ(){return g9("tengu_keybinding_customization_release",!1)}',
+  'function Ab(){return g9("tengu_swing",!1)}',
+  'Lg("tengu_gone_event",{});',
+  "let a=process.env.CLAUDE_CODE_SHELL,b=process.env.OLD_ONLY;",
+].join("\n");
+
+const NEW = [
+  'function SZ(){return g9("tengu_keybinding_customization_release",!1)&&ready()}',
+  'if(g9("tengu_swing",!1))go();',
+  'function Nw(){return g9("tengu_brand_new",!1)}',
+  "let a=process.env.CLAUDE_CODE_SHELL,c=process.env.NEW_ONLY;",
+].join("\n");
+
+let tmpDir: string;
+
+/** Write a bundle with a package.json carrying its version */
+function install(name: string, version: string, content: string): string {
+  const dir = path.join(tmpDir, name);
+  fs.mkdirSync(dir);
+  fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ version }));
+  fs.writeFileSync(path.join(dir, "cli.js"), content);
+  return path.join(dir, "cli.js");
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-diff-"));
+  process.env.CLAUDE_PATCHER_CACHE = "off";
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_CACHE;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("diffBundles", () => {
+  it("should report added and removed flags and env vars", () => {
+    const diff = diffBundles(install("old", "2.1.70", OLD), install("new", "2.1.71", NEW));
+    expect(diff.error).toBeUndefined();
+    expect(diff.old.version).toBe("2.1.70");
+    expect(diff.new.version).toBe("2.1.71");
+    expect(diff.flags).toEqual({ added: ["tengu_brand_new"], removed: ["tengu_gone_event"] });
+    expect(diff.envVars).toEqual({ added: ["NEW_ONLY"], removed: ["OLD_ONLY"] });
+  });
+
+  it("should report flags that changed tier", () => {
+    const diff = diffBundles(install("old", "2.1.70", OLD), install("new", "2.1.71", NEW));
+    expect(diff.tierChanges).toContainEqual({
+      flag: "tengu_swing",
+      from: "wrapper",
+      to: "inline",
+      fromTier: 1,
+      toTier: 5,
+    });
+  });
+
+  it("should report gates whose pattern stopped matching", () => {
+    const diff = diffBundles(install("old", "2.1.70", OLD), install("new", "2.1.71", NEW));
+    expect(diff.gates).toContainEqual({
+      codename: "keybinding-customization",
+      name: "tengu_keybinding_customization_release",
+      kind: "stopped-matching",
+    });
+    expect(diff.gates.filter((g) => g.kind === "stopped-matching")).toHaveLength(1);
+  });
+
+  it("should report gates that only apply to one version as added or removed", () => {
+    const diff = diffBundles(install("old", "2.1.50", OLD), install("new", "2.1.71", NEW));
+    expect(diff.gates).toContainEqual({ codename: "oboe", name: "tengu_oboe", kind: "removed" });
+  });
+
+  it("should fail when a bundle cannot be found", () => {
+    const missing = path.join(tmpDir, "nope", "cli.js");
+    const diff = diffBundles(install("old", "2.1.70", OLD), missing);
+    expect(diff.error).toBe(`Could not find a Claude Code bundle at ${missing}`);
+  });
+});
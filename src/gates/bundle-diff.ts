@@ -0,0 +1,139 @@
+/**
+ * Bundle Diff
+ *
+ * Compares two Claude Code bundles (JS or native, in any combination) so
+ * a release can be triaged in one go: which `tengu_*` flags and
+ * environment variables appeared or vanished, which flags changed tier,
+ * and which registered gates stopped matching. Both sides go through the
+ * same cached scans as `gates`, `gates scan` and `env scan`, so diffing
+ * against a version that was checked before costs only the new side.
+ */
+
+import type {
+  BundleDiff,
+  FlagAnalysis,
+  FlagTierChange,
+  GateDetectionChange,
+  GateStatus,
+} from '../types.js';
+import { analyzeAllFlags } from './analyzer.js';
+import { detectAllGates, locateBundle, scanAllFlags } from './detector.js';
+import { diffEnvVars, scanEnvVars } from './env-vars.js';
+
+/**
+ * Names in `after` but not `before` (added) and the other way round
+ * (removed), each sorted.
+ */
+function diffNames(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const old = new Set(before);
+  const current = new Set(after);
+  return {
+    added: after.filter((name) => !old.has(name)).sort(),
+    removed: before.filter((name) => !current.has(name)).sort(),
+  };
+}
+
+/**
+ * How each gate's detection changed, in registry order. A gate that is
+ * only expected in one of the versions is reported as added or removed.
+ */
+function diffGates(listedBefore: GateStatus[], listedAfter: GateStatus[]): GateDetectionChange[] {
+  // Gates outside a version's range are listed with the reason they are missing
+  const before = listedBefore.filter((status) => !status.unavailableReason);
+  const after = listedAfter.filter((status) => !status.unavailableReason);
+  const changes: GateDetectionChange[] = [];
+  const old = new Map(before.map((status) => [status.codename, status]));
+  const current = new Set(after.map((status) => status.codename));
+
+  for (const status of after) {
+    const { codename, name } = status;
+    const previous = old.get(codename);
+    if (!previous) {
+      changes.push({ codename, name, kind: 'added' });
+      continue;
+    }
+    if (previous.detected !== status.detected) {
+      changes.push({ codename, name, kind: status.detected ? 'started-matching' : 'stopped-matching' });
+      continue;
+    }
+    if (!status.detected) continue;
+
+    const matchesBefore = previous.matchOffsets?.length;
+    const matchesAfter = status.matchOffsets?.length;
+    if (matchesBefore !== matchesAfter) {
+      changes.push({
+        codename,
+        name,
+        kind: 'match-count',
+        before: String(matchesBefore ?? 0),
+        after: String(matchesAfter ?? 0),
+      });
+    }
+    if (previous.defaultValue !== status.defaultValue) {
+      const change: GateDetectionChange = { codename, name, kind: 'default' };
+      if (previous.defaultValue !== undefined) change.before = previous.defaultValue;
+      if (status.defaultValue !== undefined) change.after = status.defaultValue;
+      changes.push(change);
+    }
+  }
+
+  for (const status of before) {
+    if (!current.has(status.codename)) {
+      changes.push({ codename: status.codename, name: status.name, kind: 'removed' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Flags present in both bundles whose classification differs.
+ */
+function diffTiers(before: FlagAnalysis[], after: FlagAnalysis[]): FlagTierChange[] {
+  const old = new Map(before.map((analysis) => [analysis.flag, analysis]));
+  const changes: FlagTierChange[] = [];
+  for (const analysis of after) {
+    const previous = old.get(analysis.flag);
+    if (!previous || previous.kind === analysis.kind) continue;
+
+    const change: FlagTierChange = { flag: analysis.flag, from: previous.kind, to: analysis.kind };
+    if (previous.tier !== undefined) change.fromTier = previous.tier;
+    if (analysis.tier !== undefined) change.toTier = analysis.tier;
+    changes.push(change);
+  }
+  return changes;
+}
+
+/**
+ * Compare two Claude Code installs, given the path of each CLI (or
+ * bundle). Gates are detected against each bundle's own version, so a
+ * gate rolled out between the two is reported as removed rather than as
+ * no longer matching.
+ */
+export function diffBundles(oldPath: string, newPath: string): BundleDiff {
+  const oldLocation = locateBundle(oldPath);
+  const newLocation = locateBundle(newPath);
+  const diff: BundleDiff = {
+    old: { path: oldLocation?.path ?? oldPath },
+    new: { path: newLocation?.path ?? newPath },
+    flags: { added: [], removed: [] },
+    tierChanges: [],
+    envVars: { added: [], removed: [] },
+    gates: [],
+  };
+  if (oldLocation?.version) diff.old.version = oldLocation.version;
+  if (newLocation?.version) diff.new.version = newLocation.version;
+
+  const missing = !oldLocation ? oldPath : !newLocation ? newPath : undefined;
+  if (missing !== undefined) {
+    return { ...diff, error: `Could not find a Claude Code bundle at ${missing}` };
+  }
+
+  diff.flags = diffNames(scanAllFlags(oldPath), scanAllFlags(newPath));
+  diff.tierChanges = diffTiers(analyzeAllFlags(oldPath), analyzeAllFlags(newPath));
+  diff.envVars = diffEnvVars(
+    scanEnvVars(oldPath).map((scan) => scan.name),
+    scanEnvVars(newPath).map((scan) => scan.name)
+  );
+  diff.gates = diffGates(detectAllGates(oldPath), detectAllGates(newPath));
+  return diff;
+}
@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { embeddedJsRanges, parseBinaryContainer } from "./container.js";
+import { disableBinaryGate, enableBinaryGate, patchBinaryGate } from "./binary-patcher.js";
+import { detectGate } from "./detector.js";
+import { readLedger, recordLedgerEntries } from "./ledger.js";
+import { findGate } from "./registry.js";
+import { indexBundle, scanBundle } from "./scanner.js";
+
+const JS = 'function Qc(){return g9("tengu_amber_quartz",!1)}\nlet label="café";\n';
+const DECOY = 'var src=`function Qc(){return g9("tengu_amber_quartz",!1)}`;';
+
+interface Section {
+  name: string;
+  type?: number;
+  data: Buffer;
+}
+
+function u32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value);
+  return buf;
+}
+
+function u64(value: number): Buffer {
+  const buf = Buffer.alloc(8);
+  buf.writeBigUInt64LE(BigInt(value));
+  return buf;
+}
+
+/** A Bun module graph: strings, module table, offsets struct and trailer */
+function bunGraph(modules: { name: string; contents: string }[], recordSize = 36, entryPoint = 0): Buffer {
+  const strings: Buffer[] = [];
+  const records: Buffer[] = [];
+  let at = 0;
+  const add = (text: string) => {
+    const bytes = Buffer.from(text, "latin1");
+    strings.push(bytes);
+    at += bytes.length;
+    return [at - bytes.length, bytes.length];
+  };
+  for (const module of modules) {
+    const record = Buffer.alloc(recordSize);
+    const [nameOffset, nameLength] = add(module.name);
+    const [contentsOffset, contentsLength] = add(module.contents);
+    record.writeUInt32LE(nameOffset, 0);
+    record.writeUInt32LE(nameLength, 4);
+    record.writeUInt32LE(contentsOffset, 8);
+    record.writeUInt32LE(contentsLength, 12);
+    records.push(record);
+  }
+  const table = Buffer.concat(records);
+  const data = Buffer.concat([...strings, table]);
+  const offsets = Buffer.concat([u64(data.length), u32(at), u32(table.length), u32(entryPoint), Buffer.alloc(12)]);
+  return Buffer.concat([data, offsets, Buffer.from("\n---- Bun! ----\n", "latin1")]);
+}
+
+/** A Node.js SEA blob with a code path and main script */
+function seaBlob(codePath: string, main: string, flags = 0): Buffer {
+  const str = (text: string) => Buffer.concat([u64(Buffer.byteLength(text, "latin1")), Buffer.from(text, "latin1")]);
+  return Buffer.concat([u32(0x143da20), u32(flags), str(codePath), str(main)]);
+}
+
+function pad4(buf: Buffer): Buffer {
+  return Buffer.concat([buf, Buffer.alloc((4 - (buf.length % 4)) % 4)]);
+}
+
+function elfNote(name: string, desc: Buffer): Buffer {
+  const nameBytes = Buffer.from(`${name}\0`, "latin1");
+  return Buffer.concat([u32(nameBytes.length), u32(desc.length), u32(0), pad4(nameBytes), pad4(desc)]);
+}
+
+/** A 64-bit little-endian ELF with the given sections and a PT_NOTE per note section */
+function elf(sections: Section[], appended = Buffer.alloc(0)): Buffer {
+  const names = ["", ...sections.map((s) => s.name), ".shstrtab"];
+  const nameOffsets = names.map((_, i) => names.slice(0, i).reduce((n, name) => n + name.length + 1, 0));
+  const strtab = Buffer.from(names.map((n) => `${n}\0`).join(""), "latin1");
+  const notes = sections.filter((s) => s.type === 7);
+
+  let at = 64 + 56 * notes.length;
+  const placed = sections.map((section) => {
+    const offset = at;
+    at += section.data.length;
+    return { ...section, offset };
+  });
+  const strtabOffset = at;
+  const shOffset = strtabOffset + strtab.length;
+  const shCount = sections.length + 2;
+  const image = Buffer.alloc(shOffset + 64 * shCount);
+
+  image.writeUInt32BE(0x7f454c46, 0);
+  image[4] = 2;
+  image[5] = 1;
+  image[6] = 1;
+  image.writeUInt16LE(2, 16);
+  image.writeUInt16LE(62, 18);
+  image.writeUInt32LE(1, 20);
+  image.writeBigUInt64LE(64n, 0x20);
+  image.writeBigUInt64LE(BigInt(shOffset), 0x28);
+  image.writeUInt16LE(64, 0x34);
+  image.writeUInt16LE(56, 0x36);
+  image.writeUInt16LE(notes.length, 0x38);
+  image.writeUInt16LE(64, 0x3a);
+  image.writeUInt16LE(shCount, 0x3c);
+  image.writeUInt16LE(shCount - 1, 0x3e);
+
+  placed
+    .filter((s) => s.type === 7)
+    .forEach((note, i) => {
+      const ph = 64 + 56 * i;
+      image.writeUInt32LE(4, ph);
+      image.writeBigUInt64LE(BigInt(note.offset), ph + 8);
+      image.writeBigUInt64LE(BigInt(note.data.length), ph + 32);
+    });
+
+  const headers = [
+    ...placed.map((s, i) => ({ name: nameOffsets[i + 1], type: s.type ?? 1, offset: s.offset, size: s.data.length })),
+    { name: nameOffsets[names.length - 1], type: 3, offset: strtabOffset, size: strtab.length },
+  ];
+  headers.forEach((header, i) => {
+    const sh = shOffset + 64 * (i + 1);
+    image.writeUInt32LE(header.name, sh);
+    image.writeUInt32LE(header.type, sh + 4);
+    image.writeBigUInt64LE(BigInt(header.offset), sh + 24);
+    image.writeBigUInt64LE(BigInt(header.size), sh + 32);
+  });
+  for (const section of placed) section.data.copy(image, section.offset);
+  strtab.copy(image, strtabOffset);
+  return Buffer.concat([image, appended]);
+}
+
+/** A 64-bit little-endian Mach-O with one segment per section */
+function macho(sections: { segment: string; section: string; data: Buffer }[]): Buffer {
+  const commandSize = 72 + 80;
+  let at = 32 + commandSize * sections.length;
+  const placed = sections.map((section) => {
+    const offset = at;
+    at += section.data.length;
+    return { ...section, offset };
+  });
+  const image = Buffer.alloc(at);
+
+  image.writeUInt32LE(0xfeedfacf, 0);
+  image.writeUInt32LE(0x0100000c, 4);
+  image.writeUInt32LE(2, 12);
+  image.writeUInt32LE(sections.length, 16);
+  image.writeUInt32LE(commandSize * sections.length, 20);
+  placed.forEach((section, i) => {
+    const cmd = 32 + commandSize * i;
+    image.writeUInt32LE(0x19, cmd);
+    image.writeUInt32LE(commandSize, cmd + 4);
+    image.write(section.segment, cmd + 8, "latin1");
+    image.writeBigUInt64LE(BigInt(section.offset), cmd + 40);
+    image.writeBigUInt64LE(BigInt(section.data.length), cmd + 48);
+    image.writeUInt32LE(1, cmd + 64);
+    image.write(section.section, cmd + 72, "latin1");
+    image.write(section.segment, cmd + 88, "latin1");
+    image.writeBigUInt64LE(BigInt(section.data.length), cmd + 112);
+    image.writeUInt32LE(section.offset, cmd + 120);
+    section.data.copy(image, section.offset);
+  });
+  return image;
+}
+
+/** A universal binary holding the given Mach-O slices */
+function fat(slices: Buffer[]): Buffer {
+  const header = Buffer.alloc(8 + 20 * slices.length);
+  header.writeUInt32BE(0xcafebabe, 0);
+  header.writeUInt32BE(slices.length, 4);
+  let at = header.length;
+  slices.forEach((slice, i) => {
+    header.writeUInt32BE(at, 8 + 20 * i + 8);
+    header.writeUInt32BE(slice.length, 8 + 20 * i + 12);
+    at += slice.length;
+  });
+  return Buffer.concat([header, ...slices]);
+}
+
+function moduleText(buf: Buffer, module: { offset: number; length: number }): string {
+  return buf.toString("latin1", module.offset, module.offset + module.length);
+}
+
+describe("parseBinaryContainer", () => {
+  it("should find the JS modules of a Bun graph appended to an ELF", () => {
+    const graph = bunGraph([
+      { name: "/$bunfs/root/claude", contents: Buffer.from(JS).toString("latin1") },
+      { name: "/$bunfs/root/rg.node", contents: "\x7fELF native addon" },
+      { name: "/$bunfs/root/worker.js", contents: "let worker=1;" },
+    ]);
+    const buf = elf([{ name: ".rodata", data: Buffer.from(DECOY) }], Buffer.concat([graph, u64(4096)]));
+
+    const container = parseBinaryContainer(buf);
+    expect(container.format).toBe("elf");
+    expect(container.payloads).toEqual([expect.objectContaining({ kind: "bun", location: "appended" })]);
+    expect(container.modules.map((m) => [m.name, m.entryPoint])).toEqual([
+      ["/$bunfs/root/claude", true],
+      ["/$bunfs/root/worker.js", false],
+    ]);
+    expect(moduleText(buf, container.modules[0])).toBe(Buffer.from(JS).toString("latin1"));
+    expect(moduleText(buf, container.modules[1])).toBe("let worker=1;");
+  });
+
+  it("should accept the larger module records of other Bun releases in a .bun section", () => {
+    const graph = bunGraph([{ name: "/$bunfs/root/claude", contents: JS }], 52);
+    const buf = elf([{ name: ".text", data: Buffer.alloc(64) }, { name: ".bun", data: Buffer.concat([u64(graph.length), graph]) }]);
+
+    const container = parseBinaryContainer(buf);
+    expect(container.payloads).toEqual([expect.objectContaining({ kind: "bun", location: ".bun" })]);
+    expect(container.modules).toHaveLength(1);
+    expect(moduleText(buf, container.modules[0])).toBe(JS);
+  });
+
+  it("should read the main script of a Node.js SEA blob from an ELF note", () => {
+    const blob = seaBlob("/build/cli.js", JS);
+    const buf = elf([{ name: ".note.sea", type: 7, data: elfNote("NODE_SEA_BLOB", blob) }]);
+
+    const container = parseBinaryContainer(buf);
+    expect(container.payloads).toEqual([expect.objectContaining({ kind: "node-sea", location: "NODE_SEA_BLOB" })]);
+    expect(container.modules).toEqual([
+      expect.objectContaining({ name: "/build/cli.js", kind: "node-sea", entryPoint: true }),
+    ]);
+    expect(moduleText(buf, container.modules[0])).toBe(JS);
+  });
+
+  it("should find no source in a SEA blob built from a snapshot", () => {
+    const buf = elf([{ name: ".note.sea", type: 7, data: elfNote("NODE_SEA_BLOB", seaBlob("/build/cli.js", "snapshot", 2)) }]);
+    expect(parseBinaryContainer(buf).modules).toEqual([]);
+  });
+
+  it("should read every slice of a universal Mach-O binary", () => {
+    const bun = macho([
+      { segment: "__TEXT", section: "__text", data: Buffer.alloc(32) },
+      { segment: "__BUN", section: "__bun", data: bunGraph([{ name: "/$bunfs/root/claude", contents: JS }]) },
+    ]);
+    const sea = macho([{ segment: "__NODE_SEA", section: "__NODE_SEA_BLOB", data: seaBlob("cli.js", JS) }]);
+    const buf = fat([bun, sea]);
+
+    const container = parseBinaryContainer(buf);
+    expect(container.format).toBe("macho");
+    expect(container.slices).toBe(2);
+    expect(container.payloads.map((p) => `${p.kind} ${p.location}`)).toEqual([
+      "bun __BUN,__bun",
+      "node-sea __NODE_SEA,__NODE_SEA_BLOB",
+    ]);
+    expect(container.modules.map((m) => moduleText(buf, m))).toEqual([JS, JS]);
+  });
+
+  it("should fall back to the whole file for unknown or truncated binaries", () => {
+    const text = Buffer.from(`${DECOY}\n${JS}`, "latin1");
+    expect(parseBinaryContainer(text)).toEqual({ format: "unknown", slices: 0, payloads: [], modules: [] });
+    expect(embeddedJsRanges(text)).toEqual([[0, text.length]]);
+
+    const truncated = elf([{ name: ".bun", data: bunGraph([{ name: "claude", contents: JS }]) }]).subarray(0, 200);
+    expect(parseBinaryContainer(truncated)).toMatchObject({ format: "elf", modules: [] });
+    expect(embeddedJsRanges(truncated)).toEqual([[0, 200]]);
+  });
+});
+
+describe("scanning native binaries", () => {
+  const gate = findGate("amber-quartz")!;
+
+  function binaryWithDecoy(): { buf: Buffer; offset: number } {
+    const buf = elf([
+      { name: ".rodata", data: Buffer.from(DECOY) },
+      { name: ".bun", data: bunGraph([{ name: "/$bunfs/root/claude", contents: JS }]) },
+    ]);
+    return { buf, offset: parseBinaryContainer(buf).modules[0].offset };
+  }
+
+  it("should only match inside the embedded modules", () => {
+    const { buf, offset } = binaryWithDecoy();
+    expect(indexBundle(buf).flags.get("tengu_amber_quartz")).toEqual([offset + JS.indexOf("tengu_")]);
+    const matches = scanBundle(buf, [gate]).matches.get("amber-quartz")!;
+    expect(matches.map((m) => m.index)).toEqual([offset]);
+  });
+
+  it("should patch the embedded copy and leave the rest of the executable alone", () => {
+    const { buf, offset } = binaryWithDecoy();
+    const before = Buffer.from(buf);
+    const result = patchBinaryGate(buf, buf.toString("latin1"), gate);
+
+    expect(result.error).toBeUndefined();
+    expect(result.entries.map((e) => e.offset)).toEqual([offset]);
+    expect(buf.length).toBe(before.length);
+    expect(buf.subarray(0, offset).equals(before.subarray(0, offset))).toBe(true);
+    expect(buf.toString("latin1", offset, offset + 30)).toMatch(/^function Qc\(\)\{return!0\}/);
+  });
+});
+
+describe("embedded copies", () => {
+  const gate = findGate("amber-quartz")!;
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-copies-"));
+    process.env.CLAUDE_PATCHER_CACHE = "off";
+  });
+
+  afterEach(() => {
+    delete process.env.CLAUDE_PATCHER_CACHE;
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  /** A universal binary with the same entry module in both slices */
+  function twoCopies(second = JS): Buffer {
+    const slice = (source: string) =>
+      macho([{ segment: "__BUN", section: "__bun", data: bunGraph([{ name: "/$bunfs/root/claude", contents: source }]) }]);
+    return fat([slice(JS), slice(second)]);
+  }
+
+  function install(buf: Buffer): string {
+    const binary = path.join(tmpDir, "2.1.70");
+    fs.writeFileSync(binary, buf);
+    return binary;
+  }
+
+  it("should patch the same site in every copy", () => {
+    const buf = twoCopies();
+    const offsets = parseBinaryContainer(buf).modules.map((m) => m.offset);
+    const result = patchBinaryGate(buf, buf.toString("latin1"), gate);
+
+    expect(result.error).toBeUndefined();
+    expect(result.entries.map((e) => e.offset)).toEqual(offsets);
+    for (const offset of offsets) {
+      expect(buf.toString("latin1", offset, offset + 23)).toBe("function Qc(){return!0}");
+    }
+  });
+
+  it("should name the copies when they differ", () => {
+    const buf = twoCopies(JS.replace("Qc", "Zz"));
+    const [first, second] = parseBinaryContainer(buf).modules;
+    const result = patchBinaryGate(buf, buf.toString("latin1"), gate);
+
+    expect(result.changed).toBe(false);
+    expect(result.error).toBe(
+      `Gate "amber-quartz" differs between the 2 embedded copies of the JS: ` +
+        `/$bunfs/root/claude at ${first.offset}: 1 match (offsets ${first.offset}); ` +
+        `/$bunfs/root/claude at ${second.offset}: 1 match (offsets ${second.offset}). ` +
+        `Patch a single copy with --occurrence <0-1>.`
+    );
+
+    const single = patchBinaryGate(buf, buf.toString("latin1"), gate, "enable", 1);
+    expect(single.entries.map((e) => e.offset)).toEqual([second.offset]);
+  });
+
+  it("should detect and complete a patch that missed a copy", () => {
+    const buf = twoCopies();
+    const original = Buffer.from(buf);
+    const [first, second] = parseBinaryContainer(buf).modules;
+    // As left by a patcher that only rewrote the first copy
+    const [entry] = patchBinaryGate(buf, buf.toString("latin1"), gate).entries;
+    original.copy(buf, second.offset, second.offset, second.offset + entry.original.length);
+    const binary = install(buf);
+    recordLedgerEntries(binary, [entry]);
+
+    const partial = detectGate("amber-quartz", binary)!;
+    expect(partial.enabled).toBe(true);
+    expect(partial.unpatchedOffsets).toEqual([second.offset]);
+    expect(partial.effective).toBe("unknown");
+
+    const result = enableBinaryGate("amber-quartz", { cliPath: binary, backup: false });
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].copies).toBe(2);
+    expect(readLedger(binary).entries.map((e) => e.offset)).toEqual([first.offset, second.offset]);
+    expect(detectGate("amber-quartz", binary)).toMatchObject({ effective: "on" });
+    expect(detectGate("amber-quartz", binary)!.unpatchedOffsets).toBeUndefined();
+
+    expect(disableBinaryGate("amber-quartz", { cliPath: binary }).success).toBe(true);
+    expect(fs.readFileSync(binary).equals(original)).toBe(true);
+  });
+});
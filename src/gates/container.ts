@@ -0,0 +1,446 @@
+/**
+ * Native Binary Container
+ *
+ * Native Claude Code installs are executables with the JS bundle embedded
+ * in them. Scanning the whole file lets a gate pattern match inside
+ * unrelated data, or in a second copy of the source, so this module finds
+ * where the JS actually is:
+ *
+ *   - ELF: a `.bun` section, a `NODE_SEA_BLOB` note (Node.js SEA, as
+ *     injected by postject), or a payload appended after the image.
+ *   - Mach-O, thin or universal: the `__BUN,__bun` or
+ *     `__NODE_SEA,__NODE_SEA_BLOB` section of each slice, or a payload
+ *     appended after it.
+ *
+ * A Bun payload ends with an offsets struct and the `\n---- Bun! ----\n`
+ * trailer; the offsets point at the module table, which gives the name and
+ * source range of every module. A Node.js SEA blob starts with a magic
+ * number and flags, then the code path and main script as length-prefixed
+ * strings.
+ *
+ * Bun has grown these structs between releases, so the known sizes are
+ * tried in turn and a layout is only accepted when every pointer in it
+ * stays inside the payload. When a format is not recognised the scanner
+ * falls back to the whole file, as before.
+ */
+
+import type { BinaryContainer, EmbeddedModule, EmbeddedPayload } from '../types.js';
+
+const BUN_TRAILER = Buffer.from('\n---- Bun! ----\n', 'latin1');
+
+/** Bytes at the end of a region searched for the Bun trailer */
+const TRAILER_SEARCH = 4096;
+
+/** Sizes of Bun's offsets struct, tried in turn */
+const BUN_OFFSETS_SIZES = [32, 24, 40];
+
+/** Sizes of one Bun module table record, tried in turn */
+const BUN_MODULE_SIZES = [36, 44, 52];
+
+const MAX_MODULE_NAME = 4096;
+
+/** Module names whose contents are JS source */
+const JS_MODULE = /\.(?:[cm]?js|jsx|[cm]?ts|tsx)$/;
+
+const SEA_MAGIC = 0x143da20;
+const SEA_USE_SNAPSHOT = 1 << 1;
+const SEA_NOTE = 'NODE_SEA_BLOB';
+
+const PT_NOTE = 4;
+const SHT_NOTE = 7;
+const SHT_NOBITS = 8;
+
+const MH_MAGIC = 0xfeedface;
+const MH_MAGIC_64 = 0xfeedfacf;
+const MH_CIGAM = 0xcefaedfe;
+const MH_CIGAM_64 = 0xcffaedfe;
+const FAT_MAGIC = 0xcafebabe;
+const FAT_MAGIC_64 = 0xcafebabf;
+const LC_SEGMENT = 0x1;
+const LC_SEGMENT_64 = 0x19;
+
+/** More slices than this means 0xcafebabe is a Java class file, not a universal binary */
+const MAX_FAT_SLICES = 16;
+
+/** Mach-O sections (`segment,section`) that hold an embedded payload */
+const EMBED_SECTIONS = new Set(['__BUN,__bun', '__NODE_SEA,__NODE_SEA_BLOB']);
+
+/** Parsed containers, per buffer (patches never touch the headers) */
+const parsed = new WeakMap<Buffer, BinaryContainer>();
+
+interface Reader {
+  u16(at: number): number;
+  u32(at: number): number;
+  u64(at: number): number;
+}
+
+function reader(buf: Buffer, littleEndian: boolean): Reader {
+  return littleEndian
+    ? {
+        u16: (at) => buf.readUInt16LE(at),
+        u32: (at) => buf.readUInt32LE(at),
+        u64: (at) => Number(buf.readBigUInt64LE(at)),
+      }
+    : {
+        u16: (at) => buf.readUInt16BE(at),
+        u32: (at) => buf.readUInt32BE(at),
+        u64: (at) => Number(buf.readBigUInt64BE(at)),
+      };
+}
+
+/** A NUL-terminated string of at most `max` bytes */
+function cString(buf: Buffer, at: number, max: number): string {
+  const end = buf.indexOf(0, at);
+  return buf.toString('latin1', at, end === -1 || end > at + max ? at + max : end);
+}
+
+function isPrintable(text: string): boolean {
+  return /^[\x20-\x7e]+$/.test(text);
+}
+
+/**
+ * The modules of a Bun module graph whose table starts `modulesOffset`
+ * bytes into the data at `dataStart`, or null when a record points
+ * outside the data (the record size is wrong).
+ */
+function readBunModules(
+  buf: Buffer,
+  dataStart: number,
+  byteCount: number,
+  modulesOffset: number,
+  modulesLength: number,
+  entryPoint: number,
+  recordSize: number
+): EmbeddedModule[] | null {
+  const modules: EmbeddedModule[] = [];
+  for (let i = 0; i * recordSize < modulesLength; i++) {
+    const at = dataStart + modulesOffset + i * recordSize;
+    const nameOffset = buf.readUInt32LE(at);
+    const nameLength = buf.readUInt32LE(at + 4);
+    const contentsOffset = buf.readUInt32LE(at + 8);
+    const contentsLength = buf.readUInt32LE(at + 12);
+    if (
+      nameLength === 0 ||
+      nameLength > MAX_MODULE_NAME ||
+      nameOffset + nameLength > byteCount ||
+      contentsOffset + contentsLength > byteCount
+    ) {
+      return null;
+    }
+
+    const name = buf.toString('latin1', dataStart + nameOffset, dataStart + nameOffset + nameLength);
+    if (!isPrintable(name)) return null;
+    if (contentsLength > 0 && (i === entryPoint || JS_MODULE.test(name))) {
+      modules.push({
+        name,
+        kind: 'bun',
+        offset: dataStart + contentsOffset,
+        length: contentsLength,
+        entryPoint: i === entryPoint,
+      });
+    }
+  }
+  return modules;
+}
+
+/**
+ * A Bun module graph ending within the last TRAILER_SEARCH bytes of
+ * `[start, end)`. When the module table cannot be read, the whole payload
+ * is returned as one module so the scan still stays inside it.
+ */
+function parseBunGraph(
+  buf: Buffer,
+  start: number,
+  end: number,
+  location: string
+): { payload: EmbeddedPayload; modules: EmbeddedModule[] } | null {
+  const tail = Math.max(start, end - TRAILER_SEARCH);
+  const found = buf.subarray(tail, end).lastIndexOf(BUN_TRAILER);
+  if (found === -1) return null;
+  const trailer = tail + found;
+  const payloadEnd = trailer + BUN_TRAILER.length;
+
+  for (const offsetsSize of BUN_OFFSETS_SIZES) {
+    const offsets = trailer - offsetsSize;
+    if (offsets < start) continue;
+    const byteCount = Number(buf.readBigUInt64LE(offsets));
+    const dataStart = offsets - byteCount;
+    const modulesOffset = buf.readUInt32LE(offsets + 8);
+    const modulesLength = buf.readUInt32LE(offsets + 12);
+    const entryPoint = buf.readUInt32LE(offsets + 16);
+    if (dataStart < start || modulesLength === 0 || modulesOffset + modulesLength > byteCount) continue;
+
+    for (const recordSize of BUN_MODULE_SIZES) {
+      if (modulesLength % recordSize !== 0) continue;
+      const modules = readBunModules(
+        buf, dataStart, byteCount, modulesOffset, modulesLength, entryPoint, recordSize
+      );
+      if (modules) {
+        return {
+          payload: { kind: 'bun', location, offset: dataStart, length: payloadEnd - dataStart },
+          modules,
+        };
+      }
+    }
+  }
+
+  return {
+    payload: { kind: 'bun', location, offset: start, length: payloadEnd - start },
+    modules: [{ name: location, kind: 'bun', offset: start, length: trailer - start, entryPoint: true }],
+  };
+}
+
+/** A length-prefixed (size_t) string of a SEA blob */
+function seaString(buf: Buffer, at: number, end: number): { offset: number; length: number } | null {
+  if (at + 8 > end) return null;
+  const length = Number(buf.readBigUInt64LE(at));
+  return at + 8 + length <= end ? { offset: at + 8, length } : null;
+}
+
+/**
+ * A Node.js SEA blob at `[start, end)`. A blob built from a startup
+ * snapshot has no JS source, so it has no modules.
+ */
+function parseSeaBlob(
+  buf: Buffer,
+  start: number,
+  end: number,
+  location: string
+): { payload: EmbeddedPayload; modules: EmbeddedModule[] } | null {
+  if (end - start < 16 || buf.readUInt32LE(start) !== SEA_MAGIC) return null;
+  const payload: EmbeddedPayload = { kind: 'node-sea', location, offset: start, length: end - start };
+  if (buf.readUInt32LE(start + 4) & SEA_USE_SNAPSHOT) return { payload, modules: [] };
+
+  // Newer blobs carry the code path before the main script; older ones start with it
+  const codePath = seaString(buf, start + 8, end);
+  const name = codePath ? buf.toString('latin1', codePath.offset, codePath.offset + codePath.length) : '';
+  const main = codePath && isPrintable(name) ? seaString(buf, codePath.offset + codePath.length, end) : null;
+  const source = main ?? codePath;
+  if (!source || source.length === 0) return { payload, modules: [] };
+  return {
+    payload,
+    modules: [{ name: main ? name : 'main', kind: 'node-sea', ...source, entryPoint: true }],
+  };
+}
+
+/**
+ * Record the payload in `[start, end)`, if it is one.
+ */
+function addPayload(
+  buf: Buffer,
+  container: BinaryContainer,
+  location: string,
+  start: number,
+  end: number
+): void {
+  if (end <= start || end > buf.length) return;
+  const found = parseBunGraph(buf, start, end, location) ?? parseSeaBlob(buf, start, end, location);
+  if (found) {
+    container.payloads.push(found.payload);
+    container.modules.push(...found.modules);
+  }
+}
+
+/**
+ * Record the SEA blob among the ELF notes in `[start, end)`.
+ */
+function addElfNotes(
+  buf: Buffer,
+  container: BinaryContainer,
+  r: Reader,
+  start: number,
+  end: number
+): void {
+  const align = (n: number) => (n + 3) & ~3;
+  for (let at = start; at + 12 <= end; ) {
+    const nameSize = r.u32(at);
+    const descSize = r.u32(at + 4);
+    const name = cString(buf, at + 12, nameSize);
+    const desc = at + 12 + align(nameSize);
+    if (name === SEA_NOTE) addPayload(buf, container, SEA_NOTE, desc, desc + descSize);
+    at = desc + align(descSize);
+  }
+}
+
+function parseElf(buf: Buffer, container: BinaryContainer): void {
+  const is64 = buf[4] === 2;
+  const r = reader(buf, buf[5] !== 2);
+  const phOffset = is64 ? r.u64(0x20) : r.u32(0x1c);
+  const shOffset = is64 ? r.u64(0x28) : r.u32(0x20);
+  const phSize = r.u16(is64 ? 0x36 : 0x2a);
+  const phCount = r.u16(is64 ? 0x38 : 0x2c);
+  const shSize = r.u16(is64 ? 0x3a : 0x2e);
+  const shCount = r.u16(is64 ? 0x3c : 0x30);
+  const shStrIndex = r.u16(is64 ? 0x3e : 0x32);
+
+  let imageEnd = Math.max(phOffset + phCount * phSize, shOffset + shCount * shSize);
+  const notes = new Map<number, number>();
+
+  for (let i = 0; i < phCount; i++) {
+    const at = phOffset + i * phSize;
+    const offset = is64 ? r.u64(at + 8) : r.u32(at + 4);
+    const size = is64 ? r.u64(at + 32) : r.u32(at + 16);
+    imageEnd = Math.max(imageEnd, offset + size);
+    if (r.u32(at) === PT_NOTE) notes.set(offset, size);
+  }
+
+  const sections = Array.from({ length: shCount }, (_, i) => {
+    const at = shOffset + i * shSize;
+    return {
+      name: r.u32(at),
+      type: r.u32(at + 4),
+      offset: is64 ? r.u64(at + 24) : r.u32(at + 16),
+      size: is64 ? r.u64(at + 32) : r.u32(at + 20),
+    };
+  });
+  const names = sections[shStrIndex];
+
+  for (const section of sections) {
+    if (section.type === SHT_NOBITS) continue;
+    imageEnd = Math.max(imageEnd, section.offset + section.size);
+    if (section.type === SHT_NOTE) notes.set(section.offset, section.size);
+    if (names && cString(buf, names.offset + section.name, 256) === '.bun') {
+      addPayload(buf, container, '.bun', section.offset, section.offset + section.size);
+    }
+  }
+
+  for (const [offset, size] of notes) {
+    addElfNotes(buf, container, r, offset, offset + size);
+  }
+  addPayload(buf, container, 'appended', imageEnd, buf.length);
+}
+
+function isMachO(buf: Buffer, at: number): boolean {
+  if (at + 4 > buf.length) return false;
+  const magic = buf.readUInt32LE(at);
+  return magic === MH_MAGIC || magic === MH_MAGIC_64 || magic === MH_CIGAM || magic === MH_CIGAM_64;
+}
+
+/**
+ * The `[start, end)` of each Mach-O slice: one for a thin binary, one per
+ * architecture for a universal binary.
+ */
+function machOSlices(buf: Buffer): Array<[number, number]> {
+  const magic = buf.readUInt32BE(0);
+  if (magic !== FAT_MAGIC && magic !== FAT_MAGIC_64) {
+    return isMachO(buf, 0) ? [[0, buf.length]] : [];
+  }
+
+  const count = buf.readUInt32BE(4);
+  if (count === 0 || count > MAX_FAT_SLICES) return [];
+  const slices: Array<[number, number]> = [];
+  for (let i = 0; i < count; i++) {
+    const at = magic === FAT_MAGIC ? 8 + i * 20 : 8 + i * 32;
+    const offset = magic === FAT_MAGIC ? buf.readUInt32BE(at + 8) : Number(buf.readBigUInt64BE(at + 8));
+    const size = magic === FAT_MAGIC ? buf.readUInt32BE(at + 12) : Number(buf.readBigUInt64BE(at + 16));
+    if (isMachO(buf, offset)) slices.push([offset, Math.min(buf.length, offset + size)]);
+  }
+  return slices;
+}
+
+function parseMachO(buf: Buffer, start: number, end: number, container: BinaryContainer): void {
+  const magic = buf.readUInt32LE(start);
+  const is64 = magic === MH_MAGIC_64 || magic === MH_CIGAM_64;
+  const r = reader(buf, magic === MH_MAGIC || magic === MH_MAGIC_64);
+  const commandCount = r.u32(start + 16);
+  let at = start + (is64 ? 32 : 28);
+  let imageEnd = at - start + r.u32(start + 20);
+
+  for (let i = 0; i < commandCount; i++) {
+    const command = r.u32(at);
+    const commandSize = r.u32(at + 4);
+    if (commandSize < 8) break;
+
+    if (command === LC_SEGMENT_64 || command === LC_SEGMENT) {
+      const fileOffset = is64 ? r.u64(at + 40) : r.u32(at + 32);
+      const fileSize = is64 ? r.u64(at + 48) : r.u32(at + 36);
+      imageEnd = Math.max(imageEnd, fileOffset + fileSize);
+
+      const sectionCount = r.u32(at + (is64 ? 64 : 48));
+      for (let j = 0; j < sectionCount; j++) {
+        const section = at + (is64 ? 72 + j * 80 : 56 + j * 68);
+        const location = `${cString(buf, section + 16, 16)},${cString(buf, section, 16)}`;
+        if (!EMBED_SECTIONS.has(location)) continue;
+        const size = is64 ? r.u64(section + 40) : r.u32(section + 36);
+        const offset = start + r.u32(section + (is64 ? 48 : 40));
+        addPayload(buf, container, location, offset, offset + size);
+      }
+    }
+    at += commandSize;
+  }
+
+  addPayload(buf, container, 'appended', start + imageEnd, end);
+}
+
+function parseContainer(buf: Buffer): BinaryContainer {
+  const container: BinaryContainer = { format: 'unknown', slices: 0, payloads: [], modules: [] };
+  try {
+    if (buf.length >= 0x40 && buf.readUInt32BE(0) === 0x7f454c46) {
+      container.format = 'elf';
+      container.slices = 1;
+      parseElf(buf, container);
+    } else if (buf.length >= 8) {
+      const slices = machOSlices(buf);
+      if (slices.length > 0) {
+        container.format = 'macho';
+        container.slices = slices.length;
+        for (const [start, end] of slices) parseMachO(buf, start, end, container);
+      }
+    }
+  } catch {
+    // A header points past the end of the file — keep what was found
+  }
+  container.modules.sort((a, b) => a.offset - b.offset);
+  return container;
+}
+
+/**
+ * Parse a native binary's executable format and find the JS modules
+ * embedded in it. The result is cached per Buffer.
+ */
+export function parseBinaryContainer(buf: Buffer): BinaryContainer {
+  let container = parsed.get(buf);
+  if (!container) {
+    container = parseContainer(buf);
+    parsed.set(buf, container);
+  }
+  return container;
+}
+
+/**
+ * The `[start, end)` byte range of each embedded JS module, in file order.
+ */
+export function embeddedModuleRanges(buf: Buffer): Array<[number, number]> {
+  return parseBinaryContainer(buf).modules.map((m) => [m.offset, m.offset + m.length]);
+}
+
+/**
+ * The `[start, end)` byte ranges of a native binary that hold JS: its
+ * embedded modules, or the whole file when none were found.
+ */
+export function embeddedJsRanges(buf: Buffer): Array<[number, number]> {
+  const modules = embeddedModuleRanges(buf);
+  if (modules.length === 0) return [[0, buf.length]];
+
+  const ranges: Array<[number, number]> = [];
+  for (const [start, end] of modules) {
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else ranges.push([start, end]);
+  }
+  return ranges;
+}
+
+/**
+ * Whether `[start, end)` lies inside one of the ranges.
+ */
+export function inEmbeddedJs(ranges: Array<[number, number]>, start: number, end: number): boolean {
+  return ranges.some(([from, to]) => start >= from && end <= to);
+}
+
+/**
+ * Index of the range holding `offset`, or -1.
+ */
+export function rangeIndex(ranges: Array<[number, number]>, offset: number): number {
+  return ranges.findIndex(([from, to]) => offset >= from && offset < to);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { reindentJs, showGateContext } from "./context.js";
+
+const FLINT =
+  'function q_(){if(!TR(process.env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS)&&!JR7())return!1;' +
+  'if(!W9("tengu_amber_flint",!0))return!1;return!0}';
+
+let tmpDir: string;
+let bundlePath: string;
+
+function writeBundle(content: string): void {
+  fs.writeFileSync(bundlePath, content);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-context-"));
+  bundlePath = path.join(tmpDir, "cli.js");
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("reindentJs", () => {
+  it("should put statements on their own lines and indent blocks", () => {
+    expect(reindentJs('function a(){if(b){c();d("{;}")}for(;;)e();return{}}').code).toBe(
+      [
+        "function a(){",
+        "  if(b){",
+        "    c();",
+        '    d("{;}")',
+        "  }",
+        "  for(;;)e();",
+        "  return{}",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("should map highlighted ranges onto the re-indented code", () => {
+    const source = "function a(){return b(1)}";
+    const { code, highlights } = reindentJs(source, [{ start: 20, end: 24 }]);
+    expect(code.slice(highlights[0].start, highlights[0].end)).toBe("b(1)");
+  });
+});
+
+describe("showGateContext", () => {
+  it("should show the enclosing function of every occurrence", () => {
+    writeBundle(`var x=1;${FLINT}var c={b:function(){return W9("tengu_amber_flint",!0)?1:2}};`);
+
+    const result = showGateContext("amber-flint", bundlePath);
+    expect(result).toMatchObject({ flag: "tengu_amber_flint", codename: "amber-flint" });
+    expect(result.contexts).toHaveLength(2);
+
+    const [wrapper, inline] = result.contexts;
+    expect(wrapper).toMatchObject({ offset: 8, start: 8, end: 8 + FLINT.length, functionName: "q_" });
+    expect(wrapper.code.split("\n")[0]).toBe("function q_(){");
+    const { start, end } = wrapper.highlights[0];
+    expect(wrapper.code.slice(start, end)).toMatch(/^function q_\(\)\{[\s\S]*return!0\n\}$/);
+
+    expect(inline.functionName).toBeUndefined();
+    expect(inline.partial).toBeUndefined();
+    expect(inline.code).toBe('function(){\n  return W9("tengu_amber_flint",!0)?1:2\n}');
+  });
+
+  it("should group occurrences in one function and accept any flag", () => {
+    writeBundle('class K{render(){L("tengu_new_thing");return W9("tengu_new_thing",!1)}}');
+
+    const { codename, contexts } = showGateContext("tengu_new_thing", bundlePath);
+    expect(codename).toBeUndefined();
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].functionName).toBe("render");
+    expect(contexts[0].highlights).toHaveLength(2);
+  });
+
+  it("should fall back to the surrounding statements outside any function", () => {
+    writeBundle('a();b();L("tengu_new_thing");c();');
+
+    const [context] = showGateContext("tengu_new_thing", bundlePath).contexts;
+    expect(context.partial).toBe(true);
+    expect(context.code).toBe('a();\nb();\nL("tengu_new_thing");\nc();');
+  });
+
+  it("should report unknown names and missing bundles", () => {
+    expect(showGateContext("no-such-gate", bundlePath).error).toBe(
+      "Unknown gate or flag: no-such-gate",
+    );
+    expect(showGateContext("amber-flint", path.join(tmpDir, "missing.js")).error).toBe(
+      "Could not find the Claude Code bundle.",
+    );
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Code Context
+ *
+ * Shows what a gate looks like in the installed bundle, for fixing a
+ * regex after minification changes without opening the binary in a hex
+ * editor. Each occurrence of the gate's pattern and of its quoted flag is
+ * widened to the enclosing function, and the minified code is re-indented
+ * with the occurrences marked.
+ *
+ * The brace matching and re-indenting are deliberately simple: strings and
+ * template literals are skipped, but regex literals are not recognised,
+ * so a regex containing a brace can throw the structure off. That is good
+ * enough for reading code, not for rewriting it.
+ */
+
+import type { CodeContext, FeatureGate, GateContext } from '../types.js';
+import { bundleSource, readBundle, locateBundle } from './detector.js';
+import { findGate } from './registry.js';
+import { indexBundle, matchBundle } from './scanner.js';
+import { gateForVersion } from './versions.js';
+
+/** Characters searched on each side of an occurrence for its enclosing function */
+const FUNCTION_SEARCH = 4000;
+
+/** Characters shown on each side of an occurrence outside any function */
+const FALLBACK_CONTEXT = 300;
+
+const INDENT = '  ';
+
+/** Block headers that are not functions */
+const CONTROL_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'with']);
+
+type Range = { start: number; end: number };
+
+/**
+ * Index just past the string or template literal starting at `at`.
+ */
+function skipString(text: string, at: number): number {
+  const quote = text[at];
+  let i = at + 1;
+  while (i < text.length && text[i] !== quote) {
+    i += text[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+}
+
+/**
+ * The header of the function whose body opens at `brace`: where it starts
+ * and the function's name ('' when anonymous). Undefined when the block
+ * is not a function body.
+ */
+function functionHeader(text: string, brace: number): { start: number; name: string } | undefined {
+  const from = Math.max(0, brace - 200);
+  const before = text.slice(from, brace);
+  const header =
+    before.match(/(?:([\w$]+)\s*=\s*)?(?:async\s*)?(?:\([^()]*\)|[\w$]+)\s*=>\s*$/) ??
+    before.match(/(?:async\s+)?function\s*\*?\s*([\w$]*)\s*\([^()]*\)\s*$/) ??
+    before.match(/(?<![\w$.])([\w$]+)\s*\([^()]*\)\s*$/);
+  if (!header || CONTROL_KEYWORDS.has(header[1])) return undefined;
+  return { start: from + (header.index ?? 0), name: header[1] ?? '' };
+}
+
+/**
+ * The innermost function in `text` containing `range` and open at
+ * `anchor` (a position inside the range, such as its flag literal): from
+ * the start of its header to the end of its closing brace. Undefined when
+ * there is none, or it does not end within `text`.
+ */
+function enclosingFunction(
+  text: string,
+  range: Range,
+  anchor: number
+): { start: number; end: number; name: string } | undefined {
+  const stack: number[] = [];
+  let open: number[] | undefined;
+  const closes = new Map<number, number>();
+
+  for (let i = 0; i < text.length; ) {
+    if (i >= anchor && !open) open = [...stack];
+    const c = text[i];
+    if (c === '"' || c === "'" || c === '`') {
+      i = skipString(text, i);
+      continue;
+    }
+    if (c === '{') stack.push(i);
+    else if (c === '}') {
+      const start = stack.pop();
+      if (start !== undefined) closes.set(start, i);
+    }
+    i++;
+  }
+
+  for (const brace of (open ?? []).reverse()) {
+    const close = closes.get(brace);
+    if (close === undefined || close + 1 < range.end) continue;
+    const header = functionHeader(text, brace);
+    if (header && header.start <= range.start) {
+      return { start: header.start, end: close + 1, name: header.name };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Name of the innermost function around `text[index..index+length)`, when
+ * it is named.
+ */
+export function enclosingFunctionName(text: string, index: number, length: number): string | undefined {
+  const from = Math.max(0, index - FUNCTION_SEARCH);
+  const window = text.slice(from, Math.min(text.length, index + length + FUNCTION_SEARCH));
+  const range = { start: index - from, end: index - from + length };
+  return enclosingFunction(window, range, range.start)?.name || undefined;
+}
+
+/**
+ * Re-indent minified JS: one statement per line and a level of indent per
+ * block. `highlights` are ranges of `code`; they are returned as ranges of
+ * the re-indented text.
+ */
+export function reindentJs(code: string, highlights: Range[] = []): { code: string; highlights: Range[] } {
+  let out = '';
+  let indent = 0;
+  let parens = 0;
+  const positions: number[] = new Array<number>(code.length + 1);
+
+  const newline = (): void => {
+    out = out.replace(/[ \t]+$/, '');
+    if (out.length > 0 && !out.endsWith('\n')) out += '\n';
+    out += INDENT.repeat(indent);
+  };
+  const copy = (from: number, to: number): void => {
+    for (let i = from; i < to; i++) {
+      positions[i] = out.length;
+      out += code[i];
+    }
+  };
+
+  for (let i = 0; i < code.length; ) {
+    const c = code[i];
+    if (c === '"' || c === "'" || c === '`') {
+      const end = Math.min(code.length, skipString(code, i));
+      copy(i, end);
+      i = end;
+      continue;
+    }
+
+    if (c === '{' && code[i + 1] === '}') {
+      copy(i, i + 2);
+      i += 2;
+      continue;
+    }
+    if (c === '}') {
+      indent = Math.max(0, indent - 1);
+      newline();
+    }
+    positions[i] = out.length;
+    out += c;
+
+    if (c === '(' || c === '[') parens++;
+    else if (c === ')' || c === ']') parens = Math.max(0, parens - 1);
+    else if (c === '{') {
+      indent++;
+      newline();
+    } else if (c === '}' && !/^[;,)\]]/.test(code.slice(i + 1))) {
+      newline();
+    } else if (c === ';' && parens === 0 && i + 1 < code.length) {
+      newline();
+    }
+    i++;
+  }
+  positions[code.length] = out.length;
+
+  return {
+    code: out.trimEnd(),
+    highlights: highlights.map((h) => ({
+      start: positions[h.start],
+      end: h.end > h.start ? positions[h.end - 1] + 1 : positions[h.start],
+    })),
+  };
+}
+
+/**
+ * Ranges of the bundle covering each occurrence: matches of the gate's
+ * pattern, and quoted flag literals outside them.
+ */
+function findOccurrences(source: string | Buffer, flag: string, gate?: FeatureGate): Range[] {
+  const ranges: Range[] = [];
+  if (gate) {
+    const regex = gate.callSiteRegex ?? gate.detectRegex;
+    for (const m of matchBundle(source, regex, flag)) {
+      const start = m.index ?? 0;
+      ranges.push({ start, end: start + m[0].length });
+    }
+  }
+  for (const offset of indexBundle(source).flags.get(flag) ?? []) {
+    if (ranges.some((r) => offset >= r.start && offset < r.end)) continue;
+    ranges.push({ start: offset, end: offset + flag.length });
+  }
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * A window of about FALLBACK_CONTEXT characters on each side of `range`,
+ * trimmed to start and end on statement boundaries where possible.
+ * Returns bundle offsets; `text` starts at bundle offset `from`.
+ */
+function statementWindow(text: string, range: Range, from: number): Range {
+  let start = Math.max(0, range.start - FALLBACK_CONTEXT);
+  let end = Math.min(text.length, range.end + FALLBACK_CONTEXT);
+  if (start > 0) {
+    const boundary = text.slice(start, range.start).search(/[;}]/);
+    if (boundary !== -1) start += boundary + 1;
+  }
+  if (end < text.length) {
+    const tail = text.slice(range.end, end);
+    const boundary = Math.max(tail.lastIndexOf(';'), tail.lastIndexOf('}'));
+    if (boundary !== -1) end = range.end + boundary + 1;
+  }
+  return { start: from + start, end: from + end };
+}
+
+function sliceSource(source: string | Buffer, start: number, end: number): string {
+  return typeof source === 'string' ? source.slice(start, end) : source.toString('latin1', start, end);
+}
+
+/**
+ * Extract and re-indent the code around every occurrence of a gate (by
+ * codename or flag name) or of any `tengu_*` flag. Occurrences in the same
+ * function share one context.
+ */
+export function showGateContext(nameOrFlag: string, cliPath?: string): GateContext {
+  const registered = findGate(nameOrFlag);
+  const flag = registered?.name ?? nameOrFlag;
+  const result: GateContext = { flag, contexts: [] };
+  if (registered) result.codename = registered.codename;
+  if (!registered && !/^tengu_[a-z0-9_]+$/.test(nameOrFlag)) {
+    return { ...result, error: `Unknown gate or flag: ${nameOrFlag}` };
+  }
+
+  const location = locateBundle(cliPath);
+  const bundle = location && readBundle(location);
+  if (!bundle) return { ...result, error: 'Could not find the Claude Code bundle.' };
+
+  const source = bundleSource(bundle);
+  const size = source.length;
+  const gate = registered && gateForVersion(registered, bundle.version);
+
+  for (const range of findOccurrences(source, flag, gate)) {
+    const previous = result.contexts[result.contexts.length - 1];
+    if (previous && !previous.partial && range.end <= previous.end) {
+      previous.highlights.push(range);
+      continue;
+    }
+
+    const from = Math.max(0, range.start - FUNCTION_SEARCH);
+    const text = sliceSource(source, from, Math.min(size, range.end + FUNCTION_SEARCH));
+    const local = { start: range.start - from, end: range.end - from };
+    const flagAt = text.slice(local.start, local.end).indexOf(flag);
+    const fn = enclosingFunction(text, local, flagAt === -1 ? local.start : local.start + flagAt);
+    const { start, end } = fn
+      ? { start: from + fn.start, end: from + fn.end }
+      : statementWindow(text, local, from);
+
+    const context: CodeContext = { offset: range.start, start, end, code: '', highlights: [range] };
+    if (fn?.name) context.functionName = fn.name;
+    if (!fn) context.partial = true;
+    result.contexts.push(context);
+  }
+
+  for (const context of result.contexts) {
+    const formatted = reindentJs(
+      sliceSource(source, context.start, context.end),
+      context.highlights.map((h) => ({ start: h.start - context.start, end: h.end - context.start }))
+    );
+    context.code = formatted.code;
+    context.highlights = formatted.highlights;
+  }
+  return result;
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  resolveEnableOrder,
+  findConflicts,
+  dependencyWarnings,
+} from "./dependencies.js";
+import { findPatchableGate } from "./registry.js";
+import { resetGatePacks } from "./packs.js";
+import type { GateStatus } from "../types.js";
+
+const PACK = {
+  gates: [
+    {
+      name: "tengu_loop_a",
+      codename: "loop-a",
+      patch: "return-true",
+      detect: { source: 'function ([\\w$]+)\\(\\)\\{return [\\w$]+\\("tengu_loop_a",!1\\)\\}' },
+      requires: ["loop-b"],
+    },
+    {
+      name: "tengu_loop_b",
+      codename: "loop-b",
+      patch: "return-true",
+      detect: { source: 'function ([\\w$]+)\\(\\)\\{return [\\w$]+\\("tengu_loop_b",!1\\)\\}' },
+      requires: ["loop-a"],
+    },
+    {
+      name: "tengu_rival",
+      codename: "rival",
+      patch: "return-true",
+      detect: { source: 'function ([\\w$]+)\\(\\)\\{return [\\w$]+\\("tengu_rival",!1\\)\\}' },
+      conflictsWith: ["amber-quartz"],
+    },
+    {
+      name: "tengu_needs_listed",
+      codename: "needs-listed",
+      patch: "return-true",
+      detect: { source: 'function ([\\w$]+)\\(\\)\\{return [\\w$]+\\("tengu_needs_listed",!1\\)\\}' },
+      requires: ["marble-anvil"],
+    },
+  ],
+};
+
+function status(codename: string, extra: Partial<GateStatus> = {}): GateStatus {
+  return { name: `tengu_${codename}`, codename, detected: true, enabled: false, ...extra };
+}
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-deps-"));
+  fs.writeFileSync(path.join(tmpDir, "deps.json"), JSON.stringify(PACK));
+  process.env.CLAUDE_PATCHER_GATES_DIR = tmpDir;
+  resetGatePacks();
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_GATES_DIR;
+  resetGatePacks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("resolveEnableOrder", () => {
+  it("should put dependencies before the gate", () => {
+    const { gates, error } = resolveEnableOrder(findPatchableGate("copper-bridge")!);
+    expect(error).toBeUndefined();
+    expect(gates.map((g) => g.codename)).toEqual(["ccr-bridge", "copper-bridge"]);
+  });
+
+  it("should report cycles", () => {
+    const { gates, error } = resolveEnableOrder(findPatchableGate("loop-a")!);
+    expect(gates).toEqual([]);
+    expect(error).toBe("Circular gate dependency: loop-a → loop-b → loop-a.");
+  });
+
+  it("should refuse dependencies that cannot be patched", () => {
+    const { error } = resolveEnableOrder(findPatchableGate("needs-listed")!);
+    expect(error).toBe('"needs-listed" requires "marble-anvil", which cannot be patched.');
+  });
+});
+
+describe("findConflicts", () => {
+  it("should find conflicts declared on either side", () => {
+    expect(findConflicts(findPatchableGate("rival")!, ["amber-quartz", "ccr-bridge"])).toEqual([
+      "amber-quartz",
+    ]);
+    expect(findConflicts(findPatchableGate("amber-quartz")!, ["rival"])).toEqual(["rival"]);
+  });
+});
+
+describe("dependencyWarnings", () => {
+  it("should warn when an enabled gate's dependency is off", () => {
+    const warnings = dependencyWarnings([
+      status("copper-bridge", { enabled: true }),
+      status("ccr-bridge", { forcedOff: true }),
+    ]);
+    expect(warnings).toEqual([
+      "copper-bridge is enabled but requires ccr-bridge, which is forced off",
+    ]);
+  });
+
+  it("should accept dependencies that are effectively on without our patch", () => {
+    expect(
+      dependencyWarnings([
+        status("copper-bridge", { enabled: true }),
+        status("ccr-bridge", { defaultValue: "!0", effective: "on" }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should accept inline dependencies with no call sites", () => {
+    expect(
+      dependencyWarnings([
+        status("session-memory", { enabled: true }),
+        status("sm-compact", { detected: false }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should warn about conflicting gates that are both enabled", () => {
+    expect(
+      dependencyWarnings([
+        status("amber-quartz", { enabled: true }),
+        status("rival", { enabled: true }),
+      ]),
+    ).toEqual(["amber-quartz and rival conflict but are both enabled"]);
+  });
+});
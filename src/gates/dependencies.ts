@@ -0,0 +1,110 @@
+/**
+ * Gate Dependencies
+ *
+ * Some features need more than one gate: copper-bridge only provides a
+ * bridge URL that ccr-bridge uses, and session-memory also reads
+ * tengu_sm_compact. Gates declare this with `requires` (enabled first,
+ * transitively) and `conflictsWith` (never enabled together; either side
+ * of the pair may declare it).
+ */
+
+import type { FeatureGate, GateStatus } from '../types.js';
+import { findGate, findPatchableGate } from './registry.js';
+
+/**
+ * Resolve the gates to enable for `gate`, dependencies first and `gate`
+ * last. Fails on unknown or unpatchable dependencies and on cycles.
+ */
+export function resolveEnableOrder(gate: FeatureGate): { gates: FeatureGate[]; error?: string } {
+  const order: FeatureGate[] = [];
+  const done = new Set<string>();
+
+  const visit = (current: FeatureGate, path: string[]): string | undefined => {
+    if (done.has(current.codename)) return undefined;
+    if (path.includes(current.codename)) {
+      return `Circular gate dependency: ${[...path, current.codename].join(' → ')}.`;
+    }
+    for (const dep of current.requires ?? []) {
+      const required = findPatchableGate(dep);
+      if (!required) {
+        return findGate(dep)
+          ? `"${current.codename}" requires "${dep}", which cannot be patched.`
+          : `"${current.codename}" requires unknown gate "${dep}".`;
+      }
+      const error = visit(required, [...path, current.codename]);
+      if (error) return error;
+    }
+    done.add(current.codename);
+    order.push(current);
+    return undefined;
+  };
+
+  const error = visit(gate, []);
+  return error ? { gates: [], error } : { gates: order };
+}
+
+/**
+ * Whether two gates conflict (declared on either side).
+ */
+export function gatesConflict(a: FeatureGate, b: FeatureGate): boolean {
+  return (
+    (a.conflictsWith ?? []).includes(b.codename) || (b.conflictsWith ?? []).includes(a.codename)
+  );
+}
+
+/**
+ * Codenames among `enabled` that conflict with `gate`.
+ */
+export function findConflicts(gate: FeatureGate, enabled: Iterable<string>): string[] {
+  const conflicts: string[] = [];
+  for (const codename of enabled) {
+    const other = findGate(codename);
+    if (other && other.codename !== gate.codename && gatesConflict(gate, other)) {
+      conflicts.push(other.codename);
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Warnings for enabled gates whose dependencies are off, and for
+ * conflicting gates that are both enabled. A dependency counts as on when
+ * its effective state is on (patched, env override, server value or
+ * compiled default) or (for inline gates) it has no call sites left to
+ * rewrite.
+ */
+export function dependencyWarnings(statuses: GateStatus[]): string[] {
+  const byCodename = new Map(statuses.map((s) => [s.codename, s]));
+  const enabled = statuses.filter((s) => s.enabled);
+  const warnings: string[] = [];
+
+  for (const status of enabled) {
+    const gate = findGate(status.codename);
+    if (!gate) continue;
+
+    for (const dep of gate.requires ?? []) {
+      const required = findGate(dep);
+      const depStatus = required ? byCodename.get(required.codename) : undefined;
+      if (depStatus?.effective === 'on') continue;
+      if (required?.callSiteRegex && depStatus && !depStatus.detected) continue;
+      warnings.push(
+        depStatus?.forcedOff
+          ? `${status.codename} is enabled but requires ${dep}, which is forced off`
+          : `${status.codename} is enabled but requires ${dep}, which is off`
+      );
+    }
+
+    for (const other of enabled) {
+      const otherGate = findGate(other.codename);
+      if (
+        otherGate &&
+        status.codename < other.codename &&
+        gatesConflict(gate, otherGate)
+      ) {
+        warnings.push(`${status.codename} and ${other.codename} conflict but are both enabled`);
+      }
+    }
+  }
+
+  return warnings;
+}
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import * as fs from "fs";
 import * as detector from "./detector.js";
-import { GATE_PATCH_MARKER } from "./registry.js";
+import { GATE_PATCH_MARKER, GATE_FORCE_OFF_MARKER } from "./registry.js";
+import { injectValue } from "./patch-kinds.js";
 import { findCli } from "../cli-finder.js";
 
 // Mock the cli-finder module
@@ -11,6 +12,7 @@ vi.mock("../cli-finder.js", () => ({
     version: "2.1.63",
     isPatched: false,
   })),
+  getCliVersion: vi.fn(() => "2.1.63"),
 }));
 
 // Mock fs
@@ -94,6 +96,43 @@ describe("detectAllGates", () => {
     expect(keybinding?.enabled).toBe(true);
   });
 
+  it("should report forced-off gates as a distinct state", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      `function q_(){return!1}/*${GATE_FORCE_OFF_MARKER}:amber-flint*/`,
+    );
+
+    const gates = detector.detectAllGates("/mock/claude/cli.js");
+    const flint = gates.find((g) => g.codename === "amber-flint");
+    expect(flint?.detected).toBe(true);
+    expect(flint?.enabled).toBe(false);
+    expect(flint?.forcedOff).toBe(true);
+  });
+
+  it("should report the compiled default and effective state", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      `${MOCK_KEYBINDING_GATE};var b=g9("tengu_crystal_beam",{});` +
+        `function AQ(){return!0}/*${GATE_PATCH_MARKER}:amber-quartz*/`,
+    );
+
+    const gates = detector.detectAllGates("/mock/claude/cli.js");
+    expect(gates.find((g) => g.codename === "keybinding-customization")).toMatchObject({
+      defaultValue: "!1",
+      effective: "off",
+      effectiveReason: "compiled default !1",
+    });
+    expect(gates.find((g) => g.codename === "crystal-beam")).toMatchObject({
+      defaultValue: "{}",
+      effective: "value",
+    });
+    expect(gates.find((g) => g.codename === "amber-quartz")).toMatchObject({
+      patched: true,
+      effective: "on",
+      effectiveReason: "patched by claude-patcher",
+    });
+  });
+
   it("should detect detection-only gates as present", () => {
     vi.mocked(fs.existsSync).mockReturnValue(true);
     vi.mocked(fs.readFileSync).mockReturnValue(MOCK_BUNDLE_WITH_GATES);
@@ -148,6 +187,27 @@ describe("detectGate", () => {
     expect(gate?.name).toBe("tengu_keybinding_customization_release");
   });
 
+  it("should report the value pinned on a data gate", () => {
+    const original = 'var t=W9("tengu_crystal_beam",{}).budget;';
+    const match = original.match(/W9\("tengu_crystal_beam",\{\}\)/)!;
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      injectValue(original, match, "crystal-beam", '{"budget":32000}'),
+    );
+
+    const gate = detector.detectGate("crystal-beam", "/mock/claude/cli.js");
+    expect(gate?.detected).toBe(true);
+    expect(gate?.value).toBe('{"budget":32000}');
+  });
+
+  it("should report the offset of every match", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(`${MOCK_KEYBINDING_GATE};${MOCK_KEYBINDING_GATE}`);
+
+    const gate = detector.detectGate("keybinding-customization", "/mock/claude/cli.js");
+    expect(gate?.matchOffsets).toEqual([0, MOCK_KEYBINDING_GATE.length + 1]);
+  });
+
   it("should return null for unknown gate", () => {
     vi.mocked(fs.existsSync).mockReturnValue(true);
     vi.mocked(fs.readFileSync).mockReturnValue(MOCK_BUNDLE_WITH_GATES);
@@ -195,3 +255,52 @@ describe("scanAllFlags", () => {
     expect(flags).toEqual([]);
   });
 });
+
+describe("version-aware detection", () => {
+  it("should include legacy gates for bundles older than their removal", async () => {
+    const { getCliVersion } = await import("../cli-finder.js");
+    vi.mocked(getCliVersion).mockReturnValueOnce("2.1.37");
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_BUNDLE_WITH_GATES);
+
+    const gates = detector.detectAllGates("/mock/claude/cli.js");
+    const oboe = gates.find((g) => g.codename === "oboe");
+    expect(oboe).toBeDefined();
+    expect(oboe?.detected).toBe(false);
+    expect(oboe?.unavailableReason).toBeUndefined();
+  });
+
+  it("should list legacy gates after their removal with the reason they are missing", async () => {
+    const { getCliVersion } = await import("../cli-finder.js");
+    vi.mocked(getCliVersion).mockReturnValueOnce("2.1.70");
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_BUNDLE_WITH_GATES);
+
+    const gates = detector.detectAllGates("/mock/claude/cli.js");
+    const oboe = gates.find((g) => g.codename === "oboe");
+    expect(oboe?.detected).toBe(false);
+    expect(oboe?.unavailableReason).toBe(
+      "not present in 2.1.70 (rolled out in 2.1.63)",
+    );
+  });
+
+  it("should report why a legacy gate is missing", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_BUNDLE_WITH_GATES);
+
+    const gate = detector.detectGate("oboe", "/mock/claude/cli.js");
+    expect(gate?.detected).toBe(false);
+    expect(gate?.unavailableReason).toBe(
+      "not present in 2.1.63 (rolled out in 2.1.63)",
+    );
+  });
+
+  it("should include the bundle version in resolved bundles", () => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_BUNDLE_WITH_GATES);
+
+    expect(detector.resolveBundle("/mock/claude/cli.js")?.version).toBe(
+      "2.1.63",
+    );
+  });
+});
@@ -7,9 +7,42 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { findCli } from '../cli-finder.js';
-import type { GateStatus, BundleInfo } from '../types.js';
-import { getAllGates, getPatchableGates, GATE_PATCH_MARKER, BINARY_PATCH_MARKER } from './registry.js';
+import { findCli, getCliVersion } from '../cli-finder.js';
+import type {
+  GateStatus,
+  BundleInfo,
+  BundleLocation,
+  FeatureGate,
+  StatsigCache,
+} from '../types.js';
+import {
+  findGate,
+  getGatesForVersion,
+  getPatchableGates,
+} from './registry.js';
+import {
+  BINARY_FORCE_OFF_MARKER,
+  BINARY_PATCH_MARKER,
+  BINARY_VALUE_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  GATE_PATCH_MARKER,
+  GATE_VALUE_MARKER,
+  accessorCallRegex,
+  injectedValue,
+} from './patch-kinds.js';
+import { hasScannedMarker, indexBundle, matchBundle, scanBundle } from './scanner.js';
+import { resolveEffectiveState } from './effective.js';
+import { cachedServerValue, readStatsigCache } from './statsig-cache.js';
+import {
+  findScanCacheEntry,
+  hashBundle,
+  matchesStat,
+  storeScanCacheEntry,
+} from './scan-cache.js';
+import type { ScanCacheEntry } from './scan-cache.js';
+import { explainGateAbsence, gateForVersion } from './versions.js';
+import { findLedgerEntries, findLedgerEntry } from './ledger.js';
+import { embeddedModuleRanges, rangeIndex } from './container.js';
 
 /**
  * Resolve the JS bundle path from a CLI path.
@@ -36,23 +69,19 @@ export function findJsBundle(cliPath: string): string | null {
 }
 
 /**
- * Resolve the Claude Code bundle — either a plain JS file or a native binary
- * with embedded JS. For JS bundles we read as utf-8; for native binaries we
- * read as latin1 so byte offsets stay consistent for patching.
+ * Find the Claude Code bundle without reading it — either a plain JS file
+ * or a native binary with embedded JS.
  */
-export function resolveBundle(cliPath?: string): BundleInfo | null {
-  const cli = cliPath ? { path: cliPath } : findCli();
+export function locateBundle(cliPath?: string): BundleLocation | null {
+  const cli = cliPath
+    ? { path: cliPath, version: getCliVersion(cliPath) }
+    : findCli({ checkPatched: false });
   if (!cli) return null;
 
   // Try JS bundle first (npm install or adjacent .js file)
   const jsBundle = findJsBundle(cli.path);
   if (jsBundle) {
-    try {
-      const content = fs.readFileSync(jsBundle, 'utf8');
-      return { content, path: jsBundle, isBinary: false };
-    } catch {
-      return null;
-    }
+    return { path: jsBundle, isBinary: false, version: cli.version };
   }
 
   // Fall through to native binary (Node.js SEA)
@@ -61,72 +90,273 @@ export function resolveBundle(cliPath?: string): BundleInfo | null {
 
   try {
     if (!fs.existsSync(cli.path)) return null;
-    const content = fs.readFileSync(cli.path, 'latin1');
-    return { content, path: cli.path, isBinary: true };
   } catch {
     return null;
   }
+  return { path: cli.path, isBinary: true, version: cli.version };
+}
+
+/**
+ * Read a located bundle. JS bundles are read as utf-8; native binaries are
+ * kept as a Buffer, which the detector, scanner and binary patcher share.
+ */
+export function readBundle(location: BundleLocation): BundleInfo | null {
+  try {
+    return location.isBinary
+      ? { ...location, isBinary: true, buffer: fs.readFileSync(location.path) }
+      : { ...location, isBinary: false, content: fs.readFileSync(location.path, 'utf8') };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Locate and read the Claude Code bundle.
+ */
+export function resolveBundle(cliPath?: string): BundleInfo | null {
+  const location = locateBundle(cliPath);
+  return location ? readBundle(location) : null;
+}
+
+/**
+ * What to scan in a bundle: the text of a JS bundle, or the bytes of a
+ * native binary.
+ */
+export function bundleSource(bundle: BundleInfo): string | Buffer {
+  return bundle.isBinary ? bundle.buffer : bundle.content;
+}
+
+/**
+ * Start a scan cache entry for a bundle with its flags, markers, (for JS
+ * bundles) pinned values and (for binaries) embedded JS modules.
+ */
+function newCacheEntry(bundle: BundleInfo, hash: string): ScanCacheEntry {
+  const { flags, markers } = indexBundle(bundleSource(bundle));
+  const values: Record<string, string> = {};
+  if (!bundle.isBinary) {
+    for (const marker of markers) {
+      if (!marker.startsWith(`${GATE_VALUE_MARKER}:`)) continue;
+      const codename = marker.slice(GATE_VALUE_MARKER.length + 1);
+      const value = injectedValue(bundle.content, codename);
+      if (value !== undefined) values[codename] = value;
+    }
+  }
+
+  return {
+    size: 0,
+    mtimeMs: 0,
+    checkedAt: 0,
+    hash,
+    version: bundle.version,
+    flags: [...flags.keys()].sort(),
+    markers: [...markers].sort(),
+    values,
+    gates: {},
+    ...(bundle.isBinary ? { modules: embeddedModuleRanges(bundle.buffer) } : {}),
+  };
+}
+
+/**
+ * The scan cache entry for a bundle, with whatever `complete` checks for.
+ * The bundle is only read when the cache cannot answer: then an entry
+ * for unchanged content is reused, and `fill` adds what is missing.
+ * Files that cannot be stat'ed are scanned without caching. Returns null
+ * when the bundle cannot be read.
+ */
+export function cachedScan(
+  location: BundleLocation,
+  complete: (entry: ScanCacheEntry) => boolean,
+  fill: (entry: ScanCacheEntry, source: string | Buffer) => void
+): ScanCacheEntry | null {
+  let stat: fs.Stats | undefined;
+  try {
+    stat = fs.statSync(location.path);
+  } catch {
+    // Not cacheable; read it below
+  }
+
+  const cached = stat ? findScanCacheEntry(location.path) : undefined;
+  const fresh = cached && stat && matchesStat(cached, stat) ? cached : undefined;
+  if (fresh && complete(fresh)) return fresh;
+
+  const bundle = readBundle(location);
+  if (!bundle) return null;
+  const source = bundleSource(bundle);
+
+  let entry = fresh;
+  if (!entry) {
+    const hash = hashBundle(source);
+    entry = cached?.hash === hash ? cached : newCacheEntry(bundle, hash);
+  }
+  if (!complete(entry)) fill(entry, source);
+  if (stat) {
+    entry.size = stat.size;
+    entry.mtimeMs = stat.mtimeMs;
+    entry.checkedAt = Date.now();
+    storeScanCacheEntry(location.path, entry);
+  }
+  return entry;
+}
+
+/**
+ * Cache key for the pattern a gate is detected with
+ */
+function patternKey(gate: FeatureGate): string {
+  const regex = gate.callSiteRegex ?? gate.detectRegex;
+  return `/${regex.source}/${regex.flags}`;
 }
 
 /**
- * Detect the status of a single gate in the bundle content.
- * Checks both JS and binary patch markers.
+ * The default a flag's accessor is called with, e.g. `!1` for
+ * `W9("tengu_x",!1)`. A boolean default is preferred when calls disagree,
+ * since other calls with the flag may be telemetry events.
  */
-function detectGateInContent(
-  content: string,
-  gate: { name: string; codename: string; detectRegex: RegExp; envOverride?: string }
+export function compiledDefault(source: string | Buffer, flag: string): string | undefined {
+  const prefix = `"${flag}",`;
+  const defaults = matchBundle(source, accessorCallRegex(flag, 'g'), flag).map((m) =>
+    m[0].slice(m[0].indexOf(prefix) + prefix.length, -1)
+  );
+  return defaults.find((d) => d === '!0' || d === '!1') ?? defaults[0];
+}
+
+/**
+ * Offsets of a patched gate's matches in embedded copies of the JS that
+ * have no ledger entry for it. Without known modules the binary is one
+ * copy, and a match left next to a patch is some other code; without
+ * ledger entries there is nothing to tell the copies apart by.
+ */
+function unpatchedCopies(
+  bundlePath: string,
+  codename: string,
+  modules: Array<[number, number]>,
+  offsets: number[]
+): number[] {
+  const entries = findLedgerEntries(bundlePath, codename);
+  if (entries.length === 0) return [];
+  const patched = new Set(entries.map((e) => rangeIndex(modules, e.offset)));
+  return offsets.filter((offset) => !patched.has(rangeIndex(modules, offset)));
+}
+
+/**
+ * Detect the status of a single gate from a bundle scan.
+ * Checks both JS and binary patch markers, including force-off and value
+ * markers, and records the offset of every pattern match so ambiguous
+ * gates can be spotted. When the bundle version is known, absent gates
+ * carry an explanation based on their version range. The value Claude Code
+ * cached from Statsig, if any, is reported alongside the compiled default.
+ */
+function detectGateInBundle(
+  location: BundleLocation,
+  gate: FeatureGate,
+  entry: ScanCacheEntry,
+  markers: Set<string>,
+  statsig: StatsigCache
 ): GateStatus {
-  const match = content.match(gate.detectRegex);
-  const detected = match !== null;
+  const offsets = entry.gates[gate.codename]?.offsets ?? [];
+  const detected = offsets.length > 0;
+  const marked = (...kinds: string[]): boolean =>
+    hasScannedMarker(markers, gate.codename, ...kinds);
 
   // Check if the gate has already been patched by us (JS or binary marker)
-  const isPatchedByUs =
-    content.includes(`${GATE_PATCH_MARKER}:${gate.codename}`) ||
-    content.includes(`${BINARY_PATCH_MARKER}:${gate.codename}`);
+  const isPatchedByUs = marked(GATE_PATCH_MARKER, BINARY_PATCH_MARKER);
+  const isForcedOff = marked(GATE_FORCE_OFF_MARKER, BINARY_FORCE_OFF_MARKER);
+  const isValueSet = marked(GATE_VALUE_MARKER, BINARY_VALUE_MARKER);
 
-  return {
+  const status: GateStatus = {
     name: gate.name,
     codename: gate.codename,
-    detected: detected || isPatchedByUs,
+    detected: detected || isPatchedByUs || isForcedOff || isValueSet,
     enabled: isPatchedByUs,
     envOverride: gate.envOverride,
   };
+  if (detected && !gate.callSiteRegex) status.matchOffsets = offsets;
+  const copies = new Set(offsets.map((offset) => rangeIndex(entry.modules ?? [], offset))).size;
+  if (copies > 1) status.copies = copies;
+  if (isForcedOff) status.forcedOff = true;
+  if (isValueSet) {
+    const value = location.isBinary
+      ? findLedgerEntry(location.path, gate.codename)?.value
+      : entry.values[gate.codename];
+    status.value = value ?? '';
+  }
+  if (isPatchedByUs || isForcedOff || isValueSet) status.patched = true;
+  if (status.patched && detected && location.isBinary) {
+    const unpatched = unpatchedCopies(location.path, gate.codename, entry.modules ?? [], offsets);
+    if (unpatched.length > 0) status.unpatchedOffsets = unpatched;
+  }
+  const defaultValue = entry.gates[gate.codename]?.defaultValue;
+  if (defaultValue !== undefined) status.defaultValue = defaultValue;
+  const serverValue = cachedServerValue(statsig, gate.name);
+  if (serverValue !== undefined) status.serverValue = serverValue;
+  if (!status.detected) {
+    const reason = explainGateAbsence(gate, location.version);
+    if (reason) status.unavailableReason = reason;
+  }
+  return resolveEffectiveState(gate, status);
 }
 
 /**
- * Detect all registered gates in the Claude Code binary
+ * Detect a list of gates with a single scan of the bundle (or none, when
+ * the scan cache has them), using each gate's detect variant for the
+ * bundle version.
+ */
+function detectGatesInBundle(location: BundleLocation, gates: FeatureGate[]): GateStatus[] {
+  const resolved = gates.map((gate) => gateForVersion(gate, location.version));
+  const isCached = (entry: ScanCacheEntry, gate: FeatureGate): boolean =>
+    entry.gates[gate.codename]?.pattern === patternKey(gate);
+
+  const entry = cachedScan(
+    location,
+    (cached) => resolved.every((gate) => isCached(cached, gate)),
+    (cached, source) => {
+      const missing = resolved.filter((gate) => !isCached(cached, gate));
+      const scan = scanBundle(source, missing);
+      for (const gate of missing) {
+        const offsets = (scan.matches.get(gate.codename) ?? []).map((m) => m.index ?? 0);
+        cached.gates[gate.codename] = { pattern: patternKey(gate), offsets };
+        const defaultValue = compiledDefault(source, gate.name);
+        if (defaultValue !== undefined) cached.gates[gate.codename].defaultValue = defaultValue;
+      }
+    }
+  );
+  if (!entry) return [];
+
+  const markers = new Set(entry.markers);
+  const statsig = readStatsigCache(gates.map((gate) => gate.name));
+  return gates.map((gate) => detectGateInBundle(location, gate, entry, markers, statsig));
+}
+
+/**
+ * Detect all registered gates in the Claude Code binary, plus legacy
+ * gates that still exist in the bundle's version.
  */
 export function detectAllGates(cliPath?: string): GateStatus[] {
-  const bundle = resolveBundle(cliPath);
-  if (!bundle) return [];
+  const location = locateBundle(cliPath);
+  if (!location) return [];
 
-  return getAllGates().map((gate) => detectGateInContent(bundle.content, gate));
+  return detectGatesInBundle(location, getGatesForVersion(location.version));
 }
 
 /**
- * Detect a single gate by name or codename
+ * Detect a single gate by name or codename (active or legacy)
  */
 export function detectGate(nameOrCodename: string, cliPath?: string): GateStatus | null {
-  const bundle = resolveBundle(cliPath);
-  if (!bundle) return null;
-
-  const lower = nameOrCodename.toLowerCase();
-  const gate = getAllGates().find(
-    (g) => g.name === lower || g.codename === lower || g.name === `tengu_${lower.replace(/-/g, '_')}`
-  );
+  const location = locateBundle(cliPath);
+  if (!location) return null;
 
+  const gate = findGate(nameOrCodename);
   if (!gate) return null;
-  return detectGateInContent(bundle.content, gate);
+  return detectGatesInBundle(location, [gate])[0] ?? null;
 }
 
 /**
  * Detect only patchable gates (those with real patch implementations)
  */
 export function detectPatchableGates(cliPath?: string): GateStatus[] {
-  const bundle = resolveBundle(cliPath);
-  if (!bundle) return [];
+  const location = locateBundle(cliPath);
+  if (!location) return [];
 
-  return getPatchableGates().map((gate) => detectGateInContent(bundle.content, gate));
+  return detectGatesInBundle(location, getPatchableGates());
 }
 
 /**
@@ -134,11 +364,8 @@ export function detectPatchableGates(cliPath?: string): GateStatus[] {
  * Uses string matching rather than the `strings` command for portability.
  */
 export function scanAllFlags(cliPath?: string): string[] {
-  const bundle = resolveBundle(cliPath);
-  if (!bundle) return [];
-
-  const matches = bundle.content.match(/tengu_[a-z0-9_]+/g);
-  if (!matches) return [];
+  const location = locateBundle(cliPath);
+  if (!location) return [];
 
-  return [...new Set(matches)].sort();
+  return cachedScan(location, () => true, () => {})?.flags ?? [];
 }
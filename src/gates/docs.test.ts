@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { renderDocs, DOC_FILES } from "./docs.js";
+import type { DocsSource } from "../types.js";
+
+const SOURCE: DocsSource = {
+  version: "2.1.70",
+  flags: [
+    { flag: "tengu_amber_quartz", kind: "wrapper", tier: 1, occurrences: 2, defaultValue: "!1" },
+    { flag: "tengu_session_memory", kind: "env-guarded", tier: 2, occurrences: 6 },
+    { flag: "tengu_brand_new", kind: "wrapper", tier: 1, occurrences: 1, defaultValue: "!1" },
+    { flag: "tengu_plan_exit", kind: "telemetry", occurrences: 23 },
+  ],
+  envVars: [{ name: "ENABLE_CLAUDE_CODE_SM_COMPACT", type: "boolean", references: [] }],
+};
+
+function render(existing: Record<string, string> = {}) {
+  const result = renderDocs(SOURCE, (file) => existing[file]);
+  const file = (name: string) => result.files.find((f) => f.path === name)!.content;
+  return { result, file };
+}
+
+describe("renderDocs", () => {
+  it("should render every doc file for a fresh tree", () => {
+    const { result } = render();
+    expect(result.error).toBeUndefined();
+    expect(result.version).toBe("2.1.70");
+    expect(result.files.map((f) => f.path)).toEqual(DOC_FILES);
+    expect(result.files.every((f) => f.changed)).toBe(true);
+  });
+
+  it("should list gates with their tier and env overrides", () => {
+    const doc = render().file("docs/FEATURE-GATES.md");
+    expect(doc).toContain("### Tier 1 — Simple Wrappers");
+    expect(doc).toMatch(/\| `amber-quartz` +\| `tengu_amber_quartz` +\| Voice dictation/);
+    expect(doc).toMatch(
+      /\| `session-memory` +\| `tengu_session_memory` +\| `ENABLE_CLAUDE_CODE_SM_COMPACT`, `DISABLE_CLAUDE_CODE_SM_COMPACT` +\|/
+    );
+    expect(doc).toMatch(/\| `crystal-beam` +\| `tengu_crystal_beam` +\| 4 +\|/);
+    expect(doc).toMatch(/\| `oboe` +\| `tengu_oboe` +\| 2\.1\.63 +\|/);
+  });
+
+  it("should say which env overrides the bundle still reads", () => {
+    const doc = render().file("docs/FEATURE-GATES.md");
+    expect(doc).toContain("| Read by v2.1.70 |");
+    expect(doc).toMatch(/\| `ENABLE_CLAUDE_CODE_SM_COMPACT` +\| session-memory +\|.*\| yes +\|/);
+    expect(doc).toMatch(/\| `DISABLE_CLAUDE_CODE_SM_COMPACT` +\| session-memory +\|.*\| no +\|/);
+  });
+
+  it("should report flag counts, unregistered candidates and missing gates", () => {
+    const doc = render().file("docs/TENGU-FLAGS.md");
+    expect(doc).toContain("> All 4 `tengu_*` flags found in Claude Code v2.1.70");
+    expect(doc).toContain("1 unregistered gate candidates and 1 telemetry events");
+    expect(doc).toMatch(/\| `tengu_brand_new` +\| wrapper +\| 1 +\| `!1` +\| 1 +\|/);
+    expect(doc).toMatch(/\| `tengu_crystal_beam` +\| crystal-beam +\|/);
+    expect(doc).toMatch(/\| 23 +\| `tengu_plan_exit` +\| Telemetry +\|/);
+  });
+
+  it("should render the site's gate data with CLI commands for patchable gates", () => {
+    const data = render().file("site/assets/js/data.js");
+    expect(data).toContain('  // ── Tier 2 — Env-Guarded (Patchable) ─');
+    expect(data).toContain('    envDisable: "DISABLE_CLAUDE_CODE_SM_COMPACT",');
+    expect(data).toContain('    cliCommand: "claude-patcher gates enable amber-quartz",');
+    expect(data).toMatch(/codename: "crystal-beam",[\s\S]*?cliCommand: null,/);
+  });
+
+  it("should keep hand-written sections from the existing files", () => {
+    const fresh = render().result.files;
+    const existing = Object.fromEntries(
+      fresh.map((f) => [
+        f.path,
+        f.content
+          .replace("<!-- manual:overview -->\n", "<!-- manual:overview -->\nHand-written.\n")
+          .replace("/* manual:site-data */\n", "/* manual:site-data */\nconst ENV_VARS = [];\n"),
+      ])
+    );
+    const { result, file } = render(existing);
+    expect(file("docs/FEATURE-GATES.md")).toContain("<!-- manual:overview -->\nHand-written.\n");
+    expect(file("site/assets/js/data.js")).toContain("/* manual:site-data */\nconst ENV_VARS = [];\n");
+    expect(result.files.some((f) => f.changed)).toBe(false);
+  });
+
+  it("should refuse to overwrite a file without its manual sections", () => {
+    const { result } = render({ "docs/TENGU-FLAGS.md": "# Tengu Flags\n\nHand-written only.\n" });
+    expect(result.error).toBe(
+      "docs/TENGU-FLAGS.md has no <!-- manual:intro --> section; mark the hand-written text to keep before generating"
+    );
+  });
+});
@@ -0,0 +1,587 @@
+/**
+ * Generated Reference Docs
+ *
+ * docs/FEATURE-GATES.md, docs/TENGU-FLAGS.md and the site's gate explorer
+ * (site/gates.html plus the GATES array in site/assets/js/data.js) are
+ * rendered from the gate registry together with a flag scan and an
+ * env-var scan of an installed bundle, so tiers, env overrides and
+ * descriptions are only ever written down in registry.ts.
+ *
+ * Prose that cannot come from the registry lives between manual markers,
+ * which are copied over from the file on disk when it is regenerated:
+ *
+ *   <!-- manual:overview -->
+ *   ...hand-written text...
+ *   <!-- /manual:overview -->
+ *
+ * JS files use the same names inside block comments.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DocsResult, DocsSource, FeatureGate, FlagAnalysis } from '../types.js';
+import { analyzeAllFlags } from './analyzer.js';
+import { locateBundle } from './detector.js';
+import { findEnvVar, getEnvVarRegistry } from './env-registry.js';
+import { scanEnvVars } from './env-vars.js';
+import { getAllGates, getLegacyGates, getPatchableGates } from './registry.js';
+
+/** Files rendered by `docs generate`, relative to the repository root */
+export const DOC_FILES = [
+  'docs/FEATURE-GATES.md',
+  'docs/TENGU-FLAGS.md',
+  'site/gates.html',
+  'site/assets/js/data.js',
+];
+
+const TIER_NAMES: Record<number, string> = {
+  1: 'Simple Wrappers',
+  2: 'Env-Guarded',
+  3: 'Complex',
+  4: 'Data Gates',
+  5: 'Inline Checks',
+};
+
+const TIER_NOTES: Record<number, string> = {
+  4: 'The accessor returns a value instead of a boolean; `gates set` replaces it with a literal.',
+  5: 'No wrapper function: every `ACCESSOR("tengu_x",!1)` call site is rewritten to `(!0)`, and `gates enable` reports how many call sites changed.',
+};
+
+const GENERATED_NOTE =
+  'Generated by `claude-patcher docs generate` from the gate registry. Edit `src/gates/registry.ts` (or the text between `manual:` markers) instead of this file.';
+
+/** Flag kinds that look like gates rather than telemetry */
+const GATE_KINDS = new Set(['wrapper', 'env-guarded', 'data', 'inline']);
+
+/** Flags listed in the occurrence table */
+const TOP_FLAGS = 15;
+
+/** A registry gate with everything the renderers show about it */
+interface DocGate {
+  gate: FeatureGate;
+  tier?: number;
+  patchable: boolean;
+  envVars: string[];
+  occurrences: number;
+}
+
+interface DocsContext {
+  source: DocsSource;
+  gates: DocGate[];
+  legacy: DocGate[];
+}
+
+/**
+ * A gate's tier, falling back to what its patch kind implies for gates
+ * (e.g. from gate packs) that do not declare one.
+ */
+function tierOf(gate: FeatureGate): number | undefined {
+  if (gate.tier !== undefined) return gate.tier;
+  if (gate.callSiteRegex) return 5;
+  if (gate.valueRegex) return 4;
+  return undefined;
+}
+
+/**
+ * The gate's envOverride followed by any other registered variable linked
+ * to it (e.g. the DISABLE_ counterpart of an ENABLE_ variable).
+ */
+function envVarsOf(gate: FeatureGate): string[] {
+  const names = gate.envOverride ? [gate.envOverride] : [];
+  for (const info of getEnvVarRegistry()) {
+    if (info.gate === gate.codename && !names.includes(info.name)) names.push(info.name);
+  }
+  return names;
+}
+
+function buildContext(source: DocsSource): DocsContext {
+  const patchable = new Set(getPatchableGates().map((gate) => gate.codename));
+  const occurrences = new Map(source.flags.map((flag) => [flag.flag, flag.occurrences]));
+  const toDocGate = (gate: FeatureGate): DocGate => ({
+    gate,
+    tier: tierOf(gate),
+    patchable: patchable.has(gate.codename),
+    envVars: envVarsOf(gate),
+    occurrences: occurrences.get(gate.name) ?? 0,
+  });
+
+  // Patchable gates first, then by tier (unknown last); registry order otherwise
+  const rank = (gate: DocGate) => (gate.patchable ? 0 : 10) + (gate.tier ?? 9);
+  const gates = getAllGates()
+    .map(toDocGate)
+    .sort((a, b) => rank(a) - rank(b));
+  return { source, gates, legacy: getLegacyGates().map(toDocGate) };
+}
+
+/** Distinct tiers of the given gates, in ascending order */
+function tiersOf(gates: DocGate[]): Array<number | undefined> {
+  const tiers = [...new Set(gates.map((gate) => gate.tier))];
+  return tiers.sort((a, b) => (a ?? 9) - (b ?? 9));
+}
+
+function tierLabel(tier: number | undefined): string {
+  return tier === undefined ? 'Tier Unknown' : `Tier ${tier} — ${TIER_NAMES[tier]}`;
+}
+
+function code(text: string): string {
+  return `\`${text}\``;
+}
+
+function envList(gate: DocGate): string {
+  return gate.envVars.map(code).join(', ');
+}
+
+/** A Markdown table with prettier-style padded columns */
+function table(headers: string[], rows: string[][]): string {
+  const cells = [headers, ...rows].map((row) => row.map((cell) => cell.replace(/\|/g, '\\|')));
+  const widths = headers.map((_, i) => Math.max(3, ...cells.map((row) => row[i].length)));
+  const line = (row: string[]) => `| ${row.map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`;
+  return [line(cells[0]), line(widths.map((width) => '-'.repeat(width))), ...cells.slice(1).map(line)].join(
+    '\n'
+  );
+}
+
+function markers(name: string, js: boolean): [string, string] {
+  return js
+    ? [`/* manual:${name} */`, `/* /manual:${name} */`]
+    : [`<!-- manual:${name} -->`, `<!-- /manual:${name} -->`];
+}
+
+/**
+ * A manual section holding `fallback`, which is only used when the file
+ * does not exist yet.
+ */
+function manual(name: string, fallback: string, options: { js?: boolean; indent?: string } = {}): string {
+  const [open, close] = markers(name, options.js ?? false);
+  const indent = options.indent ?? '';
+  return `${indent}${open}\n${fallback ? `${fallback}\n` : ''}${indent}${close}`;
+}
+
+/** Text between two markers, or undefined when either is missing */
+function between(text: string, open: string, close: string): string | undefined {
+  const start = text.indexOf(open);
+  if (start === -1) return undefined;
+  const end = text.indexOf(close, start + open.length);
+  return end === -1 ? undefined : text.slice(start + open.length, end);
+}
+
+const MANUAL_OPEN = /<!-- manual:([\w-]+) -->|\/\* manual:([\w-]+) \*\//g;
+
+/**
+ * Copy every manual section of `rendered` from the existing file. A file
+ * that exists but lacks one of the sections is an error, so hand-written
+ * text is never dropped just because nobody marked it yet.
+ */
+function keepManualSections(
+  file: string,
+  rendered: string,
+  existing: string | undefined
+): { content: string; error?: string } {
+  if (existing === undefined) return { content: rendered };
+
+  let content = rendered;
+  for (const match of rendered.matchAll(MANUAL_OPEN)) {
+    const [open, close] = markers(match[1] ?? match[2], match[2] !== undefined);
+    const kept = between(existing, open, close);
+    if (kept === undefined) {
+      return {
+        content: rendered,
+        error: `${file} has no ${open} section; mark the hand-written text to keep before generating`,
+      };
+    }
+    const start = content.indexOf(open) + open.length;
+    content = content.slice(0, start) + kept + content.slice(content.indexOf(close, start));
+  }
+  return { content };
+}
+
+function renderFeatureGates(ctx: DocsContext): string {
+  const { version } = ctx.source;
+  const patchable = ctx.gates.filter((gate) => gate.patchable);
+  const detection = ctx.gates.filter((gate) => !gate.patchable);
+  const checked = version ? `, checked against Claude Code v${version}` : '';
+  const out = [
+    '# Feature Gates Reference',
+    '',
+    `> Feature gates in the claude-patcher registry${checked}, and how to control them with \`claude-patcher gates\`.`,
+    '>',
+    `> ${GENERATED_NOTE}`,
+    '',
+    manual('overview', '## Overview'),
+    '',
+    `## Patchable Gates (${patchable.length})`,
+  ];
+
+  for (const tier of tiersOf(patchable)) {
+    const gates = patchable.filter((gate) => gate.tier === tier);
+    const withEnv = gates.some((gate) => gate.envVars.length > 0);
+    out.push('', `### ${tierLabel(tier)}`, '');
+    if (tier !== undefined && TIER_NOTES[tier]) out.push(TIER_NOTES[tier], '');
+    out.push(
+      table(
+        ['Codename', 'Flag', ...(withEnv ? ['Env Override'] : []), 'What It Controls'],
+        gates.map((doc) => [
+          code(doc.gate.codename),
+          code(doc.gate.name),
+          ...(withEnv ? [envList(doc)] : []),
+          doc.gate.description,
+        ])
+      )
+    );
+  }
+
+  out.push(
+    '',
+    `## Detection-Only Gates (${detection.length})`,
+    '',
+    'Detected and reported by `claude-patcher gates`, but not patched.',
+    '',
+    table(
+      ['Codename', 'Flag', 'Tier', 'Env Override', 'What It Controls'],
+      detection.map((doc) => [
+        code(doc.gate.codename),
+        code(doc.gate.name),
+        String(doc.tier ?? '?'),
+        envList(doc),
+        doc.gate.description,
+      ])
+    ),
+    '',
+    manual('deep-analysis', '## Deep Analysis — What Each Feature Actually Does'),
+    '',
+    manual('compatibility', ''),
+    '',
+    `## Fully Rolled Out Gates (${ctx.legacy.length})`,
+    '',
+    'These features now ship to everyone. The gates are still detected in bundles older than the version listed.',
+    '',
+    table(
+      ['Codename', 'Flag', 'Rolled Out In', 'What It Controlled'],
+      ctx.legacy.map(({ gate }) => [code(gate.codename), code(gate.name), gate.removedIn ?? '', gate.description])
+    ),
+    '',
+    '## Environment Variable Overrides',
+    '',
+    'Some gates check environment variables before the Statsig gate. Setting these can',
+    'enable or disable the feature without patching:',
+    '',
+    renderEnvOverrides(ctx),
+    '',
+    manual('usage', '## See Also\n\n- [TENGU-FLAGS.md](TENGU-FLAGS.md) — Complete flag reference'),
+    ''
+  );
+  return out.join('\n');
+}
+
+function renderEnvOverrides(ctx: DocsContext): string {
+  const read = new Set(ctx.source.envVars.map((scan) => scan.name));
+  const readHeader = ctx.source.version ? `Read by v${ctx.source.version}` : 'Read by Bundle';
+  const rows: string[][] = [];
+  for (const doc of [...ctx.gates, ...ctx.legacy]) {
+    for (const name of doc.envVars) {
+      rows.push([
+        code(name),
+        doc.gate.codename,
+        findEnvVar(name)?.purpose ?? doc.gate.description,
+        read.has(name) ? 'yes' : 'no',
+      ]);
+    }
+  }
+  return table(['Variable', 'Gate', 'Effect', readHeader], rows);
+}
+
+/** What a flag most likely is, for the occurrence table */
+function likelyType(flag: FlagAnalysis, registered: Map<string, string>): string {
+  const codename = registered.get(flag.flag);
+  if (codename) return `Gate (${code(codename)})`;
+  if (flag.kind === 'telemetry') return 'Telemetry';
+  if (flag.kind === 'unknown') return 'Unknown';
+  return `Gate candidate (${flag.kind})`;
+}
+
+function renderTenguFlags(ctx: DocsContext): string {
+  const { flags, version } = ctx.source;
+  const registered = new Map([...ctx.legacy, ...ctx.gates].map((doc) => [doc.gate.name, doc.gate.codename]));
+  const candidates = flags.filter((flag) => GATE_KINDS.has(flag.kind) && !registered.has(flag.flag));
+  const telemetry = flags.filter((flag) => flag.kind === 'telemetry');
+  const missing = ctx.gates.filter((doc) => doc.occurrences === 0);
+  const patchable = ctx.gates.filter((doc) => doc.patchable);
+  const detection = ctx.gates.filter((doc) => !doc.patchable);
+  const bundle = version ? `Claude Code v${version}` : 'the scanned Claude Code bundle';
+  const gateRow = (doc: DocGate) => [
+    code(doc.gate.name),
+    doc.gate.codename,
+    String(doc.tier ?? '?'),
+    envList(doc),
+    String(doc.occurrences),
+    doc.gate.description,
+  ];
+  const gateHeaders = ['Flag', 'Codename', 'Tier', 'Env Override', 'Occurrences', 'Purpose'];
+
+  const out = [
+    '# Tengu Flags — Complete Reference',
+    '',
+    `> All ${flags.length} \`tengu_*\` flags found in ${bundle}: ${ctx.gates.length} registered gates, ` +
+      `${candidates.length} unregistered gate candidates and ${telemetry.length} telemetry events.`,
+    '>',
+    `> ${GENERATED_NOTE}`,
+    '',
+    manual('intro', ''),
+    '',
+    '## Feature Gates (Codename-style)',
+    '',
+    'These opaque, randomly-named flags are Statsig feature gates that enable or disable',
+    'functionality. Their names reveal nothing about purpose — they must be',
+    'reverse-engineered from the binary.',
+    '',
+    `### Patchable Gates (${patchable.length})`,
+    '',
+    table(gateHeaders, patchable.map(gateRow)),
+    '',
+    `### Detection-Only Gates (${detection.length})`,
+    '',
+    table(gateHeaders, detection.map(gateRow)),
+  ];
+
+  if (missing.length > 0) {
+    out.push(
+      '',
+      `### Registered Gates Not Found (${missing.length})`,
+      '',
+      `Registered gates whose flag does not occur in ${bundle}.`,
+      '',
+      table(
+        ['Flag', 'Codename'],
+        missing.map((doc) => [code(doc.gate.name), doc.gate.codename])
+      )
+    );
+  }
+
+  out.push(
+    '',
+    `### Unregistered Gate Candidates (${candidates.length})`,
+    '',
+    'Flags read through a Statsig accessor that no registered gate covers. `claude-patcher gates discover` prints gate pack entries for them.',
+    '',
+    table(
+      ['Flag', 'Kind', 'Tier', 'Default', 'Occurrences'],
+      candidates.map((flag) => [
+        code(flag.flag),
+        flag.kind,
+        String(flag.tier ?? '?'),
+        flag.defaultValue ? code(flag.defaultValue) : '',
+        String(flag.occurrences),
+      ])
+    ),
+    '',
+    manual('tiers', '### Gate Tier Definitions'),
+    '',
+    manual('categories', ''),
+    '',
+    '## Flag Occurrence Analysis',
+    '',
+    'Flags with high occurrence counts (many references in the binary) are typically telemetry',
+    'events logged from multiple code paths. Flags with low counts (1-3) are more likely to be',
+    'feature gates checked in a single location.',
+    '',
+    table(
+      ['Occurrences', 'Flag', 'Likely Type'],
+      [...flags]
+        .sort((a, b) => b.occurrences - a.occurrences || (a.flag < b.flag ? -1 : 1))
+        .slice(0, TOP_FLAGS)
+        .map((flag) => [String(flag.occurrences), code(flag.flag), likelyType(flag, registered)])
+    ),
+    '',
+    manual('discovering', '## See Also\n\n- [FEATURE-GATES.md](FEATURE-GATES.md) — Patchable gates deep-dive'),
+    ''
+  );
+  return out.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderGatesPage(ctx: DocsContext): string {
+  const total = ctx.gates.length;
+  const patchable = ctx.gates.filter((doc) => doc.patchable).length;
+  const chip = (filter: string, label: string, count: number, active = false) =>
+    [
+      `          <button class="filter-chip${active ? ' active' : ''}" data-filter="${filter}">`,
+      `            ${escapeHtml(label)} <span class="chip-count">${count}</span>`,
+      '          </button>',
+    ].join('\n');
+  const chips = [
+    chip('all', 'All', total, true),
+    chip('patchable', 'Patchable', patchable),
+    chip('detection', 'Detection Only', total - patchable),
+    ...tiersOf(ctx.gates)
+      .filter((tier): tier is number => tier !== undefined)
+      .map((tier) => chip(`tier-${tier}`, `Tier ${tier}`, ctx.gates.filter((doc) => doc.tier === tier).length)),
+  ];
+
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '  <head>',
+    '    <meta charset="UTF-8" />',
+    '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+    '    <title>Gate Explorer — Claude Insider</title>',
+    '    <meta',
+    '      name="description"',
+    `      content="Explore ${total} feature gates discovered in Claude Code's binary. Browse, search, and filter by tier and patchability."`,
+    '    />',
+    '    <link rel="stylesheet" href="assets/css/styles.css" />',
+    '  </head>',
+    '  <body>',
+    manual('header', '', { indent: '    ' }),
+    '',
+    '    <main>',
+    '      <div class="container">',
+    '        <!-- Page Header -->',
+    '        <div class="page-header">',
+    '          <h1>Gate Explorer</h1>',
+    `          <p>Browse all ${total} feature gates discovered in Claude Code's binary</p>`,
+    '        </div>',
+    '',
+    manual('search', '', { indent: '        ' }),
+    '',
+    '        <!-- Filters -->',
+    '        <div id="gate-filters" class="filter-bar">',
+    ...chips,
+    '        </div>',
+    '',
+    '        <!-- Results Count -->',
+    `        <p id="gate-results-count" class="results-count">${total} gates</p>`,
+    '',
+    '        <!-- Gate Grid (populated by app.js) -->',
+    '        <div id="gate-grid" class="card-grid"></div>',
+    '      </div>',
+    '    </main>',
+    '',
+    manual('footer', '', { indent: '    ' }),
+    '',
+    '    <script src="assets/js/data.js"></script>',
+    '    <script src="assets/js/app.js"></script>',
+    '  </body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/** `key: value,` at object depth, wrapped the way prettier wraps long strings */
+function jsProperty(key: string, value: unknown): string {
+  const literal = JSON.stringify(value);
+  const line = `    ${key}: ${literal},`;
+  return line.length > 80 && typeof value === 'string' ? `    ${key}:\n      ${literal},` : line;
+}
+
+function renderSiteData(ctx: DocsContext): string {
+  const out = [
+    '/* ==========================================================================',
+    '   Claude Insider — Data Layer',
+    '   Single source of truth for gates, env vars, changelog, and blog posts',
+    '   ========================================================================== */',
+    '',
+    '// GATES is rendered from the gate registry by `claude-patcher docs generate`.',
+    'const GATES = [',
+  ];
+
+  let group = '';
+  for (const doc of ctx.gates) {
+    const label = `${tierLabel(doc.tier)} (${doc.patchable ? 'Patchable' : 'Detection Only'})`;
+    if (label !== group) {
+      out.push(`  // ── ${label} `.padEnd(76, '─'));
+      group = label;
+    }
+    const { gate } = doc;
+    const envDisable = doc.envVars.find((name) => name !== gate.envOverride && name.includes('DISABLE'));
+    out.push(
+      '  {',
+      jsProperty('codename', gate.codename),
+      jsProperty('flag', gate.name),
+      jsProperty('tier', doc.tier ?? null),
+      jsProperty('patchable', doc.patchable),
+      jsProperty('category', gate.category),
+      jsProperty('description', gate.description),
+      jsProperty('envOverride', gate.envOverride ?? null),
+      ...(envDisable ? [jsProperty('envDisable', envDisable)] : []),
+      jsProperty('cliCommand', doc.patchable ? `claude-patcher gates enable ${gate.codename}` : null),
+      '  },'
+    );
+  }
+
+  out.push('];', '', manual('site-data', '', { js: true }), '');
+  return out.join('\n');
+}
+
+const RENDERERS: Record<string, (ctx: DocsContext) => string> = {
+  'docs/FEATURE-GATES.md': renderFeatureGates,
+  'docs/TENGU-FLAGS.md': renderTenguFlags,
+  'site/gates.html': renderGatesPage,
+  'site/assets/js/data.js': renderSiteData,
+};
+
+/**
+ * Render every file in DOC_FILES from the registry and the given scan.
+ * `readExisting` returns the current content of a file (undefined when it
+ * does not exist), whose manual sections are kept.
+ */
+export function renderDocs(
+  source: DocsSource,
+  readExisting: (file: string) => string | undefined
+): DocsResult {
+  const ctx = buildContext(source);
+  const result: DocsResult = { files: [] };
+  if (source.version) result.version = source.version;
+
+  for (const file of DOC_FILES) {
+    const existing = readExisting(file);
+    const { content, error } = keepManualSections(file, RENDERERS[file](ctx), existing);
+    if (error) return { ...result, error };
+    result.files.push({ path: file, content, changed: content !== existing });
+  }
+  return result;
+}
+
+/**
+ * Render the docs under `rootDir` from the installed bundle (or the one
+ * at `cliPath`) and write the files that changed. With `check`, nothing
+ * is written; callers compare `changed` instead.
+ */
+export function generateDocs(
+  rootDir: string,
+  options: { cliPath?: string; check?: boolean } = {}
+): DocsResult {
+  const location = locateBundle(options.cliPath);
+  if (!location) {
+    return {
+      files: [],
+      error: options.cliPath
+        ? `Could not find a Claude Code bundle at ${options.cliPath}`
+        : 'Could not find Claude Code CLI. Pass --cli <path> to render from a specific install.',
+    };
+  }
+
+  const source: DocsSource = {
+    flags: analyzeAllFlags(options.cliPath),
+    envVars: scanEnvVars(options.cliPath),
+  };
+  if (location.version) source.version = location.version;
+
+  const result = renderDocs(source, (file) => {
+    try {
+      return fs.readFileSync(path.join(rootDir, file), 'utf8');
+    } catch {
+      return undefined;
+    }
+  });
+  if (result.error || options.check) return result;
+
+  for (const doc of result.files.filter((file) => file.changed)) {
+    const target = path.join(rootDir, doc.path);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, doc.content);
+  }
+  return result;
+}
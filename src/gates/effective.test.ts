@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { isEnvTruthy, envEffectOf, resolveEffectiveState } from "./effective.js";
+import { findGate } from "./registry.js";
+import type { GateStatus } from "../types.js";
+
+function status(codename: string, extra: Partial<GateStatus> = {}): GateStatus {
+  const gate = findGate(codename)!;
+  return { name: gate.name, codename, detected: true, enabled: false, ...extra };
+}
+
+function resolve(codename: string, extra: Partial<GateStatus> = {}, env: NodeJS.ProcessEnv = {}) {
+  return resolveEffectiveState(findGate(codename)!, status(codename, extra), env);
+}
+
+describe("isEnvTruthy", () => {
+  it("should accept the values Claude Code treats as true", () => {
+    expect(["1", "true", "YES", " on "].every(isEnvTruthy)).toBe(true);
+    expect([undefined, "", "0", "false", "off"].some(isEnvTruthy)).toBe(false);
+  });
+});
+
+describe("envEffectOf", () => {
+  it("should infer the effect from the variable name unless declared", () => {
+    expect(envEffectOf(findGate("chomp-inflection")!)).toBe("enable");
+    expect(envEffectOf(findGate("oboe")!)).toBe("disable");
+    expect(envEffectOf(findGate("swarm-mode")!)).toBe("disable");
+    expect(envEffectOf(findGate("amber-flint")!)).toBe("require");
+  });
+});
+
+describe("resolveEffectiveState", () => {
+  it("should follow the compiled default when nothing else applies", () => {
+    expect(resolve("amber-quartz", { defaultValue: "!0" })).toMatchObject({
+      effective: "on",
+      effectiveReason: "compiled default !0",
+    });
+    expect(resolve("amber-quartz")).toMatchObject({ effective: "unknown" });
+  });
+
+  it("should prefer the cached server value to the compiled default", () => {
+    expect(resolve("amber-quartz", { defaultValue: "!1", serverValue: "true" })).toMatchObject({
+      effective: "on",
+      effectiveReason: "server value true",
+    });
+    expect(
+      resolve("session-memory", { serverValue: "true" }, { ENABLE_CLAUDE_CODE_SM_COMPACT: "1" }),
+    ).toMatchObject({ effectiveReason: "ENABLE_CLAUDE_CODE_SM_COMPACT is set" });
+  });
+
+  it("should let a patch win over the env override and default", () => {
+    const env = { CLAUDE_CODE_ENABLE_PROMPT_SUGGESTION: "1" };
+    expect(resolve("chomp-inflection", { value: "null", patched: true }, env)).toMatchObject({
+      envSet: true,
+      effective: "value",
+      effectiveReason: 'pinned with "gates set"',
+    });
+    expect(
+      resolve("amber-quartz", { forcedOff: true, patched: true, defaultValue: "!0" }),
+    ).toMatchObject({ effective: "off", effectiveReason: "forced off by claude-patcher" });
+  });
+
+  it("should apply an env override that is set", () => {
+    expect(
+      resolve("session-memory", { defaultValue: "!1" }, { ENABLE_CLAUDE_CODE_SM_COMPACT: "true" }),
+    ).toMatchObject({
+      envSet: true,
+      effective: "on",
+      effectiveReason: "ENABLE_CLAUDE_CODE_SM_COMPACT is set",
+    });
+    expect(
+      resolve("session-memory", { defaultValue: "!1" }, { ENABLE_CLAUDE_CODE_SM_COMPACT: "0" }),
+    ).toMatchObject({ envSet: false, effective: "off" });
+  });
+
+  it("should keep a gate that requires its env var off until it is set", () => {
+    expect(resolve("amber-flint", { defaultValue: "!0" })).toMatchObject({
+      envSet: false,
+      effective: "off",
+      effectiveReason: "CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS is not set",
+    });
+    expect(
+      resolve("amber-flint", { defaultValue: "!0" }, { CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS: "1" }),
+    ).toMatchObject({
+      effective: "on",
+      effectiveReason: "CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS is set, compiled default !0",
+    });
+  });
+
+  it("should leave gates that were not detected without a state", () => {
+    expect(resolve("amber-quartz", { detected: false }).effective).toBeUndefined();
+  });
+});
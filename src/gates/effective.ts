@@ -0,0 +1,94 @@
+/**
+ * Effective Gate State
+ *
+ * Works out what Claude Code will actually see for a gate, since our
+ * patch marker is only one of the things that decide it. In order:
+ *
+ *   1. a claude-patcher patch (enable, force-off or a pinned value)
+ *   2. the gate's env override, when set in the current environment
+ *   3. the value Statsig assigned to the account, when Claude Code cached it
+ *   4. the default compiled into the accessor call, e.g. `W9("tengu_x",!0)`
+ */
+
+import type { FeatureGate, GateEffectiveState, GateEnvEffect, GateStatus } from '../types.js';
+
+/** Values Claude Code treats as true for boolean env vars */
+const TRUTHY = ['1', 'true', 'yes', 'on'];
+
+/**
+ * Whether an environment variable value is truthy, the way Claude Code
+ * reads its own boolean env vars.
+ */
+export function isEnvTruthy(value: string | undefined): boolean {
+  return value !== undefined && TRUTHY.includes(value.trim().toLowerCase());
+}
+
+/**
+ * What setting a gate's env override does.
+ */
+export function envEffectOf(gate: FeatureGate): GateEnvEffect {
+  return gate.envEffect ?? (gate.envOverride?.includes('DISABLE') ? 'disable' : 'enable');
+}
+
+/**
+ * Effective state from the server value, or else the compiled default.
+ */
+function fromValue(status: GateStatus): Pick<GateStatus, 'effective' | 'effectiveReason'> {
+  if (status.serverValue !== undefined) {
+    const state: GateEffectiveState =
+      status.serverValue === 'true' ? 'on' : status.serverValue === 'false' ? 'off' : 'value';
+    return { effective: state, effectiveReason: `server value ${status.serverValue}` };
+  }
+  const { defaultValue } = status;
+  if (defaultValue === undefined) {
+    return { effective: 'unknown', effectiveReason: 'default not found in bundle' };
+  }
+  const state: GateEffectiveState =
+    defaultValue === '!0' ? 'on' : defaultValue === '!1' ? 'off' : 'value';
+  return { effective: state, effectiveReason: `compiled default ${defaultValue}` };
+}
+
+/**
+ * Fill in `envSet`, `effective` and `effectiveReason` for a detected gate,
+ * from its patch state, `serverValue` and `defaultValue`. Gates that were not detected
+ * have no effective state.
+ */
+export function resolveEffectiveState(
+  gate: FeatureGate,
+  status: GateStatus,
+  env: NodeJS.ProcessEnv = process.env
+): GateStatus {
+  if (gate.envOverride) status.envSet = isEnvTruthy(env[gate.envOverride]);
+  if (!status.detected) return status;
+
+  let effective: Pick<GateStatus, 'effective' | 'effectiveReason'>;
+  const effect = envEffectOf(gate);
+  if (status.unpatchedOffsets?.length) {
+    const count = status.unpatchedOffsets.length;
+    effective = {
+      effective: 'unknown',
+      effectiveReason:
+        `patch missing from ${count} embedded cop${count === 1 ? 'y' : 'ies'} ` +
+        `(offsets ${status.unpatchedOffsets.join(', ')}); patch the gate again`,
+    };
+  } else if (status.forcedOff) {
+    effective = { effective: 'off', effectiveReason: 'forced off by claude-patcher' };
+  } else if (status.enabled) {
+    effective = { effective: 'on', effectiveReason: 'patched by claude-patcher' };
+  } else if (status.value !== undefined) {
+    effective = { effective: 'value', effectiveReason: 'pinned with "gates set"' };
+  } else if (status.envSet && effect !== 'require') {
+    effective = {
+      effective: effect === 'enable' ? 'on' : 'off',
+      effectiveReason: `${gate.envOverride} is set`,
+    };
+  } else if (effect === 'require' && gate.envOverride && !status.envSet) {
+    effective = { effective: 'off', effectiveReason: `${gate.envOverride} is not set` };
+  } else {
+    effective = fromValue(status);
+    if (status.envSet) {
+      effective.effectiveReason = `${gate.envOverride} is set, ${effective.effectiveReason}`;
+    }
+  }
+  return Object.assign(status, effective);
+}
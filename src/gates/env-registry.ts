@@ -0,0 +1,225 @@
+/**
+ * Environment Variable Registry
+ *
+ * What each `process.env` variable read by Claude Code does, how its value
+ * is read and which gate (if any) it overrides. Seeded from
+ * docs/ENV-VARS.md as of ENV_REGISTRY_VERSION; `env scan` reports
+ * variables found in a newer bundle that are missing here, and entries no
+ * longer read by it.
+ */
+
+import type { EnvVarInfo } from "../types.js";
+import { getAllGates } from "./registry.js";
+
+/** Claude Code version the registry was last checked against */
+export const ENV_REGISTRY_VERSION = "2.1.63";
+
+const ENV_VARS: EnvVarInfo[] = [
+  { name: "CLAUDE_CODE_DISABLE_AUTO_MEMORY", category: "feature", type: "boolean", purpose: "Disable auto memory", gate: "oboe" },
+  { name: "CLAUDE_CODE_DISABLE_ATTACHMENTS", category: "feature", type: "boolean", purpose: "Disable file attachments" },
+  { name: "CLAUDE_CODE_DISABLE_BACKGROUND_TASKS", category: "feature", type: "boolean", purpose: "Disable background tasks" },
+  { name: "CLAUDE_CODE_DISABLE_CLAUDE_MDS", category: "feature", type: "boolean", purpose: "Disable CLAUDE.md loading" },
+  { name: "CLAUDE_CODE_DISABLE_COMMAND_INJECTION_CHECK", category: "feature", type: "boolean", purpose: "Disable bash command injection safety checks" },
+  { name: "CLAUDE_CODE_DISABLE_EXPERIMENTAL_BETAS", category: "feature", type: "boolean", purpose: "Disable experimental beta features" },
+  { name: "CLAUDE_CODE_DISABLE_FEEDBACK_SURVEY", category: "feature", type: "boolean", purpose: "Disable feedback survey prompts" },
+  { name: "CLAUDE_CODE_DISABLE_FILE_CHECKPOINTING", category: "feature", type: "boolean", purpose: "Disable file checkpointing" },
+  { name: "CLAUDE_CODE_DISABLE_NONESSENTIAL_TRAFFIC", category: "feature", type: "boolean", purpose: "Disable non-essential network requests" },
+  { name: "CLAUDE_CODE_DISABLE_OFFICIAL_MARKETPLACE_AUTOINSTALL", category: "feature", type: "boolean", purpose: "Disable official marketplace auto-install" },
+  { name: "CLAUDE_CODE_DISABLE_TERMINAL_TITLE", category: "feature", type: "boolean", purpose: "Disable terminal title updates" },
+  { name: "CLAUDE_CODE_ENABLE_CFC", category: "feature", type: "boolean", purpose: "Enable CFC (unknown feature)" },
+  { name: "CLAUDE_CODE_ENABLE_PROMPT_SUGGESTION", category: "feature", type: "boolean", purpose: "Enable prompt suggestions", gate: "chomp-inflection" },
+  { name: "CLAUDE_CODE_ENABLE_SDK_FILE_CHECKPOINTING", category: "feature", type: "boolean", purpose: "Enable SDK file checkpointing" },
+  { name: "CLAUDE_CODE_ENABLE_TASKS", category: "feature", type: "boolean", purpose: "Enable task management tools" },
+  { name: "CLAUDE_CODE_ENABLE_TELEMETRY", category: "feature", type: "boolean", purpose: "Enable telemetry" },
+  { name: "CLAUDE_CODE_ENABLE_TOKEN_USAGE_ATTACHMENT", category: "feature", type: "boolean", purpose: "Enable token usage attachment" },
+  { name: "CLAUDE_CODE_ENHANCED_TELEMETRY_BETA", category: "feature", type: "boolean", purpose: "Enhanced telemetry beta" },
+  { name: "CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS", category: "feature", type: "boolean", purpose: "Agent teams", gate: "amber-flint" },
+  { name: "CLAUDE_CODE_FORCE_GLOBAL_CACHE", category: "feature", type: "boolean", purpose: "Force global system prompt cache", gate: "system-prompt-global-cache" },
+  { name: "CLAUDE_CODE_SIMPLE", category: "feature", type: "boolean", purpose: "Simplified system prompt" },
+  { name: "CLAUDE_AUTO_BACKGROUND_TASKS", category: "feature", type: "boolean", purpose: "Auto-start background tasks" },
+  { name: "CLAUDE_CODE_API_BASE_URL", category: "api", type: "string", purpose: "Custom API base URL" },
+  { name: "CLAUDE_CODE_API_KEY_FILE_DESCRIPTOR", category: "api", type: "string", purpose: "API key via file descriptor" },
+  { name: "CLAUDE_CODE_API_KEY_HELPER_TTL_MS", category: "api", type: "number", purpose: "API key helper cache TTL" },
+  { name: "CLAUDE_CODE_ATTRIBUTION_HEADER", category: "api", type: "string", purpose: "Custom attribution header" },
+  { name: "CLAUDE_CODE_CUSTOM_OAUTH_URL", category: "api", type: "string", purpose: "Custom OAuth URL" },
+  { name: "CLAUDE_CODE_OAUTH_CLIENT_ID", category: "api", type: "string", purpose: "OAuth client ID" },
+  { name: "CLAUDE_CODE_OAUTH_TOKEN", category: "api", type: "string", purpose: "Direct OAuth token" },
+  { name: "CLAUDE_CODE_OAUTH_TOKEN_FILE_DESCRIPTOR", category: "api", type: "string", purpose: "OAuth token via file descriptor" },
+  { name: "CLAUDE_CODE_SESSION_ACCESS_TOKEN", category: "api", type: "string", purpose: "Session access token" },
+  { name: "USE_LOCAL_OAUTH", category: "api", type: "boolean", purpose: "Use local OAuth server" },
+  { name: "USE_STAGING_OAUTH", category: "api", type: "boolean", purpose: "Use staging OAuth server" },
+  { name: "LOCAL_BRIDGE", category: "api", type: "string", purpose: "Local WebSocket bridge URL" },
+  { name: "CLAUDE_CODE_SKIP_BEDROCK_AUTH", category: "api", type: "boolean", purpose: "Skip Bedrock authentication" },
+  { name: "CLAUDE_CODE_SKIP_FOUNDRY_AUTH", category: "api", type: "boolean", purpose: "Skip Foundry authentication" },
+  { name: "CLAUDE_CODE_SKIP_VERTEX_AUTH", category: "api", type: "boolean", purpose: "Skip Vertex authentication" },
+  { name: "CLAUDE_CODE_USE_BEDROCK", category: "api", type: "boolean", purpose: "Use AWS Bedrock backend" },
+  { name: "CLAUDE_CODE_USE_FOUNDRY", category: "api", type: "boolean", purpose: "Use Foundry backend" },
+  { name: "CLAUDE_CODE_USE_VERTEX", category: "api", type: "boolean", purpose: "Use Google Vertex backend" },
+  { name: "CLAUDE_CODE_WEBSOCKET_AUTH_FILE_DESCRIPTOR", category: "api", type: "string", purpose: "WebSocket auth via file descriptor" },
+  { name: "CLAUDE_CODE_EFFORT_LEVEL", category: "model", type: "string", purpose: "Set reasoning effort level" },
+  { name: "CLAUDE_CODE_EXTRA_BODY", category: "model", type: "string", purpose: "Extra body parameters for API requests" },
+  { name: "CLAUDE_CODE_FILE_READ_MAX_OUTPUT_TOKENS", category: "model", type: "number", purpose: "Max tokens for file reads" },
+  { name: "CLAUDE_CODE_MAX_OUTPUT_TOKENS", category: "model", type: "number", purpose: "Max output tokens per response" },
+  { name: "CLAUDE_CODE_MAX_RETRIES", category: "model", type: "number", purpose: "Max API retries" },
+  { name: "CLAUDE_CODE_MAX_TOOL_USE_CONCURRENCY", category: "model", type: "number", purpose: "Max concurrent tool executions" },
+  { name: "CLAUDE_CODE_SUBAGENT_MODEL", category: "model", type: "string", purpose: "Model for subagents" },
+  { name: "CLAUDE_CODE_INCLUDE_PARTIAL_MESSAGES", category: "model", type: "boolean", purpose: "Include partial messages" },
+  { name: "CLAUDE_CODE_AGENT_SWARMS", category: "agent", type: "boolean", purpose: "Agent swarms", gate: "swarm-mode" },
+  { name: "CLAUDE_CODE_AGENT_NAME", category: "agent", type: "string", purpose: "Agent name (for teams)" },
+  { name: "CLAUDE_CODE_AGENT_RULE_DISABLED", category: "agent", type: "boolean", purpose: "Disable agent rules" },
+  { name: "CLAUDE_CODE_IS_COWORK", category: "agent", type: "boolean", purpose: "Running in cowork mode" },
+  { name: "CLAUDE_CODE_PLAN_MODE_INTERVIEW_PHASE", category: "agent", type: "string", purpose: "Plan mode interview phase" },
+  { name: "CLAUDE_CODE_PLAN_MODE_REQUIRED", category: "agent", type: "boolean", purpose: "Require plan mode" },
+  { name: "CLAUDE_CODE_PLAN_V", category: "agent", type: "string", purpose: "Plan version" },
+  { name: "CLAUDE_CODE_TASK_LIST_ID", category: "agent", type: "string", purpose: "Task list ID" },
+  { name: "CLAUDE_CODE_TEAM_NAME", category: "agent", type: "string", purpose: "Team name" },
+  { name: "CLAUDE_CODE_TEAMMATE_COMMAND", category: "agent", type: "string", purpose: "Teammate command" },
+  { name: "CLAUDE_CODE_TEAM_MODE", category: "agent", type: "boolean", purpose: "Team mode", gate: "team-mode" },
+  { name: "CLAUDE_CODE_USE_COWORK_PLUGINS", category: "agent", type: "boolean", purpose: "Use cowork plugins" },
+  { name: "CLAUDE_CODE_REMOTE", category: "session", type: "boolean", purpose: "Running in remote mode" },
+  { name: "CLAUDE_CODE_REMOTE_ENVIRONMENT_TYPE", category: "session", type: "string", purpose: "Remote environment type" },
+  { name: "CLAUDE_CODE_REMOTE_SESSION_ID", category: "session", type: "string", purpose: "Remote session ID" },
+  { name: "CLAUDE_CODE_SESSION_ID", category: "session", type: "string", purpose: "Session ID" },
+  { name: "CLAUDE_CODE_SSE_PORT", category: "session", type: "number", purpose: "SSE server port" },
+  { name: "CLAUDE_CODE_POST_FOR_SESSION_INGRESS_V", category: "session", type: "string", purpose: "Session ingress version" },
+  { name: "CLAUDE_CODE_SHELL", category: "shell", type: "string", purpose: "Override shell" },
+  { name: "CLAUDE_CODE_SHELL_PREFIX", category: "shell", type: "string", purpose: "Shell command prefix" },
+  { name: "CLAUDE_CODE_BASH_SANDBOX_SHOW_INDICATOR", category: "shell", type: "boolean", purpose: "Show sandbox indicator" },
+  { name: "CLAUDE_CODE_AUTO_CONNECT_IDE", category: "shell", type: "boolean", purpose: "Auto-connect to IDE" },
+  { name: "CLAUDE_CODE_IDE_HOST_OVERRIDE", category: "shell", type: "string", purpose: "IDE host override" },
+  { name: "CLAUDE_CODE_IDE_SKIP_AUTO_INSTALL", category: "shell", type: "boolean", purpose: "Skip IDE extension auto-install" },
+  { name: "CLAUDE_CODE_IDE_SKIP_VALID_CHECK", category: "shell", type: "boolean", purpose: "Skip IDE validation check" },
+  { name: "CLAUDE_CODE_CLIENT_CERT", category: "network", type: "string", purpose: "Client certificate path" },
+  { name: "CLAUDE_CODE_CLIENT_KEY", category: "network", type: "string", purpose: "Client key path" },
+  { name: "CLAUDE_CODE_CLIENT_KEY_PASSPHRASE", category: "network", type: "string", purpose: "Client key passphrase" },
+  { name: "CLAUDE_CODE_HOST_HTTP_PROXY_PORT", category: "network", type: "number", purpose: "HTTP proxy port" },
+  { name: "CLAUDE_CODE_HOST_SOCKS_PROXY_PORT", category: "network", type: "number", purpose: "SOCKS proxy port" },
+  { name: "CLAUDE_CODE_PROXY_RESOLVES_HOSTS", category: "network", type: "boolean", purpose: "Proxy resolves hostnames" },
+  { name: "CLAUDE_CODE_DATADOG_FLUSH_INTERVAL_MS", category: "telemetry", type: "number", purpose: "Datadog flush interval" },
+  { name: "CLAUDE_CODE_DEBUG_LOGS_DIR", category: "telemetry", type: "string", purpose: "Debug logs directory" },
+  { name: "CLAUDE_CODE_DIAGNOSTICS_FILE", category: "telemetry", type: "string", purpose: "Diagnostics output file" },
+  { name: "CLAUDE_CODE_EMIT_TOOL_USE_SUMMARIES", category: "telemetry", type: "boolean", purpose: "Emit tool use summaries" },
+  { name: "CLAUDE_CODE_OTEL_FLUSH_TIMEOUT_MS", category: "telemetry", type: "number", purpose: "OpenTelemetry flush timeout" },
+  { name: "CLAUDE_CODE_OTEL_HEADERS_HELPER_DEBOUNCE_MS", category: "telemetry", type: "number", purpose: "OTEL headers debounce" },
+  { name: "CLAUDE_CODE_OTEL_SHUTDOWN_TIMEOUT_MS", category: "telemetry", type: "number", purpose: "OTEL shutdown timeout" },
+  { name: "CLAUDE_CODE_PERFETTO_TRACE", category: "telemetry", type: "string", purpose: "Perfetto trace output" },
+  { name: "CLAUDE_CODE_PROFILE_QUERY", category: "telemetry", type: "boolean", purpose: "Profile query execution" },
+  { name: "CLAUDE_CODE_PROFILE_STARTUP", category: "telemetry", type: "boolean", purpose: "Profile startup" },
+  { name: "CLAUDE_CODE_ACCESSIBILITY", category: "misc", type: "boolean", purpose: "Accessibility mode" },
+  { name: "CLAUDE_CODE_ACTION", category: "misc", type: "string", purpose: "Action override" },
+  { name: "CLAUDE_CODE_ADDITIONAL_DIRECTORIES_CLAUDE_MD", category: "misc", type: "string", purpose: "Additional CLAUDE.md directories" },
+  { name: "CLAUDE_CODE_ADDITIONAL_PROTECTION", category: "misc", type: "boolean", purpose: "Additional protection mode" },
+  { name: "CLAUDE_CODE_BASE_REF", category: "misc", type: "string", purpose: "Git base ref override" },
+  { name: "CLAUDE_CODE_BLOCKING_LIMIT_OVERRIDE", category: "misc", type: "number", purpose: "Blocking limit override" },
+  { name: "CLAUDE_CODE_BUBBLEWRAP", category: "misc", type: "boolean", purpose: "Bubblewrap sandbox" },
+  { name: "CLAUDE_CODE_CONTAINER_ID", category: "misc", type: "string", purpose: "Container ID" },
+  { name: "CLAUDE_CODE_DONT_INHERIT_ENV", category: "misc", type: "boolean", purpose: "Don't inherit parent environment" },
+  { name: "CLAUDE_CODE_EAGER_FLUSH", category: "misc", type: "boolean", purpose: "Eager output flush" },
+  { name: "CLAUDE_CODE_ENTRYPOINT", category: "misc", type: "string", purpose: "Entrypoint override" },
+  { name: "CLAUDE_CODE_ENVIRONMENT_RUNNER_VERSION", category: "misc", type: "string", purpose: "Runner version" },
+  { name: "CLAUDE_CODE_EXIT_AFTER_FIRST_RENDER", category: "misc", type: "boolean", purpose: "Exit after first render" },
+  { name: "CLAUDE_CODE_EXIT_AFTER_STOP_DELAY", category: "misc", type: "number", purpose: "Exit after stop delay" },
+  { name: "CLAUDE_CODE_FORCE_FULL_LOGO", category: "misc", type: "boolean", purpose: "Force full logo display" },
+  { name: "CLAUDE_CODE_GIT_BASH_PATH", category: "misc", type: "string", purpose: "Git bash path (Windows)" },
+  { name: "CLAUDE_CODE_GLOB_HIDDEN", category: "misc", type: "boolean", purpose: "Glob hidden files" },
+  { name: "CLAUDE_CODE_GLOB_NO_IGNORE", category: "misc", type: "boolean", purpose: "Glob without gitignore" },
+  { name: "CLAUDE_CODE_GLOB_TIMEOUT_SECONDS", category: "misc", type: "number", purpose: "Glob timeout" },
+  { name: "CLAUDE_CODE_SKIP_PROMPT_HISTORY", category: "misc", type: "boolean", purpose: "Skip prompt history" },
+  { name: "CLAUDE_CODE_SM_COMPACT", category: "misc", type: "boolean", purpose: "Session memory compact" },
+  { name: "CLAUDE_CODE_SYNTAX_HIGHLIGHT", category: "misc", type: "string", purpose: "Syntax highlighting" },
+  { name: "CLAUDE_CODE_TAGS", category: "misc", type: "string", purpose: "Session tags" },
+  { name: "CLAUDE_CODE_TEST_FIXTURES_ROOT", category: "misc", type: "string", purpose: "Test fixtures root" },
+  { name: "CLAUDE_CODE_TMPDIR", category: "misc", type: "string", purpose: "Temp directory override" },
+  { name: "CLAUDE_CODE_TMUX_PREFIX", category: "misc", type: "string", purpose: "Tmux prefix key" },
+  { name: "CLAUDE_CODE_TMUX_PREFIX_CONFLICTS", category: "misc", type: "string", purpose: "Tmux prefix conflicts" },
+  { name: "CLAUDE_CODE_TMUX_SESSION", category: "misc", type: "string", purpose: "Tmux session name" },
+  { name: "CLAUDE_CODE_TST_NAMES_IN_MESSAGES", category: "misc", type: "boolean", purpose: "Test names in messages" },
+  { name: "DISABLE_AUTO_COMPACT", category: "feature", type: "boolean", purpose: "Disable automatic context compaction" },
+  { name: "DISABLE_AUTO_MIGRATE_TO_NATIVE", category: "feature", type: "boolean", purpose: "Disable auto-migration to native binary" },
+  { name: "DISABLE_AUTOUPDATER", category: "feature", type: "boolean", purpose: "Disable auto-updater" },
+  { name: "DISABLE_BUG_COMMAND", category: "feature", type: "boolean", purpose: "Disable /bug command" },
+  { name: "DISABLE_CLAUDE_CODE_SM_COMPACT", category: "feature", type: "boolean", purpose: "Disable session memory compaction", gate: "session-memory" },
+  { name: "DISABLE_COMPACT", category: "feature", type: "boolean", purpose: "Disable all compaction" },
+  { name: "DISABLE_COST_WARNINGS", category: "feature", type: "boolean", purpose: "Disable cost threshold warnings" },
+  { name: "DISABLE_DOCTOR_COMMAND", category: "feature", type: "boolean", purpose: "Disable /doctor command" },
+  { name: "DISABLE_ERROR_REPORTING", category: "feature", type: "boolean", purpose: "Disable error reporting" },
+  { name: "DISABLE_EXTRA_USAGE_COMMAND", category: "feature", type: "boolean", purpose: "Disable /extra-usage command" },
+  { name: "DISABLE_FEEDBACK_COMMAND", category: "feature", type: "boolean", purpose: "Disable /feedback command" },
+  { name: "DISABLE_INSTALL_GITHUB_APP_COMMAND", category: "feature", type: "boolean", purpose: "Disable GitHub App install command" },
+  { name: "DISABLE_INSTALLATION_CHECKS", category: "feature", type: "boolean", purpose: "Disable installation checks" },
+  { name: "DISABLE_INTERLEAVED_THINKING", category: "feature", type: "boolean", purpose: "Disable interleaved thinking" },
+  { name: "DISABLE_LOGIN_COMMAND", category: "feature", type: "boolean", purpose: "Disable /login command" },
+  { name: "DISABLE_LOGOUT_COMMAND", category: "feature", type: "boolean", purpose: "Disable /logout command" },
+  { name: "DISABLE_MICROCOMPACT", category: "feature", type: "boolean", purpose: "Disable micro-compaction" },
+  { name: "DISABLE_PROMPT_CACHING", category: "feature", type: "boolean", purpose: "Disable all prompt caching" },
+  { name: "DISABLE_PROMPT_CACHING_HAIKU", category: "feature", type: "boolean", purpose: "Disable prompt caching for Haiku" },
+  { name: "DISABLE_PROMPT_CACHING_OPUS", category: "feature", type: "boolean", purpose: "Disable prompt caching for Opus" },
+  { name: "DISABLE_PROMPT_CACHING_SONNET", category: "feature", type: "boolean", purpose: "Disable prompt caching for Sonnet" },
+  { name: "DISABLE_TELEMETRY", category: "feature", type: "boolean", purpose: "Disable all telemetry" },
+  { name: "DISABLE_UPGRADE_COMMAND", category: "feature", type: "boolean", purpose: "Disable /upgrade command" },
+  { name: "ENABLE_BETA_TRACING_DETAILED", category: "feature", type: "boolean", purpose: "Enable detailed beta tracing" },
+  { name: "ENABLE_BTW", category: "feature", type: "boolean", purpose: 'Enable "by the way" suggestions' },
+  { name: "ENABLE_CLAUDE_CODE_SM_COMPACT", category: "feature", type: "boolean", purpose: "Enable session memory compaction", gate: "session-memory" },
+  { name: "ENABLE_CLAUDEAI_MCP_SERVERS", category: "feature", type: "boolean", purpose: "Enable Claude.ai MCP servers" },
+  { name: "ENABLE_ENHANCED_TELEMETRY_BETA", category: "feature", type: "boolean", purpose: "Enable enhanced telemetry beta" },
+  { name: "ENABLE_EXPERIMENTAL_MCP_CLI", category: "feature", type: "boolean", purpose: "Enable experimental MCP CLI" },
+  { name: "ENABLE_LSP_TOOL", category: "feature", type: "boolean", purpose: "Enable LSP tool" },
+  { name: "ENABLE_MCP_CLI", category: "feature", type: "boolean", purpose: "Enable MCP CLI" },
+  { name: "ENABLE_MCP_CLI_ENDPOINT", category: "feature", type: "boolean", purpose: "Enable MCP CLI endpoint" },
+  { name: "ENABLE_MCP_LARGE_OUTPUT_FILES", category: "feature", type: "boolean", purpose: "Enable MCP large output files" },
+  { name: "ENABLE_SESSION_BACKGROUNDING", category: "feature", type: "boolean", purpose: "Enable session backgrounding" },
+  { name: "ENABLE_TOOL_SEARCH", category: "feature", type: "boolean", purpose: "Enable tool search" },
+  { name: "CLAUDE_AGENT_SDK_DISABLE_BUILTIN_AGENTS", category: "misc", type: "boolean", purpose: "Disable built-in SDK agents" },
+  { name: "CLAUDE_AGENT_SDK_MCP_NO_PREFIX", category: "misc", type: "boolean", purpose: "No MCP prefix in Agent SDK" },
+  { name: "CLAUDE_AGENT_SDK_VERSION", category: "misc", type: "string", purpose: "Agent SDK version" },
+  { name: "CLAUDE_AUTOCOMPACT_PCT_OVERRIDE", category: "misc", type: "number", purpose: "Override autocompact percentage threshold" },
+  { name: "CLAUDE_BASH_MAINTAIN_PROJECT_WORKING_DIR", category: "misc", type: "boolean", purpose: "Maintain project working directory" },
+  { name: "CLAUDE_BASH_NO_LOGIN", category: "misc", type: "boolean", purpose: "No login shell for bash" },
+  { name: "CLAUDE_CHROME_PERMISSION_MODE", category: "misc", type: "string", purpose: "Chrome extension permission mode" },
+  { name: "CLAUDE_CONFIG_DIR", category: "misc", type: "string", purpose: "Config directory override" },
+  { name: "CLAUDE_DEBUG", category: "misc", type: "boolean", purpose: "Debug mode" },
+  { name: "CLAUDE_ENV_FILE", category: "misc", type: "string", purpose: "Custom env file path" },
+  { name: "CLAUDE_FORCE_DISPLAY_SURVEY", category: "misc", type: "boolean", purpose: "Force display feedback survey" },
+  { name: "CLAUDE_REPL_MODE", category: "misc", type: "string", purpose: "REPL mode" },
+  { name: "CLAUDE_TMPDIR", category: "misc", type: "string", purpose: "Temp directory" },
+  { name: "ANTHROPIC_API_KEY", category: "api", type: "string", purpose: "Anthropic API key" },
+  { name: "ANTHROPIC_AUTH_TOKEN", category: "api", type: "string", purpose: "Anthropic auth token" },
+  { name: "ANTHROPIC_BASE_URL", category: "api", type: "string", purpose: "Anthropic base URL" },
+  { name: "ANTHROPIC_BEDROCK_BASE_URL", category: "api", type: "string", purpose: "Bedrock base URL" },
+  { name: "ANTHROPIC_BETAS", category: "api", type: "string", purpose: "Beta feature flags" },
+  { name: "ANTHROPIC_CUSTOM_HEADERS", category: "api", type: "string", purpose: "Custom headers" },
+  { name: "ANTHROPIC_DEFAULT_HAIKU_MODEL", category: "api", type: "string", purpose: "Default Haiku model" },
+  { name: "ANTHROPIC_DEFAULT_OPUS_MODEL", category: "api", type: "string", purpose: "Default Opus model" },
+  { name: "ANTHROPIC_DEFAULT_SONNET_MODEL", category: "api", type: "string", purpose: "Default Sonnet model" },
+  { name: "ANTHROPIC_FOUNDRY_API_KEY", category: "api", type: "string", purpose: "Foundry API key" },
+  { name: "ANTHROPIC_FOUNDRY_BASE_URL", category: "api", type: "string", purpose: "Foundry base URL" },
+  { name: "ANTHROPIC_FOUNDRY_RESOURCE", category: "api", type: "string", purpose: "Foundry resource" },
+  { name: "ANTHROPIC_MODEL", category: "api", type: "string", purpose: "Model override" },
+  { name: "ANTHROPIC_SMALL_FAST_MODEL", category: "api", type: "string", purpose: "Small fast model override" },
+  { name: "ANTHROPIC_SMALL_FAST_MODEL_AWS_REGION", category: "api", type: "string", purpose: "Small fast model AWS region" },
+  { name: "ANTHROPIC_VERTEX_PROJECT_ID", category: "api", type: "string", purpose: "Vertex project ID" },
+  { name: "VERTEX_BASE_URL", category: "api", type: "string", purpose: "Vertex base URL" },
+];
+
+/**
+ * Every registered environment variable, sorted by name.
+ */
+export function getEnvVarRegistry(): EnvVarInfo[] {
+  return [...ENV_VARS].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+}
+
+/**
+ * Registry entry for an environment variable. A variable used as a gate's
+ * `envOverride` is linked to that gate even when the registry does not
+ * say so (e.g. for gates from a gate pack).
+ */
+export function findEnvVar(name: string): EnvVarInfo | undefined {
+  const info = ENV_VARS.find((v) => v.name === name);
+  if (info?.gate) return info;
+
+  const gate = getAllGates().find((g) => g.envOverride === name);
+  if (!gate) return info;
+  return info
+    ? { ...info, gate: gate.codename }
+    : { name, category: "feature", type: "boolean", purpose: gate.description, gate: gate.codename };
+}
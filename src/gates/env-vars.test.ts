@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { collectEnvVars, diffEnvVars } from "./env-vars.js";
+import { findEnvVar, getEnvVarRegistry } from "./env-registry.js";
+import { findGate, getAllGates } from "./registry.js";
+
+const BUNDLE = [
+  'function TR(A){return A&&["1","true"].includes(A.toLowerCase())}',
+  'function Gd(){if(TR(process.env.CLAUDE_CODE_DISABLE_AUTO_MEMORY))return!1;return W9("tengu_oboe",!1)}',
+  "function Hx(){return TR(process.env.DISABLE_TELEMETRY)||!process.env.CLAUDE_CODE_NEW_TOGGLE}",
+  'function Rt(){return parseInt(process.env.CLAUDE_CODE_MAX_RETRIES,10)||10}',
+  'let sh=process.env.CLAUDE_CODE_SHELL==="zsh",m=process.env["ANTHROPIC_MODEL"];',
+  'if(process.env.DISABLE_TELEMETRY==="1")off();',
+].join("\n");
+
+function scan(name: string) {
+  return collectEnvVars(BUNDLE).find((v) => v.name === name);
+}
+
+describe("collectEnvVars", () => {
+  it("should list every variable read, sorted by name", () => {
+    expect(collectEnvVars(BUNDLE).map((v) => v.name)).toEqual([
+      "ANTHROPIC_MODEL",
+      "CLAUDE_CODE_DISABLE_AUTO_MEMORY",
+      "CLAUDE_CODE_MAX_RETRIES",
+      "CLAUDE_CODE_NEW_TOGGLE",
+      "CLAUDE_CODE_SHELL",
+      "DISABLE_TELEMETRY",
+    ]);
+  });
+
+  it("should record how each reference uses the value", () => {
+    expect(scan("CLAUDE_CODE_DISABLE_AUTO_MEMORY")).toMatchObject({
+      type: "boolean",
+      references: [{ usage: "truthy", callee: "TR", functionName: "Gd" }],
+    });
+    expect(scan("CLAUDE_CODE_NEW_TOGGLE")).toMatchObject({
+      type: "boolean",
+      references: [{ usage: "truthy", functionName: "Hx" }],
+    });
+    expect(scan("CLAUDE_CODE_MAX_RETRIES")).toMatchObject({
+      type: "number",
+      references: [{ usage: "number", callee: "parseInt" }],
+    });
+    expect(scan("CLAUDE_CODE_SHELL")).toMatchObject({
+      type: "string",
+      references: [{ usage: "compare" }],
+    });
+    expect(scan("ANTHROPIC_MODEL")).toMatchObject({
+      type: "string",
+      references: [{ usage: "value" }],
+    });
+    expect(scan("DISABLE_TELEMETRY")!.references.map((r) => r.usage)).toEqual(["truthy", "truthy"]);
+  });
+
+  it("should record offsets and the code around each reference", () => {
+    const ref = scan("CLAUDE_CODE_SHELL")!.references[0];
+    expect(BUNDLE.slice(ref.offset, ref.offset + 29)).toBe("process.env.CLAUDE_CODE_SHELL");
+    expect(ref.snippet).toContain('process.env.CLAUDE_CODE_SHELL==="zsh"');
+    expect(ref.snippet).not.toContain("\n");
+  });
+
+  it("should read native binaries from a Buffer", () => {
+    const binary = Buffer.concat([Buffer.from([0, 1, 2]), Buffer.from(BUNDLE, "latin1")]);
+    const ref = collectEnvVars(binary).find((v) => v.name === "CLAUDE_CODE_SHELL")!.references[0];
+    expect(ref.offset).toBe(scan("CLAUDE_CODE_SHELL")!.references[0].offset + 3);
+  });
+});
+
+describe("diffEnvVars", () => {
+  it("should report added and removed variables", () => {
+    expect(diffEnvVars(["A", "B", "C"], ["C", "D", "B"])).toEqual({ added: ["D"], removed: ["A"] });
+  });
+});
+
+describe("env var registry", () => {
+  it("should have unique names", () => {
+    const names = getEnvVarRegistry().map((v) => v.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it("should only link gates that exist", () => {
+    for (const info of getEnvVarRegistry().filter((v) => v.gate)) {
+      expect(findGate(info.gate!), info.name).toBeDefined();
+    }
+  });
+
+  it("should link every gate env override to its gate", () => {
+    for (const gate of getAllGates().filter((g) => g.envOverride)) {
+      expect(findEnvVar(gate.envOverride!)?.gate, gate.envOverride).toBe(gate.codename);
+    }
+  });
+
+  it("should look up variables by name", () => {
+    expect(findEnvVar("CLAUDE_CODE_DISABLE_AUTO_MEMORY")).toMatchObject({ type: "boolean", gate: "oboe" });
+    expect(findEnvVar("CLAUDE_CODE_MAX_RETRIES")).toMatchObject({ type: "number" });
+    expect(findEnvVar("CLAUDE_CODE_MAX_RETRIES")!.gate).toBeUndefined();
+    expect(findEnvVar("NOT_A_CLAUDE_VAR")).toBeUndefined();
+  });
+});
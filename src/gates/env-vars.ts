@@ -0,0 +1,164 @@
+/**
+ * Environment Variable Scanner
+ *
+ * Lists every `process.env.X` (or `process.env["X"]`) read in the bundle
+ * with how the value is used, so the env var registry can be checked
+ * against each new release. Reads through an aliased or destructured
+ * `process.env`, or with a computed name, are not seen.
+ *
+ * Claude Code reads its boolean variables through one truthy helper; it
+ * is taken to be the function most often called with a bare
+ * `process.env.X` argument.
+ */
+
+import type { EnvVarDiff, EnvVarReference, EnvVarScan, EnvVarType, EnvVarUsage } from '../types.js';
+import { cachedScan, locateBundle } from './detector.js';
+import { bundleChunks } from './scanner.js';
+import type { BundleChunk } from './scanner.js';
+import { enclosingFunctionName } from './context.js';
+import { findEnvVar } from './env-registry.js';
+
+/** `process.env` reads; the name is group 1, or group 3 for the bracket form */
+const ENV_READ = /process\.env(?:\.([A-Za-z_$][\w$]*)|\[(["'`])([A-Za-z_$][\w$]*)\2\])/g;
+
+/** Functions that turn the value into a number */
+const NUMBER_PARSERS = new Set(['parseInt', 'parseFloat', 'Number', 'Number.parseInt', 'Number.parseFloat']);
+
+/** Keywords that look like a call when followed by `(` */
+const NOT_CALLEES = new Set(['if', 'while', 'for', 'switch', 'return', 'typeof', 'void', 'catch']);
+
+/** Characters of code kept on each side of a reference */
+const SNIPPET_CONTEXT = 40;
+
+interface EnvRead {
+  name: string;
+  chunk: BundleChunk;
+  index: number;
+  length: number;
+  callee?: string;
+}
+
+/**
+ * Every `process.env` read in bundle order, with the function it is passed
+ * to when it is a call's first argument.
+ */
+function* envReads(content: string | Buffer): Generator<EnvRead> {
+  for (const chunk of bundleChunks(content)) {
+    for (const m of chunk.text.matchAll(ENV_READ)) {
+      const index = m.index ?? 0;
+      if (index < chunk.from || index >= chunk.to) continue;
+
+      const read: EnvRead = { name: m[1] ?? m[3], chunk, index, length: m[0].length };
+      const before = chunk.text.slice(Math.max(0, index - 60), index);
+      const call = before.match(/(?<![\w$.])([\w$]+(?:\.[\w$]+)*)\($/);
+      const next = chunk.text[index + m[0].length];
+      if (call && !NOT_CALLEES.has(call[1]) && (next === ')' || next === ',')) read.callee = call[1];
+      yield read;
+    }
+  }
+}
+
+/**
+ * The function most often passed a bare `process.env.X`, other than the
+ * number parsers.
+ */
+function findTruthyHelper(content: string | Buffer): string | undefined {
+  const counts = new Map<string, number>();
+  for (const { callee } of envReads(content)) {
+    if (callee && !NUMBER_PARSERS.has(callee)) counts.set(callee, (counts.get(callee) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [callee, count] of counts) {
+    if (best === undefined || count > (counts.get(best) ?? 0)) best = callee;
+  }
+  return best;
+}
+
+function classifyRead(read: EnvRead, truthyHelper: string | undefined): EnvVarUsage {
+  if (read.callee && NUMBER_PARSERS.has(read.callee)) return 'number';
+  if (read.callee && read.callee === truthyHelper) return 'truthy';
+
+  const { text } = read.chunk;
+  if (text[read.index - 1] === '!') return 'truthy';
+  const after = text.slice(read.index + read.length, read.index + read.length + 40);
+  const comparison = after.match(/^\s*[!=]==?\s*(["'`])([^"'`]*)\1/);
+  if (comparison) return /^(?:0|1|true|false)$/.test(comparison[2]) ? 'truthy' : 'compare';
+  return 'value';
+}
+
+function snippetOf(read: EnvRead): string {
+  const { text } = read.chunk;
+  const start = Math.max(0, read.index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, read.index + read.length + SNIPPET_CONTEXT);
+  return text.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+function typeOf(references: EnvVarReference[]): EnvVarType {
+  if (references.some((r) => r.usage === 'number')) return 'number';
+  if (references.some((r) => r.usage === 'truthy')) return 'boolean';
+  return 'string';
+}
+
+/**
+ * List every environment variable read in bundle content with each
+ * reference: how it is used, the function it is in and the code around
+ * it. Results are sorted by name and not linked to the registry. A native
+ * binary is passed as its Buffer and read in chunks.
+ */
+export function collectEnvVars(content: string | Buffer): EnvVarScan[] {
+  const truthyHelper = findTruthyHelper(content);
+  const vars = new Map<string, EnvVarReference[]>();
+
+  for (const read of envReads(content)) {
+    const reference: EnvVarReference = {
+      offset: read.chunk.origin + read.index,
+      usage: classifyRead(read, truthyHelper),
+      snippet: snippetOf(read),
+    };
+    const functionName = enclosingFunctionName(read.chunk.text, read.index, read.length);
+    if (functionName) reference.functionName = functionName;
+    if (read.callee) reference.callee = read.callee;
+
+    const references = vars.get(read.name) ?? [];
+    references.push(reference);
+    vars.set(read.name, references);
+  }
+
+  return [...vars.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, references]) => ({ name, type: typeOf(references), references }));
+}
+
+/**
+ * Every environment variable read by the installed bundle, linked to its
+ * registry entry when there is one.
+ */
+export function scanEnvVars(cliPath?: string): EnvVarScan[] {
+  const location = locateBundle(cliPath);
+  if (!location) return [];
+
+  const entry = cachedScan(
+    location,
+    (cached) => cached.envVars !== undefined,
+    (cached, source) => {
+      cached.envVars = collectEnvVars(source);
+    }
+  );
+  return (entry?.envVars ?? []).map((scan) => {
+    const info = findEnvVar(scan.name);
+    return info ? { ...scan, info } : scan;
+  });
+}
+
+/**
+ * Variables in `after` but not `before` (added) and the other way round
+ * (removed), each sorted by name.
+ */
+export function diffEnvVars(before: string[], after: string[]): EnvVarDiff {
+  const old = new Set(before);
+  const current = new Set(after);
+  return {
+    added: [...current].filter((name) => !old.has(name)).sort(),
+    removed: [...old].filter((name) => !current.has(name)).sort(),
+  };
+}
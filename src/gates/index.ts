@@ -6,31 +6,121 @@ export {
   getAllGates,
   getPatchableGates,
   getLegacyGates,
+  getBuiltinGates,
+  getGatesForVersion,
   findGate,
   findPatchableGate,
+  findValueGate,
+  findForceOffGate,
   getGatesByCategory,
   isPatchable,
   GATE_PATCH_MARKER,
   BINARY_PATCH_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  BINARY_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  BINARY_VALUE_MARKER,
 } from "./registry.js";
+export {
+  loadGatePacks,
+  addGatePackFile,
+  resetGatePacks,
+  getGatePackErrors,
+  getGatePackDir,
+  compileGatePack,
+  parseGatePackText,
+} from "./packs.js";
+export type { GatePackLoadResult } from "./packs.js";
+export {
+  compareVersions,
+  satisfiesRange,
+  gateAppliesTo,
+  gateForVersion,
+  explainGateAbsence,
+} from "./versions.js";
 export {
   detectAllGates,
   detectGate,
   detectPatchableGates,
   scanAllFlags,
   findJsBundle,
+  locateBundle,
+  readBundle,
   resolveBundle,
 } from "./detector.js";
 export {
   enableGate,
   disableGate,
+  forceOffGate,
+  setGateValue,
   enableAllGates,
   resetGates,
+  installOverridesHook,
+  uninstallOverridesHook,
+  getOverridesHookStatus,
 } from "./patcher.js";
+export {
+  analyzeFlags,
+  analyzeAllFlags,
+  discoverGates,
+  collectFlagUsages,
+  findFlagUsages,
+} from "./analyzer.js";
+export {
+  resolveEnableOrder,
+  findConflicts,
+  gatesConflict,
+  dependencyWarnings,
+} from "./dependencies.js";
+export { validateRegistry, validateGates } from "./validate.js";
+export { shortestMatch } from "./regex-sample.js";
+export {
+  getOverridesPath,
+  readOverrides,
+  writeOverrides,
+  setOverride,
+  removeOverride,
+  findAccessorDefinition,
+  OVERRIDES_HOOK_CODENAME,
+} from "./overrides.js";
 export {
   enableBinaryGate,
   enableAllBinaryGates,
+  forceOffBinaryGate,
+  disableBinaryGate,
+  setBinaryGateValue,
   createPaddedReplacement,
   patchBinaryGate,
+  patchBinaryValue,
+  unpatchBinaryGate,
   isBinaryPatched,
 } from "./binary-patcher.js";
+export { parseBinaryContainer, embeddedJsRanges } from "./container.js";
+export {
+  getLedgerPath,
+  readLedger,
+  findLedgerEntry,
+} from "./ledger.js";
+export {
+  getScanCachePath,
+  findScanCacheEntry,
+} from "./scan-cache.js";
+export type { ScanCacheEntry, CachedGateScan } from "./scan-cache.js";
+export {
+  getClaudeConfigDir,
+  readStatsigCache,
+  statsigHash,
+} from "./statsig-cache.js";
+export { resolveEffectiveState, isEnvTruthy, envEffectOf } from "./effective.js";
+export { showGateContext, reindentJs } from "./context.js";
+export { collectEnvVars, scanEnvVars, diffEnvVars } from "./env-vars.js";
+export { getEnvVarRegistry, findEnvVar, ENV_REGISTRY_VERSION } from "./env-registry.js";
+export { diffBundles } from "./bundle-diff.js";
+export { renderDocs, generateDocs, DOC_FILES } from "./docs.js";
+export {
+  verifyBundle,
+  recordFingerprint,
+  readFingerprints,
+  getFingerprintPath,
+} from "./integrity.js";
+export { planPatch } from "./plan.js";
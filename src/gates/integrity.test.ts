@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { recordFingerprint, readFingerprints, verifyBundle } from "./integrity.js";
+import { enableGate } from "./patcher.js";
+import { recordLedgerEntries } from "./ledger.js";
+
+const FILLER = "var pad=[" + "0,".repeat(200) + "];\n";
+
+const BUNDLE = [
+  "#!/usr/bin/env node",
+  FILLER,
+  'function SZ(){return g9("tengu_keybinding_customization_release",!1)}',
+  FILLER,
+  'function Qc(){return g9("tengu_amber_quartz",!1)}',
+  FILLER,
+  'let label="café ünïcode";',
+  FILLER,
+].join("\n");
+
+let tmpDir: string;
+
+/** Write a JS bundle with a package.json carrying its version */
+function install(content: string | Buffer, version = "2.1.70"): string {
+  const dir = path.join(tmpDir, "cc");
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ version }));
+  fs.writeFileSync(path.join(dir, "cli.js"), content);
+  return path.join(dir, "cli.js");
+}
+
+/** Write a native-style binary named after its version */
+function installBinary(content: Buffer, version = "2.1.70"): string {
+  const dir = path.join(tmpDir, "versions");
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, version), content);
+  return path.join(dir, version);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-verify-"));
+  process.env.CLAUDE_PATCHER_CACHE = "off";
+  process.env.CLAUDE_PATCHER_PRISTINE = path.join(tmpDir, "pristine.json");
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_CACHE;
+  delete process.env.CLAUDE_PATCHER_PRISTINE;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("recordFingerprint", () => {
+  it("should record the bundle's hash for its version", () => {
+    const cli = install(BUNDLE);
+    const result = recordFingerprint(cli);
+    expect(result.success).toBe(true);
+    expect(readFingerprints()).toEqual([
+      { version: "2.1.70", sha256: result.fingerprint!.sha256, size: Buffer.byteLength(BUNDLE), isBinary: false },
+    ]);
+  });
+
+  it("should refuse a patched bundle", () => {
+    const cli = install(BUNDLE);
+    expect(enableGate("keybinding-customization", { cliPath: cli, backup: false }).success).toBe(true);
+    const result = recordFingerprint(cli);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("has patches applied");
+    expect(readFingerprints()).toEqual([]);
+  });
+});
+
+describe("verifyBundle", () => {
+  it("should report a bundle matching its fingerprint as pristine", () => {
+    const cli = install(BUNDLE);
+    recordFingerprint(cli);
+    const report = verifyBundle(cli);
+    expect(report.state).toBe("pristine");
+    expect(report.reference).toMatchObject({ kind: "fingerprint", verified: true });
+    expect(report.ranges).toEqual([]);
+  });
+
+  it("should attribute our own patches to their gate", () => {
+    const cli = install(BUNDLE);
+    recordFingerprint(cli);
+    enableGate("keybinding-customization", { cliPath: cli, backup: false });
+
+    const report = verifyBundle(cli);
+    expect(report.state).toBe("patched");
+    expect(report.reference).toMatchObject({ kind: "reconstructed", verified: true });
+    expect(report.ranges).toHaveLength(1);
+    expect(report.ranges[0]).toMatchObject({
+      origin: "ours",
+      codename: "keybinding-customization",
+      flag: "tengu_keybinding_customization_release",
+    });
+    expect(BUNDLE.slice(report.ranges[0].originalOffset)).toMatch(/^ ?g9\("tengu_keybinding/);
+  });
+
+  it("should report foreign changes with byte offsets and the nearest gate", () => {
+    const cli = install(BUNDLE);
+    recordFingerprint(cli);
+    enableGate("keybinding-customization", { cliPath: cli, backup: true });
+    const patched = fs.readFileSync(cli, "utf8");
+    fs.writeFileSync(cli, patched.replace('g9("tengu_amber_quartz",!1)', '!0||g9("tengu_amber_quartz",!1)'));
+
+    const report = verifyBundle(cli);
+    expect(report.state).toBe("modified");
+    expect(report.reference).toMatchObject({ kind: "backup", verified: true });
+    const foreign = report.ranges.filter((r) => r.origin === "foreign");
+    expect(foreign).toHaveLength(1);
+    expect(foreign[0]).toMatchObject({ codename: "amber-quartz", flag: "tengu_amber_quartz", after: "!0||", before: "" });
+    const bytes = fs.readFileSync(cli);
+    expect(bytes.toString("latin1", foreign[0].offset, foreign[0].offset + 4)).toBe("!0||");
+    expect(report.ranges.filter((r) => r.origin === "ours").map((r) => r.codename)).toEqual(["keybinding-customization"]);
+  });
+
+  it("should flag a truncated bundle compared with an unverified backup", () => {
+    const cli = install(BUNDLE);
+    fs.copyFileSync(cli, `${cli}.backup.1700000000000`);
+    fs.writeFileSync(cli, BUNDLE.slice(0, 500));
+
+    const report = verifyBundle(cli);
+    expect(report.state).toBe("modified");
+    expect(report.reference).toMatchObject({ kind: "backup", verified: false });
+    expect(report.ranges).toEqual([
+      expect.objectContaining({ offset: 500, length: 0, originalOffset: 500, origin: "foreign" }),
+    ]);
+    expect(report.reason).toContain("unverified backup cli.js.backup.1700000000000");
+  });
+
+  it("should say so when there is nothing to compare with", () => {
+    const report = verifyBundle(install(BUNDLE));
+    expect(report.state).toBe("unknown");
+    expect(report.reason).toContain('verify --record');
+  });
+
+  it("should call a bundle that differs from its fingerprint without our markers modified", () => {
+    const cli = install(BUNDLE);
+    recordFingerprint(cli);
+    fs.writeFileSync(cli, BUNDLE.replace("!1)}", "!0)}"));
+    expect(verifyBundle(cli).state).toBe("modified");
+  });
+
+  it("should check binary patches against the ledger", () => {
+    const original = Buffer.from(BUNDLE, "latin1");
+    const binary = installBinary(original);
+    recordFingerprint(binary);
+
+    const target = 'function Qc(){return g9("tengu_amber_quartz",!1)}';
+    const replacement = "function Qc(){return!0}/*CCP:amber-quartz" + " ".repeat(6) + "*/";
+    expect(replacement.length).toBe(target.length);
+    const offset = original.indexOf(target);
+    const patched = Buffer.from(original);
+    patched.write(replacement, offset, "latin1");
+    fs.writeFileSync(binary, patched);
+    recordLedgerEntries(binary, [{ codename: "amber-quartz", mode: "enable", offset, original: target, replacement }]);
+
+    const report = verifyBundle(binary);
+    expect(report.isBinary).toBe(true);
+    expect(report.state).toBe("patched");
+    expect(report.ranges).toEqual([expect.objectContaining({ origin: "ours", codename: "amber-quartz" })]);
+
+    patched.write("XX", offset + 20, "latin1");
+    fs.writeFileSync(binary, patched);
+    const overwritten = verifyBundle(binary);
+    expect(overwritten.state).toBe("modified");
+    expect(overwritten.ledgerMismatches).toEqual([{ codename: "amber-quartz", offset, found: "other" }]);
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Bundle Integrity
+ *
+ * Detection only recognises our own patch markers, so a bundle changed by
+ * another tweak tool, or left half-written by an interrupted patch, looks
+ * pristine to it. `verify` compares the installed bundle with a pristine
+ * copy instead, tried in this order:
+ *
+ *   1. The bundle itself, when its hash is a recorded pristine fingerprint
+ *      for its version (~/.config/claude-patcher/pristine.json).
+ *   2. The bundle with our own patches undone (JS markers carry the
+ *      original text, binary patches are in the ledger), when that hash is
+ *      a fingerprint. Every difference is then one of ours.
+ *   3. A backup made before patching: one whose hash is a fingerprint, or
+ *      without fingerprints for the version, the oldest backup free of
+ *      our markers (reported as unverified).
+ *
+ * Differences are found with a byte diff that resynchronises on the next
+ * common run of bytes, so JS patches (which change the length) and binary
+ * patches (which do not) both come out as one range per change. Each range
+ * is tied to a gate through our marker or ledger entry, or through the
+ * nearest `tengu_*` flag.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  BundleLocation,
+  IntegrityReport,
+  LedgerMismatch,
+  ModifiedRange,
+  PatchLedgerEntry,
+  PristineFingerprint,
+} from '../types.js';
+import { locateBundle } from './detector.js';
+import { readLedger } from './ledger.js';
+import {
+  BINARY_FORCE_OFF_MARKER,
+  BINARY_PATCH_MARKER,
+  BINARY_VALUE_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  GATE_PATCH_MARKER,
+  GATE_VALUE_MARKER,
+  escapeRegExp,
+  restoreFromMarkers,
+} from './patch-kinds.js';
+import { getAllGates, getLegacyGates } from './registry.js';
+import { hashBundle } from './scan-cache.js';
+import { indexBundle } from './scanner.js';
+
+/** Bumped whenever the fingerprint file layout changes */
+const FINGERPRINT_FORMAT = 1;
+
+/** Bytes compared at a time while skipping identical runs */
+const COMPARE_BLOCK = 64 * 1024;
+
+/** Length of the common run that ends a changed range */
+const ANCHOR = 32;
+
+/** How far past a change the diff looks for the next common run */
+const RESYNC_WINDOW = 8192;
+
+/** Changes closer than this are reported as one range */
+const MERGE_GAP = 16;
+
+/** More ranges than this means the reference is another version */
+const MAX_RANGES = 200;
+
+/** How far from a change a flag literal may be and still name it */
+const FLAG_RADIUS = 256;
+
+/** Bytes shown of each side of a range */
+const PREVIEW = 60;
+
+/** Our markers, longest first so `CCP-OFF` is not read as `CCP` */
+const OUR_MARKERS = new RegExp(
+  `/\\*(${[
+    GATE_FORCE_OFF_MARKER,
+    GATE_VALUE_MARKER,
+    GATE_PATCH_MARKER,
+    BINARY_FORCE_OFF_MARKER,
+    BINARY_VALUE_MARKER,
+    BINARY_PATCH_MARKER,
+  ]
+    .map(escapeRegExp)
+    .join('|')})(?::([a-z0-9-]+))?`
+);
+
+const FLAG_LITERAL = /tengu_[a-z0-9_]+/g;
+
+interface FingerprintFile {
+  format: number;
+  fingerprints: PristineFingerprint[];
+}
+
+/** [originalStart, originalEnd, start, end] of a changed run */
+type ByteRange = [number, number, number, number];
+
+/**
+ * Path of the pristine fingerprint file. Set CLAUDE_PATCHER_PRISTINE to
+ * use another location, e.g. one shared by a team.
+ */
+export function getFingerprintPath(): string {
+  return (
+    process.env.CLAUDE_PATCHER_PRISTINE ||
+    path.join(os.homedir(), '.config', 'claude-patcher', 'pristine.json')
+  );
+}
+
+function isFingerprint(value: unknown): value is PristineFingerprint {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.version === 'string' &&
+    typeof entry.sha256 === 'string' &&
+    typeof entry.size === 'number' &&
+    typeof entry.isBinary === 'boolean'
+  );
+}
+
+/**
+ * Read the recorded pristine fingerprints. Returns an empty list when the
+ * file is missing, corrupt or from another format.
+ */
+export function readFingerprints(): PristineFingerprint[] {
+  try {
+    const data = JSON.parse(fs.readFileSync(getFingerprintPath(), 'utf8')) as Partial<FingerprintFile>;
+    if (data?.format === FINGERPRINT_FORMAT && Array.isArray(data.fingerprints)) {
+      return data.fingerprints.filter(isFingerprint);
+    }
+  } catch {
+    // Missing or corrupt — treat as empty
+  }
+  return [];
+}
+
+function writeFingerprints(fingerprints: PristineFingerprint[]): boolean {
+  const fingerprintPath = getFingerprintPath();
+  const tmpPath = `${fingerprintPath}.${process.pid}.tmp`;
+  const data: FingerprintFile = { format: FINGERPRINT_FORMAT, fingerprints };
+  try {
+    fs.mkdirSync(path.dirname(fingerprintPath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2) + '\n');
+    fs.renameSync(tmpPath, fingerprintPath);
+    return true;
+  } catch {
+    try { fs.rmSync(tmpPath, { force: true }); } catch { /* best effort */ }
+    return false;
+  }
+}
+
+/** `MARKER:codename` strings of our patches in a bundle */
+function ourMarkers(bytes: Buffer, isBinary: boolean): string[] {
+  return [...indexBundle(isBinary ? bytes : bytes.toString('utf8')).markers];
+}
+
+/**
+ * Record the installed bundle (or the one at `cliPath`) as pristine for
+ * its version. Refused when the bundle carries any of our patches, since
+ * those would then pass as pristine.
+ */
+export function recordFingerprint(cliPath?: string): {
+  success: boolean;
+  fingerprint?: PristineFingerprint;
+  error?: string;
+} {
+  const location = locateBundle(cliPath);
+  if (!location) return { success: false, error: 'Could not find Claude Code CLI.' };
+  if (!location.version) {
+    return { success: false, error: `Could not determine the Claude Code version of ${location.path}.` };
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = fs.readFileSync(location.path);
+  } catch {
+    return { success: false, error: `Could not read ${location.path}.` };
+  }
+  if (ourMarkers(bytes, location.isBinary).length > 0 || readLedger(location.path).entries.length > 0) {
+    return {
+      success: false,
+      error: 'The bundle has patches applied. Run "claude-patcher gates reset" or reinstall Claude Code first.',
+    };
+  }
+
+  const fingerprint: PristineFingerprint = {
+    version: location.version,
+    sha256: hashBundle(bytes),
+    size: bytes.length,
+    isBinary: location.isBinary,
+  };
+  const others = readFingerprints().filter((known) => known.sha256 !== fingerprint.sha256);
+  if (!writeFingerprints([...others, fingerprint])) {
+    return { success: false, error: `Could not write ${getFingerprintPath()}.` };
+  }
+  return { success: true, fingerprint };
+}
+
+/** Length of the common run of `a` from `i` and `b` from `j` */
+function commonPrefix(a: Buffer, i: number, b: Buffer, j: number): number {
+  const max = Math.min(a.length - i, b.length - j);
+  let n = 0;
+  while (n + COMPARE_BLOCK <= max && a.compare(b, j + n, j + n + COMPARE_BLOCK, i + n, i + n + COMPARE_BLOCK) === 0) {
+    n += COMPARE_BLOCK;
+  }
+  while (n < max && a[i + n] === b[j + n]) n++;
+  return n;
+}
+
+/** Length of the common run at the ends of `a` and `b`, not before `i` / `j` */
+function commonSuffix(a: Buffer, i: number, b: Buffer, j: number): number {
+  const max = Math.min(a.length - i, b.length - j);
+  let n = 0;
+  while (n < max && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+/**
+ * Where `a` and `b` line up again after a difference at `i` / `j`: the
+ * ANCHOR-byte run of `a` found in `b` that skips the fewest bytes in
+ * total, so repetitive code further on does not swallow the change.
+ * Close to the change every offset is tried; further away every 16th.
+ */
+function resync(a: Buffer, i: number, b: Buffer, j: number): [number, number] | null {
+  const window = b.subarray(j, Math.min(b.length, j + RESYNC_WINDOW + ANCHOR));
+  let best: [number, number] | null = null;
+  let bestCost = Infinity;
+  for (let k = 0; k <= RESYNC_WINDOW && k < bestCost && i + k + ANCHOR <= a.length; k += k < 64 ? 1 : 16) {
+    const at = window.indexOf(a.subarray(i + k, i + k + ANCHOR));
+    if (at !== -1 && k + at < bestCost) {
+      best = [i + k, j + at];
+      bestCost = k + at;
+    }
+  }
+  return best;
+}
+
+/**
+ * Changed runs between `original` and `current`, or null when there are
+ * more than MAX_RANGES (the two are not versions of the same bundle).
+ */
+function diffBytes(original: Buffer, current: Buffer): ByteRange[] | null {
+  const ranges: ByteRange[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (;;) {
+    const same = commonPrefix(original, i, current, j);
+    i += same;
+    j += same;
+    if (i >= original.length || j >= current.length) break;
+
+    const sync = resync(original, i, current, j);
+    if (!sync) break;
+
+    // Step back over common bytes that the coarse search skipped
+    let [iEnd, jEnd] = sync;
+    while (iEnd > i && jEnd > j && original[iEnd - 1] === current[jEnd - 1]) {
+      iEnd--;
+      jEnd--;
+    }
+    ranges.push([i, iEnd, j, jEnd]);
+    if (ranges.length > MAX_RANGES) return null;
+    [i, j] = sync;
+  }
+
+  if (i < original.length || j < current.length) {
+    const suffix = commonSuffix(original, i, current, j);
+    ranges.push([i, original.length - suffix, j, current.length - suffix]);
+  }
+  return mergeRanges(ranges);
+}
+
+function mergeRanges(ranges: ByteRange[]): ByteRange[] {
+  const merged: ByteRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] - last[1] < MERGE_GAP && range[2] - last[3] < MERGE_GAP) {
+      last[1] = range[1];
+      last[3] = range[3];
+    } else {
+      merged.push([...range]);
+    }
+  }
+  return merged;
+}
+
+/** Printable preview of some bytes */
+function preview(bytes: Buffer, start: number, end: number): string {
+  return bytes.toString('latin1', start, Math.min(end, start + PREVIEW)).replace(/[^\x20-\x7e]/g, '.');
+}
+
+/** The registered flag closest to a span of the pristine bundle, if any is close */
+function nearestFlag(original: Buffer, start: number, end: number): string | undefined {
+  const from = Math.max(0, start - FLAG_RADIUS);
+  const text = original.toString('latin1', from, Math.min(original.length, end + FLAG_RADIUS));
+  let best: { flag: string; distance: number } | undefined;
+  for (const m of text.matchAll(FLAG_LITERAL)) {
+    const at = from + (m.index ?? 0);
+    const distance = at + m[0].length <= start ? start - at - m[0].length : at >= end ? at - end : 0;
+    if (!best || distance < best.distance) best = { flag: m[0], distance };
+  }
+  return best?.flag;
+}
+
+/**
+ * Describe a changed run: whose change it is and which gate it touches.
+ */
+function describeRange(
+  [originalStart, originalEnd, start, end]: ByteRange,
+  original: Buffer,
+  current: Buffer,
+  ledger: PatchLedgerEntry[]
+): ModifiedRange {
+  const range: ModifiedRange = {
+    offset: start,
+    length: end - start,
+    originalOffset: originalStart,
+    originalLength: originalEnd - originalStart,
+    origin: 'foreign',
+    before: preview(original, originalStart, originalEnd),
+    after: preview(current, start, end),
+  };
+
+  const marker = current.toString('latin1', start, end).match(OUR_MARKERS);
+  const entry = ledger.find(
+    (e) => e.offset < end && e.offset + e.replacement.length > start &&
+      current.toString('latin1', e.offset, e.offset + e.replacement.length) === e.replacement
+  );
+  if (marker || entry) {
+    range.origin = 'ours';
+    const codename = marker?.[2] ?? entry?.codename;
+    if (codename) range.codename = codename;
+  }
+
+  const flag = nearestFlag(original, originalStart, originalEnd);
+  if (flag) {
+    range.flag = flag;
+    const gate = [...getAllGates(), ...getLegacyGates()].find((g) => g.name === flag);
+    if (gate && !range.codename) range.codename = gate.codename;
+  }
+  return range;
+}
+
+/**
+ * The bundle with our own patches undone: JS markers replaced by the
+ * text they record, ledger entries by their original bytes.
+ */
+function undoOurPatches(current: Buffer, isBinary: boolean, ledger: PatchLedgerEntry[]): Buffer {
+  if (isBinary) {
+    const restored = Buffer.from(current);
+    for (const entry of ledger) {
+      if (current.toString('latin1', entry.offset, entry.offset + entry.replacement.length) === entry.replacement) {
+        restored.write(entry.original, entry.offset, 'latin1');
+      }
+    }
+    return restored;
+  }
+
+  let content = current.toString('utf8');
+  const codenames = new Set(ourMarkers(current, false).map((marker) => marker.slice(marker.lastIndexOf(':') + 1)));
+  for (const codename of codenames) {
+    content = restoreFromMarkers(content, codename);
+  }
+  return Buffer.from(content, 'utf8');
+}
+
+/** Backups of a bundle, oldest first */
+function listBackups(bundlePath: string): string[] {
+  const dir = path.dirname(bundlePath);
+  const prefix = `${path.basename(bundlePath)}.backup.`;
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((name) => name.startsWith(prefix))
+      .sort()
+      .map((name) => path.join(dir, name));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A backup to compare with: one a fingerprint confirms, or when there are
+ * no fingerprints for the version, the oldest one free of our markers.
+ */
+function findBackup(
+  location: BundleLocation,
+  known: Set<string>
+): { path: string; bytes: Buffer; sha256: string; verified: boolean } | undefined {
+  for (const backupPath of listBackups(location.path)) {
+    let bytes: Buffer;
+    try {
+      bytes = fs.readFileSync(backupPath);
+    } catch {
+      continue;
+    }
+    const sha256 = hashBundle(bytes);
+    if (known.has(sha256)) return { path: backupPath, bytes, sha256, verified: true };
+    if (known.size === 0 && ourMarkers(bytes, location.isBinary).length === 0) {
+      return { path: backupPath, bytes, sha256, verified: false };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Ledger entries whose replacement bytes are not where the ledger says.
+ */
+function checkLedger(current: Buffer, ledger: PatchLedgerEntry[]): LedgerMismatch[] {
+  const mismatches: LedgerMismatch[] = [];
+  for (const entry of ledger) {
+    const found = current.toString('latin1', entry.offset, entry.offset + entry.replacement.length);
+    if (found === entry.replacement) continue;
+    mismatches.push({ codename: entry.codename, offset: entry.offset, found: found === entry.original ? 'original' : 'other' });
+  }
+  return mismatches;
+}
+
+/**
+ * Check the installed bundle (or the one at `cliPath`) against its
+ * pristine version and report every changed byte range.
+ */
+export function verifyBundle(cliPath?: string): IntegrityReport {
+  const location = locateBundle(cliPath);
+  const report: IntegrityReport = {
+    path: location?.path ?? cliPath ?? '',
+    isBinary: location?.isBinary ?? false,
+    size: 0,
+    sha256: '',
+    state: 'unknown',
+    reason: '',
+    ranges: [],
+    ledgerMismatches: [],
+  };
+  if (!location) return { ...report, error: 'Could not find Claude Code CLI.' };
+  if (location.version) report.version = location.version;
+
+  let current: Buffer;
+  try {
+    current = fs.readFileSync(location.path);
+  } catch {
+    return { ...report, error: `Could not read ${location.path}.` };
+  }
+  report.size = current.length;
+  report.sha256 = hashBundle(current);
+
+  const ledger = location.isBinary ? readLedger(location.path).entries : [];
+  report.ledgerMismatches = checkLedger(current, ledger);
+  const known = new Set(
+    readFingerprints()
+      .filter((fp) => fp.version === location.version && fp.isBinary === location.isBinary)
+      .map((fp) => fp.sha256)
+  );
+  const version = location.version ? `v${location.version}` : 'this version';
+
+  if (known.has(report.sha256)) {
+    report.reference = { kind: 'fingerprint', sha256: report.sha256, verified: true };
+    report.state = 'pristine';
+    return finish(report, `Matches the pristine ${version} fingerprint.`);
+  }
+
+  let original: Buffer | undefined;
+  const ours = ourMarkers(current, location.isBinary);
+  if (ours.length > 0 || ledger.length > 0) {
+    const restored = undoOurPatches(current, location.isBinary, ledger);
+    const sha256 = hashBundle(restored);
+    if (known.has(sha256)) {
+      original = restored;
+      report.reference = { kind: 'reconstructed', sha256, verified: true };
+    }
+  }
+  if (!original) {
+    const backup = findBackup(location, known);
+    if (backup) {
+      original = backup.bytes;
+      report.reference = { kind: 'backup', path: backup.path, sha256: backup.sha256, verified: backup.verified };
+    }
+  }
+
+  if (!original) {
+    if (known.size > 0 && ours.length === 0 && ledger.length === 0) {
+      report.state = 'modified';
+      return finish(report, `Differs from the pristine ${version} fingerprint and carries none of our patches; no backup to locate the changes.`);
+    }
+    return finish(
+      report,
+      known.size > 0
+        ? `Differs from the pristine ${version} fingerprint, and neither undoing our patches nor a backup gives a pristine copy to compare with.`
+        : `No pristine fingerprint or backup for ${version}. Run "claude-patcher verify --record" on a fresh install to add one.`
+    );
+  }
+
+  const { reference } = report;
+  const against = reference?.kind === 'backup'
+    ? `the ${reference.verified ? '' : 'unverified '}backup ${path.basename(reference.path ?? '')}`
+    : `the pristine ${version} fingerprint`;
+  const ranges = diffBytes(original, current);
+  if (!ranges) {
+    return finish(report, `Differs from ${against} in more than ${MAX_RANGES} places; it is probably another version.`);
+  }
+  report.ranges = ranges.map((range) => describeRange(range, original, current, ledger));
+
+  const foreign = report.ranges.filter((range) => range.origin === 'foreign').length;
+  if (report.ranges.length === 0) {
+    report.state = 'pristine';
+    return finish(report, `Identical to ${against}.`);
+  }
+  report.state = foreign > 0 ? 'modified' : 'patched';
+  return finish(
+    report,
+    foreign > 0
+      ? `${foreign} of ${report.ranges.length} changed range(s) compared with ${against} are not from our patches.`
+      : `Changed only by our patches, compared with ${against}.`
+  );
+}
+
+/**
+ * Set the reason, downgrading the state when a ledger entry was
+ * overwritten by something else.
+ */
+function finish(report: IntegrityReport, reason: string): IntegrityReport {
+  report.reason = reason;
+  const overwritten = report.ledgerMismatches.filter((mismatch) => mismatch.found === 'other').length;
+  if (overwritten > 0 && report.state !== 'modified') {
+    report.state = 'modified';
+    report.reason += ` ${overwritten} ledger entr${overwritten === 1 ? 'y no longer matches' : 'ies no longer match'} the bytes at its offset.`;
+  }
+  return report;
+}
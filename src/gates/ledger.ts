@@ -0,0 +1,106 @@
+/**
+ * Binary Patch Ledger
+ *
+ * Binary patches must keep the exact byte length of the original match, so
+ * there is no room to embed the original text in the marker the way JS
+ * patches do. Instead each binary patch is recorded in a sidecar JSON file
+ * next to the binary (`<binary>.ccp-ledger.json`) with its offset, the
+ * original bytes and the bytes we wrote. disableBinaryGate() uses it to
+ * restore the gate without a backup.
+ *
+ * Bytes are stored as latin1 strings, matching how binaries are read.
+ */
+
+import * as fs from 'fs';
+import type { PatchLedger, PatchLedgerEntry } from '../types.js';
+
+/**
+ * Path of the ledger file for a binary.
+ */
+export function getLedgerPath(bundlePath: string): string {
+  return `${bundlePath}.ccp-ledger.json`;
+}
+
+function isLedgerEntry(value: unknown): value is PatchLedgerEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.codename === 'string' &&
+    (entry.mode === 'enable' || entry.mode === 'force-off' || entry.mode === 'value') &&
+    typeof entry.offset === 'number' &&
+    typeof entry.original === 'string' &&
+    typeof entry.replacement === 'string'
+  );
+}
+
+/**
+ * Read the ledger for a binary. Returns an empty ledger when the file is
+ * missing or unreadable.
+ */
+export function readLedger(bundlePath: string): PatchLedger {
+  try {
+    const data = JSON.parse(fs.readFileSync(getLedgerPath(bundlePath), 'utf8')) as unknown;
+    const entries = (data as { entries?: unknown })?.entries;
+    if (Array.isArray(entries)) {
+      return { entries: entries.filter(isLedgerEntry) };
+    }
+  } catch {
+    // Missing or corrupt — treat as empty
+  }
+  return { entries: [] };
+}
+
+/**
+ * Write the ledger for a binary. An empty ledger removes the file.
+ */
+export function writeLedger(bundlePath: string, ledger: PatchLedger): boolean {
+  const ledgerPath = getLedgerPath(bundlePath);
+  try {
+    if (ledger.entries.length === 0) {
+      fs.rmSync(ledgerPath, { force: true });
+    } else {
+      fs.writeFileSync(ledgerPath, JSON.stringify(ledger, null, 2) + '\n');
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find the ledger entry recorded for a gate.
+ */
+export function findLedgerEntry(
+  bundlePath: string,
+  codename: string
+): PatchLedgerEntry | undefined {
+  return findLedgerEntries(bundlePath, codename)[0];
+}
+
+/**
+ * Find every ledger entry recorded for a gate (one per patched call site).
+ */
+export function findLedgerEntries(bundlePath: string, codename: string): PatchLedgerEntry[] {
+  return readLedger(bundlePath).entries.filter((e) => e.codename === codename);
+}
+
+/**
+ * Record binary patches, replacing earlier entries for the same gates.
+ */
+export function recordLedgerEntries(bundlePath: string, entries: PatchLedgerEntry[]): boolean {
+  const codenames = new Set(entries.map((e) => e.codename));
+  const ledger = readLedger(bundlePath);
+  return writeLedger(bundlePath, {
+    entries: [...ledger.entries.filter((e) => !codenames.has(e.codename)), ...entries],
+  });
+}
+
+/**
+ * Remove the ledger entries for a gate (after it has been restored).
+ */
+export function removeLedgerEntry(bundlePath: string, codename: string): boolean {
+  const ledger = readLedger(bundlePath);
+  return writeLedger(bundlePath, {
+    entries: ledger.entries.filter((e) => e.codename !== codename),
+  });
+}
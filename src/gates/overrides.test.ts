@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  readOverrides,
+  setOverride,
+  removeOverride,
+  findAccessorDefinition,
+  injectOverridesHook,
+  stripOverridesHook,
+  hasOverridesHook,
+  hookedAccessor,
+} from "./overrides.js";
+import {
+  installOverridesHook,
+  uninstallOverridesHook,
+  getOverridesHookStatus,
+} from "./patcher.js";
+
+const MOCK_BUNDLE = [
+  'function W9(T,R){let A=cache[T];return A===void 0?R:A}',
+  'function Lg(T,R){send(T,R)}',
+  'function SZ(){return W9("tengu_keybinding_customization_release",!1)}',
+  'function KbR(){return W9("tengu_amber_quartz",!1)}',
+  'var cache={};function send(){}',
+  'Lg("tengu_startup",{});Lg("tengu_exit",{});Lg("tengu_tool_use",!0);',
+].join("\n");
+
+let tmpDir: string;
+let overridesPath: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-overrides-"));
+  overridesPath = path.join(tmpDir, "patcher-overrides.json");
+  process.env.CLAUDE_PATCHER_OVERRIDES = overridesPath;
+  delete (globalThis as { __ccpOverrides?: unknown }).__ccpOverrides;
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_OVERRIDES;
+  delete (globalThis as { __ccpOverrides?: unknown }).__ccpOverrides;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/** Evaluate a bundle and return its W9 accessor */
+function loadAccessor(content: string): (flag: string, fallback: unknown) => unknown {
+  return new Function(`${content};return W9`)() as (flag: string, fallback: unknown) => unknown;
+}
+
+describe("overrides file", () => {
+  it("should set and remove overrides", () => {
+    expect(readOverrides()).toEqual({});
+    expect(setOverride("tengu_amber_quartz", true).success).toBe(true);
+    expect(setOverride("tengu_crystal_beam", { budget: 32000 }).success).toBe(true);
+    expect(readOverrides()).toEqual({
+      tengu_amber_quartz: true,
+      tengu_crystal_beam: { budget: 32000 },
+    });
+
+    expect(removeOverride("tengu_amber_quartz").success).toBe(true);
+    expect(readOverrides()).toEqual({ tengu_crystal_beam: { budget: 32000 } });
+  });
+
+  it("should reject values without a JSON form", () => {
+    expect(setOverride("tengu_x", undefined).success).toBe(false);
+  });
+
+  it("should treat a non-object file as empty", () => {
+    fs.writeFileSync(overridesPath, "[1,2]");
+    expect(readOverrides()).toEqual({});
+  });
+});
+
+describe("findAccessorDefinition", () => {
+  it("should pick the function most often called with a boolean default", () => {
+    const found = findAccessorDefinition(MOCK_BUNDLE);
+    expect(found?.accessor).toBe("W9");
+    expect(found?.match[0]).toBe("function W9(T,R){");
+    expect(found?.match[1]).toBe("T");
+  });
+
+  it("should honour an explicit accessor name", () => {
+    expect(findAccessorDefinition(MOCK_BUNDLE, "Lg")?.match[0]).toBe("function Lg(T,R){");
+    expect(findAccessorDefinition(MOCK_BUNDLE, "Nope")).toBeNull();
+  });
+});
+
+describe("override hook", () => {
+  it("should return overridden flags and fall through for the rest", () => {
+    fs.writeFileSync(overridesPath, JSON.stringify({ tengu_amber_quartz: true }));
+    const found = findAccessorDefinition(MOCK_BUNDLE)!;
+    const hooked = injectOverridesHook(MOCK_BUNDLE, found.match, overridesPath);
+
+    const W9 = loadAccessor(hooked);
+    expect(W9("tengu_amber_quartz", false)).toBe(true);
+    expect(W9("tengu_other", "server")).toBe("server");
+  });
+
+  it("should leave the accessor working when the file is missing", () => {
+    const found = findAccessorDefinition(MOCK_BUNDLE)!;
+    const hooked = injectOverridesHook(MOCK_BUNDLE, found.match, overridesPath);
+    expect(loadAccessor(hooked)("tengu_amber_quartz", false)).toBe(false);
+  });
+
+  it("should be reversible and record the hooked accessor", () => {
+    const found = findAccessorDefinition(MOCK_BUNDLE)!;
+    const hooked = injectOverridesHook(MOCK_BUNDLE, found.match, overridesPath);
+    expect(hasOverridesHook(hooked)).toBe(true);
+    expect(hookedAccessor(hooked)).toBe("W9");
+    expect(stripOverridesHook(hooked)).toBe(MOCK_BUNDLE);
+  });
+});
+
+describe("installOverridesHook", () => {
+  it("should install, report and remove the hook in a JS bundle", () => {
+    const cliPath = path.join(tmpDir, "cli.js");
+    fs.writeFileSync(cliPath, MOCK_BUNDLE);
+
+    expect(getOverridesHookStatus(cliPath)).toEqual({
+      installed: false,
+      accessor: "W9",
+      overridesPath,
+    });
+
+    const result = installOverridesHook({ cliPath, backup: false });
+    expect(result.success).toBe(true);
+    expect(getOverridesHookStatus(cliPath)?.installed).toBe(true);
+
+    // Installing twice is a no-op
+    const content = fs.readFileSync(cliPath, "utf8");
+    expect(installOverridesHook({ cliPath, backup: false }).success).toBe(true);
+    expect(fs.readFileSync(cliPath, "utf8")).toBe(content);
+
+    expect(uninstallOverridesHook({ cliPath }).success).toBe(true);
+    expect(fs.readFileSync(cliPath, "utf8")).toBe(MOCK_BUNDLE);
+  });
+
+  it("should refuse native binaries", () => {
+    const cliPath = path.join(tmpDir, "claude");
+    fs.writeFileSync(cliPath, MOCK_BUNDLE);
+
+    const result = installOverridesHook({ cliPath, backup: false });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("native binary");
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Runtime Flag Overrides
+ *
+ * Instead of rewriting each gate's wrapper, the override hook patches the
+ * Statsig accessor itself (the `W9("tengu_x",!1)`-style function every
+ * wrapper calls) so it first looks the flag up in a local JSON file:
+ *
+ *   ~/.claude/patcher-overrides.json
+ *   { "tengu_amber_quartz": true, "tengu_crystal_beam": { "budget": 32000 } }
+ *
+ * Flags missing from the file fall through to the server value. Once the
+ * hook is installed any tengu_* flag can be toggled by editing the file;
+ * it is read once per Claude Code process, so changes apply on restart.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { FlagOverrides } from '../types.js';
+import { GATE_PATCH_MARKER, reversibleMarker, restoreFromMarkers, hasEnableMarker } from './patch-kinds.js';
+
+/** Codename used in the hook's reversible marker */
+export const OVERRIDES_HOOK_CODENAME = 'overrides-hook';
+
+/** Boolean accessor calls, e.g. `W9("tengu_x",!1)` — the accessor is group 1 */
+const BOOLEAN_ACCESSOR_CALL = /(?<![\w$.])([\w$]+)\("tengu_[a-z0-9_]+",!(?:0|1)\)/g;
+
+/**
+ * Path of the overrides file read by the hook. Set
+ * CLAUDE_PATCHER_OVERRIDES to use another location.
+ */
+export function getOverridesPath(): string {
+  return (
+    process.env.CLAUDE_PATCHER_OVERRIDES ||
+    path.join(os.homedir(), '.claude', 'patcher-overrides.json')
+  );
+}
+
+/**
+ * Read the overrides file. Returns an empty object when the file is
+ * missing or is not a JSON object.
+ */
+export function readOverrides(overridesPath = getOverridesPath()): FlagOverrides {
+  try {
+    const data = JSON.parse(fs.readFileSync(overridesPath, 'utf8')) as unknown;
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) {
+      return data as FlagOverrides;
+    }
+  } catch {
+    // Missing or corrupt — treat as empty
+  }
+  return {};
+}
+
+/**
+ * Write the overrides file, creating its directory if needed.
+ */
+export function writeOverrides(
+  overrides: FlagOverrides,
+  overridesPath = getOverridesPath()
+): { success: boolean; error?: string } {
+  try {
+    fs.mkdirSync(path.dirname(overridesPath), { recursive: true });
+    fs.writeFileSync(overridesPath, JSON.stringify(overrides, null, 2) + '\n');
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: `Could not write ${overridesPath}: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+}
+
+/**
+ * Override a flag at runtime. Values must be JSON-serializable.
+ */
+export function setOverride(
+  flag: string,
+  value: unknown,
+  overridesPath = getOverridesPath()
+): { success: boolean; error?: string } {
+  if (JSON.stringify(value) === undefined) {
+    return {
+      success: false,
+      error: 'Value must be JSON-serializable (null, boolean, number, string, array or object)',
+    };
+  }
+  return writeOverrides({ ...readOverrides(overridesPath), [flag]: value }, overridesPath);
+}
+
+/**
+ * Remove a flag's override so it falls back to the server value.
+ */
+export function removeOverride(
+  flag: string,
+  overridesPath = getOverridesPath()
+): { success: boolean; error?: string } {
+  const overrides = readOverrides(overridesPath);
+  if (!Object.prototype.hasOwnProperty.call(overrides, flag)) return { success: true };
+  delete overrides[flag];
+  return writeOverrides(overrides, overridesPath);
+}
+
+/**
+ * Find the Statsig accessor definition in a bundle: the function called
+ * most often as `NAME("tengu_x",!0|!1)`. Pass `accessor` to pick a
+ * specific function instead. Returns the definition header match
+ * (`function NAME(FLAG,...){`, flag parameter in group 1).
+ */
+export function findAccessorDefinition(
+  content: string,
+  accessor?: string
+): { accessor: string; match: RegExpMatchArray } | null {
+  const candidates = accessor ? [accessor] : findAccessorNames(content);
+  for (const name of candidates) {
+    const escaped = name.replace(/\$/g, '\\$');
+    const match = content.match(
+      new RegExp(`(?<![\\w$])function\\s+${escaped}\\(([\\w$]+)(?:,[\\w$]+)*\\)\\{`)
+    );
+    if (match) return { accessor: name, match };
+  }
+  return null;
+}
+
+/**
+ * Names of functions called as `NAME("tengu_x",!0|!1)` — the Statsig
+ * accessors — most-called first.
+ */
+export function findAccessorNames(content: string): string[] {
+  const counts = new Map<string, number>();
+  for (const m of content.matchAll(BOOLEAN_ACCESSOR_CALL)) {
+    counts.set(m[1], (counts.get(m[1]) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+}
+
+/**
+ * JS injected at the top of the accessor body. The file is parsed once per
+ * process and cached on globalThis; a missing or invalid file disables the
+ * hook rather than breaking Claude Code.
+ */
+export function buildOverridesHook(flagParam: string, overridesPath: string): string {
+  return (
+    'var $ccpO=globalThis.__ccpOverrides;' +
+    'if($ccpO===void 0){try{' +
+    'var $ccpF=process.getBuiltinModule?process.getBuiltinModule("fs"):require("fs");' +
+    `$ccpO=JSON.parse($ccpF.readFileSync(${JSON.stringify(overridesPath)},"utf8"))` +
+    '}catch{$ccpO=null}globalThis.__ccpOverrides=$ccpO}' +
+    `if($ccpO&&typeof $ccpO==="object"&&Object.prototype.hasOwnProperty.call($ccpO,${flagParam}))` +
+    `return $ccpO[${flagParam}];`
+  );
+}
+
+/**
+ * Insert the override hook into the accessor definition matched by
+ * findAccessorDefinition(), followed by a reversible marker.
+ */
+export function injectOverridesHook(
+  content: string,
+  match: RegExpMatchArray,
+  overridesPath: string
+): string {
+  const replacement = match[0] + buildOverridesHook(match[1], overridesPath);
+  const marker = reversibleMarker(GATE_PATCH_MARKER, OVERRIDES_HOOK_CODENAME, replacement, match[0]);
+  return content.replace(match[0], () => replacement + marker);
+}
+
+/**
+ * Remove the override hook, restoring the original accessor header.
+ */
+export function stripOverridesHook(content: string): string {
+  return restoreFromMarkers(content, OVERRIDES_HOOK_CODENAME);
+}
+
+/**
+ * Check whether a bundle carries the override hook.
+ */
+export function hasOverridesHook(content: string): boolean {
+  return hasEnableMarker(content, OVERRIDES_HOOK_CODENAME);
+}
+
+/**
+ * Name of the function the hook was injected into, read back from the
+ * original header recorded in the hook's marker.
+ */
+export function hookedAccessor(content: string): string | undefined {
+  const marker = content.match(
+    new RegExp(`/\\*${GATE_PATCH_MARKER}:${OVERRIDES_HOOK_CODENAME}@\\d+:([A-Za-z0-9+/=]*)\\*/`)
+  );
+  if (!marker) return undefined;
+  const original = Buffer.from(marker[1], 'base64').toString('utf8');
+  return original.match(/function\s+([\w$]+)\(/)?.[1];
+}
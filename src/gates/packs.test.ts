@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  compileGatePack,
+  loadGatePacks,
+  parseGatePackText,
+  addGatePackFile,
+  resetGatePacks,
+  getGatePackErrors,
+} from "./packs.js";
+import {
+  getAllGates,
+  getPatchableGates,
+  findGate,
+  findPatchableGate,
+  GATE_PATCH_MARKER,
+} from "./registry.js";
+
+const AMBER_QUARTZ_SOURCE =
+  'function\\s+([a-zA-Z_$][\\w$]*)\\(\\)\\{return\\s*[\\w$]+\\("tengu_amber_quartz",!0\\)\\}';
+
+const YAML_PACK = `
+# Regex fix for a new release
+name: team-fixes
+gates:
+  - name: tengu_amber_quartz
+    codename: amber-quartz
+    description: Voice dictation (default flipped to !0)
+    patch: return-true
+    detect:
+      source: '${AMBER_QUARTZ_SOURCE}'
+  - name: tengu_new_thing
+    codename: new-thing
+    category: experiment
+    detect:
+      source: tengu_new_thing
+`;
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-packs-"));
+  process.env.CLAUDE_PATCHER_GATES_DIR = tmpDir;
+  resetGatePacks();
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_GATES_DIR;
+  resetGatePacks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("parseGatePackText", () => {
+  it("should parse JSON packs", () => {
+    const data = parseGatePackText('{"gates":[]}', "pack.json");
+    expect(data).toEqual({ gates: [] });
+  });
+
+  it("should parse YAML packs by extension", () => {
+    const data = parseGatePackText(YAML_PACK, "pack.yaml") as {
+      name: string;
+      gates: Array<{ codename: string; detect: { source: string } }>;
+    };
+    expect(data.name).toBe("team-fixes");
+    expect(data.gates).toHaveLength(2);
+    expect(data.gates[0].detect.source).toBe(AMBER_QUARTZ_SOURCE);
+  });
+});
+
+describe("compileGatePack", () => {
+  it("should compile a return-true gate into a patchable FeatureGate", () => {
+    const { gates, patchable, errors } = compileGatePack(
+      {
+        gates: [
+          {
+            name: "tengu_amber_quartz",
+            codename: "amber-quartz",
+            patch: "return-true",
+            detect: { source: AMBER_QUARTZ_SOURCE },
+          },
+        ],
+      },
+      "pack.json",
+    );
+
+    expect(errors).toEqual([]);
+    expect(patchable).toHaveLength(1);
+    const content = 'function aQ(){return W9("tengu_amber_quartz",!0)}';
+    const match = content.match(gates[0].detectRegex)!;
+    expect(gates[0].semanticReplacement!(match)).toBe(
+      "function aQ(){return!0}",
+    );
+    const patched = gates[0].patchFn(content, match);
+    expect(patched).toContain(
+      `function aQ(){return!0}/*${GATE_PATCH_MARKER}:amber-quartz@`,
+    );
+    expect(gates[0].unpatchFn(patched)).toBe(content);
+  });
+
+  it("should expand template replacements with capture groups", () => {
+    const { gates, errors } = compileGatePack(
+      {
+        gates: [
+          {
+            name: "tengu_swann_brevity",
+            codename: "swann-brevity",
+            patch: "template",
+            replacement: 'function $1(){return"strict"}',
+            detect: {
+              source:
+                'function ([\\w$]+)\\(\\)\\{return [\\w$]+\\("tengu_swann_brevity",null\\)\\}',
+            },
+          },
+        ],
+      },
+      "pack.json",
+    );
+
+    expect(errors).toEqual([]);
+    const match = 'function sB(){return K("tengu_swann_brevity",null)}'.match(
+      gates[0].detectRegex,
+    )!;
+    expect(gates[0].semanticReplacement!(match)).toBe(
+      'function sB(){return"strict"}',
+    );
+  });
+
+  it("should compile value gates with the accessor call as valueRegex", () => {
+    const { gates, patchable, errors } = compileGatePack(
+      {
+        gates: [
+          {
+            name: "tengu_crystal_beam",
+            codename: "crystal-beam",
+            patch: "value",
+            detect: { source: '[\\w$]+\\("tengu_crystal_beam",[^()]*\\)' },
+          },
+        ],
+      },
+      "pack.json",
+    );
+
+    expect(errors).toEqual([]);
+    expect(patchable).toHaveLength(0);
+    expect(gates[0].valueRegex).toBe(gates[0].detectRegex);
+  });
+
+  it("should compile call-site gates as patchable", () => {
+    const { patchable, errors } = compileGatePack(
+      {
+        gates: [
+          {
+            name: "tengu_new_inline",
+            codename: "new-inline",
+            patch: "call-site",
+            detect: { source: '[\\w$]+\\("tengu_new_inline",!1\\)' },
+          },
+        ],
+      },
+      "pack.json",
+    );
+
+    expect(errors).toEqual([]);
+    const content = 'a=K("tengu_new_inline",!1);b=K("tengu_new_inline",!1);';
+    const patched = patchable[0].patchFn(content, content.match(patchable[0].detectRegex)!);
+    expect(patched.match(/\(!0\)/g)).toHaveLength(2);
+  });
+
+  it("should treat gates without a patch kind as detection-only", () => {
+    const { gates, patchable } = compileGatePack(
+      { gates: [{ name: "tengu_x", codename: "x", detect: { source: "tengu_x" } }] },
+      "pack.json",
+    );
+    expect(gates).toHaveLength(1);
+    expect(patchable).toHaveLength(0);
+    expect(gates[0].semanticReplacement).toBeUndefined();
+  });
+
+  it("should report each invalid entry and keep the valid ones", () => {
+    const { gates, errors } = compileGatePack(
+      {
+        gates: [
+          { name: "tengu_ok", codename: "ok", detect: { source: "tengu_ok" } },
+          { name: "tengu_bad", codename: "Bad Name", detect: { source: "(" } },
+          { name: "tengu_g", codename: "g", detect: { source: "x", flags: "g" } },
+          { name: "tengu_t", codename: "t", patch: "template", detect: { source: "x" } },
+          { name: "tengu_r", codename: "r", patch: "return-true", detect: { source: "tengu_r" } },
+          { name: "tengu_k", codename: "k", patch: "explode", detect: { source: "x" } },
+          { name: "tengu_e", codename: "e", envOverride: "E", envEffect: "maybe", detect: { source: "x" } },
+          { name: "tengu_n", codename: "n", tier: 6, detect: { source: "x" } },
+        ],
+      },
+      "pack.json",
+    );
+
+    expect(gates.map((g) => g.codename)).toEqual(["ok"]);
+    expect(errors.some((e) => e.startsWith("gates[1].codename"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("gates[1].detect.source: invalid regex"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("gates[2].detect.flags"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("gates[3].replacement"))).toBe(true);
+    expect(errors.some((e) => e.includes("uses $1 but the regex has 0"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("gates[5].patch"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("gates[6].envEffect"))).toBe(true);
+    expect(errors.some((e) => e.startsWith("gates[7].tier"))).toBe(true);
+  });
+
+  it("should compile version ranges and detect variants", () => {
+    const { gates, errors } = compileGatePack(
+      {
+        gates: [
+          {
+            name: "tengu_amber_quartz",
+            codename: "amber-quartz",
+            patch: "return-true",
+            introducedIn: "2.1.63",
+            detect: { source: AMBER_QUARTZ_SOURCE },
+            variants: [
+              { versions: ">=2.1.70", source: "function ([\\w$]+)\\(\\)\\{return!1\\}" },
+              { versions: "latest", source: "x" },
+              { versions: "2.1.x", source: "no-groups" },
+            ],
+          },
+        ],
+      },
+      "pack.json",
+    );
+
+    expect(gates).toHaveLength(0);
+    expect(errors).toEqual([
+      'gates[0].variants[1].versions: required semver range, e.g. ">=2.1.37 <2.1.63"',
+      "gates[0].variants[1].source: replacement uses $1 but the regex has 0 capture group(s)",
+      "gates[0].variants[2].source: replacement uses $1 but the regex has 0 capture group(s)",
+    ]);
+
+    const valid = compileGatePack(
+      {
+        gates: [
+          {
+            name: "tengu_amber_quartz",
+            codename: "amber-quartz",
+            introducedIn: "2.1.63",
+            detect: { source: "tengu_amber_quartz" },
+            variants: [{ versions: ">=2.1.70", source: "amber_quartz" }],
+          },
+        ],
+      },
+      "pack.json",
+    );
+    expect(valid.errors).toEqual([]);
+    expect(valid.gates[0].introducedIn).toBe("2.1.63");
+    expect(valid.gates[0].detectVariants?.[0].versions).toBe(">=2.1.70");
+  });
+
+  it("should reject packs without a gates array", () => {
+    expect(compileGatePack({}, "pack.json").errors).toEqual([
+      '"gates" must be an array',
+    ]);
+    expect(compileGatePack([], "pack.json").errors).toHaveLength(1);
+  });
+});
+
+describe("loadGatePacks", () => {
+  it("should load packs from the directory and report errors per pack", () => {
+    fs.writeFileSync(path.join(tmpDir, "10-fixes.yaml"), YAML_PACK);
+    fs.writeFileSync(path.join(tmpDir, "20-broken.json"), "{ not json");
+    fs.writeFileSync(path.join(tmpDir, "README.md"), "ignored");
+
+    const result = loadGatePacks({ dir: tmpDir });
+
+    expect(result.gates.map((g) => g.codename)).toEqual([
+      "amber-quartz",
+      "new-thing",
+    ]);
+    expect(result.patchable.map((g) => g.codename)).toEqual(["amber-quartz"]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].source).toContain("20-broken.json");
+  });
+
+  it("should let later packs override earlier ones by codename", () => {
+    const file = path.join(tmpDir, "override.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        gates: [
+          {
+            name: "tengu_amber_quartz",
+            codename: "amber-quartz",
+            description: "override",
+            detect: { source: "tengu_amber_quartz" },
+          },
+        ],
+      }),
+    );
+    fs.writeFileSync(path.join(tmpDir, "base.yaml"), YAML_PACK);
+
+    const result = loadGatePacks({
+      dir: path.join(tmpDir, "missing"),
+      files: [path.join(tmpDir, "base.yaml"), file],
+    });
+    const amber = result.gates.find((g) => g.codename === "amber-quartz");
+    expect(amber?.description).toBe("override");
+    expect(result.patchable.find((g) => g.codename === "amber-quartz")).toBeUndefined();
+  });
+});
+
+describe("registry merging", () => {
+  it("should replace built-in gates and append new ones", () => {
+    const builtInCount = getAllGates().length;
+    fs.writeFileSync(path.join(tmpDir, "fixes.yaml"), YAML_PACK);
+    resetGatePacks();
+
+    const all = getAllGates();
+    expect(all.length).toBe(builtInCount + 1);
+    expect(findGate("amber-quartz")?.description).toContain("default flipped");
+    expect(findGate("new-thing")?.category).toBe("experiment");
+    expect(findPatchableGate("amber-quartz")?.detectRegex.source).toBe(
+      AMBER_QUARTZ_SOURCE,
+    );
+    expect(findPatchableGate("new-thing")).toBeUndefined();
+  });
+
+  it("should keep the position of overridden built-in gates", () => {
+    const before = getPatchableGates().map((g) => g.codename);
+    fs.writeFileSync(path.join(tmpDir, "fixes.yaml"), YAML_PACK);
+    resetGatePacks();
+
+    expect(getPatchableGates().map((g) => g.codename)).toEqual(before);
+  });
+
+  it("should load files registered with addGatePackFile", () => {
+    const file = path.join(tmpDir, "extra", "pack.json");
+    fs.mkdirSync(path.dirname(file));
+    fs.writeFileSync(file, '{"gates":[{"name":"tengu_extra","codename":"extra"}]}');
+
+    addGatePackFile(file);
+
+    expect(findGate("extra")).toBeUndefined();
+    expect(getGatePackErrors()).toHaveLength(1);
+    expect(getGatePackErrors()[0].messages[0]).toContain("detect.source");
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Gate Packs
+ *
+ * Loads serializable gate definitions from external JSON/YAML files so
+ * regex fixes and new gates can ship without a release of this package.
+ *
+ * Packs are read from `~/.config/claude-patcher/gates.d/` (override with
+ * CLAUDE_PATCHER_GATES_DIR) plus any files added with addGatePackFile()
+ * (the CLI's `--gates-file`). A pack gate whose codename matches a built-in
+ * gate replaces it; other pack gates are appended to the registry.
+ *
+ * Example pack (YAML):
+ *
+ *   name: team-fixes
+ *   gates:
+ *     - name: tengu_amber_quartz
+ *       codename: amber-quartz
+ *       patch: return-true
+ *       detect:
+ *         source: 'function\s+([\w$]+)\(\)\{return\s*[\w$]+\("tengu_amber_quartz",!1\)\}'
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type {
+  FeatureGate,
+  GateDetectVariant,
+  GateEnvEffect,
+  GatePackError,
+  GatePatchKind,
+  GateTier,
+} from '../types.js';
+import {
+  callSitePatcher,
+  detectionOnly,
+  returnTruePatcher,
+  stripGuardPatcher,
+  templatePatcher,
+  EARLY_RETURN_TEMPLATE,
+  RETURN_FALSE_TEMPLATE,
+  RETURN_TRUE_TEMPLATE,
+  STRIP_GUARD_TEMPLATE,
+} from './patch-kinds.js';
+import { isValidRange } from './versions.js';
+import { parseYamlSubset } from './yaml-subset.js';
+
+/**
+ * Gates compiled from all loaded packs, plus any per-pack errors
+ */
+export interface GatePackLoadResult {
+  /** Every valid pack gate, in load order (later packs win on codename clashes) */
+  gates: FeatureGate[];
+  /** The subset of `gates` that can be patched */
+  patchable: FeatureGate[];
+  /** One entry per pack file that failed to read, parse or validate */
+  errors: GatePackError[];
+}
+
+const PATCH_KINDS: GatePatchKind[] = [
+  'return-true',
+  'strip-guard',
+  'template',
+  'value',
+  'call-site',
+  'detect-only',
+];
+const CATEGORIES: FeatureGate['category'][] = ['feature', 'experiment', 'telemetry'];
+
+const ENV_EFFECTS: GateEnvEffect[] = ['enable', 'disable', 'require'];
+
+const TIERS: GateTier[] = [1, 2, 3, 4, 5];
+const PACK_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/** Extra pack files registered at runtime (e.g. via --gates-file) */
+const extraPackFiles: string[] = [];
+
+/** Cached result of the last load, cleared by resetGatePacks() */
+let loaded: GatePackLoadResult | null = null;
+
+/**
+ * Default directory scanned for gate packs
+ */
+export function getGatePackDir(): string {
+  return (
+    process.env.CLAUDE_PATCHER_GATES_DIR ||
+    path.join(os.homedir(), '.config', 'claude-patcher', 'gates.d')
+  );
+}
+
+/**
+ * Count the capture groups in a regex source.
+ */
+function countCaptureGroups(regex: RegExp): number {
+  const match = new RegExp(`${regex.source}|`).exec('');
+  return match ? match.length - 1 : 0;
+}
+
+/**
+ * Parse the raw text of a pack file. YAML is used for .yaml/.yml files,
+ * JSON for everything else.
+ */
+export function parseGatePackText(text: string, source: string): unknown {
+  const ext = path.extname(source).toLowerCase();
+  if (ext === '.yaml' || ext === '.yml') {
+    return parseYamlSubset(text);
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Compile a `{ source, flags }` regex description, pushing an error
+ * prefixed with `where` when it is missing or invalid.
+ */
+function compileRegex(spec: unknown, where: string, errors: string[]): RegExp | null {
+  const raw = spec as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== 'object' || typeof raw.source !== 'string') {
+    errors.push(`${where}.source: required regex source string`);
+    return null;
+  }
+  const flags = raw.flags ?? '';
+  if (typeof flags !== 'string' || /[^imsu]/.test(flags)) {
+    errors.push(`${where}.flags: only the i, m, s and u flags are allowed`);
+    return null;
+  }
+  try {
+    return new RegExp(raw.source, flags);
+  } catch (err) {
+    errors.push(
+      `${where}.source: invalid regex (${err instanceof Error ? err.message : String(err)})`
+    );
+    return null;
+  }
+}
+
+/**
+ * Validate and compile a single gate entry. Pushes messages into `errors`
+ * and returns null when the entry is invalid.
+ */
+function compilePackGate(
+  entry: unknown,
+  where: string,
+  errors: string[]
+): { gate: FeatureGate; patchable: boolean } | null {
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    errors.push(`${where}: must be an object`);
+    return null;
+  }
+  const raw = entry as Record<string, unknown>;
+  const before = errors.length;
+
+  const name = raw.name;
+  if (typeof name !== 'string' || name === '') {
+    errors.push(`${where}.name: required non-empty string`);
+  }
+
+  const codename = raw.codename;
+  if (typeof codename !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(codename)) {
+    errors.push(`${where}.codename: required lowercase kebab-case string`);
+  }
+
+  const category = raw.category ?? 'feature';
+  if (!CATEGORIES.includes(category as FeatureGate['category'])) {
+    errors.push(`${where}.category: must be one of ${CATEGORIES.join(', ')}`);
+  }
+
+  const patch = raw.patch ?? 'detect-only';
+  if (!PATCH_KINDS.includes(patch as GatePatchKind)) {
+    errors.push(`${where}.patch: must be one of ${PATCH_KINDS.join(', ')}`);
+  }
+
+  for (const key of ['description', 'replacement', 'forceOff', 'envOverride']) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') {
+      errors.push(`${where}.${key}: must be a string`);
+    }
+  }
+
+  if (raw.envEffect !== undefined && !ENV_EFFECTS.includes(raw.envEffect as GateEnvEffect)) {
+    errors.push(`${where}.envEffect: must be one of ${ENV_EFFECTS.join(', ')}`);
+  }
+
+  if (raw.tier !== undefined && !TIERS.includes(raw.tier as GateTier)) {
+    errors.push(`${where}.tier: must be one of ${TIERS.join(', ')}`);
+  }
+
+  for (const key of ['introducedIn', 'removedIn']) {
+    const value = raw[key];
+    if (value !== undefined && (typeof value !== 'string' || !/^\d+\.\d+\.\d+/.test(value))) {
+      errors.push(`${where}.${key}: must be a version string like "2.1.63"`);
+    }
+  }
+
+  for (const key of ['requires', 'conflictsWith']) {
+    const value = raw[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))) {
+      errors.push(`${where}.${key}: must be an array of gate codenames`);
+    }
+  }
+
+  const detectRegex = compileRegex(raw.detect, `${where}.detect`, errors);
+
+  const variants: GateDetectVariant[] = [];
+  const variantLabels: string[] = [];
+  if (raw.variants !== undefined) {
+    if (!Array.isArray(raw.variants)) {
+      errors.push(`${where}.variants: must be an array`);
+    } else {
+      raw.variants.forEach((v: unknown, i: number) => {
+        const vWhere = `${where}.variants[${i}]`;
+        const versions = (v as Record<string, unknown> | null)?.versions;
+        if (typeof versions !== 'string' || !isValidRange(versions)) {
+          errors.push(`${vWhere}.versions: required semver range, e.g. ">=2.1.37 <2.1.63"`);
+        }
+        const regex = compileRegex(v, vWhere, errors);
+        if (regex && typeof versions === 'string') {
+          variants.push({ versions, detectRegex: regex });
+          variantLabels.push(`${vWhere}.source`);
+        }
+      });
+    }
+  }
+
+  const replacement = raw.replacement as string | undefined;
+  if (patch === 'template' && !replacement) {
+    errors.push(`${where}.replacement: required for patch kind "template"`);
+  }
+
+  const forceOff = raw.forceOff as string | undefined;
+  if (patch !== 'detect-only' && patch !== 'value' && patch !== 'call-site') {
+    const template =
+      replacement ?? (patch === 'strip-guard' ? STRIP_GUARD_TEMPLATE : RETURN_TRUE_TEMPLATE);
+    const refs = [...`${template}${forceOff ?? ''}`.matchAll(/\$([1-9])/g)].map((m) => Number(m[1]));
+    const highest = Math.max(0, ...refs);
+    const patterns: Array<[string, RegExp | null]> = [
+      [`${where}.detect.source`, detectRegex],
+      ...variants.map((v, i): [string, RegExp] => [variantLabels[i], v.detectRegex]),
+    ];
+    for (const [label, regex] of patterns) {
+      const groups = regex ? countCaptureGroups(regex) : highest;
+      if (highest > groups) {
+        errors.push(`${label}: replacement uses $${highest} but the regex has ${groups} capture group(s)`);
+      }
+    }
+  }
+
+  if (errors.length > before || !detectRegex) return null;
+
+  const kind = patch as GatePatchKind;
+  const gateCodename = codename as string;
+  let patchFns: Pick<FeatureGate, 'patchFn' | 'unpatchFn' | 'semanticReplacement' | 'callSiteRegex'>;
+  if (kind === 'detect-only' || kind === 'value') {
+    patchFns = detectionOnly();
+  } else if (kind === 'call-site') {
+    patchFns = callSitePatcher(gateCodename, detectRegex);
+  } else if (replacement || forceOff) {
+    const defaults =
+      kind === 'strip-guard'
+        ? [STRIP_GUARD_TEMPLATE, EARLY_RETURN_TEMPLATE]
+        : kind === 'return-true'
+          ? [RETURN_TRUE_TEMPLATE, RETURN_FALSE_TEMPLATE]
+          : [];
+    patchFns = templatePatcher(
+      gateCodename,
+      replacement ?? defaults[0],
+      forceOff ?? defaults[1]
+    );
+  } else if (kind === 'strip-guard') {
+    patchFns = stripGuardPatcher(gateCodename);
+  } else {
+    patchFns = returnTruePatcher(gateCodename);
+  }
+
+  return {
+    gate: {
+      name: name as string,
+      codename: gateCodename,
+      description: (raw.description as string | undefined) ?? `${name} (from gate pack)`,
+      category: category as FeatureGate['category'],
+      detectRegex,
+      ...patchFns,
+      valueRegex: kind === 'value' ? detectRegex : undefined,
+      envOverride: raw.envOverride as string | undefined,
+      envEffect: raw.envEffect as GateEnvEffect | undefined,
+      introducedIn: raw.introducedIn as string | undefined,
+      removedIn: raw.removedIn as string | undefined,
+      detectVariants: variants.length > 0 ? variants : undefined,
+      requires: raw.requires as string[] | undefined,
+      conflictsWith: raw.conflictsWith as string[] | undefined,
+      tier: raw.tier as GateTier | undefined,
+    },
+    patchable: kind !== 'detect-only' && kind !== 'value',
+  };
+}
+
+/**
+ * Validate parsed pack data and compile its gates.
+ *
+ * Invalid gate entries are skipped and reported; valid entries in the same
+ * pack are still returned.
+ */
+export function compileGatePack(
+  data: unknown,
+  source: string
+): { gates: FeatureGate[]; patchable: FeatureGate[]; errors: string[] } {
+  const gates: FeatureGate[] = [];
+  const patchable: FeatureGate[] = [];
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { gates, patchable, errors: ['pack must be an object with a "gates" array'] };
+  }
+
+  const pack = data as Record<string, unknown>;
+  if (!Array.isArray(pack.gates)) {
+    return { gates, patchable, errors: ['"gates" must be an array'] };
+  }
+
+  const seen = new Set<string>();
+  pack.gates.forEach((entry, i) => {
+    const compiled = compilePackGate(entry, `gates[${i}]`, errors);
+    if (!compiled) return;
+    if (seen.has(compiled.gate.codename)) {
+      errors.push(`gates[${i}].codename: duplicate codename "${compiled.gate.codename}" in ${source}`);
+      return;
+    }
+    seen.add(compiled.gate.codename);
+    compiled.gate.packSource = source;
+    gates.push(compiled.gate);
+    if (compiled.patchable) patchable.push(compiled.gate);
+  });
+
+  return { gates, patchable, errors };
+}
+
+/**
+ * List the pack files in a directory, sorted by name.
+ */
+function listPackFiles(dir: string): string[] {
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((f) => PACK_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+      .sort()
+      .map((f) => path.join(dir, f));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load gate packs from a directory and explicit files.
+ *
+ * Files from the directory are loaded in name order, then explicit files in
+ * the order given. When two packs define the same codename the later one wins.
+ */
+export function loadGatePacks(options?: { dir?: string; files?: string[] }): GatePackLoadResult {
+  const sources = [...listPackFiles(options?.dir ?? getGatePackDir()), ...(options?.files ?? [])];
+  const byCodename = new Map<string, { gate: FeatureGate; patchable: boolean }>();
+  const errors: GatePackError[] = [];
+
+  for (const source of sources) {
+    let data: unknown;
+    try {
+      data = parseGatePackText(fs.readFileSync(source, 'utf8'), source);
+    } catch (err) {
+      errors.push({ source, messages: [err instanceof Error ? err.message : String(err)] });
+      continue;
+    }
+
+    const compiled = compileGatePack(data, source);
+    if (compiled.errors.length > 0) {
+      errors.push({ source, messages: compiled.errors });
+    }
+    for (const gate of compiled.gates) {
+      byCodename.delete(gate.codename);
+      byCodename.set(gate.codename, { gate, patchable: compiled.patchable.includes(gate) });
+    }
+  }
+
+  const entries = [...byCodename.values()];
+  return {
+    gates: entries.map((e) => e.gate),
+    patchable: entries.filter((e) => e.patchable).map((e) => e.gate),
+    errors,
+  };
+}
+
+/**
+ * Register an additional gate pack file and invalidate the cached packs.
+ */
+export function addGatePackFile(file: string): void {
+  extraPackFiles.push(path.resolve(file));
+  loaded = null;
+}
+
+/**
+ * Forget cached packs and any files registered with addGatePackFile().
+ */
+export function resetGatePacks(): void {
+  extraPackFiles.length = 0;
+  loaded = null;
+}
+
+/**
+ * Gates from the default pack directory and registered files (cached).
+ */
+export function getGatePacks(): GatePackLoadResult {
+  if (!loaded) {
+    loaded = loadGatePacks({ files: extraPackFiles });
+  }
+  return loaded;
+}
+
+/**
+ * Per-pack errors from the most recent load
+ */
+export function getGatePackErrors(): GatePackError[] {
+  return getGatePacks().errors;
+}
@@ -0,0 +1,497 @@
+/**
+ * Patch Kinds
+ *
+ * Reusable patchFn / unpatchFn / semanticReplacement factories shared by
+ * the built-in registry and external gate packs. Every patch kind boils
+ * down to a semantic replacement template followed by a marker comment.
+ *
+ * JS markers are reversible: they record the length of the replacement
+ * and the base64-encoded original text, e.g.
+ *   function SZ(){return!0}SLASH*CLAUDE-CODE-PATCHER FEATURE GATES:name@23:ZnVu...*SLASH
+ * so unpatchFn can restore the exact original bytes without a backup.
+ * (Binary patches can't grow, so they are recorded in a sidecar ledger.)
+ */
+
+import type { FeatureGate, GatePatchMode, PlannedChange } from '../types.js';
+
+/** Marker injected into patched gate code for identification */
+export const GATE_PATCH_MARKER = 'CLAUDE-CODE-PATCHER FEATURE GATES';
+
+/** Short marker for binary patches (saves bytes vs the full marker) */
+export const BINARY_PATCH_MARKER = 'CCP';
+
+/** Marker injected into gates that were forced off (distinct from GATE_PATCH_MARKER) */
+export const GATE_FORCE_OFF_MARKER = 'CLAUDE-CODE-PATCHER FEATURE GATES OFF';
+
+/** Short marker for binary force-off patches */
+export const BINARY_FORCE_OFF_MARKER = 'CCP-OFF';
+
+/** Marker injected after a literal pinned with `gates set` */
+export const GATE_VALUE_MARKER = 'CLAUDE-CODE-PATCHER FEATURE GATES VALUE';
+
+/** Short marker for binary value patches */
+export const BINARY_VALUE_MARKER = 'CCP-VAL';
+
+/** Template for gates whose patched form is `function NAME(){return!0}` */
+export const RETURN_TRUE_TEMPLATE = 'function $1(){return!0}';
+
+/** Template for gates whose leading `if(!gate)return;` guard is removed */
+export const STRIP_GUARD_TEMPLATE = 'function $1(){';
+
+/** Force-off template for boolean wrappers: `function NAME(){return!1}` */
+export const RETURN_FALSE_TEMPLATE = 'function $1(){return!1}';
+
+/** Force-off template for guarded functions: return before the body runs */
+export const EARLY_RETURN_TEMPLATE = 'function $1(){return;';
+
+/** Replacement for an inline accessor call when enabling (parenthesized for safety) */
+export const CALL_SITE_TRUE = '(!0)';
+
+/** Replacement for an inline accessor call when forcing off */
+export const CALL_SITE_FALSE = '(!1)';
+
+/** Replacement for a data gate's accessor call when forcing off */
+export const CALL_SITE_NULL = '(null)';
+
+type GatePatchFns = Pick<
+  FeatureGate,
+  'patchFn' | 'unpatchFn' | 'semanticReplacement' | 'forceOffFn' | 'forceOffReplacement'
+>;
+
+/**
+ * Expand a replacement template against a regex match.
+ *
+ * Supports `$1`–`$9` (capture groups), `$&` (whole match) and `$$`
+ * (a literal dollar sign). Missing groups expand to an empty string.
+ */
+export function expandTemplate(template: string, match: RegExpMatchArray): string {
+  return template.replace(/\$(\$|&|[1-9])/g, (_token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match[0];
+    return match[Number(ref)] ?? '';
+  });
+}
+
+/**
+ * Check whether a gate carries our enable marker (JS or binary form).
+ */
+export function hasEnableMarker(content: string, codename: string): boolean {
+  return (
+    content.includes(`${GATE_PATCH_MARKER}:${codename}`) ||
+    content.includes(`${BINARY_PATCH_MARKER}:${codename}`)
+  );
+}
+
+/**
+ * Check whether a gate carries our force-off marker (JS or binary form).
+ */
+export function hasForceOffMarker(content: string, codename: string): boolean {
+  return (
+    content.includes(`${GATE_FORCE_OFF_MARKER}:${codename}`) ||
+    content.includes(`${BINARY_FORCE_OFF_MARKER}:${codename}`)
+  );
+}
+
+/**
+ * Escape a string for use as a literal inside a RegExp source.
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a reversible JS marker comment for a replacement of `original`.
+ */
+export function reversibleMarker(
+  marker: string,
+  codename: string,
+  replacement: string,
+  original: string
+): string {
+  const encoded = Buffer.from(original, 'utf8').toString('base64');
+  return `/*${marker}:${codename}@${replacement.length}:${encoded}*/`;
+}
+
+/**
+ * Replace the matched text (at `match.index` when known, else the first
+ * occurrence of `match[0]`) with `replacement` followed by a reversible
+ * marker.
+ */
+function applyReversible(
+  content: string,
+  match: RegExpMatchArray,
+  marker: string,
+  codename: string,
+  replacement: string
+): string {
+  const patched = replacement + reversibleMarker(marker, codename, replacement, match[0]);
+  // Patch the matched occurrence itself, not the first text that looks like it
+  const start = match.index;
+  if (start !== undefined && content.startsWith(match[0], start)) {
+    return content.slice(0, start) + patched + content.slice(start + match[0].length);
+  }
+  // Function form so `$` sequences in minified names are not interpreted
+  return content.replace(match[0], () => patched);
+}
+
+/**
+ * Undo every reversible enable / force-off / value patch for a gate, restoring the
+ * original text recorded in its marker.
+ *
+ * Patches written before markers carried the original (plain
+ * `SLASH*MARKER:codename*SLASH`) are left in place — callers should check
+ * the result for remaining markers.
+ */
+export function restoreFromMarkers(content: string, codename: string): string {
+  const pattern = new RegExp(
+    `/\\*(?:${[GATE_FORCE_OFF_MARKER, GATE_VALUE_MARKER, GATE_PATCH_MARKER].map(escapeRegExp).join('|')}):` +
+      `${escapeRegExp(codename)}@(\\d+):([A-Za-z0-9+/=]*)\\*/`,
+    'g'
+  );
+  const found = [...content.matchAll(pattern)];
+
+  // Restore back to front so earlier offsets stay valid
+  let restored = content;
+  for (const m of found.reverse()) {
+    const markerStart = m.index ?? 0;
+    const start = markerStart - Number(m[1]);
+    if (start < 0) continue;
+    const original = Buffer.from(m[2], 'base64').toString('utf8');
+    restored = restored.slice(0, start) + original + restored.slice(markerStart + m[0].length);
+  }
+  return restored;
+}
+
+/**
+ * The enable or force-off patches that `patched` records for `codenames`,
+ * read back from their reversible markers. Every such marker must be new
+ * in `patched`: offsets are given in the text before the patches were
+ * applied, shifted back by the growth of each earlier one.
+ */
+export function reversibleChanges(
+  patched: string,
+  codenames: string[],
+  mode: Exclude<GatePatchMode, 'value'>
+): PlannedChange[] {
+  if (codenames.length === 0) return [];
+  const marker = mode === 'force-off' ? GATE_FORCE_OFF_MARKER : GATE_PATCH_MARKER;
+  const pattern = new RegExp(
+    `/\\*${escapeRegExp(marker)}:(${codenames.map(escapeRegExp).join('|')})@(\\d+):([A-Za-z0-9+/=]*)\\*/`,
+    'g'
+  );
+
+  const changes: PlannedChange[] = [];
+  let growth = 0;
+  for (const m of patched.matchAll(pattern)) {
+    const start = (m.index ?? 0) - Number(m[2]);
+    if (start < 0) continue;
+    const original = Buffer.from(m[3], 'base64').toString('utf8');
+    const replacement = patched.slice(start, (m.index ?? 0) + m[0].length);
+    changes.push({
+      codename: m[1],
+      mode,
+      offset: start - growth,
+      original,
+      replacement,
+      originalBytes: Buffer.byteLength(original, 'utf8'),
+      replacementBytes: Buffer.byteLength(replacement, 'utf8'),
+    });
+    growth += replacement.length - original.length;
+  }
+  return changes;
+}
+
+/**
+ * Check whether a data gate carries our value marker (JS or binary form).
+ */
+export function hasValueMarker(content: string, codename: string): boolean {
+  return (
+    content.includes(`${GATE_VALUE_MARKER}:${codename}`) ||
+    content.includes(`${BINARY_VALUE_MARKER}:${codename}`)
+  );
+}
+
+/**
+ * Regex matching a Statsig accessor call for a flag, e.g.
+ * `W9("tengu_crystal_beam",{})` or `Q.getGate("tengu_x",!1)`. The whole
+ * member chain is matched so a replacement never leaves a dangling `a.`.
+ * Defaults containing parentheses are not matched.
+ */
+export function accessorCallRegex(flag: string, flags = ''): RegExp {
+  return new RegExp(
+    `(?<![\\w$.])[\\w$]+(?:\\.[\\w$]+)*\\("${escapeRegExp(flag)}",[^()]*\\)`,
+    flags
+  );
+}
+
+/**
+ * accessorCallRegex() for calls with a boolean default only, e.g.
+ * `W9("tengu_speculation",!1)`. Inline gates are matched with this, so a
+ * telemetry call with the same flag such as `logEvent("tengu_x",{ms:3})`
+ * is never rewritten.
+ */
+export function booleanAccessorCallRegex(flag: string, flags = ''): RegExp {
+  return new RegExp(
+    `(?<![\\w$.])[\\w$]+(?:\\.[\\w$]+)*\\("${escapeRegExp(flag)}",!(?:0|1)\\)`,
+    flags
+  );
+}
+
+/**
+ * Serialize a value as a JS literal for `gates set`.
+ *
+ * Uses JSON (a subset of JS) with non-ASCII characters escaped so the
+ * literal is byte-for-byte the same in UTF-8 bundles and latin1 binaries.
+ * Throws when the value has no JSON representation.
+ */
+export function toJsLiteral(value: unknown): string {
+  const json = JSON.stringify(value);
+  if (json === undefined) {
+    throw new Error('Value must be JSON-serializable (null, boolean, number, string, array or object)');
+  }
+  return json.replace(
+    /[\u007f-\uffff]/g,
+    (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+}
+
+/**
+ * The expression that replaces a data gate's accessor call. Parenthesized
+ * so object literals stay expressions wherever the call appeared.
+ */
+export function valueReplacement(literal: string): string {
+  return `(${literal})`;
+}
+
+/**
+ * Replace a data gate's accessor call with a literal, followed by a
+ * reversible value marker.
+ */
+export function injectValue(
+  content: string,
+  match: RegExpMatchArray,
+  codename: string,
+  literal: string
+): string {
+  return applyReversible(content, match, GATE_VALUE_MARKER, codename, valueReplacement(literal));
+}
+
+/**
+ * Read back the literal injected into a JS bundle with injectValue().
+ */
+export function injectedValue(content: string, codename: string): string | undefined {
+  const marker = `/*${GATE_VALUE_MARKER}:${codename}@`;
+  const markerStart = content.indexOf(marker);
+  if (markerStart === -1) return undefined;
+  const length = Number(content.slice(markerStart + marker.length).match(/^\d+/)?.[0]);
+  if (!length || length > markerStart) return undefined;
+  return content.slice(markerStart - length + 1, markerStart - 1);
+}
+
+/**
+ * Create patchFn / unpatchFn / semanticReplacement for a gate whose
+ * patched form is the expanded template followed by a reversible JS
+ * marker. When `forceOffTemplate` is given the gate can also be forced off.
+ */
+export function templatePatcher(
+  codename: string,
+  template: string,
+  forceOffTemplate?: string
+): GatePatchFns {
+  const fns: GatePatchFns = {
+    patchFn(content: string, match: RegExpMatchArray): string {
+      return applyReversible(
+        content, match, GATE_PATCH_MARKER, codename, expandTemplate(template, match)
+      );
+    },
+    unpatchFn(content: string): string {
+      return restoreFromMarkers(content, codename);
+    },
+    semanticReplacement(match: RegExpMatchArray): string {
+      return expandTemplate(template, match);
+    },
+  };
+
+  if (forceOffTemplate) {
+    fns.forceOffFn = (content: string, match: RegExpMatchArray): string =>
+      applyReversible(
+        content, match, GATE_FORCE_OFF_MARKER, codename, expandTemplate(forceOffTemplate, match)
+      );
+    fns.forceOffReplacement = (match: RegExpMatchArray): string =>
+      expandTemplate(forceOffTemplate, match);
+  }
+
+  return fns;
+}
+
+/**
+ * Create patch functions for Tier 5 inline gates that have no wrapper
+ * function. Every call site matching `pattern` (typically
+ * booleanAccessorCallRegex(flag)) is rewritten to `(!0)`, or `offReplacement`
+ * (default `(!1)`) when forced off, each followed by its own reversible
+ * marker.
+ *
+ * The returned `callSiteRegex` is a global copy of `pattern`; use it to
+ * count or locate call sites.
+ */
+export function callSitePatcher(
+  codename: string,
+  pattern: RegExp,
+  offReplacement: string = CALL_SITE_FALSE
+): GatePatchFns & Pick<FeatureGate, 'callSiteRegex'> {
+  const callSiteRegex = new RegExp(
+    pattern.source,
+    pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+  );
+  const rewriteAll = (content: string, marker: string, replacement: string): string =>
+    content.replace(
+      callSiteRegex,
+      (site) => replacement + reversibleMarker(marker, codename, replacement, site)
+    );
+
+  return {
+    callSiteRegex,
+    patchFn: (content: string) => rewriteAll(content, GATE_PATCH_MARKER, CALL_SITE_TRUE),
+    unpatchFn: (content: string) => restoreFromMarkers(content, codename),
+    semanticReplacement: () => CALL_SITE_TRUE,
+    forceOffFn: (content: string) => rewriteAll(content, GATE_FORCE_OFF_MARKER, offReplacement),
+    forceOffReplacement: () => offReplacement,
+  };
+}
+
+/**
+ * A data gate as a call-site gate that is forced off by rewriting every
+ * accessor call (its valueRegex) to `(null)`. Only the force-off half of
+ * callSitePatcher() is taken: a data gate has nothing to enable.
+ * Gates without a valueRegex are returned unchanged.
+ */
+export function nullCallSites(gate: FeatureGate): FeatureGate {
+  if (!gate.valueRegex) return gate;
+  const { callSiteRegex, forceOffFn, forceOffReplacement } = callSitePatcher(
+    gate.codename, gate.valueRegex, CALL_SITE_NULL
+  );
+  return { ...gate, callSiteRegex, forceOffFn, forceOffReplacement };
+}
+
+/**
+ * Count the call sites a call-site gate would rewrite in `content`.
+ * Returns undefined for gates without a callSiteRegex.
+ */
+export function countCallSites(content: string, gate: FeatureGate): number | undefined {
+  if (!gate.callSiteRegex) return undefined;
+  return content.match(gate.callSiteRegex)?.length ?? 0;
+}
+
+/**
+ * Every match of a gate's pattern in `content`, in order: the call sites
+ * for call-site gates, otherwise each detectRegex match. For 'value',
+ * every accessor call a value patch rewrites (valueRegex).
+ */
+export function findGateMatches(
+  content: string,
+  gate: FeatureGate,
+  kind: 'patch' | 'value' = 'patch'
+): RegExpMatchArray[] {
+  const pattern = kind === 'value' ? gate.valueRegex : gate.callSiteRegex ?? gate.detectRegex;
+  if (!pattern) return [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  return [...content.matchAll(regex)];
+}
+
+/**
+ * The accessor calls a value patch rewrites: all of them, so no read of
+ * the flag is left at the server value, or the one `occurrence` picks.
+ */
+export function pickValueMatches(
+  gate: FeatureGate,
+  matches: RegExpMatchArray[],
+  occurrence?: number
+): { matches: RegExpMatchArray[]; error?: string } {
+  if (occurrence === undefined) return { matches };
+  const { match, error } = pickGateMatch(gate, matches, occurrence);
+  return { matches: match ? [match] : [], error };
+}
+
+/**
+ * Pick the detectRegex match to patch. A gate whose pattern matches more
+ * than one place is ambiguous — patching the first hit could rewrite the
+ * wrong function — so `occurrence` (0-based, in bundle order) must say
+ * which one. Call-site gates patch every site and are never ambiguous.
+ *
+ * Returns a null match (and no error) when the pattern is not found.
+ */
+export function selectGateMatch(
+  content: string,
+  gate: FeatureGate,
+  occurrence?: number
+): { match: RegExpMatchArray | null; error?: string } {
+  return pickGateMatch(gate, findGateMatches(content, gate), occurrence);
+}
+
+/**
+ * selectGateMatch() for matches that are already known, e.g. from a
+ * bundle scan.
+ */
+export function pickGateMatch(
+  gate: FeatureGate,
+  matches: RegExpMatchArray[],
+  occurrence?: number
+): { match: RegExpMatchArray | null; error?: string } {
+  if (matches.length === 0 || gate.callSiteRegex) {
+    return { match: matches[0] ?? null };
+  }
+
+  if (occurrence === undefined) {
+    if (matches.length === 1) return { match: matches[0] };
+    return {
+      match: null,
+      error:
+        `Gate "${gate.codename}" is ambiguous: its pattern matches ${matches.length} places ` +
+        `(offsets ${matches.map((m) => m.index).join(', ')}). ` +
+        `Pick one with --occurrence <0-${matches.length - 1}>.`,
+    };
+  }
+
+  const match = matches[occurrence];
+  if (!Number.isInteger(occurrence) || !match) {
+    return {
+      match: null,
+      error:
+        `Gate "${gate.codename}" has no occurrence ${occurrence}: its pattern matches ` +
+        `${matches.length} place${matches.length === 1 ? '' : 's'}.`,
+    };
+  }
+  return { match };
+}
+
+/**
+ * Create standard patch functions for gates whose patched form is
+ * `function NAME(){return!0}` and forced-off form `function NAME(){return!1}`.
+ *
+ * The detectRegex must capture the function name in group 1.
+ */
+export function returnTruePatcher(codename: string): GatePatchFns {
+  return templatePatcher(codename, RETURN_TRUE_TEMPLATE, RETURN_FALSE_TEMPLATE);
+}
+
+/**
+ * Create patch functions for gates that guard the rest of a function with
+ * `if(!gate(...))return;` — the guard is dropped so the body always runs.
+ * Forcing the gate off returns before the body instead.
+ *
+ * The detectRegex must capture the function name in group 1 and match
+ * through the end of the guard.
+ */
+export function stripGuardPatcher(codename: string): GatePatchFns {
+  return templatePatcher(codename, STRIP_GUARD_TEMPLATE, EARLY_RETURN_TEMPLATE);
+}
+
+/**
+ * Identity patch functions for detection-only gates.
+ */
+export function detectionOnly(): Pick<FeatureGate, 'patchFn' | 'unpatchFn'> {
+  return {
+    patchFn: (c: string) => c,
+    unpatchFn: (c: string) => c,
+  };
+}
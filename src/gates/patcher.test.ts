@@ -3,10 +3,13 @@ import * as fs from "fs";
 import {
   enableGate,
   disableGate,
+  forceOffGate,
+  setGateValue,
   enableAllGates,
   resetGates,
+  installOverridesHook,
 } from "./patcher.js";
-import { GATE_PATCH_MARKER } from "./registry.js";
+import { GATE_PATCH_MARKER, GATE_FORCE_OFF_MARKER } from "./registry.js";
 import { findCli } from "../cli-finder.js";
 
 // Mock cli-finder
@@ -16,6 +19,7 @@ vi.mock("../cli-finder.js", () => ({
     version: "2.1.63",
     isPatched: false,
   })),
+  getCliVersion: vi.fn(() => "2.1.63"),
 }));
 
 // Mock fs
@@ -197,6 +201,61 @@ describe("disableGate", () => {
     expect(result.gatesChanged[0].enabled).toBe(false);
   });
 
+  it("should restore the original code from the marker without a backup", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_FULL_BUNDLE);
+    let patched = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      patched = content as string;
+    });
+    enableGate("keybinding-customization", {
+      cliPath: "/mock/claude/cli.js",
+      backup: false,
+    });
+
+    vi.mocked(fs.readFileSync).mockReturnValue(patched);
+    let restored = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      restored = content as string;
+    });
+
+    const result = disableGate("keybinding-customization", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(true);
+    expect(restored).toBe(MOCK_FULL_BUNDLE);
+    expect(fs.copyFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should fail loudly when the patch cannot be reversed and there is no backup", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_PATCHED_KEYBINDING);
+
+    const result = disableGate("keybinding-customization", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("does not record the original code");
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should not restore a backup that lacks the gate's original code", () => {
+    vi.mocked(fs.readFileSync).mockImplementation((path) => {
+      if (String(path).includes("backup")) return "var other=1;";
+      return MOCK_PATCHED_KEYBINDING;
+    });
+    vi.mocked(fs.readdirSync).mockReturnValue([
+      "cli.js.backup.1706800000000",
+    ] as unknown as ReturnType<typeof fs.readdirSync>);
+
+    const result = disableGate("keybinding-customization", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(false);
+    expect(fs.copyFileSync).not.toHaveBeenCalled();
+  });
+
   it("should fail for unknown gate", () => {
     const result = disableGate("nonexistent", {
       cliPath: "/mock/claude/cli.js",
@@ -207,6 +266,397 @@ describe("disableGate", () => {
   });
 });
 
+describe("forceOffGate", () => {
+  const MOCK_AMBER_FLINT = `var x=1;function q_(){if(!TR(process.env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS)&&!JR7())return!1;if(!W9("tengu_amber_flint",!0))return!1;return!0}var y=2;`;
+
+  it("should rewrite a default-on gate to return false with the force-off marker", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_AMBER_FLINT);
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+    let writtenContent = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      writtenContent = content as string;
+    });
+
+    const result = forceOffGate("amber-flint", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].enabled).toBe(false);
+    expect(result.gatesChanged[0].forcedOff).toBe(true);
+    const original = MOCK_AMBER_FLINT.slice(8, -8);
+    expect(writtenContent).toBe(
+      `var x=1;function q_(){return!1}/*${GATE_FORCE_OFF_MARKER}:amber-flint@23:${Buffer.from(original).toString("base64")}*/var y=2;`,
+    );
+    expect(writtenContent).not.toContain(`${GATE_PATCH_MARKER}:`);
+  });
+
+  it("should report already forced-off gates without re-patching", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      `function q_(){return!1}/*${GATE_FORCE_OFF_MARKER}:amber-flint*/`,
+    );
+
+    const result = forceOffGate("amber-flint", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].forcedOff).toBe(true);
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to force off an enabled gate", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_PATCHED_KEYBINDING);
+
+    const result = forceOffGate("keybinding-customization", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already enabled");
+  });
+
+  it("should let disableGate restore a forced-off gate from backup", () => {
+    vi.mocked(fs.readFileSync).mockImplementation((path) => {
+      if (String(path).includes("backup")) return MOCK_AMBER_FLINT;
+      return `function q_(){return!1}/*${GATE_FORCE_OFF_MARKER}:amber-flint*/`;
+    });
+    vi.mocked(fs.readdirSync).mockReturnValue([
+      "cli.js.backup.1706800000000",
+    ] as unknown as ReturnType<typeof fs.readdirSync>);
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+
+    const result = disableGate("amber-flint", {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(true);
+    expect(fs.copyFileSync).toHaveBeenCalledWith(
+      "/mock/claude/cli.js.backup.1706800000000",
+      "/mock/claude/cli.js",
+    );
+  });
+  it("should force every accessor call of a data gate to null and restore it on disable", () => {
+    const twoCalls = 'var t=W9("tengu_crystal_beam",{}).budget;var u=W9("tengu_crystal_beam",{}).mode;';
+    vi.mocked(fs.readFileSync).mockReturnValue(twoCalls);
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+    const config = { cliPath: "/mock/claude/cli.js", backup: false };
+
+    const result = forceOffGate("crystal-beam", config);
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0]).toMatchObject({ forcedOff: true, callSites: 2 });
+    expect(written.match(new RegExp(`\\(null\\)/\\*${GATE_FORCE_OFF_MARKER}:crystal-beam@`, "g"))).toHaveLength(2);
+    expect(written).not.toContain('W9("tengu_crystal_beam"');
+
+    vi.mocked(fs.readFileSync).mockReturnValue(written);
+    expect(disableGate("crystal-beam", config).success).toBe(true);
+    expect(written).toBe(twoCalls);
+  });
+
+  it("should refuse to force off a data gate that is set to a value", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue('x=W9("tengu_swann_brevity",null);');
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+    const config = { cliPath: "/mock/claude/cli.js", backup: false };
+    setGateValue("swann-brevity", "strict", config);
+    vi.mocked(fs.readFileSync).mockReturnValue(written);
+
+    const result = forceOffGate("swann-brevity", config);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("already set to a value");
+  });
+});
+
+describe("call-site gates", () => {
+  const MOCK_SPECULATION =
+    'if(W9("tengu_speculation",!1))a();var s=W9("tengu_speculation",!1)?1:0;';
+
+  it("should patch every call site and report how many changed", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_SPECULATION);
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+
+    const result = enableGate("speculation", {
+      cliPath: "/mock/claude/cli.js",
+      backup: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].callSites).toBe(2);
+    expect(written).not.toContain('W9("tengu_speculation"');
+    expect(written.startsWith("if((!0)/*")).toBe(true);
+  });
+
+  it("should leave event-logger calls with the same flag untouched", () => {
+    const logged = 'logEvent("tengu_speculation",{ms:3});';
+    vi.mocked(fs.readFileSync).mockReturnValue(`${MOCK_SPECULATION}${logged}`);
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+
+    const result = enableGate("speculation", {
+      cliPath: "/mock/claude/cli.js",
+      backup: false,
+    });
+
+    expect(result.gatesChanged[0].callSites).toBe(2);
+    expect(written.endsWith(logged)).toBe(true);
+  });
+
+  it("should fail when no call site is found", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue('var f="tengu_speculation";');
+
+    const result = enableGate("speculation", { cliPath: "/mock/claude/cli.js" });
+
+    expect(result.success).toBe(false);
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe("gate dependencies", () => {
+  const MOCK_CCR_BRIDGE = 'function Ai(){return W9("tengu_ccr_bridge",!1)}';
+  const MOCK_COPPER_BRIDGE =
+    'function kx8(){if(!W9("tengu_copper_bridge",!1))return;return"wss://bridge"}';
+
+  /** Serve the bundle from memory so sequential patches see each other */
+  function mockBundle(initial: string): () => string {
+    let current = initial;
+    vi.mocked(fs.readFileSync).mockImplementation(() => current);
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      current = content as string;
+    });
+    return () => current;
+  }
+
+  it("should enable required gates first", () => {
+    const bundle = mockBundle(`${MOCK_CCR_BRIDGE};${MOCK_COPPER_BRIDGE}`);
+
+    const result = enableGate("copper-bridge", { cliPath: "/mock/claude/cli.js" });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged.map((g) => [g.codename, g.requiredBy])).toEqual([
+      ["ccr-bridge", "copper-bridge"],
+      ["copper-bridge", undefined],
+    ]);
+    expect(bundle()).toContain(`${GATE_PATCH_MARKER}:ccr-bridge`);
+    expect(bundle()).toContain(`${GATE_PATCH_MARKER}:copper-bridge`);
+    // One backup for the whole operation
+    expect(fs.copyFileSync).toHaveBeenCalledOnce();
+  });
+
+  it("should refuse when dependency resolution is off and a dependency is off", () => {
+    const bundle = mockBundle(`${MOCK_CCR_BRIDGE};${MOCK_COPPER_BRIDGE}`);
+
+    const result = enableGate("copper-bridge", {
+      cliPath: "/mock/claude/cli.js",
+      resolveDependencies: false,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('requires "ccr-bridge"');
+    expect(bundle()).not.toContain(GATE_PATCH_MARKER);
+  });
+
+  it("should fail with the dependency's reason and leave nothing half-enabled", () => {
+    const bundle = mockBundle(MOCK_COPPER_BRIDGE);
+
+    const result = enableGate("copper-bridge", { cliPath: "/mock/claude/cli.js" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Could not enable "ccr-bridge" (required by "copper-bridge")');
+    expect(bundle()).toBe(MOCK_COPPER_BRIDGE);
+  });
+
+  it("should treat dependencies that default to on as satisfied", () => {
+    const onByDefault = MOCK_CCR_BRIDGE.replace("!1", "!0");
+    const bundle = mockBundle(`${onByDefault};${MOCK_COPPER_BRIDGE}`);
+
+    const result = enableGate("copper-bridge", {
+      cliPath: "/mock/claude/cli.js",
+      resolveDependencies: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged.map((g) => g.codename)).toEqual(["copper-bridge"]);
+    expect(bundle().startsWith(`${onByDefault};`)).toBe(true);
+  });
+
+  it("should treat inline dependencies without call sites as satisfied", () => {
+    mockBundle(
+      'function $IR(){if(TR(process.env.ENABLE_CLAUDE_CODE_SM_COMPACT))return!0;if(TR(process.env.DISABLE_CLAUDE_CODE_SM_COMPACT))return!1;let T=W9("tengu_session_memory",!1),R=W9("tengu_sm_compact",!1);return T&&R}',
+    );
+
+    const result = enableGate("session-memory", { cliPath: "/mock/claude/cli.js" });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged.map((g) => g.codename)).toEqual(["session-memory"]);
+  });
+});
+
+describe("ambiguous gates", () => {
+  const MOCK_AMBER = 'function Aq(){return W9("tengu_amber_quartz",!1)}';
+  const AMBIGUOUS = `${MOCK_AMBER};var z=1;${MOCK_AMBER}`;
+
+  let written: string;
+  beforeEach(() => {
+    written = "";
+    vi.mocked(fs.readFileSync).mockReturnValue(AMBIGUOUS);
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+  });
+
+  it("should refuse to guess which match to patch", () => {
+    const result = enableGate("amber-quartz", { cliPath: "/mock/claude/cli.js" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'Gate "amber-quartz" is ambiguous: its pattern matches 2 places (offsets 0, 58). ' +
+        "Pick one with --occurrence <0-1>.",
+    );
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+  });
+
+  it("should patch the chosen occurrence, even when its text repeats", () => {
+    const result = enableGate("amber-quartz", {
+      cliPath: "/mock/claude/cli.js",
+      backup: false,
+      occurrence: 1,
+    });
+
+    expect(result.success).toBe(true);
+    expect(written.startsWith(`${MOCK_AMBER};var z=1;function Aq(){return!0}/*`)).toBe(true);
+    expect(disableGate("amber-quartz", { cliPath: "/mock/claude/cli.js" }).success).toBe(true);
+  });
+
+  it("should reject an occurrence that does not exist", () => {
+    const result = forceOffGate("amber-quartz", { cliPath: "/mock/claude/cli.js", occurrence: 2 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("has no occurrence 2");
+  });
+
+  it("should skip ambiguous gates when enabling all", () => {
+    const result = enableAllGates({ cliPath: "/mock/claude/cli.js", backup: false });
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged).toEqual([
+      expect.objectContaining({ codename: "amber-quartz", enabled: false, matchOffsets: [0, 58] }),
+    ]);
+    expect(written).toBe(AMBIGUOUS);
+  });
+});
+
+describe("setGateValue", () => {
+  const MOCK_CRYSTAL_BEAM = 'var t=W9("tengu_crystal_beam",{}).budget;';
+
+  it("should replace the accessor call with the literal", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_CRYSTAL_BEAM);
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+
+    const result = setGateValue(
+      "crystal-beam",
+      { budget: 32000 },
+      { cliPath: "/mock/claude/cli.js", backup: false },
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.gatesChanged[0].value).toBe('{"budget":32000}');
+    expect(written.startsWith('var t=({"budget":32000})/*')).toBe(true);
+    expect(written.endsWith("*/.budget;")).toBe(true);
+  });
+
+  it("should replace a previously set value and restore on disable", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(MOCK_CRYSTAL_BEAM);
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+    const config = { cliPath: "/mock/claude/cli.js", backup: false };
+
+    setGateValue("crystal-beam", { budget: 1 }, config);
+    vi.mocked(fs.readFileSync).mockReturnValue(written);
+    setGateValue("crystal-beam", { budget: 2 }, config);
+    expect(written).toContain('({"budget":2})');
+    expect(written).not.toContain('"budget":1');
+
+    vi.mocked(fs.readFileSync).mockReturnValue(written);
+    const result = disableGate("crystal-beam", config);
+    expect(result.success).toBe(true);
+    expect(written).toBe(MOCK_CRYSTAL_BEAM);
+  });
+
+  it("should pin every accessor call, or the one --occurrence picks", () => {
+    const twoCalls = 'var t=W9("tengu_crystal_beam",{}).budget;var u=W9("tengu_crystal_beam",{}).mode;';
+    vi.mocked(fs.readFileSync).mockReturnValue(twoCalls);
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+    const config = { cliPath: "/mock/claude/cli.js", backup: false };
+
+    const result = setGateValue("crystal-beam", { budget: 1 }, config);
+    expect(result.gatesChanged[0].callSites).toBe(2);
+    expect(written).not.toContain('W9("tengu_crystal_beam"');
+    expect(written.match(/\(\{"budget":1\}\)/g)).toHaveLength(2);
+
+    setGateValue("crystal-beam", { budget: 2 }, { ...config, occurrence: 1 });
+    expect(written.startsWith('var t=W9("tengu_crystal_beam",{}).budget;var u=({"budget":2})/*')).toBe(true);
+
+    written = "";
+    const refused = setGateValue("crystal-beam", { budget: 3 }, { ...config, occurrence: 2 });
+    expect(refused.success).toBe(false);
+    expect(refused.error).toContain('Gate "crystal-beam" has no occurrence 2');
+    expect(written).toBe("");
+  });
+
+  it("should escape non-ASCII characters in the literal", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      'x=W9("tengu_swann_brevity",null);',
+    );
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+
+    setGateValue("swann-brevity", "café", {
+      cliPath: "/mock/claude/cli.js",
+      backup: false,
+    });
+
+    expect(written.startsWith('x=("caf\\u00e9")')).toBe(true);
+  });
+
+  it("should reject gates that do not take a value", () => {
+    const result = setGateValue("keybinding-customization", true, {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("not a data gate");
+  });
+
+  it("should reject values with no JSON representation", () => {
+    const result = setGateValue("crystal-beam", undefined, {
+      cliPath: "/mock/claude/cli.js",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("JSON-serializable");
+  });
+});
+
 describe("enableAllGates", () => {
   it("should enable all patchable gates", () => {
     vi.mocked(fs.readFileSync).mockReturnValue(MOCK_FULL_BUNDLE);
@@ -231,6 +681,25 @@ describe("enableAllGates", () => {
     expect(fs.copyFileSync).toHaveBeenCalledOnce();
   });
 
+  it("should leave gates that are forced off alone and report them", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue('if(W9("tengu_speculation",!1))a();');
+    let written = "";
+    vi.mocked(fs.writeFileSync).mockImplementation((_path, content) => {
+      written = content as string;
+    });
+    forceOffGate("speculation", { cliPath: "/mock/claude/cli.js", backup: false });
+    const forcedOff = `${written}var s=W9("tengu_speculation",!1);`;
+    vi.mocked(fs.readFileSync).mockReturnValue(forcedOff);
+
+    const result = enableAllGates({ cliPath: "/mock/claude/cli.js", backup: false });
+
+    expect(result.gatesChanged.find((g) => g.codename === "speculation")).toMatchObject({
+      enabled: false,
+      forcedOff: true,
+    });
+    expect(written).toBe(forcedOff);
+  });
+
   it("should fail when CLI not found", () => {
     vi.mocked(findCli).mockReturnValueOnce(null);
 
@@ -273,3 +742,24 @@ describe("resetGates", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("installOverridesHook", () => {
+  it("should restore the backup if the write fails", () => {
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      `function W9(T,R){return R}${MOCK_KEYBINDING_GATE_CONTENT.replace("g9", "W9")}`,
+    );
+    vi.mocked(fs.copyFileSync).mockImplementation(() => {});
+    vi.mocked(fs.writeFileSync).mockImplementation(() => {
+      throw new Error("EACCES");
+    });
+
+    const result = installOverridesHook({ cliPath: "/mock/claude/cli.js" });
+
+    expect(result.success).toBe(false);
+    expect(fs.copyFileSync).toHaveBeenCalledTimes(2);
+    expect(fs.copyFileSync).toHaveBeenLastCalledWith(
+      expect.stringContaining("/mock/claude/cli.js.backup."),
+      "/mock/claude/cli.js",
+    );
+  });
+});
@@ -3,15 +3,82 @@
  *
  * Core logic for enabling/disabling feature gates in the Claude Code
  * JS bundle. Uses the same backup strategy as the tool-injection patcher
- * but with a distinct marker for gate patches.
+ * but with a distinct marker for gate patches. Patches are reversible on
+ * their own (the marker records the original text), so backups are only
+ * a fallback for patches made by older versions.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import type { GateResult, GateStatus, GatePatchConfig } from '../types.js';
-import { findPatchableGate, getPatchableGates, GATE_PATCH_MARKER, BINARY_PATCH_MARKER } from './registry.js';
-import { resolveBundle as resolveBundleFromDetector } from './detector.js';
-import { enableBinaryGate, enableAllBinaryGates } from './binary-patcher.js';
+import type {
+  FeatureGate,
+  GateResult,
+  GateStatus,
+  GatePatchConfig,
+  GatePatchMode,
+  OverridesHookStatus,
+  PlannedChange,
+} from '../types.js';
+import {
+  findForceOffGate,
+  findPatchableGate,
+  findValueGate,
+  getAllGates,
+  getPatchableGates,
+  GATE_PATCH_MARKER,
+} from './registry.js';
+import { findConflicts, resolveEnableOrder } from './dependencies.js';
+import {
+  bundleSource,
+  compiledDefault,
+  resolveBundle as resolveBundleFromDetector,
+} from './detector.js';
+import {
+  enableBinaryGate,
+  enableAllBinaryGates,
+  forceOffBinaryGate,
+  disableBinaryGate,
+  setBinaryGateValue,
+} from './binary-patcher.js';
+import {
+  BINARY_FORCE_OFF_MARKER,
+  BINARY_PATCH_MARKER,
+  BINARY_VALUE_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  countCallSites,
+  findGateMatches,
+  hasEnableMarker,
+  hasForceOffMarker,
+  hasValueMarker,
+  injectValue,
+  injectedValue,
+  pickValueMatches,
+  restoreFromMarkers,
+  reversibleChanges,
+  selectGateMatch,
+  toJsLiteral,
+} from './patch-kinds.js';
+import { hasScannedMarker, indexBundle, matchBundle, scanBundle } from './scanner.js';
+import { explainGateAbsence, gateForVersion } from './versions.js';
+import {
+  findAccessorDefinition,
+  getOverridesPath,
+  hasOverridesHook,
+  hookedAccessor,
+  injectOverridesHook,
+  stripOverridesHook,
+} from './overrides.js';
+
+/** Markers left by any patch: enable, force-off or value, JS or binary */
+const ANY_PATCH_MARKER = [
+  GATE_PATCH_MARKER,
+  BINARY_PATCH_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  BINARY_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  BINARY_VALUE_MARKER,
+];
 
 /**
  * Create a timestamped backup of the bundle
@@ -43,61 +110,190 @@ function writeBundle(bundlePath: string, content: string): boolean {
  *
  * Supported names: 'swarm', 'swarm-mode', 'tengu_brass_pebble',
  * 'team', 'team-mode', etc.
+ *
+ * Gates the target `requires` are enabled first (transitively), unless
+ * already on (patched, or compiled to default `!0`), and are reported
+ * with `requiredBy`; if one of them fails, the gates enabled by
+ * this call are disabled again. With `resolveDependencies: false` the
+ * call refuses instead when a dependency is off. Gates that conflict with
+ * an enabled gate are refused.
  */
 export function enableGate(nameOrCodename: string, config?: GatePatchConfig): GateResult {
-  const gate = findPatchableGate(nameOrCodename);
-  if (!gate) {
+  const registered = findPatchableGate(nameOrCodename);
+  if (!registered) {
+    return applyGatePatch(nameOrCodename, 'enable', config);
+  }
+
+  const order = resolveEnableOrder(registered);
+  if (order.error) {
+    return { success: false, error: order.error, gatesChanged: [] };
+  }
+
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
+  if (!bundle) {
     return {
       success: false,
-      error: `Unknown or unpatchable gate: "${nameOrCodename}". Use "gates" to list available gates.`,
+      error: 'Could not find Claude Code CLI. Install with: npm install -g @anthropic-ai/claude-code',
       gatesChanged: [],
     };
   }
 
-  const bundle = resolveBundleFromDetector(config?.cliPath);
-  if (!bundle) {
+  const source = bundleSource(bundle);
+  const scan = scanBundle(source, order.gates);
+  const enabled = getAllGates()
+    .filter((g) => hasScannedMarker(scan.markers, g.codename, GATE_PATCH_MARKER, BINARY_PATCH_MARKER))
+    .map((g) => g.codename);
+  for (const gate of order.gates) {
+    const conflicts = findConflicts(gate, [...enabled, ...order.gates.map((g) => g.codename)]);
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        error: `Gate "${gate.codename}" conflicts with "${conflicts.join('", "')}". Disable it first.`,
+        gatesChanged: [],
+      };
+    }
+  }
+
+  // Dependencies that are already on (patched, or compiled to default on
+  // and not forced off), or inline gates with nothing left to rewrite, are satisfied
+  const isOn = (g: FeatureGate): boolean =>
+    enabled.includes(g.codename) ||
+    (compiledDefault(source, g.name) === '!0' &&
+      !hasScannedMarker(scan.markers, g.codename, GATE_FORCE_OFF_MARKER, BINARY_FORCE_OFF_MARKER));
+  const pending = order.gates.filter(
+    (g) =>
+      g === registered ||
+      (!isOn(g) && (!g.callSiteRegex || scan.matches.get(g.codename)?.length !== 0))
+  );
+  const missing = pending.filter((g) => g !== registered).map((g) => g.codename);
+  if (missing.length > 0 && config?.resolveDependencies === false) {
     return {
       success: false,
-      error: 'Could not find Claude Code CLI. Install with: npm install -g @anthropic-ai/claude-code',
+      error: `Gate "${registered.codename}" requires "${missing.join('", "')}", which is off. Enable it first.`,
       gatesChanged: [],
     };
   }
 
-  // Route to binary patcher for native binaries
-  if (bundle.isBinary) {
-    return enableBinaryGate(nameOrCodename, config);
+  // A binary is read once and patched in place for every gate
+  const shared: GatePatchConfig = bundle.isBinary ? { ...config, binary: bundle } : { ...config };
+  const gatesChanged: GateStatus[] = [];
+  const planned: PlannedChange[] = [];
+  const enabledNow: string[] = [];
+  let backupPath: string | undefined;
+  for (const gate of pending) {
+    const result = applyGatePatch(gate.codename, 'enable', {
+      ...shared,
+      backup: enabledNow.length === 0 ? config?.backup : false,
+      occurrence: gate === registered ? config?.occurrence : undefined,
+    });
+    if (!result.success) {
+      // A dry run wrote nothing, so there is nothing to undo
+      for (const codename of config?.dryRun ? [] : enabledNow.reverse()) {
+        disableGate(codename, shared);
+      }
+      return {
+        success: false,
+        error:
+          gate === registered
+            ? result.error
+            : `Could not enable "${gate.codename}" (required by "${registered.codename}"): ${result.error}`,
+        gatesChanged: [],
+      };
+    }
+    backupPath ??= result.backupPath;
+    enabledNow.push(gate.codename);
+    for (const status of result.gatesChanged) {
+      gatesChanged.push(gate === registered ? status : { ...status, requiredBy: registered.codename });
+    }
+    for (const change of result.planned ?? []) {
+      planned.push(gate === registered ? change : { ...change, requiredBy: registered.codename });
+    }
   }
 
-  // Check if already patched (JS or binary marker)
-  if (
-    bundle.content.includes(`${GATE_PATCH_MARKER}:${gate.codename}`) ||
-    bundle.content.includes(`${BINARY_PATCH_MARKER}:${gate.codename}`)
-  ) {
+  return config?.dryRun
+    ? { success: true, gatesChanged, planned }
+    : { success: true, backupPath, gatesChanged };
+}
+
+/**
+ * Force a feature gate off, even when its compiled default is on
+ * (e.g. amber-flint reads `tengu_amber_flint` with a default of `!0`).
+ *
+ * Boolean wrappers are rewritten to `return!1`, inline call sites to
+ * `(!1)`, and every accessor call of a data gate to `(null)`.
+ * Use disableGate() to undo.
+ */
+export function forceOffGate(nameOrCodename: string, config?: GatePatchConfig): GateResult {
+  return applyGatePatch(nameOrCodename, 'force-off', config);
+}
+
+/**
+ * Pin a data gate (e.g. crystal-beam) to a JSON value by replacing its
+ * accessor calls with a literal:
+ *
+ *   setGateValue('crystal-beam', { budget: 32000 })
+ *   W9("tengu_crystal_beam",{})  →  ({"budget":32000})
+ *
+ * Every accessor call is pinned, or only the one `occurrence` picks.
+ * Setting a new value replaces the previous one. Use disableGate() to undo.
+ */
+export function setGateValue(
+  nameOrCodename: string,
+  value: unknown,
+  config?: GatePatchConfig
+): GateResult {
+  const gate = findValueGate(nameOrCodename);
+  if (!gate?.valueRegex) {
     return {
-      success: true,
-      gatesChanged: [
-        {
-          name: gate.name,
-          codename: gate.codename,
-          detected: true,
-          enabled: true,
-          envOverride: gate.envOverride,
-        },
-      ],
+      success: false,
+      error: `Gate "${nameOrCodename}" is not a data gate that accepts a value.`,
+      gatesChanged: [],
     };
   }
 
-  // Detect the gate pattern
-  const match = bundle.content.match(gate.detectRegex);
-  if (!match) {
+  let literal: string;
+  try {
+    literal = toJsLiteral(value);
+  } catch (err) {
     return {
       success: false,
-      error: `Gate pattern for "${gate.codename}" not found in this version of Claude Code.`,
+      error: err instanceof Error ? err.message : String(err),
+      gatesChanged: [],
+    };
+  }
+
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
+  if (!bundle) {
+    return {
+      success: false,
+      error: 'Could not find Claude Code CLI. Install with: npm install -g @anthropic-ai/claude-code',
+      gatesChanged: [],
+    };
+  }
+
+  if (bundle.isBinary) {
+    return setBinaryGateValue(nameOrCodename, value, { ...config, binary: bundle });
+  }
+
+  // Replace a previously set value rather than stacking literals
+  const content = restoreFromMarkers(bundle.content, gate.codename);
+  const { matches, error } = pickValueMatches(
+    gate, findGateMatches(content, gate, 'value'), config?.occurrence
+  );
+  if (error) {
+    return { success: false, error, gatesChanged: [] };
+  }
+  if (matches.length === 0) {
+    const reason = explainGateAbsence(gate, bundle.version);
+    return {
+      success: false,
+      error: reason
+        ? `Gate "${gate.codename}" is ${reason}.`
+        : `Accessor call for "${gate.codename}" not found in this version of Claude Code.`,
       gatesChanged: [],
     };
   }
 
-  // Create backup
   let backupPath: string | undefined;
   if (config?.backup !== false) {
     const bp = createBackup(bundle.path);
@@ -111,11 +307,12 @@ export function enableGate(nameOrCodename: string, config?: GatePatchConfig): Ga
     backupPath = bp;
   }
 
-  // Apply patch
-  const patched = gate.patchFn(bundle.content, match);
-
+  // Back to front, so the offsets of earlier calls stay valid
+  const patched = matches.reduceRight(
+    (text, match) => injectValue(text, match, gate.codename, literal),
+    content
+  );
   if (!writeBundle(bundle.path, patched)) {
-    // Attempt restore
     if (backupPath) {
       try {
         fs.copyFileSync(backupPath, bundle.path);
@@ -138,20 +335,198 @@ export function enableGate(nameOrCodename: string, config?: GatePatchConfig): Ga
         name: gate.name,
         codename: gate.codename,
         detected: true,
-        enabled: true,
+        enabled: false,
         envOverride: gate.envOverride,
+        value: literal,
+        callSites: matches.length,
       },
     ],
   };
 }
 
 /**
- * Disable a single feature gate (restore original behavior).
- * Prefers restoring from backup; falls back to unpatchFn.
+ * Apply an enable or force-off patch for one gate, routing native
+ * binaries to the binary patcher.
+ */
+function applyGatePatch(
+  nameOrCodename: string,
+  mode: Exclude<GatePatchMode, 'value'>,
+  config?: GatePatchConfig
+): GateResult {
+  const registered =
+    mode === 'force-off' ? findForceOffGate(nameOrCodename) : findPatchableGate(nameOrCodename);
+  if (!registered) {
+    return {
+      success: false,
+      error: `Unknown or unpatchable gate: "${nameOrCodename}". Use "gates" to list available gates.`,
+      gatesChanged: [],
+    };
+  }
+
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
+  if (!bundle) {
+    return {
+      success: false,
+      error: 'Could not find Claude Code CLI. Install with: npm install -g @anthropic-ai/claude-code',
+      gatesChanged: [],
+    };
+  }
+
+  // Route to binary patcher for native binaries
+  if (bundle.isBinary) {
+    return mode === 'force-off'
+      ? forceOffBinaryGate(nameOrCodename, { ...config, binary: bundle })
+      : enableBinaryGate(nameOrCodename, { ...config, binary: bundle });
+  }
+
+  const gate = gateForVersion(registered, bundle.version);
+  const patchFn = mode === 'force-off' ? gate.forceOffFn : gate.patchFn;
+  if (!patchFn) {
+    return {
+      success: false,
+      error: `Gate "${gate.codename}" cannot be forced off.`,
+      gatesChanged: [],
+    };
+  }
+
+  const status: GateStatus = {
+    name: gate.name,
+    codename: gate.codename,
+    detected: true,
+    enabled: mode === 'enable',
+    envOverride: gate.envOverride,
+  };
+  if (mode === 'force-off') status.forcedOff = true;
+
+  // Check if already in the requested state (JS or binary marker)
+  const isEnabled = hasEnableMarker(bundle.content, gate.codename);
+  const isForcedOff = hasForceOffMarker(bundle.content, gate.codename);
+  if ((mode === 'enable' && isEnabled) || (mode === 'force-off' && isForcedOff)) {
+    return { success: true, gatesChanged: [status] };
+  }
+  const isPinned = hasValueMarker(bundle.content, gate.codename);
+  if (isEnabled || isForcedOff || isPinned) {
+    const state = isEnabled ? 'enabled' : isForcedOff ? 'forced off' : 'set to a value';
+    return {
+      success: false,
+      error: `Gate "${gate.codename}" is already ${state}. Disable it first.`,
+      gatesChanged: [],
+    };
+  }
+
+  // Detect the gate pattern, refusing to guess between several matches
+  const { match, error } = selectGateMatch(bundle.content, gate, config?.occurrence);
+  if (error) {
+    return { success: false, error, gatesChanged: [] };
+  }
+  if (!match) {
+    const reason = explainGateAbsence(gate, bundle.version);
+    return {
+      success: false,
+      error: reason
+        ? `Gate "${gate.codename}" is ${reason}.`
+        : `Gate pattern for "${gate.codename}" not found in this version of Claude Code.`,
+      gatesChanged: [],
+    };
+  }
+
+  // Apply patch
+  const patched = patchFn(bundle.content, match);
+  const callSites = countCallSites(bundle.content, gate);
+  if (callSites !== undefined) status.callSites = callSites;
+  if (config?.dryRun) {
+    return {
+      success: true,
+      gatesChanged: [status],
+      planned: reversibleChanges(patched, [gate.codename], mode),
+    };
+  }
+
+  // Create backup
+  let backupPath: string | undefined;
+  if (config?.backup !== false) {
+    const bp = createBackup(bundle.path);
+    if (!bp) {
+      return {
+        success: false,
+        error: 'Could not create backup before patching.',
+        gatesChanged: [],
+      };
+    }
+    backupPath = bp;
+  }
+
+  if (!writeBundle(bundle.path, patched)) {
+    // Attempt restore
+    if (backupPath) {
+      try {
+        fs.copyFileSync(backupPath, bundle.path);
+      } catch {
+        // best effort
+      }
+    }
+    return {
+      success: false,
+      error: 'Could not write patched file.',
+      gatesChanged: [],
+    };
+  }
+
+  return {
+    success: true,
+    backupPath,
+    gatesChanged: [status],
+  };
+}
+
+/**
+ * Restore the bundle from the most recent backup that is clean for this
+ * gate: it must not carry our markers and must still contain the gate's
+ * original pattern (so a backup from another version is not used).
+ */
+function restoreGateFromBackup(
+  bundlePath: string,
+  gate: FeatureGate,
+  isBinary: boolean
+): boolean {
+  const dir = path.dirname(bundlePath);
+  const basename = path.basename(bundlePath);
+
+  try {
+    const backups = fs
+      .readdirSync(dir)
+      .filter((f) => f.startsWith(`${basename}.backup.`))
+      .sort()
+      .reverse();
+    if (backups.length === 0) return false;
+
+    const latestBackup = path.join(dir, backups[0]);
+    const backup = isBinary ? fs.readFileSync(latestBackup) : fs.readFileSync(latestBackup, 'utf8');
+    if (
+      hasScannedMarker(indexBundle(backup).markers, gate.codename, ...ANY_PATCH_MARKER) ||
+      matchBundle(backup, gate.detectRegex, gate.name).length === 0
+    ) {
+      return false;
+    }
+    fs.copyFileSync(latestBackup, bundlePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Disable a single feature gate (restore original behavior), undoing
+ * an enable, force-off or value patch.
+ *
+ * Restores the exact original text recorded by the patch (marker for JS,
+ * ledger for binaries). Patches that predate reversible markers fall back
+ * to a clean backup; if neither is possible this fails rather than
+ * reporting success.
  */
 export function disableGate(nameOrCodename: string, config?: GatePatchConfig): GateResult {
-  const gate = findPatchableGate(nameOrCodename);
-  if (!gate) {
+  const registered = findPatchableGate(nameOrCodename) ?? findValueGate(nameOrCodename);
+  if (!registered) {
     return {
       success: false,
       error: `Unknown or unpatchable gate: "${nameOrCodename}".`,
@@ -159,7 +534,7 @@ export function disableGate(nameOrCodename: string, config?: GatePatchConfig): G
     };
   }
 
-  const bundle = resolveBundleFromDetector(config?.cliPath);
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
   if (!bundle) {
     return {
       success: false,
@@ -167,19 +542,22 @@ export function disableGate(nameOrCodename: string, config?: GatePatchConfig): G
       gatesChanged: [],
     };
   }
-
-  // Check if it's even patched (JS or binary marker)
-  const isPatched =
-    bundle.content.includes(`${GATE_PATCH_MARKER}:${gate.codename}`) ||
-    bundle.content.includes(`${BINARY_PATCH_MARKER}:${gate.codename}`);
-  if (!isPatched) {
+  const gate = gateForVersion(registered, bundle.version);
+
+  // Check if it's even patched (enabled, forced off or value set; JS or binary marker)
+  const isPatched = (content: string): boolean =>
+    hasEnableMarker(content, gate.codename) ||
+    hasForceOffMarker(content, gate.codename) ||
+    hasValueMarker(content, gate.codename);
+  const scan = scanBundle(bundleSource(bundle), [gate]);
+  if (!hasScannedMarker(scan.markers, gate.codename, ...ANY_PATCH_MARKER)) {
     return {
       success: true,
       gatesChanged: [
         {
           name: gate.name,
           codename: gate.codename,
-          detected: bundle.content.match(gate.detectRegex) !== null,
+          detected: (scan.matches.get(gate.codename)?.length ?? 0) > 0,
           enabled: false,
           envOverride: gate.envOverride,
         },
@@ -187,62 +565,60 @@ export function disableGate(nameOrCodename: string, config?: GatePatchConfig): G
     };
   }
 
-  // Try to find and restore from backup
-  const dir = path.dirname(bundle.path);
-  const basename = path.basename(bundle.path);
-  let restoredFromBackup = false;
-
-  try {
-    const backups = fs
-      .readdirSync(dir)
-      .filter((f) => f.startsWith(`${basename}.backup.`))
-      .sort()
-      .reverse();
+  const status: GateStatus = {
+    name: gate.name,
+    codename: gate.codename,
+    detected: true,
+    enabled: false,
+    envOverride: gate.envOverride,
+  };
 
-    if (backups.length > 0) {
-      const latestBackup = path.join(dir, backups[0]);
-      // Verify the backup doesn't contain our gate patch marker
-      const backupContent = fs.readFileSync(latestBackup, 'utf8');
-      if (!backupContent.includes(`${GATE_PATCH_MARKER}:${gate.codename}`)) {
-        fs.copyFileSync(latestBackup, bundle.path);
-        restoredFromBackup = true;
+  let restoreError: string;
+  if (bundle.isBinary) {
+    const result = disableBinaryGate(nameOrCodename, { ...config, binary: bundle });
+    if (result.success) return result;
+    restoreError = result.error ?? 'Could not restore the original bytes.';
+  } else {
+    // Data gates have identity unpatchFns; their value and force-off
+    // markers are always reversible
+    const unpatched = gate.valueRegex
+      ? restoreFromMarkers(bundle.content, gate.codename)
+      : gate.unpatchFn(bundle.content);
+    if (!isPatched(unpatched)) {
+      if (!writeBundle(bundle.path, unpatched)) {
+        return {
+          success: false,
+          error: 'Could not write unpatched file.',
+          gatesChanged: [],
+        };
       }
+      return { success: true, gatesChanged: [status] };
     }
-  } catch {
-    // Fall through to unpatchFn
+    restoreError = `The patch for "${gate.codename}" does not record the original code.`;
   }
 
-  if (!restoredFromBackup) {
-    // Use the gate's unpatch function as fallback
-    const unpatched = gate.unpatchFn(bundle.content);
-    if (!writeBundle(bundle.path, unpatched)) {
-      return {
-        success: false,
-        error: 'Could not write unpatched file.',
-        gatesChanged: [],
-      };
-    }
+  if (restoreGateFromBackup(bundle.path, gate, bundle.isBinary)) {
+    return { success: true, gatesChanged: [status] };
   }
 
   return {
-    success: true,
-    gatesChanged: [
-      {
-        name: gate.name,
-        codename: gate.codename,
-        detected: true,
-        enabled: false,
-        envOverride: gate.envOverride,
-      },
-    ],
+    success: false,
+    error:
+      `Cannot disable "${gate.codename}": ${restoreError} ` +
+      'No clean backup was found either; reinstall Claude Code to restore it.',
+    gatesChanged: [],
   };
 }
 
 /**
- * Enable all patchable gates at once
+ * Enable all patchable gates at once. Gates whose pattern matches more
+ * than one place are skipped and reported with `enabled: false` and their
+ * `matchOffsets`; enable them one at a time with an `occurrence`. Gates
+ * that are forced off or set to a value are skipped and reported with
+ * `forcedOff` or `value`, as enableGate() refuses them.
  */
 export function enableAllGates(config?: GatePatchConfig): GateResult {
-  const bundle = resolveBundleFromDetector(config?.cliPath);
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
   if (!bundle) {
     return {
       success: false,
@@ -253,12 +629,12 @@ export function enableAllGates(config?: GatePatchConfig): GateResult {
 
   // Route to binary patcher for native binaries
   if (bundle.isBinary) {
-    return enableAllBinaryGates(config);
+    return enableAllBinaryGates({ ...config, binary: bundle });
   }
 
   // Single backup for all gates
   let backupPath: string | undefined;
-  if (config?.backup !== false) {
+  if (config?.backup !== false && !config?.dryRun) {
     const bp = createBackup(bundle.path);
     if (!bp) {
       return {
@@ -273,7 +649,9 @@ export function enableAllGates(config?: GatePatchConfig): GateResult {
   let content = bundle.content;
   const changed: GateStatus[] = [];
 
-  for (const gate of getPatchableGates()) {
+  for (const registered of getPatchableGates()) {
+    const gate = gateForVersion(registered, bundle.version);
+
     // Skip if already patched
     if (content.includes(`${GATE_PATCH_MARKER}:${gate.codename}`)) {
       changed.push({
@@ -286,19 +664,63 @@ export function enableAllGates(config?: GatePatchConfig): GateResult {
       continue;
     }
 
-    const match = content.match(gate.detectRegex);
-    if (match) {
-      content = gate.patchFn(content, match);
+    // Gates forced off or set to a value are reported but left alone
+    const isForcedOff = hasForceOffMarker(content, gate.codename);
+    if (isForcedOff || hasValueMarker(content, gate.codename)) {
+      const status: GateStatus = {
+        name: gate.name,
+        codename: gate.codename,
+        detected: true,
+        enabled: false,
+        envOverride: gate.envOverride,
+      };
+      if (isForcedOff) status.forcedOff = true;
+      else status.value = injectedValue(content, gate.codename) ?? '';
+      changed.push(status);
+      continue;
+    }
+
+    // Of two conflicting gates, the first one in the registry wins
+    const enabled = changed.filter((g) => g.enabled).map((g) => g.codename);
+    if (findConflicts(gate, enabled).length > 0) continue;
+
+    // Ambiguous gates are reported but left alone
+    const { match, error } = selectGateMatch(content, gate);
+    if (error) {
       changed.push({
         name: gate.name,
         codename: gate.codename,
         detected: true,
-        enabled: true,
+        enabled: false,
         envOverride: gate.envOverride,
+        matchOffsets: findGateMatches(content, gate).map((m) => m.index ?? 0),
       });
+      continue;
+    }
+    if (match) {
+      const status: GateStatus = {
+        name: gate.name,
+        codename: gate.codename,
+        detected: true,
+        enabled: true,
+        envOverride: gate.envOverride,
+      };
+      const callSites = countCallSites(content, gate);
+      if (callSites !== undefined) status.callSites = callSites;
+      content = gate.patchFn(content, match);
+      changed.push(status);
     }
   }
 
+  if (config?.dryRun) {
+    const patched = changed.filter((g) => g.enabled && !hasEnableMarker(bundle.content, g.codename));
+    return {
+      success: true,
+      gatesChanged: changed,
+      planned: reversibleChanges(content, patched.map((g) => g.codename), 'enable'),
+    };
+  }
+
   if (!writeBundle(bundle.path, content)) {
     if (backupPath) {
       try {
@@ -321,6 +743,140 @@ export function enableAllGates(config?: GatePatchConfig): GateResult {
   };
 }
 
+/**
+ * Install the runtime override hook: patch the Statsig accessor so every
+ * flag is first looked up in the overrides file (see overrides.ts).
+ *
+ * Only JS bundles can be hooked — the hook adds code, and native binary
+ * patches must keep the original byte length. Pass `accessor` to hook a
+ * specific function when auto-detection picks the wrong one.
+ */
+export function installOverridesHook(
+  config?: GatePatchConfig & { accessor?: string }
+): GateResult {
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
+  if (!bundle) {
+    return {
+      success: false,
+      error: 'Could not find Claude Code CLI.',
+      gatesChanged: [],
+    };
+  }
+
+  if (bundle.isBinary) {
+    return {
+      success: false,
+      error:
+        'The override hook cannot be installed in a native binary (patches there must keep ' +
+        'the original length). Use "gates enable", "gates force-off" or "gates set" instead.',
+      gatesChanged: [],
+    };
+  }
+
+  if (hasOverridesHook(bundle.content)) {
+    return { success: true, gatesChanged: [] };
+  }
+
+  const found = findAccessorDefinition(bundle.content, config?.accessor);
+  if (!found) {
+    return {
+      success: false,
+      error: config?.accessor
+        ? `Accessor function "${config.accessor}" not found in this version of Claude Code.`
+        : 'Could not find the Statsig accessor in this version of Claude Code.',
+      gatesChanged: [],
+    };
+  }
+
+  let backupPath: string | undefined;
+  if (config?.backup !== false) {
+    const bp = createBackup(bundle.path);
+    if (!bp) {
+      return {
+        success: false,
+        error: 'Could not create backup before patching.',
+        gatesChanged: [],
+      };
+    }
+    backupPath = bp;
+  }
+
+  const patched = injectOverridesHook(bundle.content, found.match, getOverridesPath());
+  if (!writeBundle(bundle.path, patched)) {
+    if (backupPath) {
+      try {
+        fs.copyFileSync(backupPath, bundle.path);
+      } catch {
+        // best effort
+      }
+    }
+    return {
+      success: false,
+      error: 'Could not write patched file.',
+      gatesChanged: [],
+    };
+  }
+
+  return { success: true, backupPath, gatesChanged: [] };
+}
+
+/**
+ * Remove the runtime override hook, restoring the original accessor.
+ * The overrides file is left in place.
+ */
+export function uninstallOverridesHook(config?: GatePatchConfig): GateResult {
+  const bundle = config?.binary ?? resolveBundleFromDetector(config?.cliPath);
+  if (!bundle) {
+    return {
+      success: false,
+      error: 'Could not find Claude Code CLI.',
+      gatesChanged: [],
+    };
+  }
+
+  // The hook is only ever installed in JS bundles
+  if (bundle.isBinary || !hasOverridesHook(bundle.content)) {
+    return { success: true, gatesChanged: [] };
+  }
+
+  const unpatched = stripOverridesHook(bundle.content);
+  if (hasOverridesHook(unpatched)) {
+    return {
+      success: false,
+      error: 'The override hook does not record the original accessor code.',
+      gatesChanged: [],
+    };
+  }
+  if (!writeBundle(bundle.path, unpatched)) {
+    return {
+      success: false,
+      error: 'Could not write unpatched file.',
+      gatesChanged: [],
+    };
+  }
+  return { success: true, gatesChanged: [] };
+}
+
+/**
+ * Report whether the override hook is installed and which accessor it
+ * hooks (or would hook). Returns null when Claude Code is not found.
+ */
+export function getOverridesHookStatus(cliPath?: string): OverridesHookStatus | null {
+  const bundle = resolveBundleFromDetector(cliPath);
+  if (!bundle) return null;
+
+  // The hook is only ever installed in JS bundles
+  const installed = !bundle.isBinary && hasOverridesHook(bundle.content);
+  const accessor = bundle.isBinary
+    ? undefined
+    : installed
+      ? hookedAccessor(bundle.content)
+      : findAccessorDefinition(bundle.content)?.accessor;
+  const status: OverridesHookStatus = { installed, overridesPath: getOverridesPath() };
+  if (accessor) status.accessor = accessor;
+  return status;
+}
+
 /**
  * Reset all gates by restoring from the most recent backup
  */
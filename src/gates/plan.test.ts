@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { planPatch } from "./plan.js";
+import { enableAllGates, enableGate } from "./patcher.js";
+import { resetGatePacks } from "./packs.js";
+import type { PlannedChange } from "../types.js";
+
+const CCR_BRIDGE = 'function Ai(){return W9("tengu_ccr_bridge",!1)}';
+const COPPER_BRIDGE = 'function kx8(){if(!W9("tengu_copper_bridge",!1))return;return"wss://bridge"}';
+const AMBER_FLINT =
+  'function q_(){if(!TR(process.env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS)&&!JR7())return!1;if(!W9("tengu_amber_flint",!0))return!1;return!0}';
+
+const BUNDLE = [
+  "#!/usr/bin/env node",
+  `var a=1;${CCR_BRIDGE}var b=2;`,
+  "var pad=[" + "0,".repeat(50) + "];",
+  `var c=3;${COPPER_BRIDGE}var d=4;${AMBER_FLINT}`,
+  "",
+].join("\n");
+
+let tmpDir: string;
+
+/** Write a JS bundle with a package.json carrying its version */
+function install(content: string): string {
+  const dir = path.join(tmpDir, "cc");
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, "package.json"), JSON.stringify({ version: "2.1.70" }));
+  fs.writeFileSync(path.join(dir, "cli.js"), content);
+  return path.join(dir, "cli.js");
+}
+
+/** Apply planned changes to the original text, back to front */
+function applyChanges(content: string, changes: PlannedChange[]): string {
+  let patched = content;
+  for (const c of [...changes].reverse()) {
+    patched = patched.slice(0, c.offset) + c.replacement + patched.slice(c.offset + c.original.length);
+  }
+  return patched;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-plan-"));
+  process.env.CLAUDE_PATCHER_CACHE = "off";
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_CACHE;
+  delete process.env.CLAUDE_PATCHER_GATES_DIR;
+  resetGatePacks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("planPatch", () => {
+  it("should plan a gate and its dependencies without writing anything", () => {
+    const cli = install(BUNDLE);
+    const plan = planPatch("copper-bridge", { cliPath: cli });
+
+    expect(plan.success).toBe(true);
+    expect(plan).toMatchObject({ path: cli, isBinary: false, version: "2.1.70" });
+    expect(plan.changes.map((c) => [c.codename, c.requiredBy])).toEqual([
+      ["ccr-bridge", "copper-bridge"],
+      ["copper-bridge", undefined],
+    ]);
+    expect(plan.changes[0]).toMatchObject({ mode: "enable", offset: BUNDLE.indexOf(CCR_BRIDGE), original: CCR_BRIDGE });
+    expect(plan.changes[1].replacement).toMatch(/^function kx8\(\)\{\/\*CLAUDE-CODE-PATCHER FEATURE GATES:copper-bridge@/);
+    expect(plan.lengthsMatch).toBeUndefined();
+
+    expect(fs.readFileSync(cli, "utf8")).toBe(BUNDLE);
+    expect(fs.readdirSync(path.dirname(cli)).sort()).toEqual(["cli.js", "package.json"]);
+  });
+
+  it("should plan exactly what the patch then writes", () => {
+    const cli = install(BUNDLE);
+    const plan = planPatch("copper-bridge", { cliPath: cli });
+    expect(enableGate("copper-bridge", { cliPath: cli, backup: false }).success).toBe(true);
+    expect(applyChanges(BUNDLE, plan.changes)).toBe(fs.readFileSync(cli, "utf8"));
+  });
+
+  it("should render each change as a unified diff hunk with cut context", () => {
+    const cli = install(BUNDLE);
+    const plan = planPatch("ccr-bridge", { cliPath: cli, context: 6 });
+    const [change] = plan.changes;
+
+    expect(plan.diff).toBe(
+      [
+        `--- ${cli}`,
+        `+++ ${cli}`,
+        `@@ -2,1 +2,1 @@ ccr-bridge at ${change.offset}`,
+        `-…r a=1;${CCR_BRIDGE}var b=…`,
+        `+…r a=1;${change.replacement}var b=…`,
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should keep whole context lines and count lines from the start of the hunk", () => {
+    const cli = install(BUNDLE);
+    const plan = planPatch("amber-flint", { cliPath: cli, mode: "force-off", context: 20 });
+    const [change] = plan.changes;
+
+    expect(change.mode).toBe("force-off");
+    expect(change.replacement).toContain("return!1}/*CLAUDE-CODE-PATCHER FEATURE GATES OFF:amber-flint@");
+    expect(plan.diff.split("\n").slice(2)).toEqual([
+      `@@ -4,1 +4,1 @@ amber-flint at ${change.offset}`,
+      `-…s://bridge"}var d=4;${AMBER_FLINT}`,
+      `+…s://bridge"}var d=4;${change.replacement}`,
+      "",
+    ]);
+  });
+
+  it("should plan every patchable gate and leave gates already on alone", () => {
+    const cli = install(BUNDLE);
+    enableGate("ccr-bridge", { cliPath: cli, backup: false });
+    const patched = fs.readFileSync(cli, "utf8");
+
+    const plan = planPatch(undefined, { cliPath: cli });
+    expect(plan.success).toBe(true);
+    expect(plan.changes.map((c) => c.codename)).toEqual(["copper-bridge", "amber-flint"]);
+    expect(plan.gatesChanged.find((g) => g.codename === "ccr-bridge")).toMatchObject({ enabled: true });
+    expect(fs.readFileSync(cli, "utf8")).toBe(patched);
+
+    const again = planPatch("ccr-bridge", { cliPath: cli });
+    expect(again).toMatchObject({ success: true, changes: [], diff: "" });
+  });
+
+  it("should report why a patch cannot be planned", () => {
+    const cli = install(BUNDLE);
+    expect(planPatch("no-such-gate", { cliPath: cli }).error).toContain('Unknown or unpatchable gate: "no-such-gate"');
+    expect(planPatch(undefined, { cliPath: cli, mode: "force-off" }).error).toBe(
+      "Only a single gate can be forced off."
+    );
+  });
+
+  it("should check byte lengths in a native binary and leave it and its ledger untouched", () => {
+    const dir = path.join(tmpDir, "versions");
+    fs.mkdirSync(dir, { recursive: true });
+    const binary = path.join(dir, "2.1.70");
+    const original = Buffer.from(BUNDLE, "latin1");
+    fs.writeFileSync(binary, original);
+
+    const plan = planPatch("copper-bridge", { cliPath: binary });
+    expect(plan.success).toBe(true);
+    expect(plan.isBinary).toBe(true);
+    expect(plan.lengthsMatch).toBe(true);
+    expect(plan.changes).toHaveLength(2);
+    for (const change of plan.changes) {
+      expect(change.originalBytes).toBe(change.replacementBytes);
+      expect(original.toString("latin1", change.offset, change.offset + change.originalBytes)).toBe(change.original);
+    }
+    expect(plan.diff).toContain("\n+var a=1;function Ai(){return!0}/*CCP:ccr-bridge      */var b=2;\n");
+
+    expect(fs.readFileSync(binary).equals(original)).toBe(true);
+    expect(fs.readdirSync(dir)).toEqual(["2.1.70"]);
+  });
+
+  it("should report a gate skipped in a binary because it overlaps an earlier patch", () => {
+    const packs = path.join(tmpDir, "packs");
+    fs.mkdirSync(packs);
+    fs.writeFileSync(
+      path.join(packs, "calls.json"),
+      JSON.stringify({
+        gates: [
+          {
+            name: "tengu_ccr_bridge",
+            codename: "ccr-bridge-calls",
+            patch: "call-site",
+            detect: { source: '[\\w$]+\\("tengu_ccr_bridge",!1\\)' },
+          },
+        ],
+      }),
+    );
+    process.env.CLAUDE_PATCHER_GATES_DIR = packs;
+    resetGatePacks();
+    const dir = path.join(tmpDir, "versions");
+    fs.mkdirSync(dir, { recursive: true });
+    const binary = path.join(dir, "2.1.70");
+    fs.writeFileSync(binary, Buffer.from(BUNDLE, "latin1"));
+    const skipped = {
+      codename: "ccr-bridge-calls",
+      enabled: false,
+      matchOffsets: [BUNDLE.indexOf('W9("tengu_ccr_bridge"')],
+      overlapsWith: "ccr-bridge",
+    };
+
+    const plan = planPatch(undefined, { cliPath: binary });
+    expect(plan.gatesChanged.find((g) => g.codename === "ccr-bridge-calls")).toMatchObject(skipped);
+    expect(plan.changes.map((c) => c.codename)).not.toContain("ccr-bridge-calls");
+
+    const result = enableAllGates({ cliPath: binary, backup: false });
+    expect(result.gatesChanged.find((g) => g.codename === "ccr-bridge-calls")).toMatchObject(skipped);
+  });
+});
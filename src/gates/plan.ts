@@ -0,0 +1,175 @@
+/**
+ * Patch Plans
+ *
+ * enableGate(), enableAllGates() and forceOffGate() write to the bundle
+ * as soon as they have worked out a patch. planPatch() runs the same
+ * calls with `dryRun` set, so the plan goes through the same dependency,
+ * conflict, ambiguity and embedded-copy checks as the real patch, then
+ * renders the replacements they report as a unified diff. Nothing is
+ * written: no backup, ledger entry or bundle.
+ *
+ * JS bundles are usually minified into a handful of very long lines, so
+ * each hunk shows `context` characters either side of its change rather
+ * than whole lines, with `…` where a line was cut.
+ */
+
+import type { BundleInfo, GatePatchConfig, PatchPlan, PatchPlanConfig, PlannedChange } from '../types.js';
+import { resolveBundle } from './detector.js';
+import { enableAllGates, enableGate, forceOffGate } from './patcher.js';
+
+/** Characters of unchanged text shown either side of a change */
+const DEFAULT_CONTEXT = 60;
+
+/**
+ * Read access to the bundle's text: JS content, or a binary's bytes as
+ * latin1 (one character per byte, so offsets agree).
+ */
+interface PlanSource {
+  length: number;
+  slice(start: number, end: number): string;
+  /** Offset of the next line break at or after `from`, or -1 */
+  nextLineBreak(from: number): number;
+}
+
+function planSource(bundle: BundleInfo): PlanSource {
+  if (bundle.isBinary) {
+    const buf = bundle.buffer;
+    return {
+      length: buf.length,
+      slice: (start, end) => buf.toString('latin1', start, end),
+      nextLineBreak: (from) => buf.indexOf(0x0a, from),
+    };
+  }
+  const text = bundle.content;
+  return {
+    length: text.length,
+    slice: (start, end) => text.slice(start, end),
+    nextLineBreak: (from) => text.indexOf('\n', from),
+  };
+}
+
+/**
+ * Work out what enabling a gate (with its dependencies), forcing it off,
+ * or without a gate enabling every patchable gate would change, without
+ * writing anything.
+ *
+ *   planPatch('swarm')                          // like enableGate('swarm')
+ *   planPatch('amber-flint', { mode: 'force-off' })
+ *   planPatch()                                 // like enableAllGates()
+ */
+export function planPatch(nameOrCodename?: string, config?: PatchPlanConfig): PatchPlan {
+  const { mode = 'enable', context = DEFAULT_CONTEXT, ...options } = config ?? {};
+  const bundle = options.binary ?? resolveBundle(options.cliPath);
+  const plan: PatchPlan = {
+    success: false,
+    path: bundle?.path ?? options.cliPath ?? '',
+    isBinary: bundle?.isBinary ?? false,
+    gatesChanged: [],
+    changes: [],
+    diff: '',
+  };
+  if (!bundle) return { ...plan, error: 'Could not find Claude Code CLI.' };
+  if (bundle.version) plan.version = bundle.version;
+  if (!nameOrCodename && mode === 'force-off') {
+    return { ...plan, error: 'Only a single gate can be forced off.' };
+  }
+
+  // The bundle was read above; a binary is handed over rather than read again
+  const dryRun: GatePatchConfig = {
+    ...options,
+    cliPath: bundle.path,
+    binary: bundle.isBinary ? bundle : undefined,
+    dryRun: true,
+  };
+  const result = !nameOrCodename
+    ? enableAllGates(dryRun)
+    : mode === 'force-off'
+      ? forceOffGate(nameOrCodename, dryRun)
+      : enableGate(nameOrCodename, dryRun);
+  if (!result.success) return { ...plan, error: result.error };
+
+  plan.success = true;
+  plan.gatesChanged = result.gatesChanged;
+  plan.changes = [...(result.planned ?? [])].sort((a, b) => a.offset - b.offset);
+  plan.diff = unifiedDiff(planSource(bundle), plan.path, plan.changes, Math.max(0, context));
+  if (bundle.isBinary) {
+    plan.lengthsMatch = plan.changes.every((c) => c.originalBytes === c.replacementBytes);
+  }
+  return plan;
+}
+
+/**
+ * Render changes (in bundle order) as a unified diff, one hunk per change.
+ */
+function unifiedDiff(
+  source: PlanSource,
+  filePath: string,
+  changes: PlannedChange[],
+  context: number
+): string {
+  if (changes.length === 0) return '';
+
+  const out = [`--- ${filePath}`, `+++ ${filePath}`];
+  let line = 1;
+  let scanned = 0;
+  let lineShift = 0;
+  for (const change of changes) {
+    const end = change.offset + change.original.length;
+    const start = Math.max(0, change.offset - context);
+    const stop = Math.min(source.length, end + context);
+
+    // Count the line breaks up to the hunk, carrying on from the last one
+    for (let lf = source.nextLineBreak(scanned); lf !== -1 && lf < start; lf = source.nextLineBreak(lf + 1)) {
+      line++;
+      scanned = lf + 1;
+    }
+    scanned = Math.max(scanned, start);
+
+    const head = source.slice(start, change.offset).split('\n');
+    const tail = source.slice(end, stop).split('\n');
+    const before = head.slice(0, -1);
+    const after = tail.slice(1);
+    const lineHead = head[head.length - 1];
+    const lineTail = tail[0];
+    const removed = (lineHead + change.original + lineTail).split('\n');
+    const added = (lineHead + change.replacement + lineTail).split('\n');
+
+    // Mark where a line was cut short by the context window, and drop
+    // the empty piece left when the window starts or ends on a line break
+    let first = line;
+    let cutStart = start > 0 && source.slice(start - 1, start) !== '\n';
+    let cutEnd = stop < source.length && source.slice(stop, stop + 1) !== '\n';
+    if (before[0] === '') {
+      before.shift();
+      first++;
+      cutStart = false;
+    }
+    if (after[after.length - 1] === '') {
+      after.pop();
+      cutEnd = false;
+    }
+    const clip = (lines: string[], atStart: boolean, atEnd: boolean): string[] =>
+      lines.map((text, i) =>
+        `${atStart && i === 0 && cutStart ? '…' : ''}${text}${atEnd && i === lines.length - 1 && cutEnd ? '…' : ''}`
+      );
+    const lead = clip(before, true, false);
+    const trail = clip(after, false, true);
+    const oldLines = clip(removed, before.length === 0, after.length === 0);
+    const newLines = clip(added, before.length === 0, after.length === 0);
+
+    const width = lead.length + trail.length;
+    const label = change.requiredBy
+      ? `${change.codename} (required by ${change.requiredBy})`
+      : change.codename;
+    out.push(
+      `@@ -${first},${width + oldLines.length} +${first + lineShift},${width + newLines.length} @@ ` +
+        `${label} at ${change.offset}`,
+      ...lead.map((text) => ` ${text}`),
+      ...oldLines.map((text) => `-${text}`),
+      ...newLines.map((text) => `+${text}`),
+      ...trail.map((text) => ` ${text}`)
+    );
+    lineShift += newLines.length - oldLines.length;
+  }
+  return `${out.join('\n')}\n`;
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { shortestMatch } from "./regex-sample.js";
+
+const WRAPPER = /function\s+([\w$]+)\(\)\{return\s*[\w$]+\("tengu_lint_me",!1\)\}/;
+
+describe("shortestMatch", () => {
+  it("should use minimum quantifiers and the shortest alternative", () => {
+    expect(shortestMatch(/ab*c+(?:long|s)d{2,5}/)).toBe("acsdd");
+  });
+
+  it("should give successive atoms different letters", () => {
+    const sample = shortestMatch(WRAPPER)!;
+    expect(sample).toBe('function b(){returng("tengu_lint_me",!1)}');
+    expect(WRAPPER.test(sample)).toBe(true);
+  });
+
+  it("should repeat captured text for backreferences and skip lookarounds", () => {
+    expect(shortestMatch(/(?<!x)(\w)=\1(?=;)/)).toBe("a=a");
+    expect(shortestMatch(/(?<q>["'])\k<q>/)).toBe('""');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Regex Samples
+ *
+ * Builds the shortest string a regex can match, straight from its source:
+ * each character atom becomes the first character it accepts, each
+ * quantifier its minimum count and each alternation its shortest branch.
+ * Used by `gates lint` to size replacements and by the scanner to tell
+ * whether a gate's pattern always contains its flag name.
+ */
+
+/** Non-letter characters tried, in order, for atoms that reject letters */
+const FALLBACK_CHARS = '0123456789_$ -"\',.:;(){}[]=!?/*+<>|&#%@^~`\\\t\n';
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Build the shortest string matched by a regex (ignoring lookarounds), or
+ * undefined when the source uses syntax this builder does not understand.
+ *
+ * Successive atoms prefer different letters (`a`, `b`, `c`, ...) so that,
+ * for example, a function name and the accessor it calls come out distinct.
+ */
+export function shortestMatch(regex: RegExp): string | undefined {
+  const source = regex.source;
+  const flags = regex.flags.replace(/[gy]/g, '');
+  const groups: string[] = [];
+  const named = new Map<string, number>();
+  let pos = 0;
+  let atoms = 0;
+
+  const fail = (): never => {
+    throw new SyntaxError(`unsupported regex syntax at ${pos}`);
+  };
+
+  /** First character accepted by a single-character atom like `[\w$]` or `\d` */
+  const pickChar = (atom: string): string => {
+    const test = new RegExp(`^(?:${atom})$`, flags);
+    const start = atoms++ % LETTERS.length;
+    const letters = LETTERS.slice(start) + LETTERS.slice(0, start);
+    for (const c of letters + letters.toUpperCase() + FALLBACK_CHARS) {
+      if (test.test(c)) return c;
+    }
+    return fail();
+  };
+
+  /** Reset captures opened since `from` (they did not participate) */
+  const clearGroups = (from: number): void => {
+    for (let i = from; i < groups.length; i++) groups[i] = '';
+  };
+
+  const parseEscape = (): string => {
+    const next = source[pos + 1];
+    if (next === undefined) return fail();
+    if (next === 'b' || next === 'B') {
+      pos += 2;
+      return '';
+    }
+    if (/[1-9]/.test(next)) {
+      const digits = source.slice(pos + 1).match(/^\d+/)![0];
+      pos += 1 + digits.length;
+      return groups[Number(digits) - 1] ?? '';
+    }
+    if (next === 'k' && source[pos + 2] === '<') {
+      const end = source.indexOf('>', pos);
+      const name = source.slice(pos + 3, end);
+      pos = end + 1;
+      return groups[(named.get(name) ?? 0) - 1] ?? '';
+    }
+
+    let length = 2;
+    if (next === 'x') length = 4;
+    else if (next === 'c') length = 3;
+    else if (next === 'u') length = source[pos + 2] === '{' ? source.indexOf('}', pos) - pos + 1 : 6;
+    else if (next === 'p' || next === 'P') length = source.indexOf('}', pos) - pos + 1;
+    const atom = source.slice(pos, pos + length);
+    pos += length;
+    return pickChar(atom);
+  };
+
+  const parseClass = (): string => {
+    let end = pos + 1;
+    if (source[end] === '^') end++;
+    if (source[end] === ']') end++;
+    while (end < source.length && source[end] !== ']') {
+      end += source[end] === '\\' ? 2 : 1;
+    }
+    if (end >= source.length) return fail();
+    const atom = source.slice(pos, end + 1);
+    pos = end + 1;
+    return pickChar(atom);
+  };
+
+  const parseGroup = (): string => {
+    pos++;
+    let capture = true;
+    let lookaround = false;
+    if (source[pos] === '?') {
+      const head = source.slice(pos, pos + 3);
+      if (head.startsWith('?:')) {
+        capture = false;
+        pos += 2;
+      } else if (head === '?<=' || head === '?<!' || head.startsWith('?=') || head.startsWith('?!')) {
+        capture = false;
+        lookaround = true;
+        pos += head.startsWith('?<') ? 3 : 2;
+      } else if (head.startsWith('?<')) {
+        const end = source.indexOf('>', pos);
+        named.set(source.slice(pos + 2, end), groups.length + 1);
+        pos = end + 1;
+      } else {
+        return fail();
+      }
+    }
+
+    const index = groups.length;
+    if (capture) groups.push('');
+    const opened = groups.length;
+    const text = parseAlternation();
+    if (source[pos] !== ')') return fail();
+    pos++;
+    if (lookaround) {
+      clearGroups(opened);
+      return '';
+    }
+    if (capture) groups[index] = text;
+    return text;
+  };
+
+  const parseQuantifier = (): number | undefined => {
+    const c = source[pos];
+    let min: number | undefined;
+    if (c === '*' || c === '?') {
+      min = 0;
+      pos++;
+    } else if (c === '+') {
+      min = 1;
+      pos++;
+    } else if (c === '{') {
+      const m = source.slice(pos).match(/^\{(\d+)(?:,\d*)?\}/);
+      if (!m) return undefined;
+      min = Number(m[1]);
+      pos += m[0].length;
+    }
+    if (min !== undefined && source[pos] === '?') pos++;
+    return min;
+  };
+
+  const parseSequence = (): string => {
+    let text = '';
+    while (pos < source.length && source[pos] !== '|' && source[pos] !== ')') {
+      const opened = groups.length;
+      const c = source[pos];
+      let atom: string;
+      if (c === '(') atom = parseGroup();
+      else if (c === '[') atom = parseClass();
+      else if (c === '\\') atom = parseEscape();
+      else if (c === '^' || c === '$') {
+        pos++;
+        atom = '';
+      } else if (c === '.') {
+        pos++;
+        atom = pickChar('.');
+      } else {
+        pos++;
+        atom = c;
+      }
+
+      const min = parseQuantifier();
+      if (min === 0) clearGroups(opened);
+      text += min === undefined ? atom : atom.repeat(min);
+    }
+    return text;
+  };
+
+  const parseAlternation = (): string => {
+    const branches: Array<{ text: string; from: number; to: number }> = [];
+    for (;;) {
+      const from = groups.length;
+      const text = parseSequence();
+      branches.push({ text, from, to: groups.length });
+      if (source[pos] !== '|') break;
+      pos++;
+    }
+    const chosen = branches.reduce((a, b) => (b.text.length < a.text.length ? b : a));
+    for (const branch of branches) {
+      if (branch === chosen) continue;
+      for (let i = branch.from; i < branch.to; i++) groups[i] = '';
+    }
+    return chosen.text;
+  };
+
+  try {
+    const text = parseAlternation();
+    return pos === source.length ? text : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -54,6 +54,14 @@ describe("Gate Registry", () => {
         expect(validCategories.has(gate.category)).toBe(true);
       }
     });
+
+    it("should give every gate a tier, matching its patch kind", () => {
+      for (const gate of getAllGates()) {
+        expect(gate.tier, gate.codename).toBeDefined();
+        if (gate.callSiteRegex) expect(gate.tier, gate.codename).toBe(5);
+        if (gate.valueRegex) expect(gate.tier, gate.codename).toBe(4);
+      }
+    });
   });
 
   describe("getPatchableGates", () => {
@@ -62,9 +70,9 @@ describe("Gate Registry", () => {
       expect(patchable.length).toBeGreaterThan(0);
     });
 
-    it("should have 9 patchable gates (v2.1.63)", () => {
+    it("should have 14 patchable gates (v2.1.63)", () => {
       const patchable = getPatchableGates();
-      expect(patchable.length).toBe(9);
+      expect(patchable.length).toBe(14);
     });
 
     it("should include keybinding-customization (unchanged from v2.1.37)", () => {
@@ -135,6 +143,13 @@ describe("Gate Registry", () => {
         expect(gate.semanticReplacement).toBeDefined();
       }
     });
+
+    it("should support force-off for all patchable gates", () => {
+      for (const gate of getPatchableGates()) {
+        expect(gate.forceOffFn).toBeDefined();
+        expect(gate.forceOffReplacement).toBeDefined();
+      }
+    });
   });
 
   describe("getLegacyGates", () => {
@@ -228,12 +243,15 @@ describe("Gate Registry", () => {
       expect(gate).toBeUndefined();
     });
 
-    it("should return undefined for tier 4/5 gates", () => {
+    it("should return undefined for tier 4 data gates", () => {
       expect(findPatchableGate("chomp-inflection")).toBeUndefined();
-      expect(findPatchableGate("speculation")).toBeUndefined();
-      expect(findPatchableGate("thinkback")).toBeUndefined();
       expect(findPatchableGate("crystal-beam")).toBeUndefined();
     });
+
+    it("should find tier 5 inline gates as call-site gates", () => {
+      expect(findPatchableGate("speculation")?.callSiteRegex?.global).toBe(true);
+      expect(findPatchableGate("thinkback")?.callSiteRegex).toBeDefined();
+    });
   });
 
   describe("getGatesByCategory", () => {
@@ -284,7 +302,6 @@ describe("Gate Registry", () => {
     it("should return false for detection-only gates", () => {
       expect(isPatchable("marble-anvil")).toBe(false);
       expect(isPatchable("chomp-inflection")).toBe(false);
-      expect(isPatchable("speculation")).toBe(false);
     });
 
     it("should return false for unknown gates", () => {
@@ -470,6 +487,20 @@ describe("Gate Registry", () => {
       expect(patched).toContain("wss://bridge.example.com");
     });
 
+    it("amber-flint: forceOffReplacement should be return!1", () => {
+      const gate = findPatchableGate("amber-flint")!;
+      const mockMatch = ["full match", "q_"] as unknown as RegExpMatchArray;
+      expect(gate.forceOffReplacement!(mockMatch)).toBe(
+        "function q_(){return!1}",
+      );
+    });
+
+    it("copper-bridge: forceOffReplacement should return before the body", () => {
+      const gate = findPatchableGate("copper-bridge")!;
+      const mockMatch = ["full match", "kx8"] as unknown as RegExpMatchArray;
+      expect(gate.forceOffReplacement!(mockMatch)).toBe("function kx8(){return;");
+    });
+
     it("copper-bridge: semanticReplacement should be function start only", () => {
       const gate = findPatchableGate("copper-bridge")!;
       const mockMatch = ["full match", "kx8"] as unknown as RegExpMatchArray;
@@ -581,11 +612,52 @@ describe("Gate Registry", () => {
       expect(gate.unpatchFn(content)).toBe(content);
     });
 
-    it("should return content unchanged when marker is present (backup required)", () => {
+    it("should restore the exact original text recorded in the marker", () => {
+      const gate = findPatchableGate("keybinding-customization")!;
+      const content =
+        'var a;function SZ(){return g9("tengu_keybinding_customization_release",!1)}var b;';
+      const patched = gate.patchFn(content, content.match(gate.detectRegex)!);
+      expect(patched).not.toBe(content);
+      expect(gate.unpatchFn(patched)).toBe(content);
+    });
+
+    it("should restore forced-off gates too", () => {
+      const gate = findPatchableGate("amber-flint")!;
+      const content =
+        'function q_(){if(!TR(process.env.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS)&&!JR7())return!1;if(!W9("tengu_amber_flint",!0))return!1;return!0}';
+      const forced = gate.forceOffFn!(content, content.match(gate.detectRegex)!);
+      expect(gate.unpatchFn(forced)).toBe(content);
+    });
+
+    it("should leave legacy markers without the original text in place", () => {
       const gate = findPatchableGate("keybinding-customization")!;
       const content = `function SZ(){return!0}/*${GATE_PATCH_MARKER}:keybinding-customization*/`;
-      // unpatchFn can't restore without backup - returns content as-is
       expect(gate.unpatchFn(content)).toBe(content);
     });
+
+    it("should rewrite and restore every call site of an inline gate", () => {
+      const gate = findPatchableGate("speculation")!;
+      const content =
+        'if(W9("tengu_speculation",!1))a();b=Q.gate("tengu_speculation",!1)&&c;x.tengu_speculation=1;';
+      const patched = gate.patchFn(content, content.match(gate.detectRegex)!);
+      expect(patched.match(/\(!0\)/g)).toHaveLength(2);
+      expect(patched).toContain("b=(!0)/*");
+      expect(patched).not.toContain("Q.(!0)");
+      expect(patched).toContain("x.tengu_speculation=1;");
+      expect(gate.unpatchFn(patched)).toBe(content);
+
+      const forced = gate.forceOffFn!(content, content.match(gate.detectRegex)!);
+      expect(forced.match(/\(!1\)/g)).toHaveLength(2);
+      expect(gate.unpatchFn(forced)).toBe(content);
+    });
+
+    it("should not interpret $ sequences in minified names", () => {
+      const gate = findPatchableGate("keybinding-customization")!;
+      const content =
+        'function $1(){return g9("tengu_keybinding_customization_release",!1)}';
+      const patched = gate.patchFn(content, content.match(gate.detectRegex)!);
+      expect(patched.startsWith("function $1(){return!0}")).toBe(true);
+      expect(gate.unpatchFn(patched)).toBe(content);
+    });
   });
 });
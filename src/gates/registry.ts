@@ -9,44 +9,35 @@
  *   Tier 1 – Simple wrappers:  function X(){return g9("tengu_flag",!1)}
  *   Tier 2 – Env-guarded:      env-var check → statsig check
  *   Tier 3 – Complex:          multi-branch returns, subscription checks
- *   Tier 4 – Data gates:       returns object/string, not boolean (detection-only)
- *   Tier 5 – Inline checks:    no wrapper function (detection-only)
+ *   Tier 4 – Data gates:       returns object/string, not boolean (pinned with `gates set`)
+ *   Tier 5 – Inline checks:    no wrapper function (every call site rewritten)
  */
 
 import type { FeatureGate } from "../types.js";
+import { getGatePacks } from "./packs.js";
+import {
+  GATE_PATCH_MARKER,
+  BINARY_PATCH_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  BINARY_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  BINARY_VALUE_MARKER,
+  accessorCallRegex,
+  booleanAccessorCallRegex,
+  callSitePatcher,
+  nullCallSites,
+  returnTruePatcher,
+  stripGuardPatcher,
+} from "./patch-kinds.js";
 
-/** Marker injected into patched gate code for identification */
-export const GATE_PATCH_MARKER = "CLAUDE-CODE-PATCHER FEATURE GATES";
-
-/** Short marker for binary patches (saves bytes vs the full marker) */
-export const BINARY_PATCH_MARKER = "CCP";
-
-// ── Helpers ──────────────────────────────────────────────────────────────
-
-/**
- * Create standard patchFn / unpatchFn / semanticReplacement for gates
- * whose patched form is `function NAME(){return!0}`.
- *
- * The detectRegex must capture the function name in group 1.
- */
-function returnTruePatcher(codename: string) {
-  return {
-    patchFn(content: string, match: RegExpMatchArray): string {
-      return content.replace(
-        match[0],
-        `function ${match[1]}(){return!0}/*${GATE_PATCH_MARKER}:${codename}*/`,
-      );
-    },
-    unpatchFn(content: string): string {
-      // Detection only — can't fully restore without backup
-      if (!content.includes(`${GATE_PATCH_MARKER}:${codename}`)) return content;
-      return content;
-    },
-    semanticReplacement(match: RegExpMatchArray): string {
-      return `function ${match[1]}(){return!0}`;
-    },
-  };
-}
+export {
+  GATE_PATCH_MARKER,
+  BINARY_PATCH_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  BINARY_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  BINARY_VALUE_MARKER,
+};
 
 // ── Legacy Gates (fully rolled out — kept for reference) ────────────────
 
@@ -54,7 +45,8 @@ function returnTruePatcher(codename: string) {
  * Gates that were patchable in v2.1.37 but have been fully rolled out
  * (removed from the binary) in v2.1.63. Kept for historical reference
  * and to help users understand why previously-patched gates no longer
- * appear. Not included in detection or patching.
+ * appear. Not included in patching; detection only reports them for
+ * bundles older than their `removedIn` version.
  */
 const LEGACY_GATES: FeatureGate[] = [
   {
@@ -63,10 +55,12 @@ const LEGACY_GATES: FeatureGate[] = [
     description:
       "Swarm/TeammateTool/delegate gate — fully rolled out in v2.1.63, no longer gated",
     category: "feature",
+    removedIn: "2.1.63",
     detectRegex:
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{if\([\w$]+\(process\.env\.CLAUDE_CODE_AGENT_SWARMS\)\)return!1;return\s*[\w$]+\("tengu_brass_pebble",!1\)\}/,
     ...returnTruePatcher("swarm-mode"),
     envOverride: "CLAUDE_CODE_AGENT_SWARMS",
+    envEffect: "disable",
   },
   {
     name: "tengu_brass_pebble",
@@ -74,6 +68,7 @@ const LEGACY_GATES: FeatureGate[] = [
     description:
       "Team mode — TaskCreate/TaskList/TaskUpdate tools. Fully rolled out in v2.1.63",
     category: "feature",
+    removedIn: "2.1.63",
     detectRegex: /isEnabled\(\)\{return!([\w$]+)\(\)\}/,
     patchFn(content: string, match: RegExpMatchArray): string {
       return content.replace(
@@ -93,6 +88,7 @@ const LEGACY_GATES: FeatureGate[] = [
     codename: "workout-v2",
     description: "Workout v2 — fully rolled out in v2.1.63",
     category: "feature",
+    removedIn: "2.1.63",
     detectRegex:
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{return\s*[\w$]+\("tengu_workout2",!1\)\}/,
     ...returnTruePatcher("workout-v2"),
@@ -102,6 +98,7 @@ const LEGACY_GATES: FeatureGate[] = [
     codename: "oboe",
     description: "Auto Memory — fully rolled out in v2.1.63, no longer gated",
     category: "feature",
+    removedIn: "2.1.63",
     detectRegex:
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{if\([\w$]+\(process\.env\.CLAUDE_CODE_DISABLE_AUTO_MEMORY\)\)return!1;return\s*[\w$]+\("tengu_oboe",!1\)\}/,
     ...returnTruePatcher("oboe"),
@@ -112,6 +109,7 @@ const LEGACY_GATES: FeatureGate[] = [
     codename: "silver-lantern",
     description: "Promo mode selector — fully rolled out in v2.1.63",
     category: "feature",
+    removedIn: "2.1.63",
     detectRegex:
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{if\(![\w$]+\("tengu_silver_lantern",!1\)\)return null;if\([\w$]+\(\)\)return[\w$() ?":+-]*"promo(?:-copper)?";if\([\w$]+\(\)\)return"launch-only";return null\}/,
     patchFn(content: string, match: RegExpMatchArray): string {
@@ -135,6 +133,7 @@ const LEGACY_GATES: FeatureGate[] = [
     description:
       "Pro/Max subscription promo banner — fully rolled out in v2.1.63",
     category: "feature",
+    removedIn: "2.1.63",
     detectRegex:
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{(?:[^{}]|\{(?:[^{}]|\{[^{}]*\})*\})*?tengu_copper_lantern(?:[^{}]|\{(?:[^{}]|\{[^{}]*\})*\})*\}/,
     ...returnTruePatcher("copper-lantern"),
@@ -143,6 +142,11 @@ const LEGACY_GATES: FeatureGate[] = [
 
 // ── Patchable Gates ──────────────────────────────────────────────────────
 
+/** tengu_sm_compact accessor calls outside the session-memory wrapper */
+const SM_COMPACT_CALL = new RegExp(
+  `(?<!"tengu_session_memory",!1\\),[\\w$]+=)${booleanAccessorCallRegex("tengu_sm_compact").source}`,
+);
+
 /**
  * All known patchable feature gates (v2.1.63).
  *
@@ -154,6 +158,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_keybinding_customization_release",
     codename: "keybinding-customization",
+    tier: 1,
     description:
       "Keybinding customization — enables custom keyboard shortcut configuration",
     category: "feature",
@@ -164,6 +169,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_amber_quartz",
     codename: "amber-quartz",
+    tier: 1,
     description: "Voice dictation mode — hold Space to record voice input",
     category: "feature",
     detectRegex:
@@ -173,6 +179,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_ccr_bridge",
     codename: "ccr-bridge",
+    tier: 1,
     description:
       "Remote Control bridge — enables controlling Claude Code from another machine via WebSocket",
     category: "feature",
@@ -183,6 +190,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_mcp_elicitation",
     codename: "mcp-elicitation",
+    tier: 1,
     description:
       "MCP elicitation — allows MCP servers to ask the user clarifying questions during tool execution",
     category: "feature",
@@ -193,6 +201,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_immediate_model_command",
     codename: "immediate-model-command",
+    tier: 1,
     description:
       "Instant model switching — enables /model command without requiring reconnection",
     category: "feature",
@@ -203,6 +212,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_pr_status_cli",
     codename: "pr-status-cli",
+    tier: 1,
     description:
       "PR status in CLI — displays pull request status information in the terminal interface",
     category: "feature",
@@ -215,6 +225,7 @@ const PATCHABLE_GATES: FeatureGate[] = [
   {
     name: "tengu_session_memory",
     codename: "session-memory",
+    tier: 2,
     description:
       "Session memory with compaction — persistent memory across sessions, combined with sm_compact check",
     category: "feature",
@@ -226,10 +237,12 @@ const PATCHABLE_GATES: FeatureGate[] = [
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{if\([\w$]+\(process\.env\.ENABLE_CLAUDE_CODE_SM_COMPACT\)\)return!0;if\([\w$]+\(process\.env\.DISABLE_CLAUDE_CODE_SM_COMPACT\)\)return!1;let\s+[\w$]+=[\w$]+\("tengu_session_memory",!1\),[\w$]+=[\w$]+\("tengu_sm_compact",!1\);return\s*[\w$]+&&[\w$]+\}/,
     ...returnTruePatcher("session-memory"),
     envOverride: "ENABLE_CLAUDE_CODE_SM_COMPACT",
+    requires: ["sm-compact"],
   },
   {
     name: "tengu_amber_flint",
     codename: "amber-flint",
+    tier: 2,
     description:
       "Agent Teams feature gate — checks env var OR --agent-teams argv, then Statsig gate",
     category: "feature",
@@ -241,10 +254,13 @@ const PATCHABLE_GATES: FeatureGate[] = [
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{if\(![\w$]+\(process\.env\.CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS\)&&![\w$]+\(\)\)return!1;if\(![\w$]+\("tengu_amber_flint",!0\)\)return!1;return!0\}/,
     ...returnTruePatcher("amber-flint"),
     envOverride: "CLAUDE_CODE_EXPERIMENTAL_AGENT_TEAMS",
+    // Or --agent-teams on the command line, which we cannot see
+    envEffect: "require",
   },
   {
     name: "tengu_copper_bridge",
     codename: "copper-bridge",
+    tier: 2,
     description:
       "WebSocket bridge URL for remote sessions — removes gate guard to always provide bridge URL",
     category: "feature",
@@ -252,21 +268,66 @@ const PATCHABLE_GATES: FeatureGate[] = [
     // function kx8(){if(!W9("tengu_copper_bridge",!1))return;...return"wss://bridge..."}
     detectRegex:
       /function\s+([a-zA-Z_$][\w$]*)\(\)\{if\(![\w$]+\("tengu_copper_bridge",!1\)\)return;/,
-    patchFn(content: string, match: RegExpMatchArray): string {
-      // Remove the gate check, let the function proceed to return the bridge URL
-      return content.replace(
-        match[0],
-        `function ${match[1]}(){/*${GATE_PATCH_MARKER}:copper-bridge*/`,
-      );
-    },
-    unpatchFn(content: string): string {
-      if (!content.includes(`${GATE_PATCH_MARKER}:copper-bridge`))
-        return content;
-      return content;
-    },
-    semanticReplacement(match: RegExpMatchArray): string {
-      return `function ${match[1]}(){`;
-    },
+    ...stripGuardPatcher("copper-bridge"),
+    // The bridge URL is only used by the Remote Control bridge
+    requires: ["ccr-bridge"],
+  },
+
+  // ── Tier 5: Inline checks (no wrapper function) ─────────────────────
+  // e.g. if(W9("tengu_speculation",!1)){...} — every accessor call site
+  // with a boolean default is rewritten to (!0), so a single gate may patch
+  // several places. Telemetry calls with the same flag are left alone.
+  {
+    name: "tengu_speculation",
+    codename: "speculation",
+    tier: 5,
+    description:
+      "Speculative execution — pre-runs likely next tool calls while user is typing, with sandbox safety",
+    category: "feature",
+    detectRegex: booleanAccessorCallRegex("tengu_speculation"),
+    ...callSitePatcher("speculation", booleanAccessorCallRegex("tengu_speculation")),
+  },
+  {
+    name: "tengu_structured_output_enabled",
+    codename: "structured-output",
+    tier: 5,
+    description:
+      "Structured output mode — enables structured/typed responses from the model",
+    category: "feature",
+    detectRegex: booleanAccessorCallRegex("tengu_structured_output_enabled"),
+    ...callSitePatcher("structured-output", booleanAccessorCallRegex("tengu_structured_output_enabled")),
+  },
+  {
+    name: "tengu_streaming_tool_execution2",
+    codename: "streaming-tool-exec-v2",
+    tier: 5,
+    description:
+      "Streaming tool execution v2 — execute tools while model is still streaming response",
+    category: "feature",
+    detectRegex: booleanAccessorCallRegex("tengu_streaming_tool_execution2"),
+    ...callSitePatcher("streaming-tool-exec-v2", booleanAccessorCallRegex("tengu_streaming_tool_execution2")),
+  },
+  {
+    name: "tengu_thinkback",
+    codename: "thinkback",
+    tier: 5,
+    description:
+      "Year-in-review animation skill — /think-back command with edit/fix/regenerate modes",
+    category: "feature",
+    detectRegex: booleanAccessorCallRegex("tengu_thinkback"),
+    ...callSitePatcher("thinkback", booleanAccessorCallRegex("tengu_thinkback")),
+  },
+  {
+    name: "tengu_sm_compact",
+    codename: "sm-compact",
+    tier: 5,
+    description:
+      "Session memory compaction — compacts session memory when it grows too large (required by session-memory)",
+    category: "feature",
+    // The check inside the session-memory wrapper is excluded: that wrapper
+    // is patched as a whole by session-memory.
+    detectRegex: SM_COMPACT_CALL,
+    ...callSitePatcher("sm-compact", SM_COMPACT_CALL),
   },
 ];
 
@@ -275,87 +336,53 @@ const PATCHABLE_GATES: FeatureGate[] = [
 /**
  * All known codename-style feature gates that are detection-only (v2.1.63).
  *
- * Tier 4: Data gates — returns object/string, not boolean.
- * Tier 5: Inline checks with no wrapper function — not patchable as gates.
+ * Tier 4: Data gates — returns object/string, not boolean (pinned with
+ * `gates set`).
  */
 const DETECTION_ONLY_GATES: FeatureGate[] = [
   // ── Tier 4: Data gates / complex — env var override preferred ───────
   {
     name: "tengu_chomp_inflection",
     codename: "chomp-inflection",
+    tier: 4,
     description:
       "Prompt suggestions — suggests next prompts after responses. Env: CLAUDE_CODE_ENABLE_PROMPT_SUGGESTION",
     category: "feature",
     detectRegex: /tengu_chomp_inflection/,
     patchFn: (c: string) => c,
     unpatchFn: (c: string) => c,
+    valueRegex: accessorCallRegex("tengu_chomp_inflection"),
     envOverride: "CLAUDE_CODE_ENABLE_PROMPT_SUGGESTION",
   },
   {
     name: "tengu_crystal_beam",
     codename: "crystal-beam",
+    tier: 4,
     description:
       "Opus 4.6 thinking budget tokens — data gate that returns a token budget object, not a boolean",
     category: "feature",
     detectRegex: /tengu_crystal_beam/,
     patchFn: (c: string) => c,
     unpatchFn: (c: string) => c,
+    valueRegex: accessorCallRegex("tengu_crystal_beam"),
   },
   {
     name: "tengu_swann_brevity",
     codename: "swann-brevity",
+    tier: 4,
     description:
       'Output brevity mode — data gate that returns "strict" or null to control output verbosity',
     category: "feature",
     detectRegex: /tengu_swann_brevity/,
     patchFn: (c: string) => c,
     unpatchFn: (c: string) => c,
+    valueRegex: accessorCallRegex("tengu_swann_brevity"),
   },
 
-  // ── Tier 5: Inline checks (no wrapper function) ───────────────────
-  {
-    name: "tengu_speculation",
-    codename: "speculation",
-    description:
-      "Speculative execution — pre-runs likely next tool calls while user is typing, with sandbox safety",
-    category: "feature",
-    detectRegex: /tengu_speculation/,
-    patchFn: (c: string) => c,
-    unpatchFn: (c: string) => c,
-  },
-  {
-    name: "tengu_structured_output_enabled",
-    codename: "structured-output",
-    description:
-      "Structured output mode — enables structured/typed responses from the model",
-    category: "feature",
-    detectRegex: /tengu_structured_output_enabled/,
-    patchFn: (c: string) => c,
-    unpatchFn: (c: string) => c,
-  },
-  {
-    name: "tengu_streaming_tool_execution2",
-    codename: "streaming-tool-exec-v2",
-    description:
-      "Streaming tool execution v2 — execute tools while model is still streaming response",
-    category: "feature",
-    detectRegex: /tengu_streaming_tool_execution2/,
-    patchFn: (c: string) => c,
-    unpatchFn: (c: string) => c,
-  },
-  {
-    name: "tengu_thinkback",
-    codename: "thinkback",
-    description:
-      "Year-in-review animation skill — /think-back command with edit/fix/regenerate modes",
-    category: "feature",
-    detectRegex: /tengu_thinkback/,
-    patchFn: (c: string) => c,
-    unpatchFn: (c: string) => c,
-  },
   {
     name: "tengu_system_prompt_global_cache",
     codename: "system-prompt-global-cache",
+    tier: 5,
     description:
       "Global system prompt caching — share prompt cache across sessions for faster startup",
     category: "feature",
@@ -367,6 +394,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_marble_anvil",
     codename: "marble-anvil",
+    tier: 5,
     description:
       "Clear thinking beta (clear_thinking_20251015) — adds thinking edits when enabled with thinking mode",
     category: "feature",
@@ -377,6 +405,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_coral_fern",
     codename: "coral-fern",
+    tier: 5,
     description:
       "Past session access — adds system prompt instructions for accessing past session data",
     category: "feature",
@@ -387,6 +416,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_quiet_fern",
     codename: "quiet-fern",
+    tier: 5,
     description:
       "VS Code extension experiment gate — sent alongside penguins_enabled to IDE extensions",
     category: "feature",
@@ -397,6 +427,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_quartz_lantern",
     codename: "quartz-lantern",
+    tier: 5,
     description:
       "Lantern family gate — related to copper_lantern and silver_lantern",
     category: "feature",
@@ -407,6 +438,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_scarf_coffee",
     codename: "scarf-coffee",
+    tier: 5,
     description:
       "Conditional tool injection — adds a tool to the tool list when enabled alongside another condition",
     category: "feature",
@@ -417,6 +449,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_cache_plum_violet",
     codename: "cache-plum-violet",
+    tier: 5,
     description: "Cache feature gate — related to prompt caching",
     category: "feature",
     detectRegex: /tengu_cache_plum_violet/,
@@ -426,6 +459,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_flicker",
     codename: "flicker",
+    tier: 5,
     description:
       "Terminal UI flicker telemetry — tracks resize flickers in TUI (not a feature gate, telemetry only)",
     category: "telemetry",
@@ -436,6 +470,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_tool_pear",
     codename: "tool-pear",
+    tier: 5,
     description:
       "Tool schema filtering — controls how tool inputJSONSchema is presented to the model (experiment)",
     category: "experiment",
@@ -446,6 +481,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_cork_m4q",
     codename: "cork-m4q",
+    tier: 5,
     description:
       "Policy spec injection — controls <policy_spec> XML injection into system prompt (guardrails/safety)",
     category: "feature",
@@ -456,6 +492,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_tst_kx7",
     codename: "tst-kx7",
+    tier: 5,
     description:
       "Tool search experiment — enables tool search when below threshold with deferred tools present",
     category: "experiment",
@@ -466,6 +503,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_plum_vx3",
     codename: "plum-vx3",
+    tier: 5,
     description:
       "WebSearch behavior — disables thinking, forces web_search tool choice, uses alternate model when enabled",
     category: "feature",
@@ -476,6 +514,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_kv7_prompt_sort",
     codename: "kv7-prompt-sort",
+    tier: 5,
     description:
       "Prompt sorting — reorders system prompt sections for cache efficiency",
     category: "feature",
@@ -488,6 +527,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_bergotte_lantern",
     codename: "bergotte-lantern",
+    tier: 5,
     description:
       "Concise/polished output style — injects style instructions into system prompt",
     category: "feature",
@@ -498,6 +538,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_marble_sandcastle",
     codename: "marble-sandcastle",
+    tier: 5,
     description:
       "Fast mode native binary check — requires native binary for fast mode activation",
     category: "feature",
@@ -508,6 +549,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_moth_copse",
     codename: "moth-copse",
+    tier: 5,
     description:
       "Relevant memory injection — injects relevant memories from auto-memory into context",
     category: "feature",
@@ -518,6 +560,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_mulberry_fog",
     codename: "mulberry-fog",
+    tier: 5,
     description:
       "Auto memory prompt template variant — alternate template for auto-memory system prompt injection",
     category: "feature",
@@ -528,6 +571,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_slate_nexus",
     codename: "slate-nexus",
+    tier: 5,
     description:
       "Claude-code-guide skill/plugin enablement — controls availability of the guide skill",
     category: "feature",
@@ -538,6 +582,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_slate_ridge",
     codename: "slate-ridge",
+    tier: 5,
     description:
       "VS Code experiment gate — sent to IDE extensions for A/B testing",
     category: "experiment",
@@ -548,6 +593,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_coral_whistle",
     codename: "coral-whistle",
+    tier: 5,
     description:
       "Tool usage frequency tracking — monitors and reports tool usage patterns",
     category: "telemetry",
@@ -558,6 +604,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_pebble_leaf_prune",
     codename: "pebble-leaf-prune",
+    tier: 5,
     description:
       "Session history leaf node pruning — optimizes session history by pruning unnecessary leaf nodes",
     category: "feature",
@@ -568,6 +615,7 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_amber_prism",
     codename: "amber-prism",
+    tier: 5,
     description:
       "System prompt content injection for agents — controls additional system prompt content for agent mode",
     category: "feature",
@@ -578,16 +626,19 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
   {
     name: "tengu_penguins_off",
     codename: "penguins-off",
+    tier: 4,
     description:
       "Fast mode kill switch — server-side gate that returns a disable message when fast mode should be turned off",
     category: "feature",
     detectRegex: /tengu_penguins_off/,
     patchFn: (c: string) => c,
     unpatchFn: (c: string) => c,
+    valueRegex: accessorCallRegex("tengu_penguins_off"),
   },
   {
     name: "tengu_tst_names_in_messages",
     codename: "tst-names-in-messages",
+    tier: 5,
     description:
       "Tool search names injection — injects tool names into messages for improved tool selection accuracy",
     category: "experiment",
@@ -599,21 +650,58 @@ const DETECTION_ONLY_GATES: FeatureGate[] = [
 
 // ── Public API ───────────────────────────────────────────────────────────
 
-/** Combined list of all active (non-legacy) gates */
+/** Combined list of all active (non-legacy) built-in gates */
 const ALL_GATES: FeatureGate[] = [...PATCHABLE_GATES, ...DETECTION_ONLY_GATES];
 
 /**
- * Get all active (non-legacy) feature gates
+ * Merge gate-pack gates into a built-in list. A pack gate replaces the
+ * built-in gate with the same codename in place; a built-in gate that a
+ * pack overrides but which is not in `packGates` (e.g. a patchable gate
+ * turned detection-only) is dropped. Remaining pack gates are appended.
+ */
+function withGatePacks(
+  builtIn: FeatureGate[],
+  packGates: FeatureGate[],
+): FeatureGate[] {
+  const overridden = new Set(getGatePacks().gates.map((g) => g.codename));
+  if (overridden.size === 0) return builtIn;
+
+  const byCodename = new Map(packGates.map((g) => [g.codename, g]));
+  const merged: FeatureGate[] = [];
+  for (const gate of builtIn) {
+    if (!overridden.has(gate.codename)) {
+      merged.push(gate);
+      continue;
+    }
+    const replacement = byCodename.get(gate.codename);
+    if (replacement) {
+      merged.push(replacement);
+      byCodename.delete(gate.codename);
+    }
+  }
+  return [...merged, ...byCodename.values()];
+}
+
+function matchesName(gate: FeatureGate, lower: string): boolean {
+  return (
+    gate.name === lower ||
+    gate.codename === lower ||
+    gate.name === `tengu_${lower.replace(/-/g, "_")}`
+  );
+}
+
+/**
+ * Get all active (non-legacy) feature gates, including gate-pack gates
  */
 export function getAllGates(): FeatureGate[] {
-  return ALL_GATES;
+  return withGatePacks(ALL_GATES, getGatePacks().gates);
 }
 
 /**
  * Get only gates that have real patch implementations
  */
 export function getPatchableGates(): FeatureGate[] {
-  return PATCHABLE_GATES;
+  return withGatePacks(PATCHABLE_GATES, getGatePacks().patchable);
 }
 
 /**
@@ -623,6 +711,25 @@ export function getLegacyGates(): FeatureGate[] {
   return LEGACY_GATES;
 }
 
+/**
+ * Get every built-in gate (legacy, patchable and detection-only), ignoring
+ * gate packs
+ */
+export function getBuiltinGates(): FeatureGate[] {
+  return [...LEGACY_GATES, ...PATCHABLE_GATES, ...DETECTION_ONLY_GATES];
+}
+
+/**
+ * Get the gates to list for a Claude Code version: all active gates plus
+ * the legacy gates. Gates whose version range excludes `version` are kept,
+ * so detection can explain their absence (see explainGateAbsence).
+ * Without a version this is the same as getAllGates().
+ */
+export function getGatesForVersion(version?: string): FeatureGate[] {
+  if (!version) return getAllGates();
+  return [...getAllGates(), ...LEGACY_GATES];
+}
+
 /**
  * Look up a gate by its Statsig flag name or codename (searches active and legacy)
  */
@@ -630,18 +737,8 @@ export function findGate(nameOrCodename: string): FeatureGate | undefined {
   const lower = nameOrCodename.toLowerCase();
   // Search active gates first, then legacy
   return (
-    ALL_GATES.find(
-      (g) =>
-        g.name === lower ||
-        g.codename === lower ||
-        g.name === `tengu_${lower.replace(/-/g, "_")}`,
-    ) ??
-    LEGACY_GATES.find(
-      (g) =>
-        g.name === lower ||
-        g.codename === lower ||
-        g.name === `tengu_${lower.replace(/-/g, "_")}`,
-    )
+    getAllGates().find((g) => matchesName(g, lower)) ??
+    LEGACY_GATES.find((g) => matchesName(g, lower))
   );
 }
 
@@ -652,12 +749,30 @@ export function findPatchableGate(
   nameOrCodename: string,
 ): FeatureGate | undefined {
   const lower = nameOrCodename.toLowerCase();
-  return PATCHABLE_GATES.find(
-    (g) =>
-      g.name === lower ||
-      g.codename === lower ||
-      g.name === `tengu_${lower.replace(/-/g, "_")}`,
-  );
+  return getPatchableGates().find((g) => matchesName(g, lower));
+}
+
+/**
+ * Look up a data gate whose value can be pinned with `gates set`
+ */
+export function findValueGate(
+  nameOrCodename: string,
+): FeatureGate | undefined {
+  const lower = nameOrCodename.toLowerCase();
+  return getAllGates().find((g) => g.valueRegex && matchesName(g, lower));
+}
+
+/**
+ * Look up a gate that forceOffGate() can patch: a patchable gate, or a
+ * data gate whose accessor calls are forced to `(null)`
+ */
+export function findForceOffGate(
+  nameOrCodename: string,
+): FeatureGate | undefined {
+  const patchable = findPatchableGate(nameOrCodename);
+  if (patchable) return patchable;
+  const data = findValueGate(nameOrCodename);
+  return data && nullCallSites(data);
 }
 
 /**
@@ -666,7 +781,7 @@ export function findPatchableGate(
 export function getGatesByCategory(
   category: FeatureGate["category"],
 ): FeatureGate[] {
-  return ALL_GATES.filter((g) => g.category === category);
+  return getAllGates().filter((g) => g.category === category);
 }
 
 /**
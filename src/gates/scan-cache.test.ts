@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { detectGate, scanAllFlags } from "./detector.js";
+import { discoverGates } from "./analyzer.js";
+import { findScanCacheEntry } from "./scan-cache.js";
+
+const GATE = 'function SZ(){return g9("tengu_keybinding_customization_release",!1)}';
+const CHANGED = 'function SZ(){return g9("tengu_keybinding_customization_release",!2)}';
+const BUNDLE = `var a=1;${GATE};W9("tengu_unknown_thing",!1);`;
+
+let tmpDir: string;
+let bundlePath: string;
+let cachePath: string;
+
+/** Give the bundle an mtime well before now, so the cache trusts its stat */
+function age(file: string): void {
+  const old = new Date(Date.now() - 60_000);
+  fs.utimesSync(file, old, old);
+}
+
+/** Rewrite the bundle without changing its size or mtime */
+function rewriteInPlace(file: string, content: string): void {
+  const { atime, mtime } = fs.statSync(file);
+  fs.writeFileSync(file, content);
+  fs.utimesSync(file, atime, mtime);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-cache-"));
+  bundlePath = path.join(tmpDir, "cli.js");
+  cachePath = path.join(tmpDir, "cache", "scan-cache.json");
+  fs.writeFileSync(bundlePath, BUNDLE);
+  process.env.CLAUDE_PATCHER_CACHE = cachePath;
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_CACHE;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("scan cache", () => {
+  it("should answer from the cache while size and mtime are unchanged", () => {
+    age(bundlePath);
+    expect(detectGate("keybinding-customization", bundlePath)?.detected).toBe(true);
+    expect(findScanCacheEntry(bundlePath)?.gates["keybinding-customization"].offsets).toEqual([8]);
+
+    // Same size and mtime: the stale entry is trusted without reading the file
+    rewriteInPlace(bundlePath, BUNDLE.replace(GATE, CHANGED));
+    expect(detectGate("keybinding-customization", bundlePath)?.detected).toBe(true);
+  });
+
+  it("should rescan when the file changes", () => {
+    age(bundlePath);
+    detectGate("keybinding-customization", bundlePath);
+
+    fs.writeFileSync(bundlePath, BUNDLE.replace(GATE, CHANGED));
+    expect(detectGate("keybinding-customization", bundlePath)?.detected).toBe(false);
+  });
+
+  it("should not trust the stat of a file modified just before it was cached", () => {
+    detectGate("keybinding-customization", bundlePath);
+
+    rewriteInPlace(bundlePath, BUNDLE.replace(GATE, CHANGED));
+    expect(detectGate("keybinding-customization", bundlePath)?.detected).toBe(false);
+  });
+
+  it("should keep the entry when only the mtime changed", () => {
+    age(bundlePath);
+    expect(discoverGates(bundlePath).map((a) => a.flag)).toEqual(["tengu_unknown_thing"]);
+    const { hash } = findScanCacheEntry(bundlePath)!;
+
+    const now = new Date();
+    fs.utimesSync(bundlePath, now, now);
+    expect(scanAllFlags(bundlePath)).toEqual([
+      "tengu_keybinding_customization_release",
+      "tengu_unknown_thing",
+    ]);
+    const entry = findScanCacheEntry(bundlePath)!;
+    expect(entry.hash).toBe(hash);
+    expect(entry.analysis).toHaveLength(2);
+  });
+
+  it("should not write a cache when disabled", () => {
+    process.env.CLAUDE_PATCHER_CACHE = "off";
+    expect(detectGate("keybinding-customization", bundlePath)?.detected).toBe(true);
+    expect(fs.existsSync(path.join(tmpDir, "cache"))).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Scan Cache
+ *
+ * Detection results for each bundle, kept in
+ * ~/.cache/claude-patcher/scan-cache.json so that `gates`, `gates scan`
+ * and status checks in shell prompts or hooks do not read and scan a
+ * 100+ MB binary every time.
+ *
+ * Entries are keyed by bundle path. An entry is trusted without reading
+ * the bundle while the file's size and mtime match it; otherwise the
+ * bundle is read and hashed, and the entry is kept if the content is
+ * unchanged. As with git's index, an entry checked less than MTIME_SLACK
+ * after the file's mtime is not trusted on size and mtime alone, since a
+ * write in the same clock tick would leave both unchanged.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { EnvVarScan, FlagAnalysis, FlagUsage } from '../types.js';
+
+/** Bumped whenever the entry layout or what is cached changes */
+const CACHE_FORMAT = 3;
+
+/** Milliseconds; covers filesystems that store mtimes in whole seconds */
+const MTIME_SLACK = 2000;
+
+/**
+ * Where a gate's pattern matched, and the pattern it was matched with
+ */
+export interface CachedGateScan {
+  /** `/source/flags` of the callSiteRegex or detectRegex used */
+  pattern: string;
+  offsets: number[];
+  /** Default passed to the flag's accessor, when a call was found */
+  defaultValue?: string;
+}
+
+/**
+ * Cached scan results for one bundle
+ */
+export interface ScanCacheEntry {
+  size: number;
+  mtimeMs: number;
+  /** When the entry was last checked against the file (ms since epoch) */
+  checkedAt: number;
+  /** sha256 of the bundle's bytes */
+  hash: string;
+  /** Claude Code version, when it could be determined */
+  version?: string;
+  /** Every `tengu_*` literal in the bundle, sorted */
+  flags: string[];
+  /** `MARKER:codename` for every patch marker present */
+  markers: string[];
+  /** Values pinned in a JS bundle, by codename (binaries keep them in the ledger) */
+  values: Record<string, string>;
+  /** Pattern matches per gate codename */
+  gates: Record<string, CachedGateScan>;
+  /** `[start, end)` of each embedded JS module (native binaries) */
+  modules?: Array<[number, number]>;
+  /** analyzeFlags() for every flag, once `gates scan` has run */
+  analysis?: FlagAnalysis[];
+  /** collectFlagUsages() for every flag, once `gates flags` has run */
+  usages?: FlagUsage[];
+  /** collectEnvVars(), once `env scan` has run */
+  envVars?: EnvVarScan[];
+}
+
+interface ScanCacheFile {
+  format: number;
+  bundles: Record<string, ScanCacheEntry>;
+}
+
+/**
+ * Path of the scan cache. Set CLAUDE_PATCHER_CACHE to use another file,
+ * or to "off" to disable the cache.
+ */
+export function getScanCachePath(): string | null {
+  const configured = process.env.CLAUDE_PATCHER_CACHE;
+  if (configured === 'off') return null;
+  return configured || path.join(os.homedir(), '.cache', 'claude-patcher', 'scan-cache.json');
+}
+
+function isCacheEntry(value: unknown): value is ScanCacheEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.size === 'number' &&
+    typeof entry.mtimeMs === 'number' &&
+    typeof entry.checkedAt === 'number' &&
+    typeof entry.hash === 'string' &&
+    Array.isArray(entry.flags) &&
+    Array.isArray(entry.markers) &&
+    typeof entry.values === 'object' &&
+    entry.values !== null &&
+    typeof entry.gates === 'object' &&
+    entry.gates !== null
+  );
+}
+
+/**
+ * Read the scan cache. Returns an empty cache when the file is missing,
+ * corrupt or from another format.
+ */
+function readScanCache(): ScanCacheFile {
+  const cachePath = getScanCachePath();
+  const empty: ScanCacheFile = { format: CACHE_FORMAT, bundles: {} };
+  if (!cachePath) return empty;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(cachePath, 'utf8')) as Partial<ScanCacheFile>;
+    if (data?.format !== CACHE_FORMAT || typeof data.bundles !== 'object' || !data.bundles) {
+      return empty;
+    }
+    const bundles: Record<string, ScanCacheEntry> = {};
+    for (const [bundlePath, entry] of Object.entries(data.bundles)) {
+      if (isCacheEntry(entry)) bundles[bundlePath] = entry;
+    }
+    return { format: CACHE_FORMAT, bundles };
+  } catch {
+    // Missing or corrupt — treat as empty
+    return empty;
+  }
+}
+
+/**
+ * Hash a bundle's content: the bytes of a binary, or the text of a JS bundle.
+ */
+export function hashBundle(source: string | Buffer): string {
+  return crypto.createHash('sha256').update(source).digest('hex');
+}
+
+/**
+ * The cached entry for a bundle, whether or not it is still valid.
+ */
+export function findScanCacheEntry(bundlePath: string): ScanCacheEntry | undefined {
+  return readScanCache().bundles[bundlePath];
+}
+
+/**
+ * Whether an entry can be trusted for a file without hashing it: same
+ * size and mtime, and checked well after that mtime.
+ */
+export function matchesStat(entry: ScanCacheEntry, stat: fs.Stats): boolean {
+  return (
+    entry.size === stat.size &&
+    entry.mtimeMs === stat.mtimeMs &&
+    entry.checkedAt - stat.mtimeMs >= MTIME_SLACK
+  );
+}
+
+/**
+ * Store the entry for a bundle. The file is replaced atomically so
+ * concurrent readers never see a partial write. Returns false when the
+ * cache is disabled or cannot be written.
+ */
+export function storeScanCacheEntry(bundlePath: string, entry: ScanCacheEntry): boolean {
+  const cachePath = getScanCachePath();
+  if (!cachePath) return false;
+
+  const cache = readScanCache();
+  cache.bundles[bundlePath] = entry;
+  const tmpPath = `${cachePath}.${process.pid}.tmp`;
+  try {
+    fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+    fs.writeFileSync(tmpPath, JSON.stringify(cache) + '\n');
+    fs.renameSync(tmpPath, cachePath);
+    return true;
+  } catch {
+    try { fs.rmSync(tmpPath, { force: true }); } catch { /* best effort */ }
+    return false;
+  }
+}
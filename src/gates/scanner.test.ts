@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { indexBundle, matchBundle, scanBundle, SCAN_CHUNK, SCAN_WINDOW } from "./scanner.js";
+import { findGateMatches, returnTruePatcher, GATE_PATCH_MARKER, BINARY_PATCH_MARKER } from "./patch-kinds.js";
+import type { FeatureGate } from "../types.js";
+
+function gate(codename: string, detectRegex: RegExp, extra: Partial<FeatureGate> = {}): FeatureGate {
+  return {
+    name: `tengu_${codename.replace(/-/g, "_")}`,
+    codename,
+    description: "",
+    category: "feature",
+    detectRegex,
+    ...returnTruePatcher(codename),
+    ...extra,
+  };
+}
+
+const WRAPPER = gate("scan-me", /function\s+([\w$]+)\(\)\{return\s*[\w$]+\("tengu_scan_me",!1\)\}/);
+const FILLER = "x".repeat(SCAN_WINDOW * 2);
+
+function offsets(matches: RegExpMatchArray[] | undefined): number[] {
+  return (matches ?? []).map((m) => m.index ?? -1);
+}
+
+describe("indexBundle", () => {
+  it("should record every flag offset and patch marker", () => {
+    const content =
+      `a("tengu_one");b("tengu_two");c("tengu_one");` +
+      `/*${GATE_PATCH_MARKER}:amber-quartz@40:abc=*/` +
+      `/*${BINARY_PATCH_MARKER}:ccr-bridge*/`;
+    const { flags, markers } = indexBundle(content);
+    expect(flags.get("tengu_one")).toEqual([3, 33]);
+    expect(flags.get("tengu_two")).toEqual([18]);
+    expect([...markers].sort()).toEqual(
+      [`${BINARY_PATCH_MARKER}:ccr-bridge`, `${GATE_PATCH_MARKER}:amber-quartz`].sort(),
+    );
+  });
+});
+
+describe("scanBundle", () => {
+  it("should find the same matches as a full scan", () => {
+    const fn = 'function Aq(){return W9("tengu_scan_me",!1)}';
+    const content = `${fn};${FILLER}${fn.replace("Aq", "Bq")};v("tengu_scan_me_v2");${FILLER}`;
+    const scan = scanBundle(content, [WRAPPER]);
+    const found = scan.matches.get("scan-me")!;
+    expect(offsets(found)).toEqual(offsets(findGateMatches(content, WRAPPER)));
+    expect(found.map((m) => m[1])).toEqual(["Aq", "Bq"]);
+    expect(found[1].input).toBe(content);
+  });
+
+  it("should fall back to a full scan for patterns without the flag name", () => {
+    const byName = gate("scan-me", /function (Aq)\(\)\{\}/);
+    const content = `${FILLER}function Aq(){}${FILLER}`;
+    expect(offsets(scanBundle(content, [byName]).matches.get("scan-me"))).toEqual([FILLER.length]);
+  });
+
+  it("should fall back to a full scan when a match reaches the window edge", () => {
+    const callSite = gate("scan-me", /unused/, { callSiteRegex: /[\w$]+\("tengu_scan_me"\)/g });
+    const content = `${"A".repeat(SCAN_WINDOW + 10)}("tengu_scan_me")`;
+    expect(offsets(scanBundle(content, [callSite]).matches.get("scan-me"))).toEqual([0]);
+  });
+});
+
+describe("scanning a Buffer", () => {
+  it("should find matches across chunk boundaries once, at bundle offsets", () => {
+    const fn = 'function Aq(){return W9("tengu_scan_me",!1)}';
+    const buf = Buffer.alloc(SCAN_CHUNK + 1000, "x");
+    buf.write(fn, 0, "latin1");
+    buf.write(fn, SCAN_CHUNK - 20, "latin1");
+    buf.write(`/*${BINARY_PATCH_MARKER}:scan-me*/`, SCAN_CHUNK + 500, "latin1");
+
+    const scan = scanBundle(buf, [WRAPPER]);
+    expect(offsets(scan.matches.get("scan-me"))).toEqual([0, SCAN_CHUNK - 20]);
+    expect(scan.flags.get("tengu_scan_me")).toEqual([25, SCAN_CHUNK + 5]);
+    expect([...scan.markers]).toEqual([`${BINARY_PATCH_MARKER}:scan-me`]);
+    expect(offsets(matchBundle(buf, /W9\("tengu_scan_me",!1\)/, "tengu_scan_me"))).toEqual([
+      21,
+      SCAN_CHUNK + 1,
+    ]);
+  });
+});
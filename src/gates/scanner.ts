@@ -0,0 +1,306 @@
+/**
+ * Bundle Scanner
+ *
+ * Detects every gate in a single pass over the bundle instead of running
+ * each gate's regex over the whole content (100+ MB for native binaries).
+ *
+ * One regex pass records where each `tengu_*` literal occurs and which of
+ * our patch markers are present. A gate whose pattern always contains its
+ * flag name is then only evaluated in a window around that flag's
+ * occurrences. Other gates, and window matches that touch the edge of
+ * their window (and so may be cut short), fall back to a full scan.
+ *
+ * Gate patterns match a wrapper function or a call site, so a match is
+ * assumed to lie within SCAN_WINDOW characters of its flag literal.
+ *
+ * Native binaries are scanned as a Buffer, decoded as latin1 one chunk at
+ * a time with some context on either side, instead of as one string.
+ * Chunks never extend past the embedded JS module they belong to, so
+ * nothing is matched in the executable's own code or data.
+ */
+
+import type { FeatureGate } from '../types.js';
+import {
+  BINARY_FORCE_OFF_MARKER,
+  BINARY_PATCH_MARKER,
+  BINARY_VALUE_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  GATE_PATCH_MARKER,
+  GATE_VALUE_MARKER,
+  escapeRegExp,
+} from './patch-kinds.js';
+import { shortestMatch } from './regex-sample.js';
+import { embeddedJsRanges } from './container.js';
+
+/** Characters searched on each side of a flag literal */
+export const SCAN_WINDOW = 4096;
+
+/** Bytes of a native binary decoded per chunk */
+export const SCAN_CHUNK = 16 * 1024 * 1024;
+
+/** Bytes decoded on each side of a chunk, so matches starting in it are seen whole */
+const CHUNK_CONTEXT = 4 * SCAN_WINDOW;
+
+/**
+ * Flag literals, patch markers and gate matches found in one bundle scan
+ */
+export interface BundleScan {
+  /** Offsets of every occurrence of each `tengu_*` literal */
+  flags: Map<string, number[]>;
+  /** `MARKER:codename` for every patch marker present (JS and binary forms) */
+  markers: Set<string>;
+  /** Pattern matches per gate codename, in bundle order (see findGateMatches) */
+  matches: Map<string, RegExpMatchArray[]>;
+}
+
+/**
+ * Decoded text for part of a bundle. The chunk owns what starts in
+ * `text[from..to)`; the text around that is context shared with its
+ * neighbours.
+ */
+export interface BundleChunk {
+  text: string;
+  /** Bundle offset of `text[0]` */
+  origin: number;
+  from: number;
+  to: number;
+}
+
+const MARKERS = [
+  GATE_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  GATE_PATCH_MARKER,
+  BINARY_FORCE_OFF_MARKER,
+  BINARY_VALUE_MARKER,
+  BINARY_PATCH_MARKER,
+];
+
+/** Flag literals and `MARKER:codename` prefixes, longest marker first */
+const SCAN_PATTERN = new RegExp(
+  `tengu_[a-z0-9_]+|(?:${MARKERS.map(escapeRegExp).join('|')}):[a-z0-9-]+`,
+  'g'
+);
+
+/** Global copies of non-global regexes, built once per regex */
+const globalRegexes = new WeakMap<RegExp, RegExp>();
+
+/** Whether every match of a regex contains a flag name, per regex and flag */
+const anchorable = new WeakMap<RegExp, Map<string, boolean>>();
+
+/**
+ * Split a bundle into chunks. A JS bundle is already text and is a single
+ * chunk; a native binary is decoded SCAN_CHUNK bytes at a time, only
+ * within its embedded JS modules (see container.ts).
+ */
+export function* bundleChunks(source: string | Buffer): Generator<BundleChunk> {
+  if (typeof source === 'string') {
+    yield { text: source, origin: 0, from: 0, to: source.length };
+    return;
+  }
+
+  for (const [rangeStart, rangeEnd] of embeddedJsRanges(source)) {
+    for (let start = rangeStart; start < rangeEnd; start += SCAN_CHUNK) {
+      const end = Math.min(rangeEnd, start + SCAN_CHUNK);
+      const origin = Math.max(rangeStart, start - CHUNK_CONTEXT);
+      const text = source.toString('latin1', origin, Math.min(rangeEnd, end + CHUNK_CONTEXT));
+      yield { text, origin, from: start - origin, to: end - origin };
+    }
+  }
+}
+
+function addOffset(map: Map<string, number[]>, key: string, offset: number): void {
+  const offsets = map.get(key);
+  if (offsets) offsets.push(offset);
+  else map.set(key, [offset]);
+}
+
+/**
+ * Add the flag literals and markers a chunk owns to a bundle index.
+ * Returns the offsets of every flag literal in the chunk's text, context
+ * included, for anchoring gate patterns.
+ */
+function indexChunk(
+  chunk: BundleChunk,
+  flags: Map<string, number[]>,
+  markers: Set<string>
+): Map<string, number[]> {
+  const local = new Map<string, number[]>();
+
+  for (const m of chunk.text.matchAll(SCAN_PATTERN)) {
+    const at = m.index ?? 0;
+    const owned = at >= chunk.from && at < chunk.to;
+    if (m[0].startsWith('tengu_')) {
+      addOffset(local, m[0], at);
+      if (owned) addOffset(flags, m[0], chunk.origin + at);
+    } else if (owned) {
+      markers.add(m[0]);
+    }
+  }
+  return local;
+}
+
+/**
+ * Index the `tengu_*` literals and patch markers in a bundle in one pass.
+ */
+export function indexBundle(source: string | Buffer): Pick<BundleScan, 'flags' | 'markers'> {
+  const flags = new Map<string, number[]>();
+  const markers = new Set<string>();
+  for (const chunk of bundleChunks(source)) {
+    indexChunk(chunk, flags, markers);
+  }
+  return { flags, markers };
+}
+
+/**
+ * A global version of `regex`, for matchAll.
+ */
+function globalRegex(regex: RegExp): RegExp {
+  if (regex.global) return regex;
+  let global = globalRegexes.get(regex);
+  if (!global) {
+    global = new RegExp(regex.source, `${regex.flags}g`);
+    globalRegexes.set(regex, global);
+  }
+  return global;
+}
+
+/**
+ * The regex a gate is matched with: its callSiteRegex, or its detectRegex.
+ */
+function gatePattern(gate: FeatureGate): RegExp {
+  return globalRegex(gate.callSiteRegex ?? gate.detectRegex);
+}
+
+/**
+ * Whether a gate's pattern can be anchored on its flag name: the name
+ * appears literally in the regex source and in its shortest match.
+ */
+function isAnchorable(regex: RegExp, flag: string): boolean {
+  let byFlag = anchorable.get(regex);
+  if (!byFlag) {
+    byFlag = new Map();
+    anchorable.set(regex, byFlag);
+  }
+  let result = byFlag.get(flag);
+  if (result === undefined) {
+    result = regex.source.includes(flag) && (shortestMatch(regex)?.includes(flag) ?? false);
+    byFlag.set(flag, result);
+  }
+  return result;
+}
+
+/**
+ * Match `regex` in a window around each anchor, keeping only matches that
+ * cover the anchor. Returns null when a match reaches the edge of its
+ * window, meaning a full scan is needed to be sure of it.
+ */
+function matchAround(
+  content: string,
+  regex: RegExp,
+  anchors: number[],
+  length: number
+): RegExpMatchArray[] | null {
+  const found = new Map<number, RegExpMatchArray>();
+
+  for (const anchor of anchors) {
+    const start = Math.max(0, anchor - SCAN_WINDOW);
+    const end = Math.min(content.length, anchor + length + SCAN_WINDOW);
+    const window = content.slice(start, end);
+
+    for (const m of window.matchAll(regex)) {
+      const from = m.index ?? 0;
+      const to = from + m[0].length;
+      if (from > anchor - start || to < anchor - start + length) continue;
+      if ((from === 0 && start > 0) || (to === window.length && end < content.length)) {
+        return null;
+      }
+      m.index = start + from;
+      m.input = content;
+      found.set(m.index, m);
+    }
+  }
+
+  return [...found.values()].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+}
+
+/**
+ * Every match of a global `regex` in `text`, anchored on `flag` when the
+ * pattern allows it. `flags` holds the offsets of the flag literals in
+ * `text`.
+ */
+function matchText(
+  text: string,
+  regex: RegExp,
+  flag: string | undefined,
+  flags: Map<string, number[]>
+): RegExpMatchArray[] {
+  if (flag && isAnchorable(regex, flag)) {
+    // The flag name may be part of a longer literal, e.g. tengu_x in tengu_x_v2
+    const anchors: number[] = [];
+    for (const [literal, offsets] of flags) {
+      const at = literal.indexOf(flag);
+      if (at !== -1) anchors.push(...offsets.map((offset) => offset + at));
+    }
+    const found = matchAround(text, regex, anchors, flag.length);
+    if (found) return found;
+  }
+  return [...text.matchAll(regex)];
+}
+
+/**
+ * Keep the matches a chunk owns, moved to bundle offsets.
+ */
+function ownedMatches(chunk: BundleChunk, matches: RegExpMatchArray[]): RegExpMatchArray[] {
+  return matches.filter((m) => {
+    const at = m.index ?? 0;
+    if (at < chunk.from || at >= chunk.to) return false;
+    m.index = chunk.origin + at;
+    return true;
+  });
+}
+
+/**
+ * Every match of `regex` in a bundle, in order. Give the flag name the
+ * pattern contains to anchor the search on it. For a native binary,
+ * `input` of each match is the decoded chunk it was found in, not the
+ * whole bundle.
+ */
+export function matchBundle(source: string | Buffer, regex: RegExp, flag?: string): RegExpMatchArray[] {
+  const matches: RegExpMatchArray[] = [];
+  for (const chunk of bundleChunks(source)) {
+    const local = indexChunk(chunk, new Map(), new Set());
+    matches.push(...ownedMatches(chunk, matchText(chunk.text, globalRegex(regex), flag, local)));
+  }
+  return matches;
+}
+
+/**
+ * Scan a bundle for flag literals, patch markers and the matches of
+ * every given gate. Gates must already be resolved for the bundle version
+ * (see gateForVersion()).
+ */
+export function scanBundle(source: string | Buffer, gates: FeatureGate[]): BundleScan {
+  const flags = new Map<string, number[]>();
+  const markers = new Set<string>();
+  const matches = new Map<string, RegExpMatchArray[]>(gates.map((gate) => [gate.codename, []]));
+
+  for (const chunk of bundleChunks(source)) {
+    const local = indexChunk(chunk, flags, markers);
+    for (const gate of gates) {
+      const found = matchText(chunk.text, gatePattern(gate), gate.name, local);
+      matches.get(gate.codename)?.push(...ownedMatches(chunk, found));
+    }
+  }
+  return { flags, markers, matches };
+}
+
+/**
+ * Whether a scan found any of the given markers for a gate.
+ */
+export function hasScannedMarker(
+  markers: Set<string>,
+  codename: string,
+  ...kinds: string[]
+): boolean {
+  return kinds.some((kind) => markers.has(`${kind}:${codename}`));
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { readStatsigCache, statsigHash } from "./statsig-cache.js";
+import { detectGate } from "./detector.js";
+
+let tmpDir: string;
+
+/** Write a Statsig client evaluations cache file */
+function writeEvaluations(
+  file: string,
+  receivedAt: number,
+  data: Record<string, unknown>,
+): void {
+  fs.mkdirSync(path.join(tmpDir, "statsig"), { recursive: true });
+  fs.writeFileSync(
+    path.join(tmpDir, "statsig", `statsig.cached.evaluations.${file}`),
+    JSON.stringify({ source: "Network", receivedAt, data: JSON.stringify(data) }),
+  );
+}
+
+function evaluation(name: string, value: unknown) {
+  return { [name]: { name, value, rule_id: "default" } };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-statsig-"));
+  process.env.CLAUDE_CONFIG_DIR = tmpDir;
+  process.env.CLAUDE_PATCHER_CACHE = "off";
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_CONFIG_DIR;
+  delete process.env.CLAUDE_PATCHER_CACHE;
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("statsigHash", () => {
+  it("should hash names like the Statsig client", () => {
+    expect(statsigHash("a", "djb2")).toBe("97");
+    expect(statsigHash("tengu_x", "none")).toBe("tengu_x");
+    expect(statsigHash("a", "sha256")).toBe("ypeBEsobvcr6wjGzmiPcTaeG7/gUfE5yuYB3ha/uSLs=");
+  });
+});
+
+describe("readStatsigCache", () => {
+  it("should read values cached in the global config by flag name", () => {
+    fs.writeFileSync(
+      path.join(tmpDir, ".claude.json"),
+      JSON.stringify({
+        cachedStatsigGates: { tengu_amber_quartz: true, tengu_bad: "yes" },
+        cachedDynamicConfigs: { tengu_crystal_beam: { budget: 32000 } },
+      }),
+    );
+
+    expect(readStatsigCache()).toEqual({
+      gates: { tengu_amber_quartz: true },
+      configs: { tengu_crystal_beam: { budget: 32000 } },
+      sources: [path.join(tmpDir, ".claude.json")],
+    });
+  });
+
+  it("should resolve hashed evaluations against the given names, newest last", () => {
+    const hash = (name: string) => statsigHash(name, "djb2");
+    writeEvaluations("new", 2000, {
+      feature_gates: evaluation(hash("tengu_amber_quartz"), false),
+      hash_used: "djb2",
+    });
+    writeEvaluations("old", 1000, {
+      feature_gates: { ...evaluation(hash("tengu_amber_quartz"), true), ...evaluation("999", true) },
+      dynamic_configs: evaluation(hash("tengu_crystal_beam"), { budget: 1 }),
+      hash_used: "djb2",
+    });
+    fs.writeFileSync(path.join(tmpDir, "statsig", "statsig.cached.evaluations.broken"), "{");
+
+    const cache = readStatsigCache(["tengu_amber_quartz", "tengu_crystal_beam"]);
+    expect(cache.gates).toEqual({ tengu_amber_quartz: false });
+    expect(cache.configs).toEqual({ tengu_crystal_beam: { budget: 1 } });
+    expect(cache.sources.map((s) => path.basename(s))).toEqual([
+      "statsig.cached.evaluations.old",
+      "statsig.cached.evaluations.new",
+    ]);
+  });
+
+  it("should return nothing when Claude Code has cached nothing", () => {
+    expect(readStatsigCache(["tengu_amber_quartz"])).toEqual({ gates: {}, configs: {}, sources: [] });
+  });
+});
+
+describe("server values in detection", () => {
+  it("should report the cached server value and use it for the effective state", () => {
+    const bundlePath = path.join(tmpDir, "cli.js");
+    fs.writeFileSync(bundlePath, 'function AQ(){return g9("tengu_amber_quartz",!1)}');
+    writeEvaluations("user", 1000, {
+      feature_gates: evaluation(statsigHash("tengu_amber_quartz", "djb2"), true),
+      hash_used: "djb2",
+    });
+
+    expect(detectGate("amber-quartz", bundlePath)).toMatchObject({
+      defaultValue: "!1",
+      serverValue: "true",
+      effective: "on",
+      effectiveReason: "server value true",
+    });
+  });
+});
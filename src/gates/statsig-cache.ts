@@ -0,0 +1,166 @@
+/**
+ * Local Statsig Cache
+ *
+ * Claude Code caches the gate and dynamic config values Statsig assigned
+ * to the signed-in account, so we can show what the server decided without
+ * any network access. Two places are read:
+ *
+ *   ~/.claude.json           `cachedStatsigGates` / `cachedDynamicConfigs`,
+ *                            keyed by flag name
+ *   ~/.claude/statsig/       `statsig.cached.evaluations.*` files written by
+ *                            the Statsig client, keyed by a hash of the name
+ *
+ * Both follow CLAUDE_CONFIG_DIR like Claude Code does. Evaluation files are
+ * applied oldest first, so the most recently received values win.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { StatsigCache } from '../types.js';
+
+/** Prefix of the evaluation cache files written by the Statsig JS client */
+const EVALUATIONS_PREFIX = 'statsig.cached.evaluations.';
+
+interface CachedEvaluations {
+  receivedAt?: number;
+  data?: string;
+}
+
+interface EvaluationData {
+  feature_gates?: Record<string, { name?: string; value?: unknown }>;
+  dynamic_configs?: Record<string, { name?: string; value?: unknown }>;
+  hash_used?: string;
+}
+
+/**
+ * Claude Code's config directory: CLAUDE_CONFIG_DIR, or ~/.claude.
+ */
+export function getClaudeConfigDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), '.claude');
+}
+
+/**
+ * Claude Code's global config file, which lives outside the config
+ * directory unless CLAUDE_CONFIG_DIR is set.
+ */
+function getGlobalConfigPath(): string {
+  return process.env.CLAUDE_CONFIG_DIR
+    ? path.join(process.env.CLAUDE_CONFIG_DIR, '.claude.json')
+    : path.join(os.homedir(), '.claude.json');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Hash a name the way the Statsig client keys its cached evaluations.
+ */
+export function statsigHash(name: string, algorithm: string): string {
+  if (algorithm === 'none') return name;
+  if (algorithm === 'sha256') return crypto.createHash('sha256').update(name).digest('base64');
+
+  // djb2, as a 32-bit unsigned decimal string
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = ((hash << 5) - hash + name.charCodeAt(i)) | 0;
+  }
+  return String(hash >>> 0);
+}
+
+/**
+ * Copy the values of one evaluations section into `into`, resolving hashed
+ * keys with `byHash`. Entries whose name cannot be resolved are skipped.
+ */
+function addEvaluations(
+  section: EvaluationData['feature_gates'],
+  byHash: Map<string, string>,
+  into: Record<string, unknown>
+): void {
+  for (const [key, evaluation] of Object.entries(section ?? {})) {
+    if (!isRecord(evaluation) || !('value' in evaluation)) continue;
+    const name = key.startsWith('tengu_') ? key : byHash.get(key);
+    if (name) into[name] = evaluation.value;
+  }
+}
+
+/**
+ * Read the gate and dynamic config values cached by Claude Code. Hashed
+ * evaluation keys are resolved against `names` (typically every registered
+ * flag); values cached under their plain name are always included. Missing
+ * or unreadable files are skipped.
+ */
+export function readStatsigCache(names: string[] = []): StatsigCache {
+  const cache: StatsigCache = { gates: {}, configs: {}, sources: [] };
+
+  const globalConfigPath = getGlobalConfigPath();
+  try {
+    const config = JSON.parse(fs.readFileSync(globalConfigPath, 'utf8')) as unknown;
+    if (isRecord(config)) {
+      const gates = config.cachedStatsigGates;
+      const configs = config.cachedDynamicConfigs;
+      if (isRecord(gates)) {
+        for (const [name, value] of Object.entries(gates)) {
+          if (typeof value === 'boolean') cache.gates[name] = value;
+        }
+      }
+      if (isRecord(configs)) Object.assign(cache.configs, configs);
+      if (isRecord(gates) || isRecord(configs)) cache.sources.push(globalConfigPath);
+    }
+  } catch {
+    // Missing or corrupt — nothing cached
+  }
+
+  const statsigDir = path.join(getClaudeConfigDir(), 'statsig');
+  let files: string[];
+  try {
+    files = fs.readdirSync(statsigDir).filter((f) => f.startsWith(EVALUATIONS_PREFIX));
+  } catch {
+    return cache;
+  }
+
+  const evaluations: Array<{ file: string; receivedAt: number; data: EvaluationData }> = [];
+  for (const file of files) {
+    const filePath = path.join(statsigDir, file);
+    try {
+      const cached = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CachedEvaluations | null;
+      if (typeof cached?.data !== 'string') continue;
+      const data = JSON.parse(cached.data) as unknown;
+      if (!isRecord(data)) continue;
+      const receivedAt = typeof cached.receivedAt === 'number' ? cached.receivedAt : 0;
+      evaluations.push({ file: filePath, receivedAt, data });
+    } catch {
+      // Corrupt or partially written — skip it
+    }
+  }
+
+  const hashes = new Map<string, Map<string, string>>();
+  for (const { file, data } of evaluations.sort((a, b) => a.receivedAt - b.receivedAt)) {
+    const algorithm = data.hash_used ?? 'djb2';
+    let byHash = hashes.get(algorithm);
+    if (!byHash) {
+      byHash = new Map(names.map((name) => [statsigHash(name, algorithm), name]));
+      hashes.set(algorithm, byHash);
+    }
+    const gates: Record<string, unknown> = {};
+    addEvaluations(data.feature_gates, byHash, gates);
+    for (const [name, value] of Object.entries(gates)) {
+      if (typeof value === 'boolean') cache.gates[name] = value;
+    }
+    addEvaluations(data.dynamic_configs, byHash, cache.configs);
+    cache.sources.push(file);
+  }
+  return cache;
+}
+
+/**
+ * The server-assigned value of a flag, as JSON: its gate value, or its
+ * dynamic config value. Undefined when the flag is not cached.
+ */
+export function cachedServerValue(cache: StatsigCache, flag: string): string | undefined {
+  if (flag in cache.gates) return JSON.stringify(cache.gates[flag]);
+  if (flag in cache.configs) return JSON.stringify(cache.configs[flag]);
+  return undefined;
+}
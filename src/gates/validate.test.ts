@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { validateGates, validateRegistry } from "./validate.js";
+import { returnTruePatcher, templatePatcher } from "./patch-kinds.js";
+import { resetGatePacks } from "./packs.js";
+import type { FeatureGate } from "../types.js";
+
+function gate(codename: string, detectRegex: RegExp, extra: Partial<FeatureGate> = {}): FeatureGate {
+  return {
+    name: `tengu_${codename.replace(/-/g, "_")}`,
+    codename,
+    description: "",
+    category: "feature",
+    detectRegex,
+    ...returnTruePatcher(codename),
+    ...extra,
+  };
+}
+
+const WRAPPER = /function\s+([\w$]+)\(\)\{return\s*[\w$]+\("tengu_lint_me",!1\)\}/;
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccp-lint-"));
+  process.env.CLAUDE_PATCHER_GATES_DIR = tmpDir;
+  resetGatePacks();
+});
+
+afterEach(() => {
+  delete process.env.CLAUDE_PATCHER_GATES_DIR;
+  resetGatePacks();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("validateGates", () => {
+  it("should accept a well-formed gate", () => {
+    expect(validateGates([gate("lint-me", WRAPPER)], "test")).toEqual([]);
+  });
+
+  it("should report duplicate codenames", () => {
+    const issues = validateGates([gate("lint-me", WRAPPER), gate("lint-me", WRAPPER)], "test");
+    expect(issues).toEqual([
+      { source: "test", codename: "lint-me", severity: "error", message: 'duplicate codename "lint-me"' },
+    ]);
+  });
+
+  it("should require the function name in group 1", () => {
+    const wrongGroup = /function\s+[\w$]+\(\)\{return\s*([\w$]+)\("tengu_lint_me",!1\)\}/;
+    const [issue] = validateGates([gate("lint-me", wrongGroup)], "test");
+    expect(issue.message).toMatch(/^detectRegex: must capture the function name in group 1/);
+  });
+
+  it("should report replacements longer than the shortest match", () => {
+    const short = gate("lint-me", /function ([\w$]+)\(\)\{\}/, {
+      ...templatePatcher("lint-me", "function $1(){return!0}"),
+    });
+    expect(validateGates([short], "test")[0].message).toBe(
+      'detectRegex: enable replacement is 8 bytes longer than the shortest match "function a(){}", ' +
+        "so it cannot be binary-patched",
+    );
+  });
+
+  it("should check call-site regex flags and dependencies", () => {
+    const issues = validateGates(
+      [
+        gate("lint-me", WRAPPER, {
+          callSiteRegex: /[\w$]+\("tengu_lint_me",[^()]*\)/,
+          semanticReplacement: () => "(!0)",
+          forceOffReplacement: undefined,
+          requires: ["no-such-gate"],
+        }),
+      ],
+      "test",
+    );
+    expect(issues.map((i) => i.message)).toEqual([
+      "callSiteRegex must be global so every call site is rewritten",
+      'requires: unknown gate "no-such-gate"',
+    ]);
+  });
+});
+
+describe("validateRegistry", () => {
+  it("should find no problems in the built-in registry", () => {
+    expect(validateRegistry()).toEqual([]);
+  });
+
+  it("should report pack load errors and problems in pack gates", () => {
+    fs.writeFileSync(path.join(tmpDir, "broken.json"), "{");
+    fs.writeFileSync(
+      path.join(tmpDir, "long.json"),
+      JSON.stringify({
+        gates: [
+          {
+            name: "tengu_lint_me",
+            codename: "lint-me",
+            patch: "template",
+            detect: { source: 'x\\("tengu_lint_me"\\)' },
+            replacement: "!0||$&",
+          },
+        ],
+      }),
+    );
+
+    const issues = validateRegistry();
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatchObject({ source: path.join(tmpDir, "broken.json"), severity: "error" });
+    expect(issues[1]).toMatchObject({
+      source: path.join(tmpDir, "long.json"),
+      codename: "lint-me",
+      severity: "error",
+    });
+    expect(issues[1].message).toMatch(/enable replacement is 4 bytes longer/);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Registry Validation
+ *
+ * Static checks on gate definitions, so a broken regex or an oversized
+ * replacement is caught by `gates lint` instead of in someone's binary:
+ *
+ *   - codenames are unique across the legacy, patchable and detection-only lists
+ *   - gates patched to `function NAME(){...}` capture NAME in group 1
+ *   - enable / force-off replacements fit in the shortest possible match
+ *   - call-site regexes are global, detect regexes are not
+ *   - version ranges parse and requires / conflictsWith name known gates
+ */
+
+import type { FeatureGate, RegistryIssue } from '../types.js';
+import { resolveEnableOrder } from './dependencies.js';
+import { getGatePacks } from './packs.js';
+import { escapeRegExp } from './patch-kinds.js';
+import { shortestMatch } from './regex-sample.js';
+import { findGate, findPatchableGate, getBuiltinGates } from './registry.js';
+import { isValidRange } from './versions.js';
+
+/** A JS identifier, as captured for the function name in group 1 */
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+type Report = (severity: RegistryIssue['severity'], message: string) => void;
+
+/**
+ * Check a gate's replacements against the shortest match of each pattern it
+ * is patched through: its callSiteRegex, or its detectRegex and variants.
+ */
+function checkReplacements(gate: FeatureGate, report: Report): void {
+  const replacements = [
+    ['enable', gate.semanticReplacement],
+    ['force-off', gate.forceOffReplacement],
+  ] as const;
+  if (!replacements.some(([, fn]) => fn)) return;
+
+  const patterns: Array<[string, RegExp]> = gate.callSiteRegex
+    ? [['callSiteRegex', gate.callSiteRegex]]
+    : [
+        ['detectRegex', gate.detectRegex],
+        ...(gate.detectVariants ?? []).map(
+          (v, i): [string, RegExp] => [`detectVariants[${i}]`, v.detectRegex]
+        ),
+      ];
+
+  for (const [label, regex] of patterns) {
+    const sample = shortestMatch(regex);
+    const match =
+      sample === undefined ? null : new RegExp(regex.source, regex.flags.replace('g', '')).exec(sample);
+    if (!match) {
+      report('warning', `${label}: could not build a sample match to check replacements against`);
+      continue;
+    }
+
+    let namedFunction: string | undefined;
+    for (const [mode, fn] of replacements) {
+      if (!fn) continue;
+      const replacement = fn(match);
+      if (replacement.startsWith('function')) namedFunction ??= replacement;
+      if (replacement.length > match[0].length) {
+        report(
+          'error',
+          `${label}: ${mode} replacement is ${replacement.length - match[0].length} bytes longer ` +
+            `than the shortest match "${match[0]}", so it cannot be binary-patched`
+        );
+      }
+    }
+
+    const name = match[1];
+    if (
+      namedFunction &&
+      !(
+        name &&
+        IDENTIFIER.test(name) &&
+        new RegExp(`function\\s+${escapeRegExp(name)}\\s*\\(`).test(match[0])
+      )
+    ) {
+      report(
+        'error',
+        `${label}: must capture the function name in group 1 (replacement is "${namedFunction}")`
+      );
+    }
+  }
+}
+
+/**
+ * Check everything about a single gate except codename uniqueness.
+ */
+function checkGate(gate: FeatureGate, report: Report): void {
+  if (gate.detectRegex.global) {
+    report('error', 'detectRegex must not be global (patchFn needs its capture groups)');
+  }
+  if (gate.callSiteRegex && !gate.callSiteRegex.global) {
+    report('error', 'callSiteRegex must be global so every call site is rewritten');
+  }
+  checkReplacements(gate, report);
+
+  for (const [field, version] of [
+    ['introducedIn', gate.introducedIn],
+    ['removedIn', gate.removedIn],
+  ] as const) {
+    if (version !== undefined && !/^\d+(?:\.\d+)*$/.test(version)) {
+      report('error', `${field}: "${version}" is not a version`);
+    }
+  }
+  (gate.detectVariants ?? []).forEach((v, i) => {
+    if (!isValidRange(v.versions)) {
+      report('error', `detectVariants[${i}].versions: invalid version range "${v.versions}"`);
+    }
+  });
+
+  if (findPatchableGate(gate.codename)) {
+    const { error } = resolveEnableOrder(gate);
+    if (error) report('error', `requires: ${error}`);
+  } else {
+    for (const dep of gate.requires ?? []) {
+      if (!findGate(dep)) report('error', `requires: unknown gate "${dep}"`);
+    }
+  }
+  for (const other of gate.conflictsWith ?? []) {
+    if (!findGate(other)) report('warning', `conflictsWith: unknown gate "${other}"`);
+  }
+}
+
+/**
+ * Validate a list of gate definitions. Codenames must be unique within
+ * the list. Issues are labelled with the pack file a gate came from, or
+ * `source` (e.g. "built-in") for gates that record none.
+ */
+export function validateGates(gates: FeatureGate[], source: string): RegistryIssue[] {
+  const issues: RegistryIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const gate of gates) {
+    const report: Report = (severity, message) =>
+      issues.push({ source: gate.packSource ?? source, codename: gate.codename, severity, message });
+    if (seen.has(gate.codename)) {
+      report('error', `duplicate codename "${gate.codename}"`);
+    }
+    seen.add(gate.codename);
+    checkGate(gate, report);
+  }
+  return issues;
+}
+
+/**
+ * Validate the built-in registry and all loaded gate packs. Pack files
+ * that failed to load are reported as errors too.
+ */
+export function validateRegistry(): RegistryIssue[] {
+  const packs = getGatePacks();
+  return [
+    ...validateGates(getBuiltinGates(), 'built-in'),
+    ...packs.errors.flatMap((pack) =>
+      pack.messages.map((message): RegistryIssue => ({ source: pack.source, severity: 'error', message }))
+    ),
+    ...validateGates(packs.gates, 'gate pack'),
+  ];
+}
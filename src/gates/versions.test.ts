@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareVersions,
+  satisfiesRange,
+  isValidRange,
+  gateAppliesTo,
+  explainGateAbsence,
+  gateForVersion,
+} from "./versions.js";
+import type { FeatureGate } from "../types.js";
+
+const GATE: FeatureGate = {
+  name: "tengu_test",
+  codename: "test",
+  description: "test gate",
+  category: "feature",
+  detectRegex: /current/,
+  patchFn: (c) => c,
+  unpatchFn: (c) => c,
+  introducedIn: "2.1.37",
+  removedIn: "2.1.63",
+  detectVariants: [
+    { versions: ">=2.1.37 <2.1.50", detectRegex: /old/ },
+    { versions: "2.1.60 || 2.1.61", detectRegex: /unused/ },
+  ],
+};
+
+describe("compareVersions", () => {
+  it("should compare numerically, not lexically", () => {
+    expect(compareVersions("2.1.9", "2.1.10")).toBeLessThan(0);
+    expect(compareVersions("2.1.63", "2.1.63")).toBe(0);
+    expect(compareVersions("v3.0.0", "2.99.99")).toBeGreaterThan(0);
+  });
+
+  it("should ignore pre-release suffixes", () => {
+    expect(compareVersions("2.1.63-beta.1", "2.1.63")).toBe(0);
+  });
+});
+
+describe("satisfiesRange", () => {
+  it("should support comparators, wildcards and alternatives", () => {
+    expect(satisfiesRange("2.1.40", ">=2.1.37 <2.1.63")).toBe(true);
+    expect(satisfiesRange("2.1.63", ">=2.1.37 <2.1.63")).toBe(false);
+    expect(satisfiesRange("2.1.40", ">= 2.1.37")).toBe(true);
+    expect(satisfiesRange("2.1.70", "2.1.x")).toBe(true);
+    expect(satisfiesRange("2.2.0", "2.1.x")).toBe(false);
+    expect(satisfiesRange("2.0.1", "2.0.1 || 2.1.x")).toBe(true);
+  });
+
+  it("should throw on malformed ranges", () => {
+    expect(() => satisfiesRange("2.1.0", "~2.1")).toThrow();
+    expect(() => satisfiesRange("2.1.0", ">=2.x")).toThrow();
+    expect(isValidRange(">=2.1.0 <3")).toBe(true);
+    expect(isValidRange("latest")).toBe(false);
+  });
+});
+
+describe("gateAppliesTo", () => {
+  it("should treat introducedIn as inclusive and removedIn as exclusive", () => {
+    expect(gateAppliesTo(GATE, "2.1.36")).toBe(false);
+    expect(gateAppliesTo(GATE, "2.1.37")).toBe(true);
+    expect(gateAppliesTo(GATE, "2.1.62")).toBe(true);
+    expect(gateAppliesTo(GATE, "2.1.63")).toBe(false);
+  });
+
+  it("should apply when the version is unknown", () => {
+    expect(gateAppliesTo(GATE, undefined)).toBe(true);
+    expect(gateAppliesTo(GATE, "unknown")).toBe(true);
+  });
+});
+
+describe("explainGateAbsence", () => {
+  it("should explain rolled-out and not-yet-introduced gates", () => {
+    expect(explainGateAbsence(GATE, "2.1.70")).toBe(
+      "not present in 2.1.70 (rolled out in 2.1.63)",
+    );
+    expect(explainGateAbsence(GATE, "2.1.30")).toBe(
+      "not present in 2.1.30 (introduced in 2.1.37)",
+    );
+  });
+
+  it("should return undefined inside the range", () => {
+    expect(explainGateAbsence(GATE, "2.1.40")).toBeUndefined();
+    expect(explainGateAbsence(GATE, undefined)).toBeUndefined();
+  });
+});
+
+describe("gateForVersion", () => {
+  it("should pick the first matching variant", () => {
+    expect(gateForVersion(GATE, "2.1.40").detectRegex).toEqual(/old/);
+  });
+
+  it("should keep the default regex otherwise", () => {
+    expect(gateForVersion(GATE, "2.1.62").detectRegex).toEqual(/current/);
+    expect(gateForVersion(GATE, undefined)).toBe(GATE);
+  });
+});
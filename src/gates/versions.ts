@@ -0,0 +1,129 @@
+/**
+ * Gate Version Ranges
+ *
+ * Minimal, dependency-free semver helpers for matching gates against the
+ * Claude Code version they are detected in.
+ *
+ * Supported range syntax (a subset of node-semver):
+ *   2.1.63             exact version
+ *   >=2.1.37 <2.1.63   space-separated comparators (all must match)
+ *   2.1.x / 2.x        wildcard ranges
+ *   A || B             any alternative may match
+ */
+
+import type { FeatureGate } from '../types.js';
+
+/**
+ * Parse a version string into numeric parts. Pre-release / build suffixes
+ * are ignored. Returns null when the string is not a version.
+ */
+function parseVersion(version: string): number[] | null {
+  const match = version.trim().replace(/^v/, '').match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+/**
+ * Compare two version strings. Returns a negative number, zero or a
+ * positive number like Array.prototype.sort comparators.
+ * Unparseable versions sort before everything else.
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = parseVersion(a);
+  const pb = parseVersion(b);
+  if (!pa || !pb) return (pa ? 1 : 0) - (pb ? 1 : 0);
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  const match = comparator.match(/^(>=|<=|>|<|=)?\s*v?([\dxX*.]+)$/);
+  if (!match) {
+    throw new Error(`Invalid version comparator: "${comparator}"`);
+  }
+  const [, op = '=', target] = match;
+
+  // Wildcards (2.1.x, 2.x, *) only make sense as an equality match
+  const parts = target.split('.');
+  const wildcard = parts.findIndex((p) => /^[xX*]$/.test(p));
+  if (wildcard !== -1) {
+    if (op !== '=') {
+      throw new Error(`Wildcards cannot be combined with "${op}": "${comparator}"`);
+    }
+    const actual = parseVersion(version);
+    if (!actual) return false;
+    return parts.slice(0, wildcard).every((p, i) => Number(p) === actual[i]);
+  }
+
+  const cmp = compareVersions(version, target);
+  switch (op) {
+    case '>=': return cmp >= 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    case '<': return cmp < 0;
+    default: return cmp === 0;
+  }
+}
+
+/**
+ * Check whether a version satisfies a range. Throws on malformed ranges.
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  return range.split('||').some((alternative) => {
+    const comparators = alternative
+      .trim()
+      .replace(/(>=|<=|>|<|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean);
+    return comparators.every((c) => satisfiesComparator(version, c));
+  });
+}
+
+/**
+ * Check whether a version range string is well-formed.
+ */
+export function isValidRange(range: string): boolean {
+  try {
+    satisfiesRange('0.0.0', range);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a gate is expected to exist in the given Claude Code version.
+ * Gates without version information, or an unknown version, always apply.
+ */
+export function gateAppliesTo(gate: FeatureGate, version?: string): boolean {
+  if (!version || !parseVersion(version)) return true;
+  if (gate.introducedIn && compareVersions(version, gate.introducedIn) < 0) return false;
+  if (gate.removedIn && compareVersions(version, gate.removedIn) >= 0) return false;
+  return true;
+}
+
+/**
+ * Explain why a gate is not expected in a version, e.g.
+ * "not present in 2.1.70 (rolled out in 2.1.63)". Returns undefined when
+ * the gate's version range includes the version.
+ */
+export function explainGateAbsence(gate: FeatureGate, version?: string): string | undefined {
+  if (!version || gateAppliesTo(gate, version)) return undefined;
+  if (gate.removedIn && compareVersions(version, gate.removedIn) >= 0) {
+    return `not present in ${version} (rolled out in ${gate.removedIn})`;
+  }
+  return `not present in ${version} (introduced in ${gate.introducedIn})`;
+}
+
+/**
+ * Return the gate with its detectRegex swapped for the first variant whose
+ * range matches the version. The gate is returned unchanged when no
+ * variant matches or the version is unknown.
+ */
+export function gateForVersion(gate: FeatureGate, version?: string): FeatureGate {
+  if (!version || !gate.detectVariants) return gate;
+  const variant = gate.detectVariants.find((v) => satisfiesRange(version, v.versions));
+  return variant ? { ...gate, detectRegex: variant.detectRegex } : gate;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { parseYamlSubset } from "./yaml-subset.js";
+
+describe("parseYamlSubset", () => {
+  it("should parse nested mappings and sequences", () => {
+    const doc = parseYamlSubset(`
+name: pack
+gates:
+  - name: a
+    detect:
+      source: x
+  - name: b
+list:
+- 1
+- true
+- null
+`);
+    expect(doc).toEqual({
+      name: "pack",
+      gates: [{ name: "a", detect: { source: "x" } }, { name: "b" }],
+      list: [1, true, null],
+    });
+  });
+
+  it("should keep quoted scalars verbatim", () => {
+    const doc = parseYamlSubset(`
+single: 'a\\(b\\) # not a comment ''quoted'''
+double: "line\\nbreak"
+plain: value # trailing comment
+`);
+    expect(doc).toEqual({
+      single: "a\\(b\\) # not a comment 'quoted'",
+      double: "line\nbreak",
+      plain: "value",
+    });
+  });
+
+  it("should accept JSON flow collections", () => {
+    expect(parseYamlSubset('flags: ["i", "s"]\nobj: {"a": 1}')).toEqual({
+      flags: ["i", "s"],
+      obj: { a: 1 },
+    });
+  });
+
+  it("should report the offending line", () => {
+    expect(() => parseYamlSubset("a: 1\n\tb: 2")).toThrow(/line 2/);
+    expect(() => parseYamlSubset("a: 'open")).toThrow(/line 1/);
+    expect(() => parseYamlSubset("a:\n    b: 1\n  c: 2")).toThrow(/line 3/);
+  });
+});
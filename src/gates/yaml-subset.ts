@@ -0,0 +1,193 @@
+/**
+ * YAML Subset Parser
+ *
+ * A tiny, dependency-free parser for the YAML subset used by gate packs:
+ * block mappings, block sequences, quoted and plain scalars, and comments.
+ * Flow collections (`[...]`, `{...}`) are accepted when they are valid JSON.
+ * Anchors, tags, multi-document streams and block scalars are not supported.
+ */
+
+interface YamlLine {
+  /** 1-based line number in the source, for error messages */
+  lineNo: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * Remove a trailing `# comment`, ignoring `#` inside quoted scalars.
+ */
+function stripComment(raw: string): string {
+  let quote: string | null = null;
+  let prev = ' ';
+  for (let i = 0; i < raw.length; i++) {
+    const ch = raw[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if ((ch === '"' || ch === "'") && /[\s:,[{-]/.test(prev)) {
+      quote = ch;
+    } else if (ch === '#' && /\s/.test(prev)) {
+      return raw.slice(0, i);
+    }
+    prev = ch;
+  }
+  return raw;
+}
+
+function tokenize(text: string): YamlLine[] {
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, idx) => {
+    const lineNo = idx + 1;
+    if (/^\t/.test(raw)) {
+      throw new Error(`line ${lineNo}: tabs are not allowed for indentation`);
+    }
+    const stripped = stripComment(raw).replace(/\s+$/, '');
+    if (stripped.trim() === '' || stripped === '---') return;
+    const indent = stripped.length - stripped.trimStart().length;
+    lines.push({ lineNo, indent, text: stripped.slice(indent) });
+  });
+  return lines;
+}
+
+function parseScalar(raw: string, lineNo: number): unknown {
+  const value = raw.trim();
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new Error(`line ${lineNo}: unterminated single-quoted string`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (value.startsWith('"') || value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`line ${lineNo}: invalid quoted string or flow collection: ${value}`);
+    }
+  }
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null' || value === '~' || value === '') return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Find the `:` that separates a mapping key from its value, or -1.
+ */
+function findKeySeparator(text: string): number {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (i === 0 && (ch === '"' || ch === "'")) {
+      quote = ch;
+    } else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+class YamlParser {
+  private pos = 0;
+
+  constructor(private readonly lines: YamlLine[]) {}
+
+  parseDocument(): unknown {
+    if (this.lines.length === 0) return null;
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      throw new Error(`line ${line.lineNo}: unexpected indentation`);
+    }
+    return value;
+  }
+
+  private parseBlock(indent: number): unknown {
+    const line = this.lines[this.pos];
+    if (isSequenceItem(line.text)) return this.parseSequence(indent);
+    if (findKeySeparator(line.text) === -1) {
+      this.pos++;
+      return parseScalar(line.text, line.lineNo);
+    }
+    return this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent !== indent || !isSequenceItem(line.text)) break;
+
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        this.pos++;
+        items.push(this.parseNested(indent));
+      } else if (findKeySeparator(rest) !== -1 && !/^["'[{]/.test(rest)) {
+        // "- key: value" starts an inline mapping; re-read the rest of the
+        // line as if it were the first line of a more-indented block.
+        const offset = line.text.length - rest.length;
+        this.lines[this.pos] = { lineNo: line.lineNo, indent: indent + offset, text: rest };
+        items.push(this.parseMapping(indent + offset));
+      } else {
+        this.pos++;
+        items.push(parseScalar(rest, line.lineNo));
+      }
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (this.pos < this.lines.length) {
+      const line = this.lines[this.pos];
+      if (line.indent !== indent || isSequenceItem(line.text)) break;
+
+      const sep = findKeySeparator(line.text);
+      if (sep === -1) {
+        throw new Error(`line ${line.lineNo}: expected "key: value"`);
+      }
+      const rawKey = line.text.slice(0, sep).trim();
+      const key = String(parseScalar(rawKey, line.lineNo));
+      const rest = line.text.slice(sep + 1).trim();
+      this.pos++;
+
+      if (rest !== '') {
+        result[key] = parseScalar(rest, line.lineNo);
+        continue;
+      }
+
+      // "key:" followed by a sequence at the same indent is valid YAML
+      const next = this.lines[this.pos];
+      if (next && next.indent === indent && isSequenceItem(next.text)) {
+        result[key] = this.parseSequence(indent);
+      } else {
+        result[key] = this.parseNested(indent);
+      }
+    }
+    return result;
+  }
+
+  private parseNested(parentIndent: number): unknown {
+    const next = this.lines[this.pos];
+    if (!next || next.indent <= parentIndent) return null;
+    return this.parseBlock(next.indent);
+  }
+}
+
+/**
+ * Parse a YAML document written in the supported subset.
+ * Throws an Error naming the offending line on invalid input.
+ */
+export function parseYamlSubset(text: string): unknown {
+  return new YamlParser(tokenize(text)).parseDocument();
+}
@@ -9,12 +9,41 @@ export {
   getAllGates,
   getPatchableGates,
   getLegacyGates,
+  getBuiltinGates,
+  getGatesForVersion,
   findGate,
   findPatchableGate,
+  findValueGate,
+  findForceOffGate,
   getGatesByCategory,
   isPatchable,
   GATE_PATCH_MARKER,
   BINARY_PATCH_MARKER,
+  GATE_FORCE_OFF_MARKER,
+  BINARY_FORCE_OFF_MARKER,
+  GATE_VALUE_MARKER,
+  BINARY_VALUE_MARKER,
+} from "./gates/index.js";
+
+// Gate packs
+export {
+  loadGatePacks,
+  addGatePackFile,
+  resetGatePacks,
+  getGatePackErrors,
+  getGatePackDir,
+  compileGatePack,
+  parseGatePackText,
+} from "./gates/index.js";
+export type { GatePackLoadResult } from "./gates/index.js";
+
+// Version ranges
+export {
+  compareVersions,
+  satisfiesRange,
+  gateAppliesTo,
+  gateForVersion,
+  explainGateAbsence,
 } from "./gates/index.js";
 
 // Gate detection
@@ -31,28 +60,180 @@ export {
 export {
   enableGate,
   disableGate,
+  forceOffGate,
+  setGateValue,
   enableAllGates,
   resetGates,
+  planPatch,
+} from "./gates/index.js";
+
+// Gate dependencies
+export {
+  resolveEnableOrder,
+  findConflicts,
+  gatesConflict,
+  dependencyWarnings,
+} from "./gates/index.js";
+
+// Registry validation
+export { validateRegistry, validateGates } from "./gates/index.js";
+
+// Unknown gate discovery
+export {
+  analyzeFlags,
+  analyzeAllFlags,
+  discoverGates,
+  collectFlagUsages,
+  findFlagUsages,
+} from "./gates/index.js";
+
+// Runtime flag overrides
+export {
+  installOverridesHook,
+  uninstallOverridesHook,
+  getOverridesHookStatus,
+  getOverridesPath,
+  readOverrides,
+  writeOverrides,
+  setOverride,
+  removeOverride,
+  findAccessorDefinition,
+  OVERRIDES_HOOK_CODENAME,
 } from "./gates/index.js";
 
 // Binary patching
 export {
   enableBinaryGate,
   enableAllBinaryGates,
+  forceOffBinaryGate,
+  disableBinaryGate,
+  setBinaryGateValue,
   createPaddedReplacement,
   patchBinaryGate,
+  patchBinaryValue,
+  unpatchBinaryGate,
   isBinaryPatched,
 } from "./gates/index.js";
 
+// Binary patch ledger
+export {
+  getLedgerPath,
+  readLedger,
+  findLedgerEntry,
+} from "./gates/index.js";
+
+// Scan cache
+export {
+  getScanCachePath,
+  findScanCacheEntry,
+} from "./gates/index.js";
+export type { ScanCacheEntry, CachedGateScan } from "./gates/index.js";
+
+// Effective state and the local Statsig cache
+export {
+  resolveEffectiveState,
+  isEnvTruthy,
+  envEffectOf,
+  getClaudeConfigDir,
+  readStatsigCache,
+  statsigHash,
+} from "./gates/index.js";
+
+// Code context
+export { showGateContext, reindentJs } from "./gates/index.js";
+
+// Environment variables
+export {
+  collectEnvVars,
+  scanEnvVars,
+  diffEnvVars,
+  getEnvVarRegistry,
+  findEnvVar,
+  ENV_REGISTRY_VERSION,
+} from "./gates/index.js";
+
+// Version-to-version diff
+export { diffBundles } from "./gates/index.js";
+
+// Generated reference docs
+export { renderDocs, generateDocs, DOC_FILES } from "./gates/index.js";
+
+// Native binary layout
+export { parseBinaryContainer, embeddedJsRanges } from "./gates/index.js";
+
+// Bundle integrity
+export {
+  verifyBundle,
+  recordFingerprint,
+  readFingerprints,
+  getFingerprintPath,
+} from "./gates/index.js";
+
 // CLI finder
-export { findCli, findAllClis, validateCliPath } from "./cli-finder.js";
+export {
+  findCli,
+  findAllClis,
+  validateCliPath,
+  getCliVersion,
+} from "./cli-finder.js";
 
 // Types
 export type {
   FeatureGate,
+  GateTier,
   BundleInfo,
+  JsBundleInfo,
+  BinaryBundleInfo,
+  BundleLocation,
+  ContainerFormat,
+  EmbedKind,
+  EmbeddedPayload,
+  EmbeddedModule,
+  BinaryContainer,
   GateStatus,
+  GateEnvEffect,
+  GateEffectiveState,
+  StatsigCache,
+  CodeContext,
+  GateContext,
+  FlagRole,
+  FlagOccurrence,
+  FlagUsage,
+  EnvVarType,
+  EnvVarInfo,
+  EnvVarUsage,
+  EnvVarReference,
+  EnvVarScan,
+  EnvVarDiff,
+  FlagTierChange,
+  GateChangeKind,
+  GateDetectionChange,
+  BundleDiff,
+  PristineFingerprint,
+  IntegrityState,
+  ModifiedRange,
+  LedgerMismatch,
+  IntegrityReport,
+  DocsSource,
+  GeneratedDoc,
+  DocsResult,
   GateResult,
   GatePatchConfig,
+  PlannedChange,
+  PatchPlanConfig,
+  PatchPlan,
   CliLocation,
+  GatePatchKind,
+  GatePatchMode,
+  GatePack,
+  GatePackGate,
+  GatePackError,
+  GateDetectVariant,
+  PatchLedger,
+  PatchLedgerEntry,
+  FlagOverrides,
+  FlagKind,
+  FlagAnalysis,
+  OverridesHookStatus,
+  RegistryIssue,
 } from "./types.js";
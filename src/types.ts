@@ -25,25 +25,287 @@ export interface FeatureGate {
   unpatchFn: (content: string) => string;
   /** Environment variable that can also toggle this gate */
   envOverride?: string;
+  /**
+   * What setting envOverride does (see GateEnvEffect). Defaults to
+   * 'disable' for variables named `*DISABLE*` and 'enable' otherwise.
+   */
+  envEffect?: GateEnvEffect;
   /**
    * Return just the semantic replacement string for a regex match.
    * Used by the binary patcher to generate length-padded replacements.
    * If absent, the gate cannot be binary-patched.
    */
   semanticReplacement?: (match: RegExpMatchArray) => string;
+  /** Transform matched content to force the gate off (for JS bundles) */
+  forceOffFn?: (content: string, match: RegExpMatchArray) => string;
+  /**
+   * Semantic replacement that forces the gate off (`return!1`, or `(!1)`
+   * for call sites). If absent, the gate cannot be forced off; data gates
+   * are forced off through their valueRegex instead (see nullCallSites).
+   */
+  forceOffReplacement?: (match: RegExpMatchArray) => string;
+  /**
+   * For data gates: matches the gate's accessor call, e.g.
+   * `W9("tengu_crystal_beam",{})`. The whole match is replaced by a
+   * user-supplied literal with `gates set`. If absent, no value can be set.
+   */
+  valueRegex?: RegExp;
+  /**
+   * For inline (Tier 5) gates: global regex matching every accessor call
+   * site. When set, patches rewrite all call sites, not just the first
+   * detectRegex match, and the binary patcher pads each one.
+   */
+  callSiteRegex?: RegExp;
+  /** First Claude Code version that contains this gate (inclusive) */
+  introducedIn?: string;
+  /** First Claude Code version where the gate is gone / fully rolled out */
+  removedIn?: string;
+  /**
+   * Alternative detection patterns for specific version ranges, e.g.
+   * `{ versions: '>=2.1.37 <2.1.63', detectRegex: /.../ }`. The first
+   * variant whose range matches the bundle version replaces detectRegex.
+   */
+  detectVariants?: GateDetectVariant[];
+  /**
+   * Codenames of gates that must also be enabled for this one to work.
+   * enableGate() enables them first (transitively).
+   */
+  requires?: string[];
+  /** Codenames of gates that must not be enabled together with this one */
+  conflictsWith?: string[];
+  /** Gate tier (see registry.ts), shown in generated docs */
+  tier?: GateTier;
+  /** Path of the gate pack file that defined the gate (absent for built-in gates) */
+  packSource?: string;
+}
+
+/**
+ * How a gate is wired into the bundle: 1 simple wrapper, 2 env-guarded
+ * wrapper, 3 complex, 4 data gate, 5 inline check
+ */
+export type GateTier = 1 | 2 | 3 | 4 | 5;
+
+/**
+ * A version-specific detection pattern for a gate
+ */
+export interface GateDetectVariant {
+  /** Semver range, e.g. '>=2.1.37 <2.1.63' or '2.1.x' */
+  versions: string;
+  detectRegex: RegExp;
+}
+
+/**
+ * How an externally-defined gate is patched.
+ *
+ *   return-true  – replace the wrapper with `function NAME(){return!0}`
+ *   strip-guard  – drop a leading `if(!gate(...))return;` guard
+ *   template     – expand a custom `replacement` template
+ *   value        – data gate; `detect` matches the accessor call, which
+ *                  `gates set` replaces with a literal
+ *   call-site    – inline gate; every `detect` match (an accessor call) is
+ *                  rewritten to `(!0)` / `(!1)`
+ *   detect-only  – never patched, only reported
+ */
+export type GatePatchKind =
+  | 'return-true'
+  | 'strip-guard'
+  | 'template'
+  | 'value'
+  | 'call-site'
+  | 'detect-only';
+
+/**
+ * Kind of gate patch: force the gate on (`enable`), off (`force-off`), or
+ * pin a data gate to a literal (`value`)
+ */
+export type GatePatchMode = 'enable' | 'force-off' | 'value';
+
+/**
+ * Serializable gate definition as written in a gate pack (JSON or YAML).
+ * Compiled into a {@link FeatureGate} when the pack is loaded.
+ */
+export interface GatePackGate {
+  /** Statsig flag name, e.g. 'tengu_amber_quartz' */
+  name: string;
+  /** Human-readable codename; replaces a built-in gate with the same codename */
+  codename: string;
+  description?: string;
+  category?: FeatureGate['category'];
+  /** Regex source and flags for the detection pattern */
+  detect: { source: string; flags?: string };
+  /** Patch kind (defaults to 'detect-only') */
+  patch?: GatePatchKind;
+  /**
+   * Semantic replacement template — `$1`..`$9` expand to capture groups,
+   * `$&` to the whole match. Required for 'template', optional otherwise.
+   */
+  replacement?: string;
+  /**
+   * Template used when forcing the gate off. Defaults to `return!1` for
+   * 'return-true' and an early return for 'strip-guard'.
+   */
+  forceOff?: string;
+  envOverride?: string;
+  envEffect?: GateEnvEffect;
+  introducedIn?: string;
+  removedIn?: string;
+  /** Version-specific detection patterns, tried in order */
+  variants?: Array<{ versions: string; source: string; flags?: string }>;
+  /** Codenames of gates this one depends on */
+  requires?: string[];
+  /** Codenames of gates this one cannot be enabled with */
+  conflictsWith?: string[];
+  tier?: GateTier;
+}
+
+/**
+ * A gate pack file: a named collection of serializable gate definitions.
+ */
+export interface GatePack {
+  name?: string;
+  gates: GatePackGate[];
+}
+
+/**
+ * Validation or read errors for a single gate pack file
+ */
+export interface GatePackError {
+  /** Path of the pack file */
+  source: string;
+  /** One message per problem found */
+  messages: string[];
+}
+
+/**
+ * One binary patch recorded in the sidecar ledger, with enough information
+ * to restore the original bytes without a backup.
+ */
+export interface PatchLedgerEntry {
+  codename: string;
+  mode: GatePatchMode;
+  /** Byte offset of the patch in the binary */
+  offset: number;
+  /** Original bytes (latin1) */
+  original: string;
+  /** Bytes we wrote (latin1, same length as original) */
+  replacement: string;
+  /** Literal pinned by a `value` patch */
+  value?: string;
+}
+
+/**
+ * Sidecar ledger of binary patches (`<binary>.ccp-ledger.json`)
+ */
+export interface PatchLedger {
+  entries: PatchLedgerEntry[];
+}
+
+/**
+ * A problem found by validateRegistry() / `gates lint`
+ */
+export interface RegistryIssue {
+  /** "built-in", or the path of the pack file the gate came from or that failed to load */
+  source: string;
+  /** Gate the issue belongs to (absent for pack file errors) */
+  codename?: string;
+  /** Errors can corrupt a patch; warnings mean a check could not run */
+  severity: 'error' | 'warning';
+  message: string;
 }
 
 /**
  * Resolved bundle information — either a plain JS file or a native binary
  * with embedded JS.
  */
-export interface BundleInfo {
-  /** The file content (utf-8 for JS, latin1 for binary) */
+export type BundleInfo = JsBundleInfo | BinaryBundleInfo;
+
+/**
+ * A plain JS bundle, held as text
+ */
+export interface JsBundleInfo {
+  /** The file content, read as utf-8 */
   content: string;
+  /** Absolute path to the file */
+  path: string;
+  isBinary: false;
+  /** Claude Code version, when it can be determined */
+  version?: string;
+}
+
+/**
+ * A compiled native binary, held as bytes. It is never decoded as a whole:
+ * scans decode it as latin1 a chunk at a time (see scanner.ts), so only
+ * one copy of a 100+ MB binary is in memory.
+ */
+export interface BinaryBundleInfo {
+  /** The file content */
+  buffer: Buffer;
+  /** Absolute path to the file */
+  path: string;
+  isBinary: true;
+  /** Claude Code version, when it can be determined */
+  version?: string;
+}
+
+/**
+ * Where a bundle is, before it has been read (see locateBundle())
+ */
+export interface BundleLocation {
   /** Absolute path to the file */
   path: string;
   /** True when the file is a compiled native binary, not a .js file */
   isBinary: boolean;
+  /** Claude Code version, when it can be determined */
+  version?: string;
+}
+
+/**
+ * Executable format of a native binary
+ */
+export type ContainerFormat = 'elf' | 'macho' | 'unknown';
+
+/**
+ * How the JS is embedded: a Bun standalone module graph or a Node.js
+ * single executable application (SEA) blob
+ */
+export type EmbedKind = 'bun' | 'node-sea';
+
+/**
+ * An embedded payload found in a native binary
+ */
+export interface EmbeddedPayload {
+  kind: EmbedKind;
+  /** Where it was found, e.g. `.bun`, `__BUN,__bun`, `NODE_SEA_BLOB` or `appended` */
+  location: string;
+  /** File offset of the payload */
+  offset: number;
+  length: number;
+}
+
+/**
+ * One embedded JS module, as a byte range of the binary
+ */
+export interface EmbeddedModule {
+  /** Module path inside the payload (Bun) or the SEA's code path */
+  name: string;
+  kind: EmbedKind;
+  /** File offset of the module's source */
+  offset: number;
+  length: number;
+  /** True for the module the binary runs first */
+  entryPoint: boolean;
+}
+
+/**
+ * The parsed layout of a native binary (see parseBinaryContainer())
+ */
+export interface BinaryContainer {
+  format: ContainerFormat;
+  /** Mach-O universal binaries hold one slice per architecture */
+  slices: number;
+  payloads: EmbeddedPayload[];
+  /** Embedded JS modules in file order; one copy per slice */
+  modules: EmbeddedModule[];
 }
 
 /**
@@ -55,8 +317,63 @@ export interface GateStatus {
   detected: boolean;
   enabled: boolean;
   envOverride?: string;
+  /** True when the gate has been forced off by us */
+  forcedOff?: boolean;
+  /** Literal injected with `gates set` (empty when set but unreadable) */
+  value?: string;
+  /** Number of call sites rewritten, for inline (Tier 5) gates and pinned data gates */
+  callSites?: number;
+  /** Embedded copies of the JS patched, when a native binary holds more than one */
+  copies?: number;
+  /**
+   * Offsets where a patched gate's pattern still matches in an embedded
+   * copy of the JS that has no patch for it (native binaries). Claude Code
+   * may run that copy, leaving the patch without effect.
+   */
+  unpatchedOffsets?: number[];
+  /**
+   * Offset of every detectRegex match (characters in JS bundles, bytes in
+   * binaries). More than one means the gate is ambiguous and patching it
+   * needs an `occurrence`. Not set for call-site gates.
+   */
+  matchOffsets?: number[];
+  /**
+   * Set when enabling every gate left this one alone because its matches
+   * (`matchOffsets`) overlap the patch of the named gate (native binaries)
+   */
+  overlapsWith?: string;
+  /** Set when the gate was enabled as a dependency of another gate */
+  requiredBy?: string;
+  /** Why the gate is not expected in this version, e.g. "not present in 2.1.70 (rolled out in 2.1.63)" */
+  unavailableReason?: string;
+  /** Default passed to the accessor in the bundle, e.g. `!1` (absent once patched) */
+  defaultValue?: string;
+  /** Value Statsig assigned to this account, as JSON, from Claude Code's local cache */
+  serverValue?: string;
+  /** True when envOverride is set to a truthy value in the current environment */
+  envSet?: boolean;
+  /** True when any claude-patcher patch (enable, force-off or value) is present */
+  patched?: boolean;
+  /** What Claude Code will see for this gate, from detection */
+  effective?: GateEffectiveState;
+  /** Why the gate has its effective state, e.g. "compiled default !0" */
+  effectiveReason?: string;
 }
 
+/**
+ * How a gate's env override acts on it when set to a truthy value:
+ * 'enable' and 'disable' force the gate on or off, 'require' means the
+ * gate is off unless the variable is set (and then follows its default).
+ */
+export type GateEnvEffect = 'enable' | 'disable' | 'require';
+
+/**
+ * Whether a gate is in effect for Claude Code: a boolean gate is on or
+ * off, a data gate returns a value, and 'unknown' means its default could
+ * not be found.
+ */
+export type GateEffectiveState = 'on' | 'off' | 'value' | 'unknown';
+
 /**
  * Result of a gate patching operation
  */
@@ -65,6 +382,8 @@ export interface GateResult {
   error?: string;
   gatesChanged: GateStatus[];
   backupPath?: string;
+  /** With `dryRun`: the replacements the patch would have written */
+  planned?: PlannedChange[];
 }
 
 /**
@@ -75,6 +394,430 @@ export interface GatePatchConfig {
   cliPath?: string;
   /** Whether to create backup before patching */
   backup?: boolean;
+  /**
+   * Enable a gate's dependencies along with it (default true). When false,
+   * enableGate() refuses if a dependency is off.
+   */
+  resolveDependencies?: boolean;
+  /**
+   * Which detectRegex match to patch (0-based, in bundle order) when the
+   * gate's pattern matches more than one place. Ambiguous gates are refused
+   * without it. Applies to the named gate only, not its dependencies.
+   */
+  occurrence?: number;
+  /**
+   * A native binary the caller has already read. It is patched in place
+   * and written back instead of being read again.
+   */
+  binary?: BinaryBundleInfo;
+  /**
+   * Work out the patch without writing anything: no backup, ledger entry
+   * or bundle write. The result lists the replacements in `planned`.
+   */
+  dryRun?: boolean;
+}
+
+/**
+ * One replacement an enable or force-off patch would write (see planPatch())
+ */
+export interface PlannedChange {
+  codename: string;
+  mode: Exclude<GatePatchMode, 'value'>;
+  /** Offset of the original text in the bundle as it is now (characters in JS bundles, bytes in binaries) */
+  offset: number;
+  original: string;
+  /** Text written in its place, marker included */
+  replacement: string;
+  /** Byte length of `original` (utf-8 in JS bundles, latin1 in binaries) */
+  originalBytes: number;
+  replacementBytes: number;
+  /** Set when the gate is enabled as a dependency of another gate */
+  requiredBy?: string;
+}
+
+/**
+ * Options for planPatch()
+ */
+export interface PatchPlanConfig extends Omit<GatePatchConfig, 'dryRun' | 'backup'> {
+  /** Plan a force-off instead of an enable (single gates only) */
+  mode?: Exclude<GatePatchMode, 'value'>;
+  /** Characters of unchanged text shown around each change in the diff (default 60) */
+  context?: number;
+}
+
+/**
+ * What a patch would do to the bundle, worked out without writing it
+ */
+export interface PatchPlan {
+  success: boolean;
+  error?: string;
+  /** Absolute path to the bundle */
+  path: string;
+  isBinary: boolean;
+  version?: string;
+  /** Gates as the patch would report them, including ones left alone */
+  gatesChanged: GateStatus[];
+  /** Every replacement, in bundle order */
+  changes: PlannedChange[];
+  /**
+   * Unified diff of the changes. Minified lines are cut to `context`
+   * characters around each change, so it is for reading, not for patch(1).
+   */
+  diff: string;
+  /**
+   * Binaries only: whether every replacement keeps the original's byte
+   * length, as a native binary patch must
+   */
+  lengthsMatch?: boolean;
+}
+
+/**
+ * How an unregistered tengu_* flag is used in the bundle, as classified by
+ * the analyzer:
+ *
+ *   wrapper      – Tier 1: `function X(){return W9("tengu_x",!1)}`
+ *   env-guarded  – Tier 2: env-var `if(...)return` guards, then the accessor
+ *   data         – Tier 4: accessor call with a non-boolean default
+ *   inline       – Tier 5: boolean accessor call used directly in code
+ *   telemetry    – event name passed to a logger, not a gate
+ *   unknown      – the string appears, but not as a call argument
+ */
+export type FlagKind = 'wrapper' | 'env-guarded' | 'data' | 'inline' | 'telemetry' | 'unknown';
+
+/**
+ * Analyzer result for a single tengu_* flag
+ */
+export interface FlagAnalysis {
+  flag: string;
+  kind: FlagKind;
+  /** Gate tier implied by the kind (1, 2, 4 or 5) */
+  tier?: number;
+  /** Number of quoted occurrences of the flag in the bundle */
+  occurrences: number;
+  /** JS source of the accessor default, e.g. `!1` or `{}` */
+  defaultValue?: string;
+  /** Function that receives the flag (accessor or event logger) */
+  callee?: string;
+  /** Wrapper function name, for wrapper and env-guarded flags */
+  functionName?: string;
+  /** Environment variables checked by an env-guarded wrapper */
+  envVars?: string[];
+  /** Ready-to-use gate pack entry, for flags that look like gates */
+  candidate?: GatePackGate;
+}
+
+/**
+ * Gate and dynamic config values Claude Code cached from Statsig, by flag name
+ */
+export interface StatsigCache {
+  gates: Record<string, boolean>;
+  configs: Record<string, unknown>;
+  /** Files the values were read from */
+  sources: string[];
+}
+
+/**
+ * Code around one or more occurrences of a gate or flag, extracted from
+ * the bundle and re-indented (see showGateContext())
+ */
+export interface CodeContext {
+  /** Bundle offset of the first occurrence in this code */
+  offset: number;
+  /** Bundle offsets of the extracted code */
+  start: number;
+  end: number;
+  /** Name of the enclosing function, when one was found and it is named */
+  functionName?: string;
+  /** True when no enclosing function was found and a fixed window is shown */
+  partial?: boolean;
+  /** Re-indented code */
+  code: string;
+  /** Ranges of `code` covering each occurrence: pattern matches and flag literals */
+  highlights: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Code contexts for a gate or flag
+ */
+export interface GateContext {
+  /** Statsig flag name */
+  flag: string;
+  /** Codename, for registered gates */
+  codename?: string;
+  contexts: CodeContext[];
+  /** Set when the bundle could not be read or the name is unknown */
+  error?: string;
+}
+
+/**
+ * How a flag is used at one occurrence: checked as a boolean gate, read as
+ * a dynamic config, logged as an event name, or something else
+ */
+export type FlagRole = 'gate' | 'config' | 'event' | 'unknown';
+
+/**
+ * One quoted occurrence of a tengu_* flag in the bundle
+ */
+export interface FlagOccurrence {
+  /** Offset of the flag name (characters in JS bundles, bytes in binaries) */
+  offset: number;
+  role: FlagRole;
+  /** Innermost enclosing function, when it is named */
+  functionName?: string;
+  /** Function the flag is passed to (accessor or event logger) */
+  callee?: string;
+  /** JS source of the default argument, e.g. `!1` or `{}` */
+  defaultValue?: string;
+}
+
+/**
+ * Every occurrence of a tengu_* flag, for telling real gates apart from
+ * telemetry event names
+ */
+export interface FlagUsage {
+  flag: string;
+  /** Most specific role among the occurrences (gate, config, event, unknown) */
+  role: FlagRole;
+  occurrences: FlagOccurrence[];
+}
+
+/**
+ * How an environment variable's value is interpreted
+ */
+export type EnvVarType = 'boolean' | 'string' | 'number';
+
+/**
+ * A known Claude Code environment variable
+ */
+export interface EnvVarInfo {
+  name: string;
+  category: 'feature' | 'api' | 'model' | 'agent' | 'session' | 'shell' | 'network' | 'telemetry' | 'misc';
+  type: EnvVarType;
+  purpose: string;
+  /** Codename of the gate the variable overrides */
+  gate?: string;
+}
+
+/**
+ * How one `process.env` read uses the value: passed to the truthy helper
+ * or negated, parsed as a number, compared with a literal, or used as is
+ */
+export type EnvVarUsage = 'truthy' | 'number' | 'compare' | 'value';
+
+/**
+ * One `process.env.X` reference in the bundle
+ */
+export interface EnvVarReference {
+  /** Offset of `process` (characters in JS bundles, bytes in binaries) */
+  offset: number;
+  usage: EnvVarUsage;
+  /** Innermost enclosing function, when it is named */
+  functionName?: string;
+  /** Function the value is passed to, e.g. the truthy helper or `parseInt` */
+  callee?: string;
+  /** Minified code around the reference, on one line */
+  snippet: string;
+}
+
+/**
+ * Every reference to one environment variable in the bundle
+ */
+export interface EnvVarScan {
+  name: string;
+  /** Type implied by the references (number or boolean when any reference parses it so) */
+  type: EnvVarType;
+  references: EnvVarReference[];
+  /** Registry entry, when the variable is known */
+  info?: EnvVarInfo;
+}
+
+/**
+ * Variables present in one set of names but not the other
+ */
+export interface EnvVarDiff {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * A flag whose classification (and so gate tier) differs between two bundles
+ */
+export interface FlagTierChange {
+  flag: string;
+  from: FlagKind;
+  to: FlagKind;
+  fromTier?: number;
+  toTier?: number;
+}
+
+/**
+ * How a gate's detection differs between two bundles: its pattern stopped
+ * or started matching, it matches a different number of places, its
+ * compiled default changed, or it only applies to one of the versions
+ */
+export type GateChangeKind =
+  | 'stopped-matching'
+  | 'started-matching'
+  | 'match-count'
+  | 'default'
+  | 'added'
+  | 'removed';
+
+/**
+ * One change in a gate's detection between two bundles
+ */
+export interface GateDetectionChange {
+  codename: string;
+  name: string;
+  kind: GateChangeKind;
+  /** Match count or default in the old bundle, when relevant */
+  before?: string;
+  /** Match count or default in the new bundle, when relevant */
+  after?: string;
+}
+
+/**
+ * What changed between two Claude Code bundles (JS or native)
+ */
+export interface BundleDiff {
+  old: { path: string; version?: string };
+  new: { path: string; version?: string };
+  flags: { added: string[]; removed: string[] };
+  tierChanges: FlagTierChange[];
+  envVars: EnvVarDiff;
+  gates: GateDetectionChange[];
+  /** Set when either bundle could not be found */
+  error?: string;
+}
+
+/**
+ * Pristine fingerprint of a Claude Code bundle, recorded with `verify --record`
+ */
+export interface PristineFingerprint {
+  version: string;
+  /** sha256 of the bundle's bytes */
+  sha256: string;
+  size: number;
+  isBinary: boolean;
+}
+
+/**
+ * How a bundle compares with its pristine version: identical, changed only
+ * by our patches, changed in ways our patches do not explain, or unknown
+ * because nothing pristine was available to compare with
+ */
+export type IntegrityState = 'pristine' | 'patched' | 'modified' | 'unknown';
+
+/**
+ * A run of bytes that differs from the pristine bundle
+ */
+export interface ModifiedRange {
+  /** Byte offset in the installed bundle */
+  offset: number;
+  /** Number of bytes at `offset` in the installed bundle */
+  length: number;
+  /** Byte offset of the replaced bytes in the pristine bundle */
+  originalOffset: number;
+  /** Number of replaced bytes in the pristine bundle */
+  originalLength: number;
+  /** 'ours' when a patch marker or ledger entry of ours accounts for the change */
+  origin: 'ours' | 'foreign';
+  /** Gate the bytes belong to, when known */
+  codename?: string;
+  /** Nearest `tengu_*` flag to the replaced bytes, when one is close */
+  flag?: string;
+  /** Start of the replaced (pristine) bytes, printable characters only */
+  before: string;
+  /** Start of the installed bytes, printable characters only */
+  after: string;
+}
+
+/**
+ * A binary ledger entry whose replacement is no longer at its offset
+ */
+export interface LedgerMismatch {
+  codename: string;
+  offset: number;
+  /** 'original' when the pristine bytes are back, 'other' for anything else */
+  found: 'original' | 'other';
+}
+
+/**
+ * Result of checking a bundle against its pristine version (verify)
+ */
+export interface IntegrityReport {
+  path: string;
+  version?: string;
+  isBinary: boolean;
+  size: number;
+  sha256: string;
+  state: IntegrityState;
+  /** Why the bundle is in that state */
+  reason: string;
+  /**
+   * What the bundle was compared with: a pristine fingerprint, the bundle
+   * with our own patches undone, or a backup. `verified` is false for a
+   * backup whose hash no fingerprint confirms.
+   */
+  reference?: {
+    kind: 'fingerprint' | 'reconstructed' | 'backup';
+    path?: string;
+    sha256: string;
+    verified: boolean;
+  };
+  ranges: ModifiedRange[];
+  ledgerMismatches: LedgerMismatch[];
+  error?: string;
+}
+
+/**
+ * Bundle scan results the reference docs are rendered from
+ */
+export interface DocsSource {
+  /** Claude Code version of the scanned bundle */
+  version?: string;
+  flags: FlagAnalysis[];
+  envVars: EnvVarScan[];
+}
+
+/**
+ * A reference doc or site file rendered by `docs generate`
+ */
+export interface GeneratedDoc {
+  /** Path relative to the repository root, e.g. `docs/FEATURE-GATES.md` */
+  path: string;
+  content: string;
+  /** True when the content differs from the file on disk */
+  changed: boolean;
+}
+
+/**
+ * Result of rendering the reference docs
+ */
+export interface DocsResult {
+  files: GeneratedDoc[];
+  /** Version of the bundle the docs were rendered from */
+  version?: string;
+  /** Set when no bundle was found or a file lost its manual sections */
+  error?: string;
+}
+
+/**
+ * Runtime flag overrides read by the accessor hook, keyed by Statsig flag
+ * name, e.g. `{ "tengu_amber_quartz": true, "tengu_crystal_beam": {...} }`
+ */
+export type FlagOverrides = Record<string, unknown>;
+
+/**
+ * State of the runtime override hook in a bundle
+ */
+export interface OverridesHookStatus {
+  /** True when the accessor has been hooked by us */
+  installed: boolean;
+  /** Name of the hooked (or, if not installed, hookable) accessor function */
+  accessor?: string;
+  /** Overrides file the hook reads */
+  overridesPath: string;
 }
 
 /**